@@ -0,0 +1,57 @@
+// Offline check of the analysis pipeline: runs the mock detector's fixture scenes through
+// analyzeFrame (detector → rule engine → finding filter) with the default settings and
+// fails when a scene no longer yields the violation it was written for.
+//
+//   deno run --allow-env scripts/check-mock-detector.ts
+//
+// Needs no credentials, network or database. MOCK_DETECTOR_SCENES must be unset, since it
+// replaces the fixtures.
+import { analyzeFrame, DEFAULT_DETECTION_SETTINGS } from "../supabase/functions/_shared/analysis.ts";
+import { createDetector } from "../supabase/functions/_shared/detectors.ts";
+
+const FRAME_SIZE = { width: 1280, height: 720 };
+
+// One frame per fixture scene (scenes change every 2 s) and what it must report
+const EXPECTED: { time: number; violations: string[] }[] = [
+  { time: 0, violations: ["Human handling a drill"] },
+  { time: 2, violations: ["LH machines collision risk"] },
+  { time: 4, violations: ["Broken cylinder"] },
+  { time: 6, violations: [] },
+  { time: 8, violations: ["Equipment Failure"] },
+];
+
+const detector = createDetector("mock");
+if (!detector) throw new Error("The mock detector is unavailable");
+
+const settings = DEFAULT_DETECTION_SETTINGS;
+let failures = 0;
+
+for (const { time, violations } of EXPECTED) {
+  const findings = await analyzeFrame(
+    { time, frameNumber: time * 30, image: null, detections: [] },
+    {
+      detector,
+      trainingContext: "",
+      contextPrompt: "",
+      datasets: [],
+      thresholds: settings.rule_thresholds,
+      filter: {
+        enabledTypes: settings.enabled_violation_types,
+        confidenceThresholds: settings.confidence_thresholds,
+      },
+      frameSize: FRAME_SIZE,
+      fps: 30,
+    }
+  );
+
+  const found = [...new Set(findings.map((finding) => finding.violation_type))].sort();
+  const ok = found.join("|") === [...violations].sort().join("|");
+  if (!ok) failures++;
+  console.log(`${ok ? "ok  " : "FAIL"} t=${time}s: ${found.join(", ") || "nothing"}${ok ? "" : ` (expected ${violations.join(", ") || "nothing"})`}`);
+}
+
+if (failures > 0) {
+  console.error(`${failures} of ${EXPECTED.length} mock scenes gave unexpected findings`);
+  Deno.exit(1);
+}
+console.log(`All ${EXPECTED.length} mock scenes gave the expected findings`);
@@ -0,0 +1,117 @@
+#!/usr/bin/env node
+// Local SMTP catcher for testing alert emails: accepts every message and prints it.
+//
+//   node scripts/smtp-catcher.mjs [--port 1025]
+//
+// Point the edge functions at it with SMTP_HOST=host.docker.internal (the functions run in
+// Docker under `supabase start`) and SMTP_PORT=1025; SMTP_USER may be anything or unset.
+// Messages are also written to <tmpdir>/mineguard-mail/*.eml.
+import { mkdirSync, writeFileSync } from "node:fs";
+import { createServer } from "node:net";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+const args = process.argv.slice(2);
+const portIndex = args.indexOf("--port");
+const port = portIndex >= 0 ? Number(args[portIndex + 1]) : 1025;
+const outDir = join(tmpdir(), "mineguard-mail");
+mkdirSync(outDir, { recursive: true });
+let received = 0;
+
+const server = createServer((socket) => {
+  const reply = (line) => socket.write(`${line}\r\n`);
+  let buffer = "";
+  let inData = false;
+  let authStep = null;
+  let envelope = { from: "", to: [] };
+
+  reply("220 mineguard-smtp-catcher ready");
+
+  const handleCommand = (line) => {
+    // AUTH LOGIN sends the user name and password as two further lines
+    if (authStep) {
+      authStep = authStep === "user" ? "pass" : null;
+      reply(authStep ? "334 UGFzc3dvcmQ6" : "235 Authentication successful");
+      return;
+    }
+    const [verb] = line.split(" ");
+    switch (verb.toUpperCase()) {
+      case "EHLO":
+        reply("250-mineguard-smtp-catcher");
+        reply("250-AUTH PLAIN LOGIN");
+        reply("250 8BITMIME");
+        break;
+      case "HELO":
+        reply("250 mineguard-smtp-catcher");
+        break;
+      case "AUTH":
+        if (/^AUTH LOGIN$/i.test(line)) {
+          authStep = "user";
+          reply("334 VXNlcm5hbWU6");
+        } else {
+          reply("235 Authentication successful");
+        }
+        break;
+      case "MAIL":
+        envelope = { from: line.replace(/^MAIL FROM:\s*/i, ""), to: [] };
+        reply("250 OK");
+        break;
+      case "RCPT":
+        envelope.to.push(line.replace(/^RCPT TO:\s*/i, ""));
+        reply("250 OK");
+        break;
+      case "DATA":
+        inData = true;
+        reply("354 End data with <CR><LF>.<CR><LF>");
+        break;
+      case "RSET":
+        envelope = { from: "", to: [] };
+        reply("250 OK");
+        break;
+      case "NOOP":
+        reply("250 OK");
+        break;
+      case "QUIT":
+        reply("221 Bye");
+        socket.end();
+        break;
+      default:
+        reply("502 Command not implemented");
+    }
+  };
+
+  const handleMessage = (data) => {
+    received += 1;
+    const file = join(outDir, `${Date.now()}-${received}.eml`);
+    // Undo dot-stuffing
+    const message = data.replace(/^\.\./gm, ".");
+    writeFileSync(file, message);
+    console.log(`\n=== Message ${received} from ${envelope.from} to ${envelope.to.join(", ")} (${file})`);
+    console.log(message);
+    reply("250 OK: message accepted");
+  };
+
+  socket.on("data", (chunk) => {
+    buffer += chunk.toString("utf8");
+    while (true) {
+      if (inData) {
+        const end = buffer.indexOf("\r\n.\r\n");
+        if (end < 0) return;
+        handleMessage(buffer.slice(0, end));
+        buffer = buffer.slice(end + 5);
+        inData = false;
+        continue;
+      }
+      const newline = buffer.indexOf("\r\n");
+      if (newline < 0) return;
+      const line = buffer.slice(0, newline);
+      buffer = buffer.slice(newline + 2);
+      handleCommand(line);
+    }
+  });
+  socket.on("error", (error) => console.error("Connection error:", error.message));
+});
+
+server.listen(port, () => {
+  console.log(`SMTP catcher listening on port ${port}; messages are printed here and saved to ${outDir}`);
+});
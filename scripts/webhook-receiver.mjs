@@ -0,0 +1,47 @@
+#!/usr/bin/env node
+// Local webhook receiver for testing alert webhooks: prints every request it gets.
+//
+//   node scripts/webhook-receiver.mjs [--port 8089] [--secret <ALERT_WEBHOOK_SECRET>]
+//
+// Use http://host.docker.internal:8089/ as the webhook URL of an alert rule when the
+// functions run under `supabase start`. With --secret, the X-MineGuard-Signature header
+// is checked against an HMAC-SHA256 of the body.
+import { createHmac, timingSafeEqual } from "node:crypto";
+import { createServer } from "node:http";
+
+const args = process.argv.slice(2);
+const option = (name, fallback) => {
+  const index = args.indexOf(name);
+  return index >= 0 ? args[index + 1] : fallback;
+};
+const port = Number(option("--port", 8089));
+const secret = option("--secret", process.env.ALERT_WEBHOOK_SECRET);
+
+const verifySignature = (body, header) => {
+  if (!secret) return "not checked (no --secret)";
+  if (!header) return "MISSING";
+  const expected = Buffer.from(`sha256=${createHmac("sha256", secret).update(body).digest("hex")}`);
+  const actual = Buffer.from(header);
+  return expected.length === actual.length && timingSafeEqual(expected, actual) ? "valid" : "INVALID";
+};
+
+const server = createServer((req, res) => {
+  const chunks = [];
+  req.on("data", (chunk) => chunks.push(chunk));
+  req.on("end", () => {
+    const body = Buffer.concat(chunks).toString("utf8");
+    console.log(`\n=== ${new Date().toISOString()} ${req.method} ${req.url}`);
+    console.log(`Signature: ${verifySignature(body, req.headers["x-mineguard-signature"])}`);
+    try {
+      console.log(JSON.stringify(JSON.parse(body), null, 2));
+    } catch {
+      console.log(body);
+    }
+    res.writeHead(200, { "Content-Type": "application/json" });
+    res.end(JSON.stringify({ received: true }));
+  });
+});
+
+server.listen(port, () => {
+  console.log(`Webhook receiver listening on http://localhost:${port}/`);
+});
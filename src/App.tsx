@@ -8,10 +8,23 @@ import { supabase } from "@/integrations/supabase/client";
 import { Auth } from "@/components/Auth";
 import { ThemeProvider } from "@/components/ThemeProvider";
 import { ThemeToggle } from "@/components/ThemeToggle";
+import AlertInbox from "@/components/AlertInbox";
 import Sidebar from "./components/Sidebar";
+import RequirePermission from "./components/RequirePermission";
+import Dashboard from "./pages/Dashboard";
+import Live from "./pages/Live";
 import Upload from "./pages/Upload";
 import Logs from "./pages/Logs";
+import Review from "./pages/Review";
 import Models from "./pages/Models";
+import Cameras from "./pages/Cameras";
+import Alerts from "./pages/Alerts";
+import Suppression from "./pages/Suppression";
+import GroundTruth from "./pages/GroundTruth";
+import Evaluation from "./pages/Evaluation";
+import Audit from "./pages/Audit";
+import Users from "./pages/Users";
+import Settings from "./pages/Settings";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -30,6 +43,9 @@ const App = () => {
       data: { subscription },
     } = supabase.auth.onAuthStateChange((_event, session) => {
       setSession(session);
+      // Role and site access belong to the previous session
+      queryClient.removeQueries({ queryKey: ["profile"] });
+      queryClient.removeQueries({ queryKey: ["sites"] });
     });
 
     return () => subscription.unsubscribe();
@@ -63,15 +79,26 @@ const App = () => {
             <div className="flex h-screen overflow-hidden">
               <Sidebar />
               <main className="flex-1 overflow-y-auto">
-                <div className="flex justify-end p-4 border-b border-border">
+                <div className="flex justify-end gap-2 p-4 border-b border-border">
+                  <AlertInbox />
                   <ThemeToggle />
                 </div>
                 <div className="p-8">
                   <Routes>
-                    <Route path="/" element={<Logs />} />
+                    <Route path="/" element={<Dashboard />} />
+                    <Route path="/live" element={<Live />} />
                     <Route path="/upload" element={<Upload />} />
                     <Route path="/logs" element={<Logs />} />
+                    <Route path="/review" element={<RequirePermission permission="review_violations"><Review /></RequirePermission>} />
                     <Route path="/models" element={<Models />} />
+                    <Route path="/cameras" element={<Cameras />} />
+                    <Route path="/alerts" element={<Alerts />} />
+                    <Route path="/suppression" element={<Suppression />} />
+                    <Route path="/ground-truth" element={<GroundTruth />} />
+                    <Route path="/evaluation" element={<Evaluation />} />
+                    <Route path="/audit" element={<RequirePermission permission="view_audit_log"><Audit /></RequirePermission>} />
+                    <Route path="/settings" element={<RequirePermission permission="analyze_videos"><Settings /></RequirePermission>} />
+                    <Route path="/users" element={<RequirePermission permission="manage_users"><Users /></RequirePermission>} />
                     <Route path="*" element={<NotFound />} />
                   </Routes>
                 </div>
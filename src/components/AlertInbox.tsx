@@ -0,0 +1,86 @@
+import { Link } from "react-router-dom";
+import { useQueryClient } from "@tanstack/react-query";
+import { Bell } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { cn } from "@/lib/utils";
+import { useCurrentSite } from "@/hooks/use-current-site";
+import { markAlertsRead, useAlertInbox, useAlertNotifications } from "@/hooks/use-alerts";
+
+const INBOX_PREVIEW = 8;
+
+// Header button with the in-app alerts of the current site
+const AlertInbox = () => {
+  const queryClient = useQueryClient();
+  const { siteId } = useCurrentSite();
+  useAlertNotifications(siteId);
+  const { data } = useAlertInbox(siteId);
+  const alerts = (data?.alerts ?? []).filter((alert) => alert.notify_in_app);
+  const unread = alerts.filter((alert) => !data?.readIds.has(alert.id));
+
+  const markAllRead = async () => {
+    try {
+      await markAlertsRead(unread.map((alert) => alert.id));
+      queryClient.invalidateQueries({ queryKey: ["alerts", siteId] });
+    } catch (error) {
+      console.error("Error marking alerts as read:", error);
+      toast.error("Failed to mark alerts as read");
+    }
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="icon" className="relative" aria-label="Alerts">
+          <Bell className="h-5 w-5" />
+          {unread.length > 0 && (
+            <span className="absolute -right-0.5 -top-0.5 flex h-4 min-w-4 items-center justify-center rounded-full bg-destructive px-1 text-[10px] font-semibold text-destructive-foreground">
+              {unread.length > 9 ? "9+" : unread.length}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 p-0">
+        <div className="flex items-center justify-between border-b border-border px-4 py-2">
+          <span className="text-sm font-semibold">Alerts</span>
+          <Button variant="link" size="sm" className="h-auto p-0" onClick={markAllRead} disabled={unread.length === 0}>
+            Mark all read
+          </Button>
+        </div>
+        {alerts.length === 0 ? (
+          <p className="px-4 py-6 text-center text-sm text-muted-foreground">No alerts at this site</p>
+        ) : (
+          <div className="max-h-96 overflow-auto">
+            {alerts.slice(0, INBOX_PREVIEW).map((alert) => (
+              <div
+                key={alert.id}
+                className={cn("border-b border-border px-4 py-2 last:border-0", !data?.readIds.has(alert.id) && "bg-primary/5")}
+              >
+                <div className="flex items-center justify-between gap-2">
+                  <span className={cn("truncate text-sm font-medium", alert.severity === "critical" && "text-destructive")}>
+                    {alert.violation_type}
+                  </span>
+                  <span className="shrink-0 text-xs text-muted-foreground">
+                    {new Date(alert.first_seen_at).toLocaleTimeString()}
+                  </span>
+                </div>
+                <div className="truncate text-xs text-muted-foreground">
+                  {alert.rule_name} · {alert.source_name}
+                  {alert.occurrence_count > 1 && ` · ${alert.occurrence_count} detections`}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+        <div className="border-t border-border px-4 py-2 text-center">
+          <Link to="/alerts" className="text-sm text-primary hover:underline">
+            All alerts and rules
+          </Link>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default AlertInbox;
@@ -0,0 +1,337 @@
+import { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type { TablesInsert } from "@/integrations/supabase/types";
+import { SEVERITIES, VIOLATION_TYPES } from "@/lib/violations";
+import type { AlertRule } from "@/hooks/use-alerts";
+import type { Camera } from "@/hooks/use-cameras";
+
+export type AlertRuleDraft = Omit<TablesInsert<"alert_rules">, "organization_id">;
+
+const ANY_CAMERA = "any";
+const ALL_SITES = "all";
+const THIS_SITE = "site";
+
+interface AlertRuleDialogProps {
+  open: boolean;
+  // The rule being edited, or null to create one
+  rule: AlertRule | null;
+  siteId: string;
+  siteName: string;
+  cameras: Camera[];
+  // Organization-wide rules are for admins only
+  canTargetAllSites: boolean;
+  saving: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSubmit: (draft: AlertRuleDraft) => void;
+}
+
+const emptyDraft = () => ({
+  name: "",
+  scope: THIS_SITE,
+  camera: ANY_CAMERA,
+  violationTypes: [] as string[],
+  severities: ["critical"] as string[],
+  minConfidence: "70",
+  activeFrom: "",
+  activeTo: "",
+  timezone: Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC",
+  dedupMinutes: "10",
+  notifyInApp: true,
+  emailRecipients: "",
+  webhookUrl: "",
+  isActive: true,
+});
+
+const toggle = (values: string[], value: string, on: boolean) =>
+  on ? [...values, value] : values.filter((v) => v !== value);
+
+// Postgres TIME comes back as HH:MM:SS; <input type="time"> wants HH:MM
+const toTimeInput = (time: string | null) => (time ? time.slice(0, 5) : "");
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+$/;
+
+// Create or edit an alert rule: what matches, when, and where it is delivered
+const AlertRuleDialog = ({
+  open,
+  rule,
+  siteId,
+  siteName,
+  cameras,
+  canTargetAllSites,
+  saving,
+  onOpenChange,
+  onSubmit,
+}: AlertRuleDialogProps) => {
+  const [draft, setDraft] = useState(emptyDraft);
+
+  useEffect(() => {
+    if (!open) return;
+    setDraft(
+      rule
+        ? {
+            name: rule.name,
+            scope: rule.site_id ? THIS_SITE : ALL_SITES,
+            camera: rule.camera_id ?? ANY_CAMERA,
+            violationTypes: rule.violation_types,
+            severities: rule.severities,
+            minConfidence: String(Math.round(Number(rule.min_confidence) * 100)),
+            activeFrom: toTimeInput(rule.active_from),
+            activeTo: toTimeInput(rule.active_to),
+            timezone: rule.timezone,
+            dedupMinutes: String(rule.dedup_minutes),
+            notifyInApp: rule.notify_in_app,
+            emailRecipients: rule.email_recipients.join(", "),
+            webhookUrl: rule.webhook_url ?? "",
+            isActive: rule.is_active,
+          }
+        : emptyDraft()
+    );
+  }, [open, rule]);
+
+  const emails = draft.emailRecipients.split(/[,;\s]+/).filter(Boolean);
+  const confidence = Number(draft.minConfidence);
+  const dedup = Number(draft.dedupMinutes);
+  const hasChannel = draft.notifyInApp || emails.length > 0 || draft.webhookUrl.trim() !== "";
+  const errors = [
+    !draft.name.trim() && "Give the rule a name",
+    !(confidence >= 0 && confidence <= 100) && "Confidence must be between 0 and 100%",
+    !(Number.isInteger(dedup) && dedup >= 1 && dedup <= 1440) && "Merge window must be 1 to 1440 minutes",
+    !!draft.activeFrom !== !!draft.activeTo && "Set both ends of the time window, or neither",
+    emails.some((email) => !EMAIL_PATTERN.test(email)) && "One of the email addresses is invalid",
+    !hasChannel && "Pick at least one channel",
+  ].filter(Boolean) as string[];
+
+  const submit = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (errors.length > 0) return;
+    const allSites = draft.scope === ALL_SITES;
+    onSubmit({
+      name: draft.name.trim(),
+      site_id: allSites ? null : siteId,
+      camera_id: allSites || draft.camera === ANY_CAMERA ? null : draft.camera,
+      violation_types: draft.violationTypes,
+      severities: draft.severities,
+      min_confidence: confidence / 100,
+      active_from: draft.activeFrom || null,
+      active_to: draft.activeTo || null,
+      timezone: draft.timezone.trim() || "UTC",
+      dedup_minutes: dedup,
+      notify_in_app: draft.notifyInApp,
+      email_recipients: emails,
+      webhook_url: draft.webhookUrl.trim() || null,
+      is_active: draft.isActive,
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-2xl">
+        <form onSubmit={submit}>
+          <DialogHeader>
+            <DialogTitle>{rule ? `Edit ${rule.name}` : "New alert rule"}</DialogTitle>
+            <DialogDescription>
+              Detections of one event (same type and camera or video) within the merge window raise a single alert.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid grid-cols-2 gap-4 py-4">
+            <div className="col-span-2 space-y-2">
+              <Label htmlFor="rule-name">Name</Label>
+              <Input
+                id="rule-name"
+                placeholder="Critical violations on night shift"
+                value={draft.name}
+                onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                required
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Sites</Label>
+              <Select value={draft.scope} onValueChange={(scope) => setDraft({ ...draft, scope })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={THIS_SITE}>{siteName}</SelectItem>
+                  {(canTargetAllSites || draft.scope === ALL_SITES) && (
+                    <SelectItem value={ALL_SITES}>All sites of the organization</SelectItem>
+                  )}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Camera</Label>
+              <Select
+                value={draft.camera}
+                onValueChange={(camera) => setDraft({ ...draft, camera })}
+                disabled={draft.scope === ALL_SITES}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ANY_CAMERA}>Any camera</SelectItem>
+                  {cameras.map((camera) => (
+                    <SelectItem key={camera.id} value={camera.id}>
+                      {camera.zone ? `${camera.name} (${camera.zone})` : camera.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="col-span-2 space-y-2">
+              <Label>Violation types</Label>
+              <p className="text-xs text-muted-foreground">None selected matches every type</p>
+              <div className="grid grid-cols-2 gap-2">
+                {VIOLATION_TYPES.map((type) => (
+                  <div key={type} className="flex items-center gap-2">
+                    <Checkbox
+                      id={`rule-type-${type}`}
+                      checked={draft.violationTypes.includes(type)}
+                      onCheckedChange={(checked) =>
+                        setDraft({ ...draft, violationTypes: toggle(draft.violationTypes, type, checked === true) })
+                      }
+                    />
+                    <Label htmlFor={`rule-type-${type}`} className="font-normal">{type}</Label>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Severities</Label>
+              <div className="flex gap-4">
+                {SEVERITIES.map((severity) => (
+                  <div key={severity} className="flex items-center gap-2">
+                    <Checkbox
+                      id={`rule-severity-${severity}`}
+                      checked={draft.severities.includes(severity)}
+                      onCheckedChange={(checked) =>
+                        setDraft({ ...draft, severities: toggle(draft.severities, severity, checked === true) })
+                      }
+                    />
+                    <Label htmlFor={`rule-severity-${severity}`} className="font-normal capitalize">{severity}</Label>
+                  </div>
+                ))}
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="rule-confidence">Minimum confidence (%)</Label>
+              <Input
+                id="rule-confidence"
+                type="number"
+                min={0}
+                max={100}
+                value={draft.minConfidence}
+                onChange={(e) => setDraft({ ...draft, minConfidence: e.target.value })}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Active between</Label>
+              <div className="flex items-center gap-2">
+                <Input
+                  type="time"
+                  aria-label="Active from"
+                  value={draft.activeFrom}
+                  onChange={(e) => setDraft({ ...draft, activeFrom: e.target.value })}
+                />
+                <span className="text-muted-foreground">–</span>
+                <Input
+                  type="time"
+                  aria-label="Active until"
+                  value={draft.activeTo}
+                  onChange={(e) => setDraft({ ...draft, activeTo: e.target.value })}
+                />
+              </div>
+              <p className="text-xs text-muted-foreground">Empty: all day. The window may wrap past midnight.</p>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="rule-timezone">Time zone</Label>
+              <Input
+                id="rule-timezone"
+                placeholder="Australia/Perth"
+                value={draft.timezone}
+                onChange={(e) => setDraft({ ...draft, timezone: e.target.value })}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="rule-dedup">Merge repeats within (minutes)</Label>
+              <Input
+                id="rule-dedup"
+                type="number"
+                min={1}
+                max={1440}
+                value={draft.dedupMinutes}
+                onChange={(e) => setDraft({ ...draft, dedupMinutes: e.target.value })}
+              />
+            </div>
+            <div className="flex items-center gap-3 pt-6">
+              <Switch
+                id="rule-in-app"
+                checked={draft.notifyInApp}
+                onCheckedChange={(notifyInApp) => setDraft({ ...draft, notifyInApp })}
+              />
+              <Label htmlFor="rule-in-app">In-app inbox</Label>
+            </div>
+
+            <div className="col-span-2 space-y-2">
+              <Label htmlFor="rule-emails">Email recipients</Label>
+              <Textarea
+                id="rule-emails"
+                rows={2}
+                placeholder="shift-supervisor@example.com, safety@example.com"
+                value={draft.emailRecipients}
+                onChange={(e) => setDraft({ ...draft, emailRecipients: e.target.value })}
+              />
+            </div>
+            <div className="col-span-2 space-y-2">
+              <Label htmlFor="rule-webhook">Webhook URL</Label>
+              <Input
+                id="rule-webhook"
+                type="url"
+                className="font-mono"
+                placeholder="https://hooks.example.com/mineguard"
+                value={draft.webhookUrl}
+                onChange={(e) => setDraft({ ...draft, webhookUrl: e.target.value })}
+              />
+              <p className="text-xs text-muted-foreground">Receives a JSON POST per alert.</p>
+            </div>
+
+            <div className="col-span-2 flex items-center gap-3">
+              <Switch
+                id="rule-active"
+                checked={draft.isActive}
+                onCheckedChange={(isActive) => setDraft({ ...draft, isActive })}
+              />
+              <Label htmlFor="rule-active">Active</Label>
+            </div>
+
+            {errors.length > 0 && draft.name.trim() && (
+              <p className="col-span-2 text-sm text-destructive">{errors[0]}</p>
+            )}
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={errors.length > 0 || saving}>
+              {rule ? "Save changes" : "Create rule"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default AlertRuleDialog;
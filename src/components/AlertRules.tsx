@@ -0,0 +1,295 @@
+import { useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Bell, Mail, Pencil, Plus, Trash2, Webhook } from "lucide-react";
+import { toast } from "sonner";
+import { supabase } from "@/integrations/supabase/client";
+import { useProfile } from "@/hooks/use-profile";
+import { useCurrentSite } from "@/hooks/use-current-site";
+import { useCameras } from "@/hooks/use-cameras";
+import {
+  markAlertsRead,
+  useAlertInbox,
+  useAlertRules,
+  type AlertDeliveries,
+  type AlertRule,
+} from "@/hooks/use-alerts";
+import AlertRuleDialog, { type AlertRuleDraft } from "@/components/AlertRuleDialog";
+
+const describeMatch = (rule: AlertRule) =>
+  [
+    rule.violation_types.length ? rule.violation_types.join(", ") : "Any type",
+    rule.severities.length ? rule.severities.join("/") : "any severity",
+    `≥ ${Math.round(Number(rule.min_confidence) * 100)}%`,
+  ].join(" · ");
+
+const describeWindow = (rule: AlertRule) =>
+  rule.active_from && rule.active_to
+    ? `${rule.active_from.slice(0, 5)}–${rule.active_to.slice(0, 5)} ${rule.timezone}`
+    : "All day";
+
+const DeliveryBadge = ({ channel, outcome }: { channel: string; outcome: string }) => (
+  <Badge
+    variant={outcome === "sent" ? "secondary" : outcome.startsWith("skipped") ? "outline" : "destructive"}
+    title={outcome}
+  >
+    {channel}: {outcome === "sent" ? "sent" : outcome.split(":")[0]}
+  </Badge>
+);
+
+// Alert rules of the current site (and the organization-wide ones) and the alerts they raised
+const AlertRules = () => {
+  const queryClient = useQueryClient();
+  const { profile, role, can } = useProfile();
+  const canManage = can("manage_alerts");
+  const { site, siteId } = useCurrentSite();
+  const { data: cameras = [] } = useCameras(siteId);
+  const { data: rules = [], isLoading } = useAlertRules(siteId);
+  const { data: inbox } = useAlertInbox(siteId);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editing, setEditing] = useState<AlertRule | null>(null);
+  const [saving, setSaving] = useState(false);
+  const cameraName = (id: string | null) => cameras.find((camera) => camera.id === id)?.name;
+
+  const openDialog = (rule: AlertRule | null) => {
+    setEditing(rule);
+    setDialogOpen(true);
+  };
+
+  const refreshRules = () => queryClient.invalidateQueries({ queryKey: ["alert-rules"] });
+
+  const saveRule = async (draft: AlertRuleDraft) => {
+    if (!profile?.organization_id) return;
+    setSaving(true);
+    const { error } = editing
+      ? await supabase.from("alert_rules").update(draft).eq("id", editing.id)
+      : await supabase.from("alert_rules").insert({ ...draft, organization_id: profile.organization_id });
+    setSaving(false);
+
+    if (error) {
+      console.error("Error saving alert rule:", error);
+      toast.error(`Failed to save alert rule: ${error.message}`);
+      return;
+    }
+    toast.success(editing ? `${draft.name} updated` : `${draft.name} created`);
+    setDialogOpen(false);
+    refreshRules();
+  };
+
+  const setActive = async (rule: AlertRule, isActive: boolean) => {
+    const { error } = await supabase.from("alert_rules").update({ is_active: isActive }).eq("id", rule.id);
+    if (error) {
+      console.error("Error updating alert rule:", error);
+      toast.error(`Failed to update alert rule: ${error.message}`);
+      return;
+    }
+    refreshRules();
+  };
+
+  const deleteRule = async (rule: AlertRule) => {
+    if (!confirm(`Delete the alert rule ${rule.name}? Alerts it raised are kept.`)) return;
+
+    const { error } = await supabase.from("alert_rules").delete().eq("id", rule.id);
+    if (error) {
+      console.error("Error deleting alert rule:", error);
+      toast.error(`Failed to delete alert rule: ${error.message}`);
+      return;
+    }
+    toast.success(`${rule.name} deleted`);
+    refreshRules();
+  };
+
+  const markRead = async (alertIds: string[]) => {
+    try {
+      await markAlertsRead(alertIds);
+      queryClient.invalidateQueries({ queryKey: ["alerts", siteId] });
+    } catch (error) {
+      console.error("Error marking alerts as read:", error);
+      toast.error("Failed to mark alerts as read");
+    }
+  };
+
+  const alerts = inbox?.alerts ?? [];
+  const unreadIds = alerts.filter((alert) => !inbox?.readIds.has(alert.id)).map((alert) => alert.id);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold bg-gradient-primary bg-clip-text text-transparent">Alerts</h1>
+          <p className="text-muted-foreground mt-1">
+            Rules that notify people of violations{site ? ` at ${site.name}` : ""} by email, webhook and the in-app inbox
+          </p>
+        </div>
+        {canManage && (
+          <Button onClick={() => openDialog(null)} disabled={!siteId}>
+            <Plus className="h-4 w-4 mr-2" />
+            New rule
+          </Button>
+        )}
+      </div>
+
+      <Card className="shadow-card border-border">
+        <CardHeader>
+          <CardTitle>Alert rules</CardTitle>
+          <CardDescription>
+            Every violation recorded at the site is checked against the active rules; repeats of one event are merged
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="text-center py-8">Loading alert rules...</div>
+          ) : rules.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">No alert rules for this site yet.</div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Scope</TableHead>
+                  <TableHead>Matches</TableHead>
+                  <TableHead>Active</TableHead>
+                  <TableHead>Channels</TableHead>
+                  <TableHead>On</TableHead>
+                  {canManage && <TableHead className="text-right">Actions</TableHead>}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rules.map((rule) => (
+                  <TableRow key={rule.id} className={rule.is_active ? undefined : "opacity-60"}>
+                    <TableCell className="font-medium">{rule.name}</TableCell>
+                    <TableCell className="text-sm">
+                      {rule.site_id ? site?.name : "All sites"}
+                      {rule.camera_id && (
+                        <div className="text-xs text-muted-foreground">{cameraName(rule.camera_id) ?? "Camera"}</div>
+                      )}
+                    </TableCell>
+                    <TableCell className="max-w-[280px] text-sm text-muted-foreground">{describeMatch(rule)}</TableCell>
+                    <TableCell className="text-sm text-muted-foreground">
+                      {describeWindow(rule)}
+                      <div className="text-xs">merge {rule.dedup_minutes} min</div>
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex gap-2 text-muted-foreground">
+                        {rule.notify_in_app && <Bell className="h-4 w-4" aria-label="In-app" />}
+                        {rule.email_recipients.length > 0 && (
+                          <Mail className="h-4 w-4" aria-label={`Email: ${rule.email_recipients.join(", ")}`} />
+                        )}
+                        {rule.webhook_url && <Webhook className="h-4 w-4" aria-label="Webhook" />}
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      <Switch
+                        checked={rule.is_active}
+                        onCheckedChange={(isActive) => setActive(rule, isActive)}
+                        disabled={!canManage}
+                        aria-label="Rule active"
+                      />
+                    </TableCell>
+                    {canManage && (
+                      <TableCell className="text-right">
+                        <div className="flex justify-end gap-2">
+                          <Button variant="ghost" size="sm" onClick={() => openDialog(rule)}>
+                            <Pencil className="h-4 w-4" />
+                          </Button>
+                          <Button variant="ghost" size="sm" onClick={() => deleteRule(rule)}>
+                            <Trash2 className="h-4 w-4 text-destructive" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    )}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card className="shadow-card border-border">
+        <CardHeader className="flex flex-row items-start justify-between space-y-0">
+          <div className="space-y-1.5">
+            <CardTitle>Recent alerts</CardTitle>
+            <CardDescription>Alerts raised at this site and how they were delivered</CardDescription>
+          </div>
+          <Button variant="outline" size="sm" onClick={() => markRead(unreadIds)} disabled={unreadIds.length === 0}>
+            Mark all read
+          </Button>
+        </CardHeader>
+        <CardContent>
+          {alerts.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">No alerts raised yet.</div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Violation</TableHead>
+                  <TableHead>Source</TableHead>
+                  <TableHead>Rule</TableHead>
+                  <TableHead>Seen</TableHead>
+                  <TableHead>Delivery</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {alerts.map((alert) => {
+                  const unread = !inbox?.readIds.has(alert.id);
+                  const deliveries = Object.entries((alert.deliveries ?? {}) as AlertDeliveries);
+                  return (
+                    <TableRow key={alert.id} className={unread ? "bg-primary/5" : undefined}>
+                      <TableCell>
+                        <Badge variant={alert.severity === "critical" ? "destructive" : "outline"}>
+                          {alert.violation_type}
+                        </Badge>
+                        <div className="mt-1 text-xs text-muted-foreground">
+                          peak {(alert.confidence * 100).toFixed(0)}%
+                        </div>
+                      </TableCell>
+                      <TableCell className="max-w-[200px] truncate text-sm">{alert.source_name}</TableCell>
+                      <TableCell className="text-sm text-muted-foreground">{alert.rule_name}</TableCell>
+                      <TableCell className="text-sm">
+                        {new Date(alert.first_seen_at).toLocaleString()}
+                        {alert.occurrence_count > 1 && (
+                          <div className="text-xs text-muted-foreground">
+                            {alert.occurrence_count} detections until {new Date(alert.last_seen_at).toLocaleTimeString()}
+                          </div>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex flex-wrap gap-1">
+                          {alert.notify_in_app && <Badge variant="secondary">in-app</Badge>}
+                          {deliveries.map(([channel, outcome]) => (
+                            <DeliveryBadge key={channel} channel={channel} outcome={outcome ?? ""} />
+                          ))}
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {siteId && (
+        <AlertRuleDialog
+          open={dialogOpen}
+          rule={editing}
+          siteId={siteId}
+          siteName={site?.name ?? "This site"}
+          cameras={cameras}
+          canTargetAllSites={role === "admin"}
+          saving={saving}
+          onOpenChange={setDialogOpen}
+          onSubmit={saveRule}
+        />
+      )}
+    </div>
+  );
+};
+
+export default AlertRules;
@@ -0,0 +1,82 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { Button } from "@/components/ui/button";
+import { Loader2 } from "lucide-react";
+import { useNavigate } from "react-router-dom";
+import { useAnalysisJobs, type AnalysisJob } from "@/hooks/use-analysis-jobs";
+
+const PHASE_LABELS: Record<string, string> = {
+  queued: "Waiting for a worker",
+  frames: "Analyzing frames",
+  done: "Complete",
+  failed: "Failed",
+};
+
+const jobProgress = (job: AnalysisJob) => {
+  if (job.status === "succeeded") return 100;
+  if (!job.frames_total) return job.status === "running" ? 5 : 0;
+  return Math.round((job.frames_done / job.frames_total) * 100);
+};
+
+const AnalysisJobs = () => {
+  const navigate = useNavigate();
+  const { data: jobs = [], isLoading } = useAnalysisJobs();
+
+  if (isLoading || jobs.length === 0) return null;
+
+  return (
+    <Card className="shadow-card border-border">
+      <CardHeader>
+        <CardTitle>Analysis Jobs</CardTitle>
+        <CardDescription>
+          Analysis runs in the background; you can leave this page and come back later
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {jobs.map((job) => {
+          const active = job.status === "queued" || job.status === "running";
+          return (
+            <div key={job.id} className="space-y-2 p-4 rounded-lg border border-border">
+              <div className="flex items-center justify-between gap-3">
+                <div className="flex items-center gap-2 min-w-0">
+                  {active && <Loader2 className="h-4 w-4 animate-spin text-primary shrink-0" />}
+                  <span className="font-medium truncate">{job.videos?.original_name || "Unknown video"}</span>
+                </div>
+                <div className="flex items-center gap-2 shrink-0">
+                  <Badge variant={job.status === "failed" ? "destructive" : active ? "outline" : "secondary"}>
+                    {job.status}
+                  </Badge>
+                  {job.status === "succeeded" && (
+                    <Button variant="ghost" size="sm" onClick={() => navigate("/logs")}>
+                      {job.violations_found} violations
+                    </Button>
+                  )}
+                </div>
+              </div>
+              {active && (
+                <>
+                  <Progress value={jobProgress(job)} className="h-2" />
+                  <p className="text-xs text-muted-foreground">
+                    {PHASE_LABELS[job.phase] || job.phase} • {job.frames_done}/{job.frames_total} frames •{" "}
+                    {job.violations_found} violations so far
+                  </p>
+                </>
+              )}
+              {job.status === "succeeded" && job.frames_failed > 0 && (
+                <p className="text-xs text-muted-foreground">
+                  {job.frames_failed} of {job.frames_total} frames could not be analyzed by the detector
+                </p>
+              )}
+              {job.status === "failed" && job.error_message && (
+                <p className="text-xs text-destructive">{job.error_message}</p>
+              )}
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default AnalysisJobs;
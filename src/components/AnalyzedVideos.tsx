@@ -0,0 +1,85 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Filter } from "lucide-react";
+import type { Tables } from "@/integrations/supabase/types";
+
+export type VideoWithJobs = Tables<'videos'> & {
+  analysis_jobs: Tables<'analysis_jobs'>[];
+  violation_events: { count: number }[];
+};
+
+const jobStatusVariant = (status?: string) => {
+  switch (status) {
+    case 'failed':
+      return 'destructive' as const;
+    case 'succeeded':
+      return 'secondary' as const;
+    default:
+      return 'outline' as const;
+  }
+};
+
+interface AnalyzedVideosProps {
+  videos: VideoWithJobs[];
+  selectedVideoId: string | null;
+  onSelect: (videoId: string | null) => void;
+}
+
+// Recent videos with the state of their latest analysis job and number of violation events
+const AnalyzedVideos = ({ videos, selectedVideoId, onSelect }: AnalyzedVideosProps) => (
+  <Card className="shadow-card border-border">
+    <CardHeader>
+      <CardTitle>Analyzed Videos</CardTitle>
+      <CardDescription>Most recent uploads; select one to show only its violations</CardDescription>
+    </CardHeader>
+    <CardContent>
+      {videos.length === 0 ? (
+        <div className="text-center py-8">No videos analyzed yet. Upload a video to start analysis.</div>
+      ) : (
+        <ScrollArea className="h-64">
+          <div className="space-y-2 pr-4">
+            {videos.map((video) => {
+              const job = video.analysis_jobs[0] as Tables<'analysis_jobs'> | undefined;
+              const selected = video.id === selectedVideoId;
+              return (
+                <div
+                  key={video.id}
+                  className={`flex items-center justify-between gap-4 rounded-lg border p-3 ${selected ? 'border-primary' : 'border-border'}`}
+                >
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium truncate">{video.original_name}</span>
+                      <Badge variant="secondary">{video.violation_events[0]?.count ?? 0}</Badge>
+                      {job && <Badge variant={jobStatusVariant(job.status)}>{job.status}</Badge>}
+                    </div>
+                    {job?.status === 'failed' && job.error_message ? (
+                      <p className="text-xs text-destructive truncate">Analysis failed: {job.error_message}</p>
+                    ) : (
+                      <p className="text-xs text-muted-foreground">
+                        {job && ['queued', 'running'].includes(job.status)
+                          ? 'Analysis in progress...'
+                          : new Date(video.created_at).toLocaleString()}
+                      </p>
+                    )}
+                  </div>
+                  <Button
+                    variant={selected ? 'secondary' : 'ghost'}
+                    size="sm"
+                    onClick={() => onSelect(selected ? null : video.id)}
+                  >
+                    <Filter className="h-4 w-4 mr-2" />
+                    {selected ? 'Showing' : 'Show'}
+                  </Button>
+                </div>
+              );
+            })}
+          </div>
+        </ScrollArea>
+      )}
+    </CardContent>
+  </Card>
+);
+
+export default AnalyzedVideos;
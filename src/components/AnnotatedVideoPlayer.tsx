@@ -0,0 +1,121 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import ViolationTimeline from "@/components/ViolationTimeline";
+import { frameToSeconds } from "@/lib/video-metadata";
+import type { ViolationRow } from "@/lib/violations";
+import { drawViolations, prepareOverlay } from "@/lib/violation-overlay";
+
+// Violations are detected on sparse sampled frames, so their boxes stay on screen this long around the frame
+const OVERLAY_HOLD_SECONDS = 0.75;
+
+interface AnnotatedVideoPlayerProps {
+  src: string;
+  fps: number;
+  violations: ViolationRow[];
+  // Frame to seek to once the video can play (from the ?frame= link of the logs)
+  initialFrame: number | null;
+}
+
+const AnnotatedVideoPlayer = ({ src, fps, violations, initialFrame }: AnnotatedVideoPlayerProps) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [currentTime, setCurrentTime] = useState(0);
+  const [duration, setDuration] = useState(0);
+
+  const draw = useCallback(() => {
+    const video = videoRef.current;
+    const canvas = canvasRef.current;
+    if (!video || !canvas) return;
+    const layout = prepareOverlay(video, canvas);
+    if (!layout) return;
+
+    const time = video.currentTime;
+    drawViolations(
+      layout,
+      violations.filter((violation) => Math.abs(frameToSeconds(violation.frame_number, fps) - time) <= OVERLAY_HOLD_SECONDS)
+    );
+  }, [violations, fps]);
+
+  // Redraw on every frame while playing, and once after seeks, pauses and resizes
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+    let animation = 0;
+
+    const tick = () => {
+      draw();
+      setCurrentTime(video.currentTime);
+      if (!video.paused && !video.ended) animation = requestAnimationFrame(tick);
+    };
+    const onPlay = () => {
+      cancelAnimationFrame(animation);
+      animation = requestAnimationFrame(tick);
+    };
+    const onStatic = () => {
+      draw();
+      setCurrentTime(video.currentTime);
+      setDuration(Number.isFinite(video.duration) ? video.duration : 0);
+    };
+
+    video.addEventListener("play", onPlay);
+    ["pause", "seeked", "loadedmetadata", "loadeddata"].forEach((event) => video.addEventListener(event, onStatic));
+    const resizeObserver = new ResizeObserver(() => draw());
+    resizeObserver.observe(video);
+    onStatic();
+
+    return () => {
+      cancelAnimationFrame(animation);
+      video.removeEventListener("play", onPlay);
+      ["pause", "seeked", "loadedmetadata", "loadeddata"].forEach((event) => video.removeEventListener(event, onStatic));
+      resizeObserver.disconnect();
+    };
+  }, [draw]);
+
+  const seekTo = useCallback((seconds: number) => {
+    const video = videoRef.current;
+    if (!video) return;
+    video.pause();
+    video.currentTime = seconds;
+  }, []);
+
+  // Jump to the linked frame once the video is ready to play
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video || initialFrame === null) return;
+    const seconds = frameToSeconds(initialFrame, fps);
+    const doSeek = () => seekTo(seconds);
+
+    if (video.readyState >= 3) {
+      doSeek();
+      return;
+    }
+    video.addEventListener("canplaythrough", doSeek, { once: true });
+    return () => video.removeEventListener("canplaythrough", doSeek);
+  }, [src, initialFrame, fps, seekTo]);
+
+  return (
+    <div className="space-y-4">
+      <div className="relative">
+        <video
+          ref={videoRef}
+          controls
+          preload="auto"
+          playsInline
+          className="w-full rounded-lg"
+          src={src}
+        >
+          Your browser does not support the video tag.
+        </video>
+        <canvas ref={canvasRef} className="pointer-events-none absolute left-0 top-0" />
+      </div>
+      <ViolationTimeline
+        violations={violations}
+        fps={fps}
+        duration={duration}
+        currentTime={currentTime}
+        onSeek={(violation) => seekTo(frameToSeconds(violation.frame_number, fps))}
+      />
+    </div>
+  );
+};
+
+export default AnnotatedVideoPlayer;
@@ -0,0 +1,233 @@
+import { Fragment, useEffect, useMemo, useState } from "react";
+import { useSearchParams } from "react-router-dom";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ChevronDown, ChevronRight, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import type { Json } from "@/integrations/supabase/types";
+import {
+  AUDIT_ACTIONS,
+  AUDITED_TABLES,
+  parseAuditFilters,
+  useAuditLog,
+  writeAuditFilters,
+  type AuditEntry,
+} from "@/hooks/use-audit-log";
+
+const ALL = "__all__";
+
+const ACTION_VARIANTS: Record<string, "default" | "secondary" | "destructive"> = {
+  INSERT: "secondary",
+  UPDATE: "default",
+  DELETE: "destructive",
+};
+
+const formatValue = (value: Json | undefined) => {
+  if (value === undefined || value === null) return "—";
+  return typeof value === "object" ? JSON.stringify(value) : String(value);
+};
+
+const asRecord = (data: Json | null) =>
+  data && typeof data === "object" && !Array.isArray(data) ? (data as Record<string, Json | undefined>) : {};
+
+// Changed fields of an update, or every field of an inserted / deleted row
+const AuditDetails = ({ entry }: { entry: AuditEntry }) => {
+  const before = asRecord(entry.old_data);
+  const after = asRecord(entry.new_data);
+  const fields = entry.action === "UPDATE" ? entry.changed_fields : Object.keys(entry.action === "DELETE" ? before : after);
+
+  return (
+    <div className="overflow-x-auto rounded-md bg-secondary/50 p-3">
+      <table className="w-full text-xs">
+        <thead>
+          <tr className="text-left text-muted-foreground">
+            <th className="py-1 pr-4 font-medium">Field</th>
+            {entry.action !== "INSERT" && <th className="py-1 pr-4 font-medium">Before</th>}
+            {entry.action !== "DELETE" && <th className="py-1 font-medium">After</th>}
+          </tr>
+        </thead>
+        <tbody className="font-mono">
+          {fields.map((field) => (
+            <tr key={field} className="align-top">
+              <td className="py-1 pr-4 font-sans font-medium">{field}</td>
+              {entry.action !== "INSERT" && (
+                <td className="max-w-[420px] break-all py-1 pr-4 text-muted-foreground">{formatValue(before[field])}</td>
+              )}
+              {entry.action !== "DELETE" && <td className="max-w-[420px] break-all py-1">{formatValue(after[field])}</td>}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+const AuditLog = () => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const filters = useMemo(() => parseAuditFilters(searchParams), [searchParams]);
+  const [recordDraft, setRecordDraft] = useState(filters.recordId ?? "");
+  const [expanded, setExpanded] = useState<Set<number>>(new Set());
+  const { data, isLoading, isError, hasNextPage, isFetchingNextPage, fetchNextPage } = useAuditLog(filters);
+  const entries = useMemo(() => data?.pages.flat() ?? [], [data]);
+
+  useEffect(() => {
+    if (isError) toast.error("Failed to load the audit log");
+  }, [isError]);
+
+  useEffect(() => {
+    setRecordDraft(filters.recordId ?? "");
+  }, [filters.recordId]);
+
+  const toggle = (id: number) =>
+    setExpanded((current) => {
+      const next = new Set(current);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold bg-gradient-primary bg-clip-text text-transparent">Audit Log</h1>
+        <p className="text-muted-foreground mt-1">
+          Every change to violations, models, datasets and detection settings, with who made it and when
+        </p>
+      </div>
+
+      <div className="flex flex-wrap gap-3">
+        <Select
+          value={filters.table ?? ALL}
+          onValueChange={(value) => setSearchParams(writeAuditFilters({ ...filters, table: value === ALL ? null : value }))}
+        >
+          <SelectTrigger className="w-[200px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>All tables</SelectItem>
+            {Object.entries(AUDITED_TABLES).map(([table, label]) => (
+              <SelectItem key={table} value={table}>{label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select
+          value={filters.action ?? ALL}
+          onValueChange={(value) => setSearchParams(writeAuditFilters({ ...filters, action: value === ALL ? null : value }))}
+        >
+          <SelectTrigger className="w-[160px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>All actions</SelectItem>
+            {AUDIT_ACTIONS.map((action) => (
+              <SelectItem key={action} value={action}>{action.toLowerCase()}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <form
+          className="flex gap-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            setSearchParams(writeAuditFilters({ ...filters, recordId: recordDraft.trim() || null }));
+          }}
+        >
+          <Input
+            className="w-[340px] font-mono"
+            placeholder="Record id"
+            value={recordDraft}
+            onChange={(e) => setRecordDraft(e.target.value)}
+          />
+          <Button type="submit" variant="outline">Search</Button>
+        </form>
+      </div>
+
+      <Card className="shadow-card border-border">
+        <CardHeader>
+          <CardTitle>Changes</CardTitle>
+          <CardDescription>Entries are written by database triggers and cannot be edited or removed</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="text-center py-8">Loading audit log...</div>
+          ) : entries.length === 0 ? (
+            <div className="text-center py-8">No audit entries match the current filters.</div>
+          ) : (
+            <>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-8" />
+                    <TableHead>When</TableHead>
+                    <TableHead>Who</TableHead>
+                    <TableHead>Action</TableHead>
+                    <TableHead>Table</TableHead>
+                    <TableHead>Record</TableHead>
+                    <TableHead>Changed fields</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {entries.map((entry) => (
+                    <Fragment key={entry.id}>
+                      <TableRow className="cursor-pointer" onClick={() => toggle(entry.id)}>
+                        <TableCell>
+                          {expanded.has(entry.id) ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                        </TableCell>
+                        <TableCell className="whitespace-nowrap text-sm">{new Date(entry.created_at).toLocaleString()}</TableCell>
+                        <TableCell className="text-sm">
+                          {entry.actor_email || (entry.actor_role === "service_role" ? "System (analysis)" : entry.actor_id || "Unknown")}
+                        </TableCell>
+                        <TableCell>
+                          <Badge variant={ACTION_VARIANTS[entry.action] ?? "outline"}>{entry.action.toLowerCase()}</Badge>
+                        </TableCell>
+                        <TableCell className="text-sm">{AUDITED_TABLES[entry.table_name] ?? entry.table_name}</TableCell>
+                        <TableCell>
+                          {entry.record_id && (
+                            <button
+                              className="font-mono text-xs text-primary hover:underline"
+                              title="Show the history of this record"
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                setSearchParams(writeAuditFilters({ table: null, action: null, recordId: entry.record_id }));
+                              }}
+                            >
+                              {entry.record_id.slice(0, 8)}
+                            </button>
+                          )}
+                        </TableCell>
+                        <TableCell className="max-w-[260px] truncate text-sm text-muted-foreground">
+                          {entry.action === "UPDATE" ? entry.changed_fields.join(", ") : "—"}
+                        </TableCell>
+                      </TableRow>
+                      {expanded.has(entry.id) && (
+                        <TableRow className="hover:bg-transparent">
+                          <TableCell />
+                          <TableCell colSpan={6}>
+                            <AuditDetails entry={entry} />
+                          </TableCell>
+                        </TableRow>
+                      )}
+                    </Fragment>
+                  ))}
+                </TableBody>
+              </Table>
+              {hasNextPage && (
+                <div className="flex justify-center pt-4">
+                  <Button variant="outline" onClick={() => fetchNextPage()} disabled={isFetchingNextPage}>
+                    {isFetchingNextPage && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                    Load older entries
+                  </Button>
+                </div>
+              )}
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default AuditLog;
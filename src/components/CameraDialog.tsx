@@ -0,0 +1,211 @@
+import { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import type { TablesInsert } from "@/integrations/supabase/types";
+import type { Camera } from "@/hooks/use-cameras";
+
+export type CameraDraft = Omit<TablesInsert<"cameras">, "site_id">;
+
+interface CameraDialogProps {
+  open: boolean;
+  // The camera being edited, or null to register a new one
+  camera: Camera | null;
+  zones: string[];
+  saving: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSubmit: (draft: CameraDraft) => void;
+}
+
+const EMPTY_DRAFT = {
+  name: "",
+  zone: "",
+  location: "",
+  default_fps: "",
+  filename_prefix: "",
+  mounting_notes: "",
+  stream_url: "",
+  sample_interval_seconds: "5",
+  is_active: true,
+};
+
+// Register a camera or edit its metadata
+const CameraDialog = ({ open, camera, zones, saving, onOpenChange, onSubmit }: CameraDialogProps) => {
+  const [draft, setDraft] = useState(EMPTY_DRAFT);
+
+  useEffect(() => {
+    if (!open) return;
+    setDraft(
+      camera
+        ? {
+            name: camera.name,
+            zone: camera.zone ?? "",
+            location: camera.location ?? "",
+            default_fps: camera.default_fps ? String(camera.default_fps) : "",
+            filename_prefix: camera.filename_prefix ?? "",
+            mounting_notes: camera.mounting_notes ?? "",
+            stream_url: camera.stream_url ?? "",
+            sample_interval_seconds: String(camera.sample_interval_seconds),
+            is_active: camera.is_active,
+          }
+        : EMPTY_DRAFT
+    );
+  }, [open, camera]);
+
+  const fps = draft.default_fps === "" ? null : Number(draft.default_fps);
+  const interval = Number(draft.sample_interval_seconds);
+  const valid =
+    draft.name.trim() !== "" &&
+    (fps === null || (Number.isFinite(fps) && fps > 0)) &&
+    Number.isInteger(interval) &&
+    interval >= 1 &&
+    interval <= 3600;
+
+  const submit = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!valid) return;
+    onSubmit({
+      name: draft.name.trim(),
+      zone: draft.zone.trim() || null,
+      location: draft.location.trim() || null,
+      default_fps: fps,
+      filename_prefix: draft.filename_prefix.trim() || null,
+      mounting_notes: draft.mounting_notes.trim() || null,
+      stream_url: draft.stream_url.trim() || null,
+      sample_interval_seconds: interval,
+      is_active: draft.is_active,
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <form onSubmit={submit}>
+          <DialogHeader>
+            <DialogTitle>{camera ? `Edit ${camera.name}` : "Register camera"}</DialogTitle>
+            <DialogDescription>
+              Uploads tagged with this camera use its frame rate when the video file has none.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid grid-cols-2 gap-4 py-4">
+            <div className="col-span-2 space-y-2">
+              <Label htmlFor="camera-name">Name</Label>
+              <Input
+                id="camera-name"
+                placeholder="CAM-07"
+                value={draft.name}
+                onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="camera-zone">Zone / level</Label>
+              <Input
+                id="camera-zone"
+                list="camera-zones"
+                placeholder="Level 3"
+                value={draft.zone}
+                onChange={(e) => setDraft({ ...draft, zone: e.target.value })}
+              />
+              <datalist id="camera-zones">
+                {zones.map((zone) => (
+                  <option key={zone} value={zone} />
+                ))}
+              </datalist>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="camera-fps">Default fps</Label>
+              <Input
+                id="camera-fps"
+                type="number"
+                min={1}
+                step="any"
+                placeholder="30"
+                value={draft.default_fps}
+                onChange={(e) => setDraft({ ...draft, default_fps: e.target.value })}
+              />
+            </div>
+            <div className="col-span-2 space-y-2">
+              <Label htmlFor="camera-location">Location</Label>
+              <Input
+                id="camera-location"
+                placeholder="Drill bay 2, facing the face"
+                value={draft.location}
+                onChange={(e) => setDraft({ ...draft, location: e.target.value })}
+              />
+            </div>
+            <div className="col-span-2 space-y-2">
+              <Label htmlFor="camera-prefix">File name prefix</Label>
+              <Input
+                id="camera-prefix"
+                className="font-mono"
+                placeholder="CAM07_"
+                value={draft.filename_prefix}
+                onChange={(e) => setDraft({ ...draft, filename_prefix: e.target.value })}
+              />
+              <p className="text-xs text-muted-foreground">
+                Uploads whose file name starts with this prefix are tagged with the camera automatically.
+              </p>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="camera-stream">Stream URL</Label>
+              <Input
+                id="camera-stream"
+                type="url"
+                className="font-mono"
+                placeholder="http://localhost:8088/cam1/index.m3u8"
+                value={draft.stream_url}
+                onChange={(e) => setDraft({ ...draft, stream_url: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="camera-interval">Sample every (seconds)</Label>
+              <Input
+                id="camera-interval"
+                type="number"
+                min={1}
+                max={3600}
+                value={draft.sample_interval_seconds}
+                onChange={(e) => setDraft({ ...draft, sample_interval_seconds: e.target.value })}
+              />
+            </div>
+            <p className="col-span-2 -mt-2 text-xs text-muted-foreground">
+              HLS playlist shown on Live Monitoring. RTSP cameras can be relayed to HLS with{" "}
+              <code className="font-mono">npm run stream-relay</code>.
+            </p>
+            <div className="col-span-2 space-y-2">
+              <Label htmlFor="camera-notes">Mounting notes</Label>
+              <Textarea
+                id="camera-notes"
+                placeholder="Height, angle, lens, known blind spots..."
+                value={draft.mounting_notes}
+                onChange={(e) => setDraft({ ...draft, mounting_notes: e.target.value })}
+              />
+            </div>
+            <div className="col-span-2 flex items-center gap-3">
+              <Switch
+                id="camera-active"
+                checked={draft.is_active}
+                onCheckedChange={(is_active) => setDraft({ ...draft, is_active })}
+              />
+              <Label htmlFor="camera-active">Active</Label>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={!valid || saving}>
+              {camera ? "Save changes" : "Register camera"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CameraDialog;
@@ -0,0 +1,160 @@
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import { useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { FileText, Pencil, Plus, Radio, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { supabase } from "@/integrations/supabase/client";
+import { useProfile } from "@/hooks/use-profile";
+import { useCurrentSite } from "@/hooks/use-current-site";
+import { cameraZones, useCameras, type Camera } from "@/hooks/use-cameras";
+import CameraDialog, { type CameraDraft } from "@/components/CameraDialog";
+
+const CameraRegistry = () => {
+  const queryClient = useQueryClient();
+  const { can } = useProfile();
+  const canManage = can("manage_cameras");
+  const { site, siteId } = useCurrentSite();
+  const { data: cameras = [], isLoading } = useCameras(siteId);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editing, setEditing] = useState<Camera | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const openDialog = (camera: Camera | null) => {
+    setEditing(camera);
+    setDialogOpen(true);
+  };
+
+  const saveCamera = async (draft: CameraDraft) => {
+    if (!siteId) return;
+    setSaving(true);
+    const { error } = editing
+      ? await supabase.from("cameras").update(draft).eq("id", editing.id)
+      : await supabase.from("cameras").insert({ ...draft, site_id: siteId });
+    setSaving(false);
+
+    if (error) {
+      console.error("Error saving camera:", error);
+      toast.error(`Failed to save camera: ${error.message}`);
+      return;
+    }
+    toast.success(editing ? `${draft.name} updated` : `${draft.name} registered`);
+    setDialogOpen(false);
+    queryClient.invalidateQueries({ queryKey: ["cameras", siteId] });
+  };
+
+  const deleteCamera = async (camera: Camera) => {
+    if (!confirm(`Delete ${camera.name}? Videos and violations keep their zone but lose the camera tag.`)) return;
+
+    const { error } = await supabase.from("cameras").delete().eq("id", camera.id);
+    if (error) {
+      console.error("Error deleting camera:", error);
+      toast.error(`Failed to delete camera: ${error.message}`);
+      return;
+    }
+    toast.success(`${camera.name} deleted`);
+    queryClient.invalidateQueries({ queryKey: ["cameras", siteId] });
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold bg-gradient-primary bg-clip-text text-transparent">Cameras</h1>
+          <p className="text-muted-foreground mt-1">
+            Cameras and zones{site ? ` of ${site.name}` : ""}; uploads and streams tagged with a camera can be filtered by it
+          </p>
+        </div>
+        {canManage && (
+          <Button onClick={() => openDialog(null)} disabled={!siteId}>
+            <Plus className="h-4 w-4 mr-2" />
+            Register camera
+          </Button>
+        )}
+      </div>
+
+      <Card className="shadow-card border-border">
+        <CardHeader>
+          <CardTitle>Registered cameras</CardTitle>
+          <CardDescription>{cameras.length} cameras in {cameraZones(cameras).length} zones</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="text-center py-8">Loading cameras...</div>
+          ) : cameras.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">No cameras registered at this site yet.</div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Zone</TableHead>
+                  <TableHead>Location</TableHead>
+                  <TableHead>Default fps</TableHead>
+                  <TableHead>File name prefix</TableHead>
+                  <TableHead>Mounting notes</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {cameras.map((camera) => (
+                  <TableRow key={camera.id} className={camera.is_active ? undefined : "opacity-60"}>
+                    <TableCell className="font-medium">
+                      {camera.name}
+                      {camera.stream_url && (
+                        <Radio className="ml-2 inline h-4 w-4 text-primary" aria-label="Streaming" />
+                      )}
+                      {!camera.is_active && <Badge variant="outline" className="ml-2">Inactive</Badge>}
+                    </TableCell>
+                    <TableCell>{camera.zone || "—"}</TableCell>
+                    <TableCell className="max-w-[200px] truncate text-sm text-muted-foreground">
+                      {camera.location || "—"}
+                    </TableCell>
+                    <TableCell>{camera.default_fps ?? "—"}</TableCell>
+                    <TableCell className="font-mono text-xs">{camera.filename_prefix || "—"}</TableCell>
+                    <TableCell className="max-w-[240px] truncate text-sm text-muted-foreground" title={camera.mounting_notes ?? undefined}>
+                      {camera.mounting_notes || "—"}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex justify-end gap-2">
+                        <Button variant="ghost" size="sm" title="Show the violations of this camera" asChild>
+                          <Link to={`/logs?camera=${camera.id}`}>
+                            <FileText className="h-4 w-4" />
+                          </Link>
+                        </Button>
+                        {canManage && (
+                          <>
+                            <Button variant="ghost" size="sm" onClick={() => openDialog(camera)}>
+                              <Pencil className="h-4 w-4" />
+                            </Button>
+                            <Button variant="ghost" size="sm" onClick={() => deleteCamera(camera)}>
+                              <Trash2 className="h-4 w-4 text-destructive" />
+                            </Button>
+                          </>
+                        )}
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <CameraDialog
+        open={dialogOpen}
+        camera={editing}
+        zones={cameraZones(cameras)}
+        saving={saving}
+        onOpenChange={setDialogOpen}
+        onSubmit={saveCamera}
+      />
+    </div>
+  );
+};
+
+export default CameraRegistry;
@@ -0,0 +1,68 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import type { Detection } from "@/lib/object-detection";
+
+export interface PreviewFrame {
+  url: string;
+  time: number;
+  detections: Detection[];
+}
+
+interface DetectionPreviewProps {
+  frames: PreviewFrame[];
+  width: number;
+  height: number;
+}
+
+const DetectionPreview = ({ frames, width, height }: DetectionPreviewProps) => {
+  const totalObjects = frames.reduce((sum, frame) => sum + frame.detections.length, 0);
+
+  return (
+    <Card className="shadow-card border-border">
+      <CardHeader>
+        <CardTitle>On-Device Detection Preview</CardTitle>
+        <CardDescription>
+          COCO-SSD found {totalObjects} objects across {frames.length} sampled frames
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+          {frames.map((frame) => (
+            <div key={frame.url} className="relative rounded-lg overflow-hidden border border-border">
+              <img src={frame.url} alt={`Frame at ${frame.time.toFixed(2)}s`} className="w-full block" />
+              <svg
+                viewBox={`0 0 ${width} ${height}`}
+                preserveAspectRatio="none"
+                className="absolute inset-0 w-full h-full pointer-events-none"
+              >
+                {frame.detections.map((detection, i) => {
+                  const [x1, y1, x2, y2] = detection.box;
+                  return (
+                    <g key={i}>
+                      <rect
+                        x={x1}
+                        y={y1}
+                        width={x2 - x1}
+                        height={y2 - y1}
+                        fill="none"
+                        stroke="hsl(var(--primary))"
+                        strokeWidth={3}
+                      />
+                      <text x={x1 + 4} y={Math.max(14, y1 - 4)} fill="hsl(var(--primary))" fontSize={16} fontWeight={600}>
+                        {detection.class} {(detection.score * 100).toFixed(0)}%
+                      </text>
+                    </g>
+                  );
+                })}
+              </svg>
+              <span className="absolute bottom-1 right-1 rounded bg-background/80 px-1.5 text-xs font-mono">
+                {frame.time.toFixed(2)}s
+              </span>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default DetectionPreview;
@@ -0,0 +1,353 @@
+import { useEffect, useMemo, useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { RotateCcw, Save } from "lucide-react";
+import { toast } from "sonner";
+import { supabase } from "@/integrations/supabase/client";
+import { useProfile } from "@/hooks/use-profile";
+import { useCurrentSite } from "@/hooks/use-current-site";
+import { useDetectionSettings } from "@/hooks/use-detection-settings";
+import { VIOLATION_TYPES } from "@/lib/violations";
+import {
+  DEFAULT_DETECTION_SETTINGS,
+  DEFAULT_MIN_CONFIDENCE,
+  DETECTION_METHOD_OPTIONS,
+  RULE_THRESHOLD_FIELDS,
+  toSettingsValues,
+  type DetectionMethod,
+  type DetectionSettingsValues,
+} from "@/lib/detection-settings";
+
+type Scope = "own" | "site";
+
+// Form state keeps the text of the inputs; confidences are percentages
+interface Draft {
+  method: DetectionMethod;
+  enabledTypes: string[];
+  confidences: Record<string, string>;
+  intervalSeconds: string;
+  maxFrames: string;
+  rules: Record<string, string>;
+}
+
+const toDraft = (settings: DetectionSettingsValues): Draft => ({
+  method: settings.detection_method,
+  enabledTypes: settings.enabled_violation_types,
+  confidences: Object.fromEntries(
+    VIOLATION_TYPES.map((type) => [
+      type,
+      String(Math.round((settings.confidence_thresholds[type] ?? DEFAULT_MIN_CONFIDENCE) * 100)),
+    ])
+  ),
+  intervalSeconds: String(settings.frame_interval_seconds),
+  maxFrames: String(settings.max_frames_per_video),
+  rules: Object.fromEntries(
+    RULE_THRESHOLD_FIELDS.map((field) => [field.key, String(settings.rule_thresholds[field.key] ?? field.defaultValue)])
+  ),
+});
+
+// Detector backend, thresholds and frame sampling used by the analyses of the signed-in user,
+// and the defaults of the current site for everyone without settings of their own
+const DetectionSettings = () => {
+  const queryClient = useQueryClient();
+  const { profile, can } = useProfile();
+  const { site, siteId } = useCurrentSite();
+  const { data: scopes, isLoading } = useDetectionSettings(siteId);
+  const canManageSite = can("manage_site_detection_settings");
+  const [scope, setScope] = useState<Scope>("own");
+  const [draft, setDraft] = useState<Draft>(() => toDraft(DEFAULT_DETECTION_SETTINGS));
+  const [saving, setSaving] = useState(false);
+
+  const row = scope === "own" ? scopes?.own ?? null : scopes?.site ?? null;
+  // Without a row of its own, a scope starts from what is in effect below it
+  const baseline = useMemo(() => {
+    const fallback = scope === "own" ? scopes?.site ?? null : null;
+    const source = row ?? fallback;
+    return source ? toSettingsValues(source) : DEFAULT_DETECTION_SETTINGS;
+  }, [scope, row, scopes]);
+
+  useEffect(() => {
+    setDraft(toDraft(baseline));
+  }, [baseline]);
+
+  const editable = scope === "own" || canManageSite;
+  const interval = Number(draft.intervalSeconds);
+  const maxFrames = Number(draft.maxFrames);
+  const errors = [
+    draft.enabledTypes.length === 0 && "Enable at least one violation type",
+    VIOLATION_TYPES.some((type) => {
+      const value = Number(draft.confidences[type]);
+      return !(draft.confidences[type] !== "" && value >= 0 && value <= 100);
+    }) && "Confidence thresholds must be between 0 and 100%",
+    !(interval >= 0.5 && interval <= 600) && "Sampling interval must be 0.5 to 600 seconds",
+    !(Number.isInteger(maxFrames) && maxFrames >= 1 && maxFrames <= 120) && "Frames per video must be 1 to 120",
+    RULE_THRESHOLD_FIELDS.some((field) => {
+      const value = Number(draft.rules[field.key]);
+      return !(draft.rules[field.key] !== "" && value >= 0 && (!field.score || value <= 1));
+    }) && "Rule thresholds must be positive, and scores at most 1",
+  ].filter(Boolean) as string[];
+
+  const refresh = () => queryClient.invalidateQueries({ queryKey: ["detection-settings", siteId] });
+
+  const save = async () => {
+    if (errors.length > 0 || !siteId || !profile) return;
+    const values = {
+      detection_method: draft.method,
+      enabled_violation_types: VIOLATION_TYPES.filter((type) => draft.enabledTypes.includes(type)),
+      confidence_thresholds: Object.fromEntries(
+        VIOLATION_TYPES.map((type) => [type, Number(draft.confidences[type]) / 100])
+      ),
+      frame_interval_seconds: interval,
+      max_frames_per_video: maxFrames,
+      rule_thresholds: Object.fromEntries(RULE_THRESHOLD_FIELDS.map((field) => [field.key, Number(draft.rules[field.key])])),
+    };
+
+    setSaving(true);
+    const { error } = row
+      ? await supabase.from("detection_settings").update(values).eq("id", row.id)
+      : await supabase
+          .from("detection_settings")
+          .insert({ ...values, ...(scope === "own" ? { user_id: profile.id } : { site_id: siteId }) });
+    setSaving(false);
+
+    if (error) {
+      console.error("Error saving detection settings:", error);
+      toast.error(`Failed to save detection settings: ${error.message}`);
+      return;
+    }
+    toast.success(scope === "own" ? "Your detection settings were saved" : `Defaults of ${site?.name ?? "the site"} were saved`);
+    refresh();
+  };
+
+  const reset = async () => {
+    if (!row) return;
+    const fallback = scope === "own" ? "the site defaults" : "the built-in defaults";
+    if (!confirm(`Remove these settings and use ${fallback}?`)) return;
+
+    const { error } = await supabase.from("detection_settings").delete().eq("id", row.id);
+    if (error) {
+      console.error("Error resetting detection settings:", error);
+      toast.error(`Failed to reset detection settings: ${error.message}`);
+      return;
+    }
+    toast.success(`Using ${fallback}`);
+    refresh();
+  };
+
+  const toggleType = (type: string, on: boolean) =>
+    setDraft({
+      ...draft,
+      enabledTypes: on ? [...draft.enabledTypes, type] : draft.enabledTypes.filter((t) => t !== type),
+    });
+
+  if (isLoading) {
+    return <div className="text-center py-8">Loading detection settings...</div>;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold bg-gradient-primary bg-clip-text text-transparent">Detection Settings</h1>
+          <p className="text-muted-foreground mt-1">
+            How videos and live frames{site ? ` at ${site.name}` : ""} are analyzed
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Select value={scope} onValueChange={(value) => setScope(value as Scope)}>
+            <SelectTrigger className="w-[220px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="own">My settings</SelectItem>
+              <SelectItem value="site">Site defaults</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <Card className="shadow-card border-border">
+        <CardContent className="flex flex-wrap items-center gap-2 py-4 text-sm text-muted-foreground">
+          {scope === "own" ? (
+            scopes?.own ? (
+              <>
+                <Badge>In effect</Badge> Your analyses use this detector and frame sampling. Violation types and
+                thresholds can only be stricter than the site defaults: the site's types stay on, and the more
+                sensitive of the two thresholds applies.
+              </>
+            ) : (
+              <>
+                <Badge variant="outline">Not set</Badge>
+                Your analyses use the {scopes?.site ? "site defaults" : "built-in defaults"}; saving creates settings of your own.
+              </>
+            )
+          ) : (
+            <>
+              <Badge variant={scopes?.site ? "secondary" : "outline"}>{scopes?.site ? "Set" : "Not set"}</Badge>
+              Used by everyone at {site?.name ?? "this site"} without settings of their own.
+              {!canManageSite && " Only admins can change them."}
+            </>
+          )}
+        </CardContent>
+      </Card>
+
+      <fieldset disabled={!editable} className="space-y-6">
+        <Card className="shadow-card border-border">
+          <CardHeader>
+            <CardTitle>Detector</CardTitle>
+            <CardDescription>
+              The backend that looks at sampled frames. Roboflow and YOLO need their endpoint configured on the
+              server; without it only the rule engine on on-device detections runs.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            <Select
+              value={draft.method}
+              onValueChange={(method) => setDraft({ ...draft, method: method as DetectionMethod })}
+              disabled={!editable}
+            >
+              <SelectTrigger className="max-w-sm">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(DETECTION_METHOD_OPTIONS).map(([method, option]) => (
+                  <SelectItem key={method} value={method}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-sm text-muted-foreground">{DETECTION_METHOD_OPTIONS[draft.method].description}</p>
+          </CardContent>
+        </Card>
+
+        <Card className="shadow-card border-border">
+          <CardHeader>
+            <CardTitle>Violation types</CardTitle>
+            <CardDescription>
+              Findings of disabled types, or below the minimum confidence of their type, are not recorded
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-[60px]">On</TableHead>
+                  <TableHead>Type</TableHead>
+                  <TableHead className="w-[180px]">Minimum confidence (%)</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {VIOLATION_TYPES.map((type) => (
+                  <TableRow key={type} className={draft.enabledTypes.includes(type) ? undefined : "opacity-60"}>
+                    <TableCell>
+                      <Checkbox
+                        checked={draft.enabledTypes.includes(type)}
+                        onCheckedChange={(checked) => toggleType(type, checked === true)}
+                        aria-label={`Detect ${type}`}
+                      />
+                    </TableCell>
+                    <TableCell className="text-sm">{type}</TableCell>
+                    <TableCell>
+                      <Input
+                        type="number"
+                        min={0}
+                        max={100}
+                        className="h-8 w-24"
+                        value={draft.confidences[type] ?? ""}
+                        onChange={(e) => setDraft({ ...draft, confidences: { ...draft.confidences, [type]: e.target.value } })}
+                      />
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+
+        <Card className="shadow-card border-border">
+          <CardHeader>
+            <CardTitle>Frame sampling</CardTitle>
+            <CardDescription>Uploaded videos are sampled once per interval, evenly spread up to the frame limit</CardDescription>
+          </CardHeader>
+          <CardContent className="grid max-w-xl grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="frame-interval">Seconds between frames</Label>
+              <Input
+                id="frame-interval"
+                type="number"
+                min={0.5}
+                max={600}
+                step={0.5}
+                value={draft.intervalSeconds}
+                onChange={(e) => setDraft({ ...draft, intervalSeconds: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="max-frames">Maximum frames per video</Label>
+              <Input
+                id="max-frames"
+                type="number"
+                min={1}
+                max={120}
+                value={draft.maxFrames}
+                onChange={(e) => setDraft({ ...draft, maxFrames: e.target.value })}
+              />
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card className="shadow-card border-border">
+          <CardHeader>
+            <CardTitle>Rule engine</CardTitle>
+            <CardDescription>
+              Object scores (0-1) and distances between detected objects, in pixels of the 640px-wide sampled frames
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="grid grid-cols-2 gap-4 md:grid-cols-4">
+            {RULE_THRESHOLD_FIELDS.map((field) => (
+              <div key={field.key} className="space-y-2">
+                <Label htmlFor={`rule-${field.key}`}>{field.label}</Label>
+                <Input
+                  id={`rule-${field.key}`}
+                  type="number"
+                  min={0}
+                  max={field.score ? 1 : undefined}
+                  step={field.score ? 0.01 : 1}
+                  value={draft.rules[field.key] ?? ""}
+                  onChange={(e) => setDraft({ ...draft, rules: { ...draft.rules, [field.key]: e.target.value } })}
+                />
+                <p className="text-xs text-muted-foreground">Default {field.defaultValue}</p>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      </fieldset>
+
+      {editable && (
+        <div className="flex items-center justify-end gap-3">
+          {errors.length > 0 && <p className="text-sm text-destructive">{errors[0]}</p>}
+          {row && (
+            <Button variant="outline" onClick={reset}>
+              <RotateCcw className="h-4 w-4 mr-2" />
+              Reset
+            </Button>
+          )}
+          <Button onClick={save} disabled={saving || errors.length > 0 || !siteId}>
+            <Save className="h-4 w-4 mr-2" />
+            {saving ? "Saving..." : "Save settings"}
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DetectionSettings;
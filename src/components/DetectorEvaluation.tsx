@@ -0,0 +1,374 @@
+import { useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Loader2, Play, TrendingDown, TrendingUp } from "lucide-react";
+import { toast } from "sonner";
+import { cn } from "@/lib/utils";
+import { useProfile } from "@/hooks/use-profile";
+import { useCurrentSite } from "@/hooks/use-current-site";
+import { useVideoAnnotations } from "@/hooks/use-annotations";
+import { useDetectionSettings } from "@/hooks/use-detection-settings";
+import { useEvaluationResults, useEvaluationRuns, type EvaluationRunSummary } from "@/hooks/use-evaluations";
+import { DETECTION_METHOD_OPTIONS, effectiveDetectionSettings } from "@/lib/detection-settings";
+import {
+  DEFAULT_TOLERANCE_SECONDS,
+  NO_VIOLATION,
+  STALE_RUN_MS,
+  formatScore,
+  runMetrics,
+  startEvaluation,
+  type TypeMetrics,
+} from "@/lib/evaluation";
+import { VIOLATION_TYPES } from "@/lib/violations";
+
+const MATRIX_TYPES = [...VIOLATION_TYPES, NO_VIOLATION];
+
+// A run that stopped making progress no longer blocks starting a new one
+const isActive = (run: EvaluationRunSummary) =>
+  (run.status === "queued" || run.status === "running") &&
+  Date.now() - new Date(run.updated_at ?? run.created_at ?? 0).getTime() < STALE_RUN_MS;
+
+const MetricsRow = ({ name, metrics, strong }: { name: string; metrics: TypeMetrics; strong?: boolean }) => (
+  <TableRow className={strong ? "font-medium" : undefined}>
+    <TableCell>{name}</TableCell>
+    <TableCell className="text-right">{metrics.tp + metrics.fn + metrics.uncovered}</TableCell>
+    <TableCell className="text-right">{metrics.tp}</TableCell>
+    <TableCell className="text-right">{metrics.fp}</TableCell>
+    <TableCell className="text-right">{metrics.fn}</TableCell>
+    <TableCell className="text-right">{metrics.uncovered}</TableCell>
+    <TableCell className="text-right">{formatScore(metrics.precision)}</TableCell>
+    <TableCell className="text-right">{formatScore(metrics.recall)}</TableCell>
+    <TableCell className="text-right">{formatScore(metrics.f1)}</TableCell>
+  </TableRow>
+);
+
+// Accuracy of the detector against the site's ground-truth labels, with the history of runs
+// per detector version
+const DetectorEvaluation = () => {
+  const queryClient = useQueryClient();
+  const { can } = useProfile();
+  const canRun = can("run_evaluations");
+  const { site, siteId } = useCurrentSite();
+  const { data: runs = [], isLoading } = useEvaluationRuns(siteId);
+  const { data: labels = [] } = useVideoAnnotations(siteId);
+  const { data: settingScopes } = useDetectionSettings(siteId);
+  const [tolerance, setTolerance] = useState(String(DEFAULT_TOLERANCE_SECONDS));
+  const [starting, setStarting] = useState(false);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  const finished = runs.filter((run) => run.status === "succeeded");
+  const selected = runs.find((run) => run.id === selectedId) ?? finished[0] ?? null;
+  const metrics = selected ? runMetrics(selected) : null;
+  const { data: results = [] } = useEvaluationResults(selected?.id ?? null);
+  const activeRun = runs.find(isActive) ?? null;
+
+  const labeledVideos = new Set(labels.map((label) => label.video_id).filter(Boolean)).size;
+  const unlinkedLabels = labels.filter((label) => !label.video_id).length;
+  const method = settingScopes ? effectiveDetectionSettings(settingScopes).detection_method : null;
+  const toleranceSeconds = Number(tolerance);
+  const toleranceValid = tolerance !== "" && toleranceSeconds >= 0 && toleranceSeconds <= 60;
+
+  const handleStart = async () => {
+    if (!siteId) return;
+    setStarting(true);
+    try {
+      const { videos_total } = await startEvaluation(siteId, toleranceSeconds);
+      toast.success(`Evaluating the detector on ${videos_total} labeled videos`);
+      queryClient.invalidateQueries({ queryKey: ["evaluation-runs", siteId] });
+    } catch (error) {
+      console.error("Error starting evaluation:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to start the evaluation");
+    } finally {
+      setStarting(false);
+    }
+  };
+
+  // Change of F1 against the run finished before it, to spot regressions between versions
+  const f1Change = (run: EvaluationRunSummary) => {
+    const previous = finished[finished.indexOf(run) + 1];
+    const current = runMetrics(run)?.overall.f1;
+    const before = previous ? runMetrics(previous)?.overall.f1 : null;
+    return current === null || current === undefined || before === null || before === undefined ? null : current - before;
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold bg-gradient-primary bg-clip-text text-transparent">Evaluation</h1>
+        <p className="text-muted-foreground mt-1">
+          How well the detector finds the labeled violations{site ? ` at ${site.name}` : ""}
+        </p>
+      </div>
+
+      <Card className="shadow-card border-border">
+        <CardHeader>
+          <CardTitle>Run an evaluation</CardTitle>
+          <CardDescription>
+            Replays the sampled frames of each labeled video's latest analysis through the detector in your detection
+            settings{method ? ` (${DETECTION_METHOD_OPTIONS[method].label})` : ""}. A label counts as found when a
+            detection of its type falls within its time range, give or take the tolerance. Nothing is written to the
+            violation logs.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <p className="text-sm text-muted-foreground">
+            {labeledVideos} labeled videos uploaded
+            {unlinkedLabels > 0 && `; ${unlinkedLabels} labels wait for their video to be uploaded`}
+          </p>
+          {activeRun ? (
+            <div className="space-y-2">
+              <div className="flex items-center gap-2 text-sm">
+                <Loader2 className="h-4 w-4 animate-spin" />
+                Evaluating {activeRun.detector_version}: {activeRun.videos_done} of {activeRun.videos_total} videos
+              </div>
+              <Progress value={activeRun.videos_total ? (activeRun.videos_done / activeRun.videos_total) * 100 : 0} />
+            </div>
+          ) : (
+            canRun && (
+              <div className="flex items-end gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="evaluation-tolerance">Tolerance (seconds)</Label>
+                  <Input
+                    id="evaluation-tolerance"
+                    type="number"
+                    min={0}
+                    max={60}
+                    step={0.5}
+                    className="w-32"
+                    value={tolerance}
+                    onChange={(e) => setTolerance(e.target.value)}
+                  />
+                </div>
+                <Button onClick={handleStart} disabled={starting || !siteId || !toleranceValid || labeledVideos === 0}>
+                  {starting ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Play className="h-4 w-4 mr-2" />}
+                  Evaluate detector
+                </Button>
+              </div>
+            )
+          )}
+        </CardContent>
+      </Card>
+
+      {selected && metrics && (
+        <>
+          <Card className="shadow-card border-border">
+            <CardHeader>
+              <CardTitle>Accuracy of {selected.detector_version}</CardTitle>
+              <CardDescription>
+                {metrics.videos_evaluated} videos, {metrics.labels} labels and {metrics.findings} detections; tolerance{" "}
+                {Number(selected.tolerance_seconds)} s
+                {metrics.videos_skipped > 0 && `; ${metrics.videos_skipped} videos skipped`}
+                {metrics.frames_failed > 0 && `; ${metrics.frames_failed} frames left out after detector errors`}. Detections of one type in
+                consecutive frames count as one false positive; labels with no scored frame within the tolerance are
+                not covered and left out of recall.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Type</TableHead>
+                    <TableHead className="text-right">Labels</TableHead>
+                    <TableHead className="text-right">Found</TableHead>
+                    <TableHead className="text-right">False positives</TableHead>
+                    <TableHead className="text-right">Missed</TableHead>
+                    <TableHead className="text-right">Not covered</TableHead>
+                    <TableHead className="text-right">Precision</TableHead>
+                    <TableHead className="text-right">Recall</TableHead>
+                    <TableHead className="text-right">F1</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {VIOLATION_TYPES.map((type) => (
+                    <MetricsRow
+                      key={type}
+                      name={type}
+                      metrics={metrics.per_type[type] ?? { tp: 0, fp: 0, fn: 0, uncovered: 0, precision: null, recall: null, f1: null }}
+                    />
+                  ))}
+                  <MetricsRow name="All types" metrics={metrics.overall} strong />
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+
+          <Card className="shadow-card border-border">
+            <CardHeader>
+              <CardTitle>Confusion matrix</CardTitle>
+              <CardDescription>
+                Rows are labeled types, columns what the detector reported within the label's time; "nothing" marks
+                missed labels and detections where nothing was labeled
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Labeled \ Detected</TableHead>
+                    {MATRIX_TYPES.map((type) => (
+                      <TableHead key={type} className="text-center text-xs">
+                        {type === NO_VIOLATION ? "Nothing" : type}
+                      </TableHead>
+                    ))}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {MATRIX_TYPES.map((labeled) => (
+                    <TableRow key={labeled}>
+                      <TableCell className="text-sm font-medium">{labeled === NO_VIOLATION ? "Nothing" : labeled}</TableCell>
+                      {MATRIX_TYPES.map((detected) => {
+                        const count = metrics.confusion[labeled]?.[detected] ?? 0;
+                        const hit = labeled === detected && labeled !== NO_VIOLATION;
+                        return (
+                          <TableCell
+                            key={detected}
+                            className={cn(
+                              "text-center",
+                              count === 0 && "text-muted-foreground",
+                              count > 0 && (hit ? "bg-primary/10 font-medium" : "bg-destructive/10")
+                            )}
+                          >
+                            {labeled === NO_VIOLATION && detected === NO_VIOLATION ? "—" : count}
+                          </TableCell>
+                        );
+                      })}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+
+          {results.length > 0 && (
+            <Card className="shadow-card border-border">
+              <CardHeader>
+                <CardTitle>Videos</CardTitle>
+                <CardDescription>What each labeled video contributed to this run</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Video</TableHead>
+                      <TableHead className="text-right">Frames</TableHead>
+                      <TableHead className="text-right">Labels</TableHead>
+                      <TableHead className="text-right">Detections</TableHead>
+                      <TableHead>Labeled types</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {results.map((video) => (
+                      <TableRow key={video.video_id} className={video.skipped ? "opacity-60" : undefined}>
+                        <TableCell className="max-w-[260px] text-sm">
+                          <div className="truncate">{video.video_name}</div>
+                          {video.skipped && <div className="text-xs text-muted-foreground">{video.skipped}</div>}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {video.frames}
+                          {!!video.frames_failed && (
+                            <div className="text-xs text-destructive">{video.frames_failed} failed</div>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-right">{video.labels.length}</TableCell>
+                        <TableCell className="text-right">{video.findings.length}</TableCell>
+                        <TableCell className="text-sm text-muted-foreground">
+                          {[...new Set(video.labels.map((label) => label.violation_type))].join(", ") || "—"}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+          )}
+        </>
+      )}
+
+      <Card className="shadow-card border-border">
+        <CardHeader>
+          <CardTitle>History</CardTitle>
+          <CardDescription>Every run with the detector version it measured; select one to see its details</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="text-center py-8">Loading evaluations...</div>
+          ) : runs.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">No evaluations at this site yet.</div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Run</TableHead>
+                  <TableHead>Detector version</TableHead>
+                  <TableHead className="text-right">Videos</TableHead>
+                  <TableHead className="text-right">Precision</TableHead>
+                  <TableHead className="text-right">Recall</TableHead>
+                  <TableHead className="text-right">F1</TableHead>
+                  <TableHead className="text-right">Change</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {runs.map((run) => {
+                  const summary = runMetrics(run);
+                  const change = run.status === "succeeded" ? f1Change(run) : null;
+                  return (
+                    <TableRow
+                      key={run.id}
+                      onClick={() => run.status === "succeeded" && setSelectedId(run.id)}
+                      className={cn(
+                        run.status === "succeeded" && "cursor-pointer",
+                        run.id === selected?.id && "bg-primary/5"
+                      )}
+                    >
+                      <TableCell className="text-sm">
+                        {run.created_at ? new Date(run.created_at).toLocaleString() : "—"}
+                        {run.status !== "succeeded" && (
+                          <Badge
+                            variant={run.status === "failed" ? "destructive" : "secondary"}
+                            className="ml-2"
+                            title={run.error_message ?? undefined}
+                          >
+                            {run.status}
+                          </Badge>
+                        )}
+                      </TableCell>
+                      <TableCell className="font-mono text-sm">{run.detector_version}</TableCell>
+                      <TableCell className="text-right">{summary?.videos_evaluated ?? run.videos_total}</TableCell>
+                      <TableCell className="text-right">{formatScore(summary?.overall.precision)}</TableCell>
+                      <TableCell className="text-right">{formatScore(summary?.overall.recall)}</TableCell>
+                      <TableCell className="text-right font-medium">{formatScore(summary?.overall.f1)}</TableCell>
+                      <TableCell className="text-right">
+                        {change === null ? (
+                          <span className="text-muted-foreground">—</span>
+                        ) : (
+                          <span
+                            className={cn(
+                              "inline-flex items-center gap-1 text-sm",
+                              change < 0 ? "text-destructive" : change > 0 ? "text-success" : "text-muted-foreground"
+                            )}
+                          >
+                            {change < 0 ? <TrendingDown className="h-3 w-3" /> : change > 0 && <TrendingUp className="h-3 w-3" />}
+                            {change > 0 ? "+" : ""}
+                            {(change * 100).toFixed(1)} pts
+                          </span>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default DetectorEvaluation;
@@ -0,0 +1,196 @@
+import { useRef, useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { FileUp, Loader2, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { supabase } from "@/integrations/supabase/client";
+import { useProfile } from "@/hooks/use-profile";
+import { useCurrentSite } from "@/hooks/use-current-site";
+import { useVideoAnnotations } from "@/hooks/use-annotations";
+import {
+  describeRange,
+  importAnnotations,
+  parseAnnotationFile,
+  type ParsedAnnotations,
+  type VideoAnnotation,
+} from "@/lib/annotations";
+
+const SHOWN_ERRORS = 5;
+
+// Ground-truth labels of the current site's videos: imported from annotation files or read
+// from the names of uploaded videos, and used to evaluate the detector
+const GroundTruthLabels = () => {
+  const queryClient = useQueryClient();
+  const fileRef = useRef<HTMLInputElement>(null);
+  const { can } = useProfile();
+  const canManage = can("manage_annotations");
+  const { site, siteId } = useCurrentSite();
+  const { data: labels = [], isLoading } = useVideoAnnotations(siteId);
+  const [pending, setPending] = useState<{ fileName: string; parsed: ParsedAnnotations } | null>(null);
+  const [importing, setImporting] = useState(false);
+
+  const refresh = () => queryClient.invalidateQueries({ queryKey: ["video-annotations", siteId] });
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (fileRef.current) fileRef.current.value = "";
+    if (!file) return;
+
+    if (!/\.(csv|json)$/i.test(file.name)) {
+      toast.error("Please choose a CSV or JSON annotation file");
+      return;
+    }
+    setPending({ fileName: file.name, parsed: parseAnnotationFile(file.name, await file.text()) });
+  };
+
+  const handleImport = async () => {
+    if (!pending || !siteId) return;
+    setImporting(true);
+    try {
+      const added = await importAnnotations(siteId, pending.parsed.labels, pending.fileName);
+      const skipped = pending.parsed.labels.length - added;
+      toast.success(`Imported ${added} labels${skipped ? `, ${skipped} already present` : ""}`);
+      setPending(null);
+      refresh();
+    } catch (error) {
+      console.error("Error importing annotations:", error);
+      toast.error("Failed to import annotations");
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const deleteLabel = async (label: VideoAnnotation) => {
+    const { error } = await supabase.from("video_annotations").delete().eq("id", label.id);
+    if (error) {
+      console.error("Error deleting label:", error);
+      toast.error(`Failed to delete label: ${error.message}`);
+      return;
+    }
+    refresh();
+  };
+
+  const videoCount = new Set(labels.map((label) => label.video_name.toLowerCase())).size;
+
+  return (
+    <div className="space-y-6">
+      <input type="file" ref={fileRef} onChange={handleFileChange} accept=".csv,.json" className="hidden" />
+
+      <div>
+        <h1 className="text-3xl font-bold bg-gradient-primary bg-clip-text text-transparent">Ground Truth</h1>
+        <p className="text-muted-foreground mt-1">
+          Labeled violations of videos{site ? ` at ${site.name}` : ""}, kept apart from detections and used to measure the
+          detector
+        </p>
+      </div>
+
+      {canManage && (
+        <Card className="shadow-card border-border">
+          <CardHeader>
+            <CardTitle>Import annotations</CardTitle>
+            <CardDescription>
+              CSV with a header row or JSON: one label per row with <code>video</code> (file name), <code>type</code>,{" "}
+              <code>start</code> and <code>end</code> (or a single <code>time</code>) in seconds or MM:SS, and an
+              optional <code>note</code>. Labels are linked to the upload with the same file name, also when it is
+              uploaded later.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <Button variant="outline" onClick={() => fileRef.current?.click()} disabled={!siteId || importing}>
+              <FileUp className="h-4 w-4 mr-2" />
+              Choose file
+            </Button>
+
+            {pending && (
+              <div className="space-y-3 rounded-md border border-border p-4">
+                <p className="text-sm">
+                  <span className="font-medium">{pending.fileName}</span>: {pending.parsed.labels.length} labels
+                  {pending.parsed.errors.length > 0 && `, ${pending.parsed.errors.length} rows rejected`}
+                </p>
+                {pending.parsed.errors.length > 0 && (
+                  <ul className="list-disc list-inside text-sm text-destructive">
+                    {pending.parsed.errors.slice(0, SHOWN_ERRORS).map((error) => (
+                      <li key={error}>{error}</li>
+                    ))}
+                    {pending.parsed.errors.length > SHOWN_ERRORS && (
+                      <li>and {pending.parsed.errors.length - SHOWN_ERRORS} more</li>
+                    )}
+                  </ul>
+                )}
+                <div className="flex gap-2">
+                  <Button onClick={handleImport} disabled={importing || pending.parsed.labels.length === 0}>
+                    {importing && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                    Import {pending.parsed.labels.length} labels
+                  </Button>
+                  <Button variant="ghost" onClick={() => setPending(null)} disabled={importing}>
+                    Cancel
+                  </Button>
+                </div>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      <Card className="shadow-card border-border">
+        <CardHeader>
+          <CardTitle>Labels</CardTitle>
+          <CardDescription>
+            {labels.length} labels over {videoCount} videos. Names like{" "}
+            <code>Broken_cylinder_at_01.11_min.mp4</code> are labeled when uploaded.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="text-center py-8">Loading labels...</div>
+          ) : labels.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">No labels for this site yet.</div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Video</TableHead>
+                  <TableHead>Violation</TableHead>
+                  <TableHead>Time</TableHead>
+                  <TableHead>Source</TableHead>
+                  <TableHead>Note</TableHead>
+                  {canManage && <TableHead className="text-right">Actions</TableHead>}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {labels.map((label) => (
+                  <TableRow key={label.id}>
+                    <TableCell className="max-w-[260px] text-sm">
+                      <div className="truncate">{label.video_name}</div>
+                      {!label.video_id && <div className="text-xs text-muted-foreground">not uploaded yet</div>}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant="outline">{label.violation_type}</Badge>
+                    </TableCell>
+                    <TableCell className="font-mono text-sm">{describeRange(label)}</TableCell>
+                    <TableCell className="text-sm text-muted-foreground">
+                      {label.source === "filename" ? "File name" : label.source_file ?? "Import"}
+                    </TableCell>
+                    <TableCell className="max-w-[200px] truncate text-sm text-muted-foreground">{label.note ?? "—"}</TableCell>
+                    {canManage && (
+                      <TableCell className="text-right">
+                        <Button variant="ghost" size="sm" onClick={() => deleteLabel(label)}>
+                          <Trash2 className="h-4 w-4 text-destructive" />
+                        </Button>
+                      </TableCell>
+                    )}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default GroundTruthLabels;
@@ -0,0 +1,205 @@
+import { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import type { ObjectDetection } from "@tensorflow-models/coco-ssd";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Cctv } from "lucide-react";
+import { toast } from "sonner";
+import { supabase } from "@/integrations/supabase/client";
+import { loadCocoSsd } from "@/lib/object-detection";
+import type { ViolationRow } from "@/lib/violations";
+import { useProfile } from "@/hooks/use-profile";
+import { useCurrentSite } from "@/hooks/use-current-site";
+import { useCameras } from "@/hooks/use-cameras";
+import LiveStreamTile from "@/components/LiveStreamTile";
+
+const CAMERA_INTERVAL = "camera";
+const INTERVALS = ["2", "5", "10", "30", "60"];
+const MAX_ALERTS = 50;
+
+const LiveMonitoring = () => {
+  const { can } = useProfile();
+  const canAnalyze = can("analyze_videos");
+  const { site, siteId } = useCurrentSite();
+  const { data: cameras = [], isLoading } = useCameras(siteId);
+  const streams = cameras.filter((camera) => camera.is_active && camera.stream_url);
+  const [sampling, setSampling] = useState(false);
+  const [samplingInterval, setSamplingInterval] = useState(CAMERA_INTERVAL);
+  const [onDeviceDetection, setOnDeviceDetection] = useState(false);
+  const [model, setModel] = useState<ObjectDetection | null>(null);
+  const [alerts, setAlerts] = useState<ViolationRow[]>([]);
+
+  useEffect(() => {
+    if (!onDeviceDetection) {
+      setModel(null);
+      return;
+    }
+    let cancelled = false;
+    loadCocoSsd("webgl")
+      .then((loaded) => !cancelled && setModel(loaded))
+      .catch((error) => {
+        console.warn("Failed to load COCO-SSD for live monitoring", error);
+        toast.error("On-device detector unavailable");
+        setOnDeviceDetection(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [onDeviceDetection]);
+
+  // Stream violations of the site, whoever's browser sampled them
+  useEffect(() => {
+    if (!siteId) return;
+    setAlerts([]);
+
+    supabase
+      .from("violations")
+      .select("*")
+      .eq("site_id", siteId)
+      .eq("source_type", "stream")
+      .eq("suppressed", false)
+      .order("detected_at", { ascending: false })
+      .limit(20)
+      .then(({ data, error }) => {
+        if (error) {
+          console.error("Error fetching live alerts:", error);
+          return;
+        }
+        setAlerts((current) => [...current, ...((data || []) as ViolationRow[])].slice(0, MAX_ALERTS));
+      });
+
+    const channel = supabase
+      .channel("live-alerts")
+      .on(
+        "postgres_changes",
+        { event: "INSERT", schema: "public", table: "violations", filter: `site_id=eq.${siteId}` },
+        (payload) => {
+          const row = payload.new as ViolationRow;
+          if (row.source_type !== "stream" || row.suppressed) return;
+          setAlerts((current) => [row, ...current].slice(0, MAX_ALERTS));
+          const notify = row.metadata?.severity === "critical" ? toast.error : toast.warning;
+          notify(`${row.source_name}: ${row.violation_type}`, {
+            description: `${(row.confidence * 100).toFixed(0)}% confidence at ${new Date(row.detected_at).toLocaleTimeString()}`,
+          });
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [siteId]);
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold bg-gradient-primary bg-clip-text text-transparent">Live Monitoring</h1>
+        <p className="text-muted-foreground mt-1">
+          Camera streams{site ? ` of ${site.name}` : ""} with violations detected on sampled frames as they happen
+        </p>
+      </div>
+
+      {canAnalyze && streams.length > 0 && (
+        <Card className="shadow-card border-border">
+          <CardContent className="flex flex-wrap items-center gap-6 pt-6">
+            <div className="flex items-center gap-3">
+              <Switch id="live-sampling" checked={sampling} onCheckedChange={setSampling} />
+              <div>
+                <Label htmlFor="live-sampling">Analyze streams</Label>
+                <p className="text-xs text-muted-foreground">Sample frames from this browser while the page is open</p>
+              </div>
+            </div>
+            <div className="flex items-center gap-3">
+              <Label>Sample every</Label>
+              <Select value={samplingInterval} onValueChange={setSamplingInterval}>
+                <SelectTrigger className="w-40">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={CAMERA_INTERVAL}>Camera default</SelectItem>
+                  {INTERVALS.map((seconds) => (
+                    <SelectItem key={seconds} value={seconds}>{seconds} seconds</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex items-center gap-3">
+              <Switch id="live-on-device" checked={onDeviceDetection} onCheckedChange={setOnDeviceDetection} />
+              <div>
+                <Label htmlFor="live-on-device">On-device detection</Label>
+                <p className="text-xs text-muted-foreground">Run COCO-SSD on each frame and send its boxes to the rule engine</p>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      <div className="grid gap-6 xl:grid-cols-[minmax(0,1fr)_320px]">
+        {isLoading ? (
+          <div className="text-center py-8">Loading cameras...</div>
+        ) : streams.length === 0 ? (
+          <Card className="shadow-card border-border">
+            <CardContent className="py-12 text-center text-muted-foreground space-y-4">
+              <Cctv className="h-12 w-12 mx-auto" />
+              <p>No active camera at this site has a stream URL.</p>
+              <p className="text-sm">
+                Add the HLS URL of a camera in the registry. For RTSP cameras or local testing, run{" "}
+                <code className="rounded bg-secondary px-1 font-mono">npm run stream-relay -- test</code>.
+              </p>
+              <Button variant="outline" asChild>
+                <Link to="/cameras">Open camera registry</Link>
+              </Button>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="grid gap-4 md:grid-cols-2 2xl:grid-cols-3">
+            {streams.map((camera) => (
+              <LiveStreamTile
+                key={camera.id}
+                camera={camera}
+                sampling={sampling && canAnalyze}
+                intervalSeconds={samplingInterval === CAMERA_INTERVAL ? camera.sample_interval_seconds : Number(samplingInterval)}
+                model={model}
+              />
+            ))}
+          </div>
+        )}
+
+        <Card className="shadow-card border-border">
+          <CardHeader>
+            <CardTitle>Live alerts</CardTitle>
+            <CardDescription>Latest violations from camera streams</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {alerts.length === 0 ? (
+              <p className="text-sm text-muted-foreground py-4 text-center">No stream violations yet</p>
+            ) : (
+              <div className="max-h-[640px] space-y-2 overflow-auto pr-1">
+                {alerts.map((alert) => (
+                  <div key={alert.id} className="rounded-lg border border-border px-3 py-2">
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="truncate text-sm font-medium">{alert.violation_type}</span>
+                      <Badge variant={alert.metadata?.severity === "critical" ? "destructive" : "secondary"}>
+                        {(alert.confidence * 100).toFixed(0)}%
+                      </Badge>
+                    </div>
+                    <div className="truncate text-xs text-muted-foreground">
+                      {alert.source_name}
+                      {alert.zone && ` · ${alert.zone}`} · {new Date(alert.detected_at).toLocaleString()}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default LiveMonitoring;
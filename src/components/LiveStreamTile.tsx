@@ -0,0 +1,171 @@
+import { useEffect, useRef, useState } from "react";
+import Hls from "hls.js";
+import type { ObjectDetection } from "@tensorflow-models/coco-ssd";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { cn } from "@/lib/utils";
+import { supabase } from "@/integrations/supabase/client";
+import { captureFrame } from "@/lib/frame-extraction";
+import { drawViolations, prepareOverlay } from "@/lib/violation-overlay";
+import type { ViolationRow } from "@/lib/violations";
+import type { Camera } from "@/hooks/use-cameras";
+
+type StreamStatus = "connecting" | "live" | "offline";
+
+const STATUS_BADGES: Record<StreamStatus, { label: string; variant: "default" | "secondary" | "destructive" }> = {
+  connecting: { label: "Connecting", variant: "secondary" },
+  live: { label: "Live", variant: "default" },
+  offline: { label: "Offline", variant: "destructive" },
+};
+
+// A fatal network error is retried after this long (the relay may just be restarting)
+const RECONNECT_MS = 5000;
+
+interface LiveStreamTileProps {
+  camera: Camera;
+  // Whether frames are sent to analyze-stream-frame
+  sampling: boolean;
+  intervalSeconds: number;
+  model: ObjectDetection | null;
+}
+
+// One camera of the Live Monitoring grid: plays its HLS stream and, while sampling,
+// sends the current frame to analyze-stream-frame every `intervalSeconds`
+const LiveStreamTile = ({ camera, sampling, intervalSeconds, model }: LiveStreamTileProps) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const hlsRef = useRef<Hls | null>(null);
+  const [status, setStatus] = useState<StreamStatus>("connecting");
+  const [lastSampledAt, setLastSampledAt] = useState<Date | null>(null);
+  const [sampleError, setSampleError] = useState<string | null>(null);
+  // Violations of the last analyzed frame, drawn over the stream until the next one
+  const [overlay, setOverlay] = useState<ViolationRow[]>([]);
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video || !camera.stream_url) return;
+    setStatus("connecting");
+    let retry: ReturnType<typeof setTimeout> | undefined;
+    const onPlaying = () => setStatus("live");
+    video.addEventListener("playing", onPlaying);
+
+    if (Hls.isSupported()) {
+      const hls = new Hls({ liveDurationInfinity: true });
+      hlsRef.current = hls;
+      hls.loadSource(camera.stream_url);
+      hls.attachMedia(video);
+      hls.on(Hls.Events.ERROR, (_event, data) => {
+        if (!data.fatal) return;
+        setStatus("offline");
+        if (data.type === Hls.ErrorTypes.MEDIA_ERROR) {
+          hls.recoverMediaError();
+        } else {
+          retry = setTimeout(() => hls.startLoad(), RECONNECT_MS);
+        }
+      });
+    } else if (video.canPlayType("application/vnd.apple.mpegurl")) {
+      // Safari plays HLS natively
+      video.src = camera.stream_url;
+      video.onerror = () => setStatus("offline");
+    } else {
+      setStatus("offline");
+    }
+    video.play().catch(() => undefined);
+
+    return () => {
+      clearTimeout(retry);
+      video.removeEventListener("playing", onPlaying);
+      hlsRef.current?.destroy();
+      hlsRef.current = null;
+      video.removeAttribute("src");
+    };
+  }, [camera.stream_url]);
+
+  useEffect(() => {
+    if (!sampling || status !== "live") return;
+    let busy = false;
+
+    const sample = async () => {
+      const video = videoRef.current;
+      // A slow analysis skips ticks instead of piling up requests
+      if (!video || busy) return;
+      busy = true;
+      try {
+        // Wall-clock time of the frame from the stream's program date-time, else the local clock
+        const capturedAt = hlsRef.current?.playingDate ?? new Date();
+        const frame = await captureFrame(video, model);
+
+        const formData = new FormData();
+        formData.append("cameraId", camera.id);
+        formData.append("capturedAt", capturedAt.toISOString());
+        formData.append("frame", frame.blob, "frame.jpg");
+        formData.append("frame_size", JSON.stringify({ width: frame.width, height: frame.height }));
+        if (model) formData.append("frame_detections", JSON.stringify(frame.detections));
+
+        const { data, error } = await supabase.functions.invoke("analyze-stream-frame", { body: formData });
+        if (error) throw error;
+        if (!data.success) throw new Error(data.error || "Analysis failed");
+
+        setOverlay(data.violations as ViolationRow[]);
+        setLastSampledAt(capturedAt);
+        setSampleError(null);
+      } catch (error) {
+        console.error(`Error sampling ${camera.name}:`, error);
+        setSampleError(error instanceof Error ? error.message : "Sampling failed");
+      } finally {
+        busy = false;
+      }
+    };
+
+    sample();
+    const timer = setInterval(sample, intervalSeconds * 1000);
+    return () => clearInterval(timer);
+  }, [sampling, status, intervalSeconds, model, camera.id, camera.name]);
+
+  // Keep the overlay aligned with the picture while there is something to draw
+  useEffect(() => {
+    const video = videoRef.current;
+    const canvas = canvasRef.current;
+    if (!video || !canvas) return;
+    let animation = 0;
+    const tick = () => {
+      const layout = prepareOverlay(video, canvas);
+      if (layout) drawViolations(layout, overlay);
+      if (overlay.length > 0) animation = requestAnimationFrame(tick);
+    };
+    tick();
+    return () => cancelAnimationFrame(animation);
+  }, [overlay]);
+
+  const badge = STATUS_BADGES[status];
+  const alerting = overlay.length > 0;
+
+  return (
+    <Card className={cn("shadow-card border-border", alerting && "border-destructive ring-1 ring-destructive")}>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0 pb-3">
+        <div className="min-w-0">
+          <CardTitle className="truncate text-base">{camera.name}</CardTitle>
+          <CardDescription className="truncate">{[camera.zone, camera.location].filter(Boolean).join(" · ") || "No zone"}</CardDescription>
+        </div>
+        <Badge variant={badge.variant}>{badge.label}</Badge>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        <div className="relative overflow-hidden rounded-md bg-black aspect-video">
+          <video ref={videoRef} muted autoPlay playsInline crossOrigin="anonymous" className="h-full w-full object-contain" />
+          <canvas ref={canvasRef} className="pointer-events-none absolute left-0 top-0" />
+        </div>
+        <p className={cn("truncate text-xs", sampleError ? "text-destructive" : "text-muted-foreground")}>
+          {sampleError
+            ? `Sampling failed: ${sampleError}`
+            : !sampling
+              ? "Not analyzing"
+              : lastSampledAt
+                ? `Every ${intervalSeconds}s · last frame ${lastSampledAt.toLocaleTimeString()}${alerting ? ` · ${overlay.length} violation(s)` : ""}`
+                : `Every ${intervalSeconds}s · waiting for the first frame`}
+        </p>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default LiveStreamTile;
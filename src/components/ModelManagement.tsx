@@ -5,18 +5,27 @@ import { Upload, Loader2 } from "lucide-react";
 import { toast } from "sonner";
 import { supabase } from "@/integrations/supabase/client";
 import { useQuery } from "@tanstack/react-query";
+import { useProfile } from "@/hooks/use-profile";
+import { useCurrentSite } from "@/hooks/use-current-site";
 
 const ModelManagement = () => {
   const datasetFileRef = useRef<HTMLInputElement>(null);
   const [uploadingDataset, setUploadingDataset] = useState(false);
+  // Datasets are active for everyone's detections, so only admins may add them
+  const { can } = useProfile();
+  const canManage = can("manage_models");
+  // Datasets only influence detections of the site they were uploaded to
+  const { site, siteId } = useCurrentSite();
 
   // Fetch uploaded datasets from database
   const { data: uploadedDatasets = [], refetch } = useQuery({
-    queryKey: ['uploaded-datasets'],
+    queryKey: ['uploaded-datasets', siteId],
+    enabled: siteId !== null,
     queryFn: async () => {
       const { data, error } = await supabase
         .from('models')
         .select('*')
+        .eq('site_id', siteId!)
         .eq('type', 'dataset')
         .order('created_at', { ascending: false });
       
@@ -31,7 +40,7 @@ const ModelManagement = () => {
 
   const handleDatasetFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
-    if (!file) return;
+    if (!file || !siteId) return;
 
     // Validate file type
     if (!file.name.endsWith('.zip')) {
@@ -60,6 +69,7 @@ const ModelManagement = () => {
           file_size: file.size,
           mime_type: file.type,
           uploaded_by: user?.id,
+          site_id: siteId,
           is_active: true, // Mark as active for detection
           metadata: {
             format: 'yolo',
@@ -98,46 +108,48 @@ const ModelManagement = () => {
         </p>
       </div>
 
-      <Card className="shadow-card border-border">
-        <CardHeader>
-          <CardTitle>Upload Training Dataset</CardTitle>
-          <CardDescription>
-            Upload a ZIP file containing YOLO-format training data (images + labels). 
-            The system will automatically extract and use this data to improve violation detection.
-          </CardDescription>
-        </CardHeader>
-        <CardContent className="space-y-4">
-          <Button 
-            onClick={handleUploadDataset} 
-            className="w-full" 
-            disabled={uploadingDataset}
-            size="lg"
-          >
-            {uploadingDataset ? (
-              <Loader2 className="h-5 w-5 mr-2 animate-spin" />
-            ) : (
-              <Upload className="h-5 w-5 mr-2" />
-            )}
-            {uploadingDataset ? 'Uploading Dataset...' : 'Upload YOLO Dataset (ZIP)'}
-          </Button>
+      {canManage && (
+        <Card className="shadow-card border-border">
+          <CardHeader>
+            <CardTitle>Upload Training Dataset</CardTitle>
+            <CardDescription>
+              Upload a ZIP file containing YOLO-format training data (images + labels). 
+              The system will automatically extract and use this data to improve violation detection.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <Button 
+              onClick={handleUploadDataset} 
+              className="w-full" 
+              disabled={uploadingDataset || !siteId}
+              size="lg"
+            >
+              {uploadingDataset ? (
+                <Loader2 className="h-5 w-5 mr-2 animate-spin" />
+              ) : (
+                <Upload className="h-5 w-5 mr-2" />
+              )}
+              {uploadingDataset ? 'Uploading Dataset...' : 'Upload YOLO Dataset (ZIP)'}
+            </Button>
           
-          <div className="text-sm text-muted-foreground space-y-2">
-            <p className="font-medium text-foreground">Dataset Requirements:</p>
-            <ul className="list-disc list-inside space-y-1 ml-2">
-              <li>ZIP file containing images and YOLO annotation files (.txt)</li>
-              <li>Images should be in JPG, PNG, or similar formats</li>
-              <li>Labels should follow YOLO format (class x y width height)</li>
-              <li>The system will extract and integrate this data automatically</li>
-            </ul>
-          </div>
-        </CardContent>
-      </Card>
+            <div className="text-sm text-muted-foreground space-y-2">
+              <p className="font-medium text-foreground">Dataset Requirements:</p>
+              <ul className="list-disc list-inside space-y-1 ml-2">
+                <li>ZIP file containing images and YOLO annotation files (.txt)</li>
+                <li>Images should be in JPG, PNG, or similar formats</li>
+                <li>Labels should follow YOLO format (class x y width height)</li>
+                <li>The system will extract and integrate this data automatically</li>
+              </ul>
+            </div>
+          </CardContent>
+        </Card>
+      )}
 
       {uploadedDatasets.length > 0 && (
         <Card className="shadow-card border-border">
           <CardHeader>
             <CardTitle>Uploaded Datasets</CardTitle>
-            <CardDescription>Active training datasets being used for detection</CardDescription>
+            <CardDescription>Active training datasets being used for detection{site ? ` at ${site.name}` : ""}</CardDescription>
           </CardHeader>
           <CardContent className="space-y-3">
             {uploadedDatasets.map((dataset) => (
@@ -0,0 +1,29 @@
+import type { ReactNode } from "react";
+import { Card, CardContent } from "@/components/ui/card";
+import { ShieldOff } from "lucide-react";
+import { useProfile } from "@/hooks/use-profile";
+import { ROLES, type Permission } from "@/lib/roles";
+
+// Renders its children only for roles with `permission`; the page is hidden from the sidebar otherwise
+const RequirePermission = ({ permission, children }: { permission: Permission; children: ReactNode }) => {
+  const { can, role, isLoading } = useProfile();
+
+  if (isLoading) {
+    return <div className="text-center py-8">Loading...</div>;
+  }
+  if (!can(permission)) {
+    return (
+      <Card className="shadow-card border-border">
+        <CardContent className="flex flex-col items-center gap-3 py-12 text-center text-muted-foreground">
+          <ShieldOff className="h-8 w-8" />
+          <p>
+            Your role ({role ? ROLES[role] : "none"}) does not give access to this page. Ask an admin if you need it.
+          </p>
+        </CardContent>
+      </Card>
+    );
+  }
+  return <>{children}</>;
+};
+
+export default RequirePermission;
@@ -0,0 +1,85 @@
+import { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { VIOLATION_TYPES, type ViolationRow } from "@/lib/violations";
+import type { ReviewDecision } from "@/lib/violation-review";
+
+interface ReviewDialogProps {
+  violation: ViolationRow | null;
+  onOpenChange: (open: boolean) => void;
+  onSubmit: (decision: ReviewDecision) => void;
+}
+
+// Reclassify a violation to another type or attach a note to it
+const ReviewDialog = ({ violation, onOpenChange, onSubmit }: ReviewDialogProps) => {
+  const [type, setType] = useState("");
+  const [note, setNote] = useState("");
+
+  useEffect(() => {
+    if (!violation) return;
+    setType(violation.violation_type);
+    setNote(violation.review_note ?? "");
+  }, [violation]);
+
+  const submit = () => {
+    if (!violation) return;
+    const reviewNote = note.trim() || null;
+    if (type !== violation.violation_type) {
+      onSubmit({ review_status: "reclassified", violation_type: type, review_note: reviewNote });
+    } else {
+      // Same type: keep the current decision (confirm by default) and only update the note
+      const status = violation.review_status === "unreviewed" ? "confirmed" : violation.review_status;
+      onSubmit({ review_status: status as ReviewDecision["review_status"], review_note: reviewNote });
+    }
+  };
+
+  return (
+    <Dialog open={violation !== null} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Review violation</DialogTitle>
+          <DialogDescription>
+            Change the violation type to reclassify it, or keep it and add a note.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Violation type</Label>
+            <Select value={type} onValueChange={setType}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {VIOLATION_TYPES.map((violationType, i) => (
+                  <SelectItem key={violationType} value={violationType}>
+                    {i + 1}. {violationType}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="review-note">Note</Label>
+            <Textarea
+              id="review-note"
+              placeholder="Why was this decision made?"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+            />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={submit}>Save review</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ReviewDialog;
@@ -0,0 +1,288 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { Link } from "react-router-dom";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Check, Loader2, PenLine, Play, X } from "lucide-react";
+import { toast } from "sonner";
+import { cn } from "@/lib/utils";
+import { DEFAULT_FPS, formatVideoTimestamp } from "@/lib/video-metadata";
+import { EMPTY_FILTERS, type ViolationFilters } from "@/lib/violation-filters";
+import { DETECTION_METHODS, VIOLATION_TYPES, type ViolationRow } from "@/lib/violations";
+import { reviewViolation, type ReviewDecision } from "@/lib/violation-review";
+import { useViolations } from "@/hooks/use-violations";
+import ReviewDialog from "@/components/ReviewDialog";
+
+const QUEUE_FILTERS: ViolationFilters = { ...EMPTY_FILTERS, reviewStatuses: ["unreviewed"] };
+
+const SHORTCUTS: [string, string][] = [
+  ["C", "Confirm"],
+  ["F", "False positive"],
+  ["R", "Reclassify / note"],
+  ["1–6", "Reclassify to type"],
+  ["J / K", "Next / previous"],
+  ["N", "Edit note"],
+];
+
+const Kbd = ({ children }: { children: string }) => (
+  <kbd className="rounded border border-border bg-secondary px-1.5 py-0.5 font-mono text-xs">{children}</kbd>
+);
+
+const videoName = (violation: ViolationRow) =>
+  violation.source_name || violation.video_path?.split("/").pop() || "Unknown Source";
+
+const ReviewQueue = () => {
+  const { rows, total, isLoading, isError, hasNextPage, isFetchingNextPage, fetchNextPage, replaceInCache } =
+    useViolations(QUEUE_FILTERS);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [note, setNote] = useState("");
+  const [dialogFor, setDialogFor] = useState<ViolationRow | null>(null);
+  const [saving, setSaving] = useState(false);
+  const noteRef = useRef<HTMLTextAreaElement>(null);
+  const itemRefs = useRef(new Map<string, HTMLButtonElement>());
+
+  const index = Math.max(0, rows.findIndex((row) => row.id === selectedId));
+  const selected = rows[index] ?? null;
+
+  useEffect(() => {
+    if (isError) toast.error("Failed to load the review queue");
+  }, [isError]);
+
+  // The note field belongs to the selected item
+  useEffect(() => {
+    setNote(selected?.review_note ?? "");
+    if (selected) itemRefs.current.get(selected.id)?.scrollIntoView({ block: "nearest" });
+  }, [selected?.id]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  // Keep a page of items ahead of the reviewer
+  useEffect(() => {
+    if (index >= rows.length - 5 && hasNextPage && !isFetchingNextPage) fetchNextPage();
+  }, [index, rows.length, hasNextPage, isFetchingNextPage, fetchNextPage]);
+
+  const move = useCallback(
+    (offset: number) => {
+      const next = rows[Math.min(rows.length - 1, Math.max(0, index + offset))];
+      if (next) setSelectedId(next.id);
+    },
+    [rows, index]
+  );
+
+  const decide = useCallback(
+    async (decision: ReviewDecision) => {
+      if (!selected || saving) return;
+      // Reviewed items leave the queue; continue with the one after it
+      const following = rows[index + 1] ?? rows[index - 1] ?? null;
+      setSaving(true);
+      try {
+        const reviewed = await reviewViolation(selected.id, { review_note: note.trim() || null, ...decision });
+        replaceInCache(reviewed);
+        setSelectedId(following?.id ?? null);
+        setDialogFor(null);
+      } catch (error) {
+        console.error("Error reviewing violation:", error);
+        toast.error("Failed to save review");
+      } finally {
+        setSaving(false);
+      }
+    },
+    [selected, saving, rows, index, note, replaceInCache]
+  );
+
+  useEffect(() => {
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (event.metaKey || event.ctrlKey || event.altKey || dialogFor) return;
+      const target = event.target as HTMLElement;
+      if (target.closest("input, textarea, select, [contenteditable='true']")) {
+        if (event.key === "Escape") target.blur();
+        return;
+      }
+
+      const key = event.key.toLowerCase();
+      const typeIndex = Number(event.key) - 1;
+      if (key === "j" || key === "arrowdown") move(1);
+      else if (key === "k" || key === "arrowup") move(-1);
+      else if (key === "c") decide({ review_status: "confirmed" });
+      else if (key === "f") decide({ review_status: "false_positive" });
+      else if (key === "r") setDialogFor(selected);
+      else if (key === "n") noteRef.current?.focus();
+      else if (typeIndex >= 0 && typeIndex < VIOLATION_TYPES.length && selected) {
+        const type = VIOLATION_TYPES[typeIndex];
+        if (type === selected.violation_type) decide({ review_status: "confirmed" });
+        else decide({ review_status: "reclassified", violation_type: type });
+      } else return;
+      event.preventDefault();
+    };
+
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [move, decide, selected, dialogFor]);
+
+  const fps = selected?.metadata?.video_fps || DEFAULT_FPS;
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold bg-gradient-primary bg-clip-text text-transparent">Review Queue</h1>
+        <p className="text-muted-foreground mt-1">
+          Confirm, reject or reclassify detections that nobody has reviewed yet
+        </p>
+      </div>
+
+      <div className="flex flex-wrap gap-4 text-sm text-muted-foreground">
+        {SHORTCUTS.map(([key, label]) => (
+          <span key={key} className="flex items-center gap-1.5">
+            <Kbd>{key}</Kbd> {label}
+          </span>
+        ))}
+      </div>
+
+      {isLoading ? (
+        <div className="text-center py-8">Loading review queue...</div>
+      ) : rows.length === 0 ? (
+        <Card className="shadow-card border-border">
+          <CardContent className="py-12 text-center text-muted-foreground">
+            All caught up: there are no unreviewed violations.
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="grid gap-6 lg:grid-cols-[minmax(0,1fr)_minmax(0,1.4fr)]">
+          <Card className="shadow-card border-border">
+            <CardHeader>
+              <CardTitle>Unreviewed</CardTitle>
+              <CardDescription>{(total ?? rows.length).toLocaleString()} violations waiting for review</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="h-[560px] space-y-1 overflow-auto pr-1">
+                {rows.map((row) => (
+                  <button
+                    key={row.id}
+                    ref={(element) => {
+                      if (element) itemRefs.current.set(row.id, element);
+                      else itemRefs.current.delete(row.id);
+                    }}
+                    onClick={() => setSelectedId(row.id)}
+                    className={cn(
+                      "w-full rounded-lg border px-3 py-2 text-left transition-colors",
+                      row.id === selected?.id ? "border-primary bg-primary/10" : "border-transparent hover:bg-secondary"
+                    )}
+                  >
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="truncate text-sm font-medium">{row.violation_type}</span>
+                      <span className="shrink-0 text-xs text-primary">{(row.confidence * 100).toFixed(0)}%</span>
+                    </div>
+                    <div className="truncate text-xs text-muted-foreground">
+                      {videoName(row)} · {new Date(row.detected_at).toLocaleString()}
+                    </div>
+                  </button>
+                ))}
+                {isFetchingNextPage && (
+                  <div className="flex items-center justify-center gap-2 py-2 text-sm text-muted-foreground">
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                    Loading more...
+                  </div>
+                )}
+              </div>
+            </CardContent>
+          </Card>
+
+          {selected && (
+            <Card className="shadow-card border-border">
+              <CardHeader>
+                <div className="flex items-start justify-between gap-4">
+                  <div>
+                    <CardTitle>{selected.violation_type}</CardTitle>
+                    <CardDescription>
+                      {videoName(selected)} at {formatVideoTimestamp(selected.frame_number, fps)}
+                    </CardDescription>
+                  </div>
+                  <Badge variant={selected.metadata?.severity === "critical" ? "destructive" : "secondary"}>
+                    {selected.metadata?.severity || "unknown"}
+                  </Badge>
+                </div>
+              </CardHeader>
+              <CardContent className="space-y-6">
+                <dl className="grid grid-cols-2 gap-4 text-sm">
+                  <div>
+                    <dt className="text-muted-foreground">Confidence</dt>
+                    <dd className="font-medium text-primary">{(selected.confidence * 100).toFixed(1)}%</dd>
+                  </div>
+                  <div>
+                    <dt className="text-muted-foreground">Detection method</dt>
+                    <dd className="font-medium">
+                      {DETECTION_METHODS[selected.metadata?.detection_method ?? ""] ?? selected.metadata?.detection_method ?? "Unknown"}
+                    </dd>
+                  </div>
+                  <div>
+                    <dt className="text-muted-foreground">Detected</dt>
+                    <dd className="font-medium">{new Date(selected.detected_at).toLocaleString()}</dd>
+                  </div>
+                  <div>
+                    <dt className="text-muted-foreground">Frame</dt>
+                    <dd className="font-medium">{selected.frame_number}</dd>
+                  </div>
+                  {selected.metadata?.rule && (
+                    <div className="col-span-2">
+                      <dt className="text-muted-foreground">Rule</dt>
+                      <dd className="font-medium">{selected.metadata.rule}</dd>
+                    </div>
+                  )}
+                </dl>
+
+                {selected.video_path && (
+                  <Button variant="outline" asChild>
+                    <Link
+                      to={`/upload?video=${encodeURIComponent(selected.video_path)}&frame=${selected.frame_number}`}
+                    >
+                      <Play className="h-4 w-4 mr-2" />
+                      Open in player
+                    </Link>
+                  </Button>
+                )}
+
+                <div className="space-y-2">
+                  <Label htmlFor="queue-note">Note</Label>
+                  <Textarea
+                    id="queue-note"
+                    ref={noteRef}
+                    placeholder="Optional note saved with the decision (press N to edit, Esc to leave)"
+                    value={note}
+                    onChange={(e) => setNote(e.target.value)}
+                  />
+                </div>
+
+                <div className="flex flex-wrap gap-2">
+                  <Button onClick={() => decide({ review_status: "confirmed" })} disabled={saving}>
+                    <Check className="h-4 w-4 mr-2" />
+                    Confirm
+                  </Button>
+                  <Button
+                    variant="destructive"
+                    onClick={() => decide({ review_status: "false_positive" })}
+                    disabled={saving}
+                  >
+                    <X className="h-4 w-4 mr-2" />
+                    False positive
+                  </Button>
+                  <Button variant="outline" onClick={() => setDialogFor(selected)} disabled={saving}>
+                    <PenLine className="h-4 w-4 mr-2" />
+                    Reclassify
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          )}
+        </div>
+      )}
+
+      <ReviewDialog
+        violation={dialogFor}
+        onOpenChange={(open) => !open && setDialogFor(null)}
+        onSubmit={decide}
+      />
+    </div>
+  );
+};
+
+export default ReviewQueue;
@@ -0,0 +1,28 @@
+import { Badge } from "@/components/ui/badge";
+import { REVIEW_STATUSES, type ReviewStatus, type ViolationRow } from "@/lib/violations";
+
+const VARIANTS: Record<ReviewStatus, string> = {
+  unreviewed: "border-muted-foreground/40 text-muted-foreground",
+  confirmed: "border-success text-success",
+  false_positive: "border-destructive text-destructive",
+  reclassified: "border-primary text-primary",
+};
+
+const ReviewStatusBadge = ({ violation }: { violation: ViolationRow }) => {
+  const status = violation.review_status as ReviewStatus;
+  const title = [
+    violation.original_violation_type && `Originally ${violation.original_violation_type}`,
+    violation.review_note,
+    violation.reviewed_at && `Reviewed ${new Date(violation.reviewed_at).toLocaleString()}`,
+  ]
+    .filter(Boolean)
+    .join(" · ");
+
+  return (
+    <Badge variant="outline" className={VARIANTS[status] ?? ""} title={title || undefined}>
+      {REVIEW_STATUSES[status] ?? violation.review_status}
+    </Badge>
+  );
+};
+
+export default ReviewStatusBadge;
@@ -0,0 +1,519 @@
+import { useEffect, useMemo, useState } from "react";
+import { Link } from "react-router-dom";
+import { Area, AreaChart, Bar, BarChart, CartesianGrid, Cell, Pie, PieChart, XAxis, YAxis } from "recharts";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectGroup, SelectItem, SelectLabel, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import {
+  useSiteComparison,
+  useViolationStats,
+  type StatsBucket,
+  type StatsPeriod,
+  type StatsScope,
+  type ViolationStats,
+} from "@/hooks/use-violation-stats";
+import { useCurrentSite } from "@/hooks/use-current-site";
+import { cameraZones, useCameras } from "@/hooks/use-cameras";
+import { useProfile } from "@/hooks/use-profile";
+import { DETECTION_METHODS, VIOLATION_TYPES } from "@/lib/violations";
+
+const PERIODS: Record<string, { label: string; hours: number; bucket: StatsBucket }> = {
+  "24h": { label: "Last 24 hours", hours: 24, bucket: "hour" },
+  "7d": { label: "Last 7 days", hours: 24 * 7, bucket: "day" },
+  "30d": { label: "Last 30 days", hours: 24 * 30, bucket: "day" },
+  "90d": { label: "Last 90 days", hours: 24 * 90, bucket: "week" },
+};
+
+// Scope select values: the whole site, "zone:<zone>" or "camera:<id>"
+const WHOLE_SITE_KEY = "site";
+
+const parseScope = (key: string): StatsScope => ({
+  cameraId: key.startsWith("camera:") ? key.slice("camera:".length) : null,
+  zone: key.startsWith("zone:") ? key.slice("zone:".length) : null,
+});
+
+// Log filters matching the dashboard scope, for links into the Violation Logs page
+const scopeParams = (scope: StatsScope) =>
+  (scope.cameraId ? `&camera=${scope.cameraId}` : "") + (scope.zone ? `&zone=${encodeURIComponent(scope.zone)}` : "");
+
+const PALETTE = [
+  "hsl(0 84% 60%)",
+  "hsl(38 92% 50%)",
+  "hsl(217 91% 60%)",
+  "hsl(142 71% 45%)",
+  "hsl(271 81% 56%)",
+  "hsl(189 94% 43%)",
+  "hsl(330 81% 60%)",
+  "hsl(215 16% 47%)",
+];
+
+// Chart config keys end up in CSS variable names, so types are keyed by index rather than by name
+const typeKey = (type: string) => {
+  const index = VIOLATION_TYPES.indexOf(type);
+  return index >= 0 ? `type${index}` : "other";
+};
+
+const typeConfig: ChartConfig = {
+  ...Object.fromEntries(VIOLATION_TYPES.map((type, i) => [`type${i}`, { label: type, color: PALETTE[i] }])),
+  other: { label: "Other", color: PALETTE[7] },
+};
+
+const severityConfig: ChartConfig = {
+  critical: { label: "Critical", color: "hsl(var(--destructive))" },
+  warning: { label: "Warning", color: "hsl(var(--warning))" },
+  unknown: { label: "Unknown", color: PALETTE[7] },
+};
+
+const countConfig: ChartConfig = {
+  count: { label: "Violations", color: PALETTE[2] },
+};
+
+const formatBucket = (bucket: string, size: StatsBucket) => {
+  const date = new Date(bucket);
+  return size === "hour"
+    ? date.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })
+    : date.toLocaleDateString([], { month: "short", day: "numeric" });
+};
+
+// One row per time bucket with a column per type (or severity), as stacked charts expect
+const pivotOverTime = (stats: ViolationStats, by: "type" | "severity", size: StatsBucket) => {
+  const rows = new Map<string, Record<string, string | number>>();
+  stats.over_time.forEach((entry) => {
+    if (!rows.has(entry.bucket)) rows.set(entry.bucket, { bucket: formatBucket(entry.bucket, size) });
+    const row = rows.get(entry.bucket)!;
+    const key = by === "type" ? typeKey(entry.violation_type) : entry.severity in severityConfig ? entry.severity : "unknown";
+    row[key] = ((row[key] as number) || 0) + Number(entry.count);
+  });
+  return Array.from(rows.values());
+};
+
+const StatCard = ({ title, value, description }: { title: string; value: string | number; description: string }) => (
+  <Card className="shadow-card border-border">
+    <CardHeader className="pb-2">
+      <CardDescription>{title}</CardDescription>
+      <CardTitle className="text-3xl">{value}</CardTitle>
+    </CardHeader>
+    <CardContent>
+      <p className="text-xs text-muted-foreground">{description}</p>
+    </CardContent>
+  </Card>
+);
+
+const EmptyChart = () => (
+  <div className="flex h-[250px] items-center justify-center text-sm text-muted-foreground">
+    No violations in this period
+  </div>
+);
+
+// Org admins only: every site of the organization over the same period
+const SiteComparisonCard = ({ period }: { period: StatsPeriod }) => {
+  const { data, isLoading, isError } = useSiteComparison(period, true);
+
+  const chartData = useMemo(
+    () =>
+      (data?.sites ?? []).map((site) => {
+        const row: Record<string, string | number> = { name: site.name };
+        data?.by_type
+          .filter((entry) => entry.site_id === site.site_id)
+          .forEach((entry) => {
+            const key = typeKey(entry.violation_type);
+            row[key] = Number(row[key] ?? 0) + Number(entry.count);
+          });
+        return row;
+      }),
+    [data]
+  );
+
+  return (
+    <Card className="shadow-card border-border">
+      <CardHeader>
+        <CardTitle>Site comparison</CardTitle>
+        <CardDescription>Confirmed and unreviewed violations of every site in the organization</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading ? (
+          <div className="text-center py-8">Loading sites...</div>
+        ) : isError || !data ? (
+          <div className="text-center py-8 text-destructive">Failed to load the site comparison</div>
+        ) : (
+          <>
+            <ChartContainer config={typeConfig} className="h-[280px] w-full aspect-auto">
+              <BarChart data={chartData}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="name" tickLine={false} axisLine={false} />
+                <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={40} />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <ChartLegend content={<ChartLegendContent />} />
+                {Object.keys(typeConfig).map((key) => (
+                  <Bar key={key} dataKey={key} stackId="types" fill={`var(--color-${key})`} />
+                ))}
+              </BarChart>
+            </ChartContainer>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Site</TableHead>
+                  <TableHead className="text-right">Violations</TableHead>
+                  <TableHead className="text-right">Critical</TableHead>
+                  <TableHead className="text-right">False positives</TableHead>
+                  <TableHead className="text-right">Videos</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {data.sites.map((site) => (
+                  <TableRow key={site.site_id}>
+                    <TableCell className="font-medium">{site.name}</TableCell>
+                    <TableCell className="text-right">{Number(site.total).toLocaleString()}</TableCell>
+                    <TableCell className="text-right">{Number(site.critical).toLocaleString()}</TableCell>
+                    <TableCell className="text-right">{Number(site.false_positives).toLocaleString()}</TableCell>
+                    <TableCell className="text-right">{Number(site.videos).toLocaleString()}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+const SafetyDashboard = () => {
+  const [periodKey, setPeriodKey] = useState("7d");
+  const [overTimeBy, setOverTimeBy] = useState<"type" | "severity">("type");
+  const [sourceBy, setSourceBy] = useState<"camera" | "zone">("camera");
+  const [scopeKey, setScopeKey] = useState(WHOLE_SITE_KEY);
+  const scope = useMemo(() => parseScope(scopeKey), [scopeKey]);
+
+  // The period is anchored when it is selected, so the query key stays stable between renders
+  const period = useMemo(() => {
+    const { hours, bucket } = PERIODS[periodKey];
+    const to = new Date();
+    return { from: new Date(to.getTime() - hours * 3600 * 1000), to, bucket };
+  }, [periodKey]);
+
+  const { site, siteId } = useCurrentSite();
+  const { can } = useProfile();
+  const { data: cameras = [] } = useCameras(siteId);
+  const zones = cameraZones(cameras);
+
+  // Cameras and zones belong to a site
+  useEffect(() => {
+    setScopeKey(WHOLE_SITE_KEY);
+  }, [siteId]);
+  const { data: stats, isLoading, isError } = useViolationStats(siteId, period, scope);
+
+  const bySource = useMemo(
+    () =>
+      sourceBy === "camera"
+        ? (stats?.by_camera ?? []).map((entry) => ({ name: entry.name, count: Number(entry.count) }))
+        : (stats?.by_zone ?? []).map((entry) => ({ name: entry.zone, count: Number(entry.count) })),
+    [stats, sourceBy]
+  );
+
+  const overTime = useMemo(
+    () => (stats ? pivotOverTime(stats, overTimeBy, period.bucket) : []),
+    [stats, overTimeBy, period.bucket]
+  );
+  const overTimeConfig = overTimeBy === "type" ? typeConfig : severityConfig;
+
+  const confidence = useMemo(
+    () =>
+      Array.from({ length: 10 }, (_, bucket) => ({
+        range: `${bucket * 10}-${bucket * 10 + 10}%`,
+        count: Number(stats?.confidence.find((entry) => entry.bucket === bucket)?.count ?? 0),
+      })),
+    [stats]
+  );
+
+  const methods = useMemo(
+    () =>
+      (stats?.by_method ?? []).map((entry, i) => ({
+        method: entry.detection_method,
+        label: DETECTION_METHODS[entry.detection_method] ?? entry.detection_method,
+        count: Number(entry.count),
+        fill: PALETTE[i % PALETTE.length],
+      })),
+    [stats]
+  );
+  const methodConfig: ChartConfig = Object.fromEntries(methods.map((entry) => [entry.method, { label: entry.label }]));
+
+  const topHazard = stats?.top_hazards[0];
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold bg-gradient-primary bg-clip-text text-transparent">
+            Safety Dashboard
+          </h1>
+          <p className="text-muted-foreground mt-1">
+            Violation trends and recurring hazards{site ? ` at ${site.name}` : ""} for the selected period
+          </p>
+        </div>
+        <div className="flex gap-2">
+          {cameras.length > 0 && (
+            <Select value={scopeKey} onValueChange={setScopeKey}>
+              <SelectTrigger className="w-52">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={WHOLE_SITE_KEY}>All cameras</SelectItem>
+                {zones.length > 0 && (
+                  <SelectGroup>
+                    <SelectLabel>Zones</SelectLabel>
+                    {zones.map((zone) => (
+                      <SelectItem key={zone} value={`zone:${zone}`}>{zone}</SelectItem>
+                    ))}
+                  </SelectGroup>
+                )}
+                <SelectGroup>
+                  <SelectLabel>Cameras</SelectLabel>
+                  {cameras.map((camera) => (
+                    <SelectItem key={camera.id} value={`camera:${camera.id}`}>{camera.name}</SelectItem>
+                  ))}
+                </SelectGroup>
+              </SelectContent>
+            </Select>
+          )}
+          <Select value={periodKey} onValueChange={setPeriodKey}>
+            <SelectTrigger className="w-44">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(PERIODS).map(([key, { label }]) => (
+                <SelectItem key={key} value={key}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="text-center py-8">Loading analytics...</div>
+      ) : isError || !stats ? (
+        <div className="text-center py-8 text-destructive">Failed to load analytics</div>
+      ) : (
+        <>
+          <div className="grid gap-4 md:grid-cols-4">
+            <StatCard title="Violation events" value={Number(stats.total).toLocaleString()} description={PERIODS[periodKey].label} />
+            <StatCard
+              title="Critical"
+              value={Number(stats.critical).toLocaleString()}
+              description={stats.total ? `${((stats.critical / stats.total) * 100).toFixed(0)}% of all violations` : "No violations"}
+            />
+            <StatCard title="Videos with violations" value={Number(stats.videos).toLocaleString()} description="Uploaded videos in this period" />
+            <StatCard
+              title="Most frequent hazard"
+              value={topHazard ? Number(topHazard.count).toLocaleString() : "-"}
+              description={topHazard?.violation_type ?? "No violations"}
+            />
+          </div>
+
+          <Card className="shadow-card border-border">
+            <CardHeader className="flex flex-row items-start justify-between space-y-0">
+              <div>
+                <CardTitle>Violations over time</CardTitle>
+                <CardDescription>Per {period.bucket}, stacked by {overTimeBy}</CardDescription>
+              </div>
+              <Tabs value={overTimeBy} onValueChange={(value) => setOverTimeBy(value as "type" | "severity")}>
+                <TabsList>
+                  <TabsTrigger value="type">Type</TabsTrigger>
+                  <TabsTrigger value="severity">Severity</TabsTrigger>
+                </TabsList>
+              </Tabs>
+            </CardHeader>
+            <CardContent>
+              {overTime.length === 0 ? (
+                <EmptyChart />
+              ) : (
+                <ChartContainer config={overTimeConfig} className="h-[300px] w-full aspect-auto">
+                  <AreaChart data={overTime}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="bucket" tickLine={false} axisLine={false} />
+                    <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={40} />
+                    <ChartTooltip content={<ChartTooltipContent />} />
+                    <ChartLegend content={<ChartLegendContent />} />
+                    {Object.keys(overTimeConfig).map((key) => (
+                      <Area
+                        key={key}
+                        dataKey={key}
+                        type="monotone"
+                        stackId="violations"
+                        fill={`var(--color-${key})`}
+                        stroke={`var(--color-${key})`}
+                        fillOpacity={0.4}
+                      />
+                    ))}
+                  </AreaChart>
+                </ChartContainer>
+              )}
+            </CardContent>
+          </Card>
+
+          <div className="grid gap-6 lg:grid-cols-2">
+            <Card className="shadow-card border-border">
+              <CardHeader>
+                <CardTitle>Violations per video</CardTitle>
+                <CardDescription>Videos with the most violations</CardDescription>
+              </CardHeader>
+              <CardContent>
+                {stats.by_video.length === 0 ? (
+                  <EmptyChart />
+                ) : (
+                  <ChartContainer config={countConfig} className="h-[300px] w-full aspect-auto">
+                    <BarChart data={stats.by_video.map((entry) => ({ ...entry, count: Number(entry.count) }))} layout="vertical">
+                      <CartesianGrid horizontal={false} />
+                      <XAxis type="number" allowDecimals={false} tickLine={false} axisLine={false} />
+                      <YAxis type="category" dataKey="name" width={140} tickLine={false} axisLine={false} tickFormatter={(name: string) => (name.length > 20 ? `${name.slice(0, 20)}…` : name)} />
+                      <ChartTooltip content={<ChartTooltipContent />} />
+                      <Bar dataKey="count" fill="var(--color-count)" radius={4} />
+                    </BarChart>
+                  </ChartContainer>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card className="shadow-card border-border">
+              <CardHeader className="flex flex-row items-start justify-between space-y-0">
+                <div>
+                  <CardTitle>Violations per {sourceBy}</CardTitle>
+                  <CardDescription>
+                    {sourceBy === "camera" ? "Cameras with the most violations" : "Zones with the most violations"}
+                  </CardDescription>
+                </div>
+                <Tabs value={sourceBy} onValueChange={(value) => setSourceBy(value as "camera" | "zone")}>
+                  <TabsList>
+                    <TabsTrigger value="camera">Camera</TabsTrigger>
+                    <TabsTrigger value="zone">Zone</TabsTrigger>
+                  </TabsList>
+                </Tabs>
+              </CardHeader>
+              <CardContent>
+                {bySource.length === 0 ? (
+                  <EmptyChart />
+                ) : (
+                  <ChartContainer config={countConfig} className="h-[300px] w-full aspect-auto">
+                    <BarChart data={bySource} layout="vertical">
+                      <CartesianGrid horizontal={false} />
+                      <XAxis type="number" allowDecimals={false} tickLine={false} axisLine={false} />
+                      <YAxis type="category" dataKey="name" width={140} tickLine={false} axisLine={false} />
+                      <ChartTooltip content={<ChartTooltipContent />} />
+                      <Bar dataKey="count" fill="var(--color-count)" radius={4} />
+                    </BarChart>
+                  </ChartContainer>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card className="shadow-card border-border">
+              <CardHeader>
+                <CardTitle>Confidence distribution</CardTitle>
+                <CardDescription>Number of violations per confidence range</CardDescription>
+              </CardHeader>
+              <CardContent>
+                {stats.total === 0 ? (
+                  <EmptyChart />
+                ) : (
+                  <ChartContainer config={countConfig} className="h-[250px] w-full aspect-auto">
+                    <BarChart data={confidence}>
+                      <CartesianGrid vertical={false} />
+                      <XAxis dataKey="range" tickLine={false} axisLine={false} />
+                      <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={40} />
+                      <ChartTooltip content={<ChartTooltipContent />} />
+                      <Bar dataKey="count" fill="var(--color-count)" radius={4} />
+                    </BarChart>
+                  </ChartContainer>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card className="shadow-card border-border">
+              <CardHeader>
+                <CardTitle>Detection methods</CardTitle>
+                <CardDescription>Which part of the pipeline reported the violations</CardDescription>
+              </CardHeader>
+              <CardContent>
+                {methods.length === 0 ? (
+                  <EmptyChart />
+                ) : (
+                  <ChartContainer config={methodConfig} className="h-[250px] w-full aspect-auto">
+                    <PieChart>
+                      <ChartTooltip content={<ChartTooltipContent nameKey="method" hideLabel />} />
+                      <ChartLegend content={<ChartLegendContent nameKey="method" />} />
+                      <Pie data={methods} dataKey="count" nameKey="method" innerRadius={50}>
+                        {methods.map((entry) => (
+                          <Cell key={entry.method} fill={entry.fill} />
+                        ))}
+                      </Pie>
+                    </PieChart>
+                  </ChartContainer>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+
+          <Card className="shadow-card border-border">
+            <CardHeader>
+              <CardTitle>Top recurring hazards</CardTitle>
+              <CardDescription>Violation types ranked by occurrences in the period</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {stats.top_hazards.length === 0 ? (
+                <p className="text-sm text-muted-foreground py-4 text-center">No violations in this period</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Hazard</TableHead>
+                      <TableHead className="text-right">Occurrences</TableHead>
+                      <TableHead className="text-right">Critical</TableHead>
+                      <TableHead className="text-right">Sources</TableHead>
+                      <TableHead className="text-right">Days seen</TableHead>
+                      <TableHead className="text-right">Avg. confidence</TableHead>
+                      <TableHead>Last seen</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {stats.top_hazards.map((hazard) => (
+                      <TableRow key={hazard.violation_type}>
+                        <TableCell>
+                          <Link
+                            to={`/logs?type=${encodeURIComponent(hazard.violation_type)}&from=${period.from.toLocaleDateString("en-CA")}${scopeParams(scope)}`}
+                            className="hover:underline"
+                          >
+                            <Badge variant={hazard.critical > 0 ? "destructive" : "outline"}>{hazard.violation_type}</Badge>
+                          </Link>
+                        </TableCell>
+                        <TableCell className="text-right font-medium">{Number(hazard.count).toLocaleString()}</TableCell>
+                        <TableCell className="text-right">{hazard.critical}</TableCell>
+                        <TableCell className="text-right">{hazard.sources}</TableCell>
+                        <TableCell className="text-right">{hazard.days}</TableCell>
+                        <TableCell className="text-right">{(Number(hazard.avg_confidence) * 100).toFixed(1)}%</TableCell>
+                        <TableCell className="text-sm text-muted-foreground">{new Date(hazard.last_seen).toLocaleString()}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </>
+      )}
+
+      {can("compare_sites") && <SiteComparisonCard period={period} />}
+    </div>
+  );
+};
+
+export default SafetyDashboard;
@@ -1,17 +1,33 @@
 import { Link, useLocation } from "react-router-dom";
 import { cn } from "@/lib/utils";
-import { Video, FileText, Settings, ShieldAlert, LogOut } from "lucide-react";
+import { LayoutDashboard, Video, FileText, ClipboardCheck, Cctv, Radio, Bell, EyeOff, Tags, Gauge, Settings, SlidersHorizontal, History, Users, ShieldAlert, LogOut } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { supabase } from "@/integrations/supabase/client";
 import { toast } from "sonner";
+import { useProfile } from "@/hooks/use-profile";
+import { ROLES, type Permission } from "@/lib/roles";
+import SiteSwitcher from "@/components/SiteSwitcher";
 
 const Sidebar = () => {
   const location = useLocation();
+  const { profile, role, can } = useProfile();
 
-  const links = [
-    { to: "/upload", label: "Video Analysis", icon: Video },
+  // Pages behind a permission are hidden from roles that lack it
+  const links: { to: string; label: string; icon: typeof Video; permission?: Permission }[] = [
+    { to: "/", label: "Dashboard", icon: LayoutDashboard },
+    { to: "/live", label: "Live Monitoring", icon: Radio },
+    { to: "/upload", label: "Video Analysis", icon: Video, permission: "analyze_videos" },
     { to: "/logs", label: "Violation Logs", icon: FileText },
+    { to: "/review", label: "Review Queue", icon: ClipboardCheck, permission: "review_violations" },
+    { to: "/cameras", label: "Cameras", icon: Cctv },
+    { to: "/alerts", label: "Alerts", icon: Bell },
+    { to: "/suppression", label: "Suppression", icon: EyeOff },
+    { to: "/ground-truth", label: "Ground Truth", icon: Tags },
+    { to: "/evaluation", label: "Evaluation", icon: Gauge },
     { to: "/models", label: "Model Management", icon: Settings },
+    { to: "/settings", label: "Detection Settings", icon: SlidersHorizontal, permission: "analyze_videos" },
+    { to: "/audit", label: "Audit Log", icon: History, permission: "view_audit_log" },
+    { to: "/users", label: "Users & Sites", icon: Users, permission: "manage_users" },
   ];
 
   const handleLogout = async () => {
@@ -31,8 +47,11 @@ const Sidebar = () => {
           MineGuard
         </span>
       </div>
+      <div className="border-b border-border p-4">
+        <SiteSwitcher />
+      </div>
       <nav className="flex-1 space-y-1 p-4">
-        {links.map((link) => {
+        {links.filter((link) => !link.permission || can(link.permission)).map((link) => {
           const Icon = link.icon;
           const isActive = location.pathname === link.to;
           return (
@@ -52,7 +71,13 @@ const Sidebar = () => {
           );
         })}
       </nav>
-      <div className="border-t border-border p-4">
+      <div className="border-t border-border p-4 space-y-3">
+        {profile && (
+          <div className="px-1 text-sm">
+            <p className="truncate font-medium text-foreground" title={profile.email ?? undefined}>{profile.email}</p>
+            <p className="text-xs text-muted-foreground">{role ? ROLES[role] : profile.role}</p>
+          </div>
+        )}
         <Button 
           variant="outline" 
           className="w-full justify-start gap-3" 
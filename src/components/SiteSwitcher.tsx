@@ -0,0 +1,46 @@
+import { Select, SelectContent, SelectGroup, SelectItem, SelectLabel, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { MapPin } from "lucide-react";
+import { useCurrentSite, type Site } from "@/hooks/use-current-site";
+
+// Sidebar picker for the site every page is scoped to, grouped by organization
+const SiteSwitcher = () => {
+  const { sites, siteId, setSiteId, isLoading } = useCurrentSite();
+
+  if (isLoading) return null;
+  if (sites.length === 0) {
+    return (
+      <p className="px-1 text-xs text-muted-foreground">
+        You are not a member of any site yet. Ask an admin to add you to one.
+      </p>
+    );
+  }
+
+  const byOrganization = sites.reduce<Record<string, Site[]>>((groups, site) => {
+    const organization = site.organizations?.name ?? "Organization";
+    (groups[organization] ??= []).push(site);
+    return groups;
+  }, {});
+
+  return (
+    <Select value={siteId ?? undefined} onValueChange={setSiteId}>
+      <SelectTrigger aria-label="Site">
+        <div className="flex min-w-0 items-center gap-2">
+          <MapPin className="h-4 w-4 shrink-0 text-primary" />
+          <SelectValue />
+        </div>
+      </SelectTrigger>
+      <SelectContent>
+        {Object.entries(byOrganization).map(([organization, organizationSites]) => (
+          <SelectGroup key={organization}>
+            <SelectLabel>{organization}</SelectLabel>
+            {organizationSites.map((site) => (
+              <SelectItem key={site.id} value={site.id}>{site.name}</SelectItem>
+            ))}
+          </SelectGroup>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+};
+
+export default SiteSwitcher;
@@ -0,0 +1,245 @@
+import { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type { TablesInsert } from "@/integrations/supabase/types";
+import { VIOLATION_TYPES } from "@/lib/violations";
+import type { SuppressionRule } from "@/lib/suppression";
+import { cameraZones, type Camera } from "@/hooks/use-cameras";
+
+export type SuppressionWindowDraft = Omit<TablesInsert<"suppression_rules">, "site_id" | "kind">;
+
+const ANY_CAMERA = "any";
+const ANY_ZONE = "any";
+
+interface SuppressionRuleDialogProps {
+  open: boolean;
+  // The window rule being edited, or null to create one
+  rule: SuppressionRule | null;
+  cameras: Camera[];
+  saving: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSubmit: (draft: SuppressionWindowDraft) => void;
+}
+
+const emptyDraft = () => ({
+  name: "",
+  camera: ANY_CAMERA,
+  zone: ANY_ZONE,
+  violationTypes: [] as string[],
+  activeFrom: "",
+  activeTo: "",
+  timezone: Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC",
+  expiresAt: "",
+  isActive: true,
+});
+
+const toggle = (values: string[], value: string, on: boolean) =>
+  on ? [...values, value] : values.filter((v) => v !== value);
+
+// Postgres TIME comes back as HH:MM:SS; <input type="time"> wants HH:MM
+const toTimeInput = (time: string | null) => (time ? time.slice(0, 5) : "");
+
+// <input type="datetime-local"> works in local time without a zone
+const toLocalDateTimeInput = (timestamp: string | null) => {
+  if (!timestamp) return "";
+  const date = new Date(timestamp);
+  date.setMinutes(date.getMinutes() - date.getTimezoneOffset());
+  return date.toISOString().slice(0, 16);
+};
+
+// Create or edit a suppression window: types to silence at a camera or zone, optionally
+// during a time of day and until a date
+const SuppressionRuleDialog = ({ open, rule, cameras, saving, onOpenChange, onSubmit }: SuppressionRuleDialogProps) => {
+  const [draft, setDraft] = useState(emptyDraft);
+  const zones = cameraZones(cameras);
+
+  useEffect(() => {
+    if (!open) return;
+    setDraft(
+      rule
+        ? {
+            name: rule.name,
+            camera: rule.camera_id ?? ANY_CAMERA,
+            zone: rule.zone ?? ANY_ZONE,
+            violationTypes: rule.violation_types,
+            activeFrom: toTimeInput(rule.active_from),
+            activeTo: toTimeInput(rule.active_to),
+            timezone: rule.timezone,
+            expiresAt: toLocalDateTimeInput(rule.expires_at),
+            isActive: rule.is_active,
+          }
+        : emptyDraft()
+    );
+  }, [open, rule]);
+
+  const scoped = draft.camera !== ANY_CAMERA || draft.zone !== ANY_ZONE || !!draft.activeFrom;
+  const errors = [
+    !draft.name.trim() && "Give the rule a name",
+    !!draft.activeFrom !== !!draft.activeTo && "Set both ends of the time window, or neither",
+    // A window over every camera, zone and hour is what the ignored types are for
+    !scoped && "Limit the rule to a camera, a zone or a time window",
+  ].filter(Boolean) as string[];
+
+  const submit = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (errors.length > 0) return;
+    onSubmit({
+      name: draft.name.trim(),
+      camera_id: draft.camera === ANY_CAMERA ? null : draft.camera,
+      zone: draft.zone === ANY_ZONE ? null : draft.zone,
+      violation_types: draft.violationTypes,
+      active_from: draft.activeFrom || null,
+      active_to: draft.activeTo || null,
+      timezone: draft.timezone.trim() || "UTC",
+      expires_at: draft.expiresAt ? new Date(draft.expiresAt).toISOString() : null,
+      is_active: draft.isActive,
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-2xl">
+        <form onSubmit={submit}>
+          <DialogHeader>
+            <DialogTitle>{rule ? `Edit ${rule.name}` : "New suppression window"}</DialogTitle>
+            <DialogDescription>
+              Matching detections are still recorded, but flagged as suppressed and kept out of the logs, dashboards and alerts.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid grid-cols-2 gap-4 py-4">
+            <div className="col-span-2 space-y-2">
+              <Label htmlFor="suppression-name">Name</Label>
+              <Input
+                id="suppression-name"
+                placeholder="Maintenance bay, night shift"
+                value={draft.name}
+                onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                required
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Camera</Label>
+              <Select value={draft.camera} onValueChange={(camera) => setDraft({ ...draft, camera })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ANY_CAMERA}>Any camera</SelectItem>
+                  {cameras.map((camera) => (
+                    <SelectItem key={camera.id} value={camera.id}>
+                      {camera.zone ? `${camera.name} (${camera.zone})` : camera.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Zone</Label>
+              <Select value={draft.zone} onValueChange={(zone) => setDraft({ ...draft, zone })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ANY_ZONE}>Any zone</SelectItem>
+                  {zones.map((zone) => (
+                    <SelectItem key={zone} value={zone}>{zone}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="col-span-2 space-y-2">
+              <Label>Violation types</Label>
+              <p className="text-xs text-muted-foreground">None selected suppresses every type</p>
+              <div className="grid grid-cols-2 gap-2">
+                {VIOLATION_TYPES.map((type) => (
+                  <div key={type} className="flex items-center gap-2">
+                    <Checkbox
+                      id={`suppression-type-${type}`}
+                      checked={draft.violationTypes.includes(type)}
+                      onCheckedChange={(checked) =>
+                        setDraft({ ...draft, violationTypes: toggle(draft.violationTypes, type, checked === true) })
+                      }
+                    />
+                    <Label htmlFor={`suppression-type-${type}`} className="font-normal">{type}</Label>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Suppress between</Label>
+              <div className="flex items-center gap-2">
+                <Input
+                  type="time"
+                  aria-label="Suppress from"
+                  value={draft.activeFrom}
+                  onChange={(e) => setDraft({ ...draft, activeFrom: e.target.value })}
+                />
+                <span className="text-muted-foreground">–</span>
+                <Input
+                  type="time"
+                  aria-label="Suppress until"
+                  value={draft.activeTo}
+                  onChange={(e) => setDraft({ ...draft, activeTo: e.target.value })}
+                />
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Empty: all day. The window may wrap past midnight. It is compared with the detection time, which for
+                uploaded videos is when they were analyzed, not when they were recorded.
+              </p>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="suppression-timezone">Time zone</Label>
+              <Input
+                id="suppression-timezone"
+                placeholder="Australia/Perth"
+                value={draft.timezone}
+                onChange={(e) => setDraft({ ...draft, timezone: e.target.value })}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="suppression-expires">Expires</Label>
+              <Input
+                id="suppression-expires"
+                type="datetime-local"
+                value={draft.expiresAt}
+                onChange={(e) => setDraft({ ...draft, expiresAt: e.target.value })}
+              />
+              <p className="text-xs text-muted-foreground">Empty: until the rule is switched off.</p>
+            </div>
+            <div className="flex items-center gap-3 pt-6">
+              <Switch
+                id="suppression-active"
+                checked={draft.isActive}
+                onCheckedChange={(isActive) => setDraft({ ...draft, isActive })}
+              />
+              <Label htmlFor="suppression-active">Active</Label>
+            </div>
+
+            {errors.length > 0 && draft.name.trim() && (
+              <p className="col-span-2 text-sm text-destructive">{errors[0]}</p>
+            )}
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={errors.length > 0 || saving}>
+              {rule ? "Save changes" : "Create rule"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SuppressionRuleDialog;
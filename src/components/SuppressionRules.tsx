@@ -0,0 +1,404 @@
+import { useEffect, useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Pencil, Plus, RotateCcw, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { supabase } from "@/integrations/supabase/client";
+import { useProfile } from "@/hooks/use-profile";
+import { useCurrentSite } from "@/hooks/use-current-site";
+import { useCameras } from "@/hooks/use-cameras";
+import {
+  SUPPRESSION_STATS_DAYS,
+  useSuppressedViolations,
+  useSuppressionRules,
+  useSuppressionStats,
+} from "@/hooks/use-suppression";
+import { describeTimeWindow, setViolationSuppressed, type SuppressionRule } from "@/lib/suppression";
+import { VIOLATION_TYPES } from "@/lib/violations";
+import SuppressionRuleDialog, { type SuppressionWindowDraft } from "@/components/SuppressionRuleDialog";
+
+const toggle = (values: string[], value: string, on: boolean) =>
+  on ? [...values, value] : values.filter((v) => v !== value);
+
+const isKnownType = (type: string) => VIOLATION_TYPES.some((known) => known.toLowerCase() === type.toLowerCase());
+
+const splitTypes = (text: string) =>
+  [...new Set(text.split(",").map((type) => type.trim().toLowerCase()).filter(Boolean))];
+
+// Suppression policy of the current site: ignored types, suppression windows and marked
+// false positives, with what they filtered out
+const SuppressionRules = () => {
+  const queryClient = useQueryClient();
+  const { can } = useProfile();
+  const canManage = can("manage_suppression");
+  const { site, siteId } = useCurrentSite();
+  const { data: cameras = [] } = useCameras(siteId);
+  const { data: rules = [], isLoading } = useSuppressionRules(siteId);
+  const { data: stats = [] } = useSuppressionStats(siteId);
+  const { data: suppressed = [] } = useSuppressedViolations(siteId);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editing, setEditing] = useState<SuppressionRule | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const typeRule = rules.find((rule) => rule.kind === "type") ?? null;
+  const windows = rules.filter((rule) => rule.kind === "window");
+  const examples = rules.filter((rule) => rule.kind === "example");
+  const [ignoredTypes, setIgnoredTypes] = useState<string[]>([]);
+  const [otherTypes, setOtherTypes] = useState("");
+
+  useEffect(() => {
+    const types = typeRule?.violation_types ?? [];
+    setIgnoredTypes(VIOLATION_TYPES.filter((known) => types.some((type) => type.toLowerCase() === known.toLowerCase())));
+    setOtherTypes(types.filter((type) => !isKnownType(type)).join(", "));
+  }, [typeRule]);
+
+  const cameraName = (id: string | null) => cameras.find((camera) => camera.id === id)?.name;
+  const suppressedBy = (ruleId: string) =>
+    stats.filter((row) => row.suppression_rule_id === ruleId).reduce((sum, row) => sum + Number(row.count), 0);
+  const suppressedTotal = stats.reduce((sum, row) => sum + Number(row.count), 0);
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ["suppression-rules", siteId] });
+    queryClient.invalidateQueries({ queryKey: ["suppression-stats", siteId] });
+    queryClient.invalidateQueries({ queryKey: ["suppressed-violations", siteId] });
+  };
+
+  const saveIgnoredTypes = async () => {
+    if (!siteId) return;
+    const violation_types = [...ignoredTypes, ...splitTypes(otherTypes).filter((type) => !isKnownType(type))];
+    setSaving(true);
+    const { error } = typeRule
+      ? await supabase.from("suppression_rules").update({ violation_types }).eq("id", typeRule.id)
+      : await supabase
+          .from("suppression_rules")
+          .insert({ site_id: siteId, kind: "type", name: "Ignored violation types", violation_types });
+    setSaving(false);
+
+    if (error) {
+      console.error("Error saving ignored types:", error);
+      toast.error(`Failed to save ignored types: ${error.message}`);
+      return;
+    }
+    toast.success("Ignored types saved; they apply to detections recorded from now on");
+    refresh();
+  };
+
+  const openDialog = (rule: SuppressionRule | null) => {
+    setEditing(rule);
+    setDialogOpen(true);
+  };
+
+  const saveWindow = async (draft: SuppressionWindowDraft) => {
+    if (!siteId) return;
+    setSaving(true);
+    const { error } = editing
+      ? await supabase.from("suppression_rules").update(draft).eq("id", editing.id)
+      : await supabase.from("suppression_rules").insert({ ...draft, site_id: siteId, kind: "window" });
+    setSaving(false);
+
+    if (error) {
+      console.error("Error saving suppression rule:", error);
+      toast.error(`Failed to save suppression rule: ${error.message}`);
+      return;
+    }
+    toast.success(editing ? `${draft.name} updated` : `${draft.name} created`);
+    setDialogOpen(false);
+    refresh();
+  };
+
+  const setActive = async (rule: SuppressionRule, isActive: boolean) => {
+    const { error } = await supabase.from("suppression_rules").update({ is_active: isActive }).eq("id", rule.id);
+    if (error) {
+      console.error("Error updating suppression rule:", error);
+      toast.error(`Failed to update suppression rule: ${error.message}`);
+      return;
+    }
+    refresh();
+  };
+
+  const deleteRule = async (rule: SuppressionRule) => {
+    if (!confirm(`Delete the suppression rule ${rule.name}? Detections it suppressed stay suppressed.`)) return;
+
+    const { error } = await supabase.from("suppression_rules").delete().eq("id", rule.id);
+    if (error) {
+      console.error("Error deleting suppression rule:", error);
+      toast.error(`Failed to delete suppression rule: ${error.message}`);
+      return;
+    }
+    toast.success(`${rule.name} deleted`);
+    refresh();
+  };
+
+  const restore = async (id: string) => {
+    try {
+      await setViolationSuppressed(id, false);
+      toast.success("Detection restored to the logs");
+      refresh();
+      queryClient.invalidateQueries({ queryKey: ["violation-events"] });
+    } catch (error) {
+      console.error("Error restoring violation:", error);
+      toast.error("Failed to restore detection");
+    }
+  };
+
+  const actions = (rule: SuppressionRule, editable: boolean) =>
+    canManage && (
+      <TableCell className="text-right">
+        <div className="flex justify-end gap-2">
+          {editable && (
+            <Button variant="ghost" size="sm" onClick={() => openDialog(rule)}>
+              <Pencil className="h-4 w-4" />
+            </Button>
+          )}
+          <Button variant="ghost" size="sm" onClick={() => deleteRule(rule)}>
+            <Trash2 className="h-4 w-4 text-destructive" />
+          </Button>
+        </div>
+      </TableCell>
+    );
+
+  const activeSwitch = (rule: SuppressionRule) => (
+    <Switch
+      checked={rule.is_active}
+      onCheckedChange={(isActive) => setActive(rule, isActive)}
+      disabled={!canManage}
+      aria-label="Rule active"
+    />
+  );
+
+  const expired = (rule: SuppressionRule) => !!rule.expires_at && new Date(rule.expires_at) <= new Date();
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold bg-gradient-primary bg-clip-text text-transparent">Suppression</h1>
+          <p className="text-muted-foreground mt-1">
+            Detections{site ? ` at ${site.name}` : ""} that are recorded but kept out of the logs, dashboards and alerts
+          </p>
+        </div>
+        {canManage && (
+          <Button onClick={() => openDialog(null)} disabled={!siteId}>
+            <Plus className="h-4 w-4 mr-2" />
+            New window
+          </Button>
+        )}
+      </div>
+
+      <Card className="shadow-card border-border">
+        <CardHeader>
+          <CardTitle>Ignored violation types</CardTitle>
+          <CardDescription>
+            Types this site does not track. {suppressedTotal} detections were suppressed by all rules in the last{" "}
+            {SUPPRESSION_STATS_DAYS} days{typeRule ? `, ${suppressedBy(typeRule.id)} of them by this list` : ""}.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="text-center py-8">Loading suppression rules...</div>
+          ) : (
+            <fieldset disabled={!canManage} className="space-y-4">
+              <div className="grid grid-cols-2 gap-2">
+                {VIOLATION_TYPES.map((type) => (
+                  <div key={type} className="flex items-center gap-2">
+                    <Checkbox
+                      id={`ignored-type-${type}`}
+                      checked={ignoredTypes.includes(type)}
+                      onCheckedChange={(checked) => setIgnoredTypes(toggle(ignoredTypes, type, checked === true))}
+                    />
+                    <Label htmlFor={`ignored-type-${type}`} className="font-normal">{type}</Label>
+                  </div>
+                ))}
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="ignored-other-types">Other types</Label>
+                <Input
+                  id="ignored-other-types"
+                  placeholder="no helmet, no vest"
+                  value={otherTypes}
+                  onChange={(e) => setOtherTypes(e.target.value)}
+                />
+                <p className="text-xs text-muted-foreground">
+                  Comma-separated; for types a detector may report that are not on the list above
+                </p>
+              </div>
+              {canManage && (
+                <Button onClick={saveIgnoredTypes} disabled={saving || !siteId}>
+                  Save ignored types
+                </Button>
+              )}
+            </fieldset>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card className="shadow-card border-border">
+        <CardHeader>
+          <CardTitle>Suppression windows</CardTitle>
+          <CardDescription>Types silenced at a camera or in a zone, optionally during a time of day</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {windows.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">No suppression windows for this site.</div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Where</TableHead>
+                  <TableHead>Types</TableHead>
+                  <TableHead>When</TableHead>
+                  <TableHead>Suppressed</TableHead>
+                  <TableHead>Active</TableHead>
+                  {canManage && <TableHead className="text-right">Actions</TableHead>}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {windows.map((rule) => (
+                  <TableRow key={rule.id} className={rule.is_active && !expired(rule) ? undefined : "opacity-60"}>
+                    <TableCell className="font-medium">{rule.name}</TableCell>
+                    <TableCell className="text-sm">
+                      {rule.camera_id ? cameraName(rule.camera_id) ?? "Camera" : "Any camera"}
+                      {rule.zone && <div className="text-xs text-muted-foreground">{rule.zone}</div>}
+                    </TableCell>
+                    <TableCell className="max-w-[240px] text-sm text-muted-foreground">
+                      {rule.violation_types.length ? rule.violation_types.join(", ") : "Any type"}
+                    </TableCell>
+                    <TableCell className="text-sm text-muted-foreground">
+                      {describeTimeWindow(rule)}
+                      {rule.expires_at && (
+                        <div className="text-xs">
+                          {expired(rule) ? "expired" : "until"} {new Date(rule.expires_at).toLocaleString()}
+                        </div>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-sm">{suppressedBy(rule.id)}</TableCell>
+                    <TableCell>{activeSwitch(rule)}</TableCell>
+                    {actions(rule, true)}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card className="shadow-card border-border">
+        <CardHeader>
+          <CardTitle>Marked false positives</CardTitle>
+          <CardDescription>
+            Created with "Suppress similar" on a detection: later detections of its type and source whose boxes overlap
+            the marked ones are suppressed
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {examples.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">No detections marked yet.</div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Source</TableHead>
+                  <TableHead>Match</TableHead>
+                  <TableHead>Marked</TableHead>
+                  <TableHead>Suppressed</TableHead>
+                  <TableHead>Active</TableHead>
+                  {canManage && <TableHead className="text-right">Actions</TableHead>}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {examples.map((rule) => {
+                  const boxes = Array.isArray(rule.example_boxes) ? rule.example_boxes.length : 0;
+                  return (
+                    <TableRow key={rule.id} className={rule.is_active ? undefined : "opacity-60"}>
+                      <TableCell className="font-medium">{rule.name}</TableCell>
+                      <TableCell className="max-w-[200px] truncate text-sm">
+                        {rule.camera_id ? cameraName(rule.camera_id) ?? "Camera" : rule.source_name}
+                      </TableCell>
+                      <TableCell className="text-sm text-muted-foreground">
+                        {boxes
+                          ? `${boxes} box${boxes === 1 ? "" : "es"}, ≥ ${Math.round(Number(rule.min_overlap) * 100)}% overlap`
+                          : "Any position"}
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        {rule.created_at ? new Date(rule.created_at).toLocaleDateString() : "—"}
+                      </TableCell>
+                      <TableCell className="text-sm">{suppressedBy(rule.id)}</TableCell>
+                      <TableCell>{activeSwitch(rule)}</TableCell>
+                      {actions(rule, false)}
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card className="shadow-card border-border">
+        <CardHeader>
+          <CardTitle>Recently suppressed</CardTitle>
+          <CardDescription>The latest detections the rules filtered out; restoring one puts it back into the logs</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {suppressed.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">Nothing suppressed yet.</div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Detected</TableHead>
+                  <TableHead>Violation</TableHead>
+                  <TableHead>Source</TableHead>
+                  <TableHead>Reason</TableHead>
+                  {canManage && <TableHead className="text-right">Actions</TableHead>}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {suppressed.map((violation) => (
+                  <TableRow key={violation.id}>
+                    <TableCell className="text-sm">{new Date(violation.detected_at).toLocaleString()}</TableCell>
+                    <TableCell>
+                      <Badge variant="outline">{violation.violation_type}</Badge>
+                      <div className="mt-1 text-xs text-muted-foreground">
+                        {(violation.confidence * 100).toFixed(0)}% confidence
+                      </div>
+                    </TableCell>
+                    <TableCell className="max-w-[200px] truncate text-sm">{violation.source_name}</TableCell>
+                    <TableCell className="text-sm text-muted-foreground">{violation.suppression_reason ?? "—"}</TableCell>
+                    {canManage && (
+                      <TableCell className="text-right">
+                        <Button variant="ghost" size="sm" title="Restore" onClick={() => restore(violation.id)}>
+                          <RotateCcw className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
+                    )}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <SuppressionRuleDialog
+        open={dialogOpen}
+        rule={editing}
+        cameras={cameras}
+        saving={saving}
+        onOpenChange={setDialogOpen}
+        onSubmit={saveWindow}
+      />
+    </div>
+  );
+};
+
+export default SuppressionRules;
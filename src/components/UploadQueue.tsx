@@ -0,0 +1,131 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Pause, RotateCw, X } from "lucide-react";
+import { isTerminal, type QueueItem, type QueueItemStatus } from "@/hooks/use-upload-queue";
+
+const STATUS_LABELS: Record<QueueItemStatus, string> = {
+  pending: "Waiting",
+  preparing: "Extracting frames",
+  uploading: "Uploading",
+  paused: "Paused",
+  interrupted: "Interrupted",
+  submitting: "Queuing analysis",
+  analyzing: "Analyzing",
+  done: "Analyzed",
+  failed: "Failed",
+  cancelled: "Cancelled",
+};
+
+const statusVariant = (status: QueueItemStatus) => {
+  switch (status) {
+    case "failed":
+    case "interrupted":
+      return "destructive" as const;
+    case "done":
+      return "secondary" as const;
+    default:
+      return "outline" as const;
+  }
+};
+
+const itemProgress = (item: QueueItem) => {
+  if (item.status === "done") return 100;
+  if (item.status === "analyzing") return item.framesTotal ? (item.framesDone / item.framesTotal) * 100 : 0;
+  return item.file.size ? (item.bytesUploaded / item.file.size) * 100 : 0;
+};
+
+interface UploadQueueProps {
+  items: QueueItem[];
+  onCancel: (id: string) => void;
+  onRetry: (id: string) => void;
+  onPause: (id: string) => void;
+  onClearFinished: () => void;
+}
+
+const UploadQueue = ({ items, onCancel, onRetry, onPause, onClearFinished }: UploadQueueProps) => {
+  if (items.length === 0) return null;
+
+  const finished = items.filter((item) => isTerminal(item.status)).length;
+
+  return (
+    <Card className="shadow-card border-border">
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div>
+          <CardTitle>Upload Queue</CardTitle>
+          <CardDescription>
+            {finished} of {items.length} files finished. Files are uploaded one at a time; analysis continues in the background.
+          </CardDescription>
+        </div>
+        <Button variant="outline" size="sm" onClick={onClearFinished} disabled={finished === 0}>
+          Clear finished
+        </Button>
+      </CardHeader>
+      <CardContent>
+        <div className="overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>File</TableHead>
+                <TableHead>Size</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="w-48">Progress</TableHead>
+                <TableHead>Violations</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {items.map((item) => (
+                <TableRow key={item.id}>
+                  <TableCell className="max-w-xs">
+                    <p className="font-medium truncate" title={item.file.webkitRelativePath || item.file.name}>
+                      {item.file.name}
+                    </p>
+                    {item.error && <p className="text-xs text-destructive truncate" title={item.error}>{item.error}</p>}
+                  </TableCell>
+                  <TableCell className="text-sm text-muted-foreground whitespace-nowrap">
+                    {(item.file.size / (1024 * 1024)).toFixed(1)} MB
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant={statusVariant(item.status)}>{STATUS_LABELS[item.status]}</Badge>
+                  </TableCell>
+                  <TableCell>
+                    <Progress value={itemProgress(item)} className="h-2" />
+                  </TableCell>
+                  <TableCell>{item.status === "analyzing" || item.status === "done" ? item.violationsFound : "-"}</TableCell>
+                  <TableCell className="text-right whitespace-nowrap">
+                    {item.status === "uploading" && (
+                      <Button variant="ghost" size="icon" onClick={() => onPause(item.id)} title="Pause">
+                        <Pause className="h-4 w-4" />
+                      </Button>
+                    )}
+                    {["paused", "interrupted", "failed", "cancelled"].includes(item.status) && (
+                      <Button variant="ghost" size="icon" onClick={() => onRetry(item.id)} title="Retry">
+                        <RotateCw className="h-4 w-4" />
+                      </Button>
+                    )}
+                    {["pending", "preparing", "uploading", "paused", "interrupted"].includes(item.status) && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => onCancel(item.id)}
+                        title="Cancel"
+                        className="text-destructive hover:text-destructive hover:bg-destructive/10"
+                      >
+                        <X className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default UploadQueue;
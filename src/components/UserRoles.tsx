@@ -0,0 +1,277 @@
+import { useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { MapPin, Plus } from "lucide-react";
+import { toast } from "sonner";
+import { supabase } from "@/integrations/supabase/client";
+import { useProfile } from "@/hooks/use-profile";
+import { useSites, type Site } from "@/hooks/use-current-site";
+import { ROLES, type AppRole } from "@/lib/roles";
+
+// Admin page to grant roles and site access; new accounts start as viewers outside any organization
+const UserRoles = () => {
+  const queryClient = useQueryClient();
+  const { profile: me } = useProfile();
+  const { data: sites = [] } = useSites();
+  const [siteName, setSiteName] = useState("");
+  const [siteLocation, setSiteLocation] = useState("");
+
+  const { data: profiles = [], isLoading } = useQuery({
+    queryKey: ["profiles"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("profiles")
+        .select("*")
+        .order("created_at", { ascending: true });
+
+      if (error) throw error;
+      return data || [];
+    },
+  });
+
+  const { data: memberships = [] } = useQuery({
+    queryKey: ["site-members"],
+    queryFn: async () => {
+      const { data, error } = await supabase.from("site_members").select("site_id, user_id");
+      if (error) throw error;
+      return data || [];
+    },
+  });
+
+  // Changing the role of an account outside any organization adds it to the admin's organization
+  const changeRole = async (id: string, role: AppRole) => {
+    const { error } = await supabase
+      .from("profiles")
+      .update({ role, organization_id: me?.organization_id })
+      .eq("id", id);
+    if (error) {
+      console.error("Error changing role:", error);
+      toast.error(`Failed to change role: ${error.message}`);
+      return;
+    }
+    toast.success(`Role changed to ${ROLES[role]}`);
+    queryClient.invalidateQueries({ queryKey: ["profiles"] });
+    if (id === me?.id) queryClient.invalidateQueries({ queryKey: ["profile"] });
+  };
+
+  const toggleMembership = async (userId: string, siteId: string, member: boolean) => {
+    const { error } = member
+      ? await supabase.from("site_members").insert({ site_id: siteId, user_id: userId })
+      : await supabase.from("site_members").delete().eq("site_id", siteId).eq("user_id", userId);
+    if (error) {
+      console.error("Error changing site access:", error);
+      toast.error(`Failed to change site access: ${error.message}`);
+      return;
+    }
+    queryClient.invalidateQueries({ queryKey: ["site-members"] });
+  };
+
+  const createSite = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!me?.organization_id || !siteName.trim()) return;
+
+    const { error } = await supabase.from("sites").insert({
+      organization_id: me.organization_id,
+      name: siteName.trim(),
+      location: siteLocation.trim() || null,
+    });
+    if (error) {
+      console.error("Error creating site:", error);
+      toast.error(`Failed to create site: ${error.message}`);
+      return;
+    }
+    toast.success(`Site ${siteName.trim()} created`);
+    setSiteName("");
+    setSiteLocation("");
+    queryClient.invalidateQueries({ queryKey: ["sites"] });
+  };
+
+  // Detections of one type and source at most this far apart are merged into one violation event
+  const changeEventGap = async (site: Site, value: string) => {
+    const seconds = Number(value);
+    if (seconds === site.event_gap_seconds) return;
+    if (!Number.isInteger(seconds) || seconds < 1 || seconds > 3600) {
+      toast.error("The event gap must be 1 to 3600 seconds");
+      return;
+    }
+
+    const { error } = await supabase.from("sites").update({ event_gap_seconds: seconds }).eq("id", site.id);
+    if (error) {
+      console.error("Error changing event gap:", error);
+      toast.error(`Failed to change event gap: ${error.message}`);
+      return;
+    }
+    toast.success(`${site.name} merges detections up to ${seconds}s apart`);
+    queryClient.invalidateQueries({ queryKey: ["sites"] });
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold bg-gradient-primary bg-clip-text text-transparent">Users & Sites</h1>
+        <p className="text-muted-foreground mt-1">
+          Decide who can analyze videos, review violations and manage datasets, and at which sites
+        </p>
+      </div>
+
+      <Card className="shadow-card border-border">
+        <CardHeader>
+          <CardTitle>Users</CardTitle>
+          <CardDescription>
+            Viewers can only read. Operators upload and analyze videos, safety reviewers review violations,
+            manage alert rules and read the audit log, admins can do everything at every site of the organization.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="text-center py-8">Loading users...</div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Email</TableHead>
+                  <TableHead>Member since</TableHead>
+                  <TableHead>Sites</TableHead>
+                  <TableHead className="w-[220px]">Role</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {profiles.map((profile) => {
+                  const inOrganization = profile.organization_id === me?.organization_id;
+                  const siteIds = memberships.filter((m) => m.user_id === profile.id).map((m) => m.site_id);
+
+                  return (
+                    <TableRow key={profile.id}>
+                      <TableCell>
+                        {profile.email || profile.id}
+                        {profile.id === me?.id && <span className="ml-2 text-xs text-muted-foreground">(you)</span>}
+                        {!inOrganization && <Badge variant="outline" className="ml-2">New account</Badge>}
+                      </TableCell>
+                      <TableCell className="text-sm text-muted-foreground">
+                        {profile.created_at ? new Date(profile.created_at).toLocaleDateString() : "—"}
+                      </TableCell>
+                      <TableCell>
+                        {profile.role === "admin" && inOrganization ? (
+                          <span className="text-sm text-muted-foreground">All sites</span>
+                        ) : (
+                          <Popover>
+                            <PopoverTrigger asChild>
+                              <Button variant="outline" size="sm" disabled={!inOrganization}>
+                                <MapPin className="h-4 w-4 mr-2" />
+                                {siteIds.length} of {sites.length}
+                              </Button>
+                            </PopoverTrigger>
+                            <PopoverContent className="w-64 space-y-2">
+                              {sites.map((site) => (
+                                <div key={site.id} className="flex items-center gap-2">
+                                  <Checkbox
+                                    id={`${profile.id}-${site.id}`}
+                                    checked={siteIds.includes(site.id)}
+                                    onCheckedChange={(checked) => toggleMembership(profile.id, site.id, checked === true)}
+                                  />
+                                  <Label htmlFor={`${profile.id}-${site.id}`} className="font-normal">
+                                    {site.name}
+                                  </Label>
+                                </div>
+                              ))}
+                            </PopoverContent>
+                          </Popover>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <Select value={profile.role} onValueChange={(role) => changeRole(profile.id, role as AppRole)}>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {Object.entries(ROLES).map(([role, label]) => (
+                              <SelectItem key={role} value={role}>{label}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card className="shadow-card border-border">
+        <CardHeader>
+          <CardTitle>Sites</CardTitle>
+          <CardDescription>
+            Videos, violations and datasets of a site are only visible to its members. Detections of the same type and
+            source within the event gap are counted as one violation event; changes apply to new detections.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Location</TableHead>
+                <TableHead className="w-[140px]">Event gap (s)</TableHead>
+                <TableHead className="text-right">Members</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {sites.map((site) => (
+                <TableRow key={site.id}>
+                  <TableCell className="font-medium">{site.name}</TableCell>
+                  <TableCell className="text-sm text-muted-foreground">{site.location || "—"}</TableCell>
+                  <TableCell>
+                    <Input
+                      key={site.event_gap_seconds}
+                      type="number"
+                      min={1}
+                      max={3600}
+                      className="h-8 w-24"
+                      aria-label={`Event gap of ${site.name} in seconds`}
+                      defaultValue={site.event_gap_seconds}
+                      onBlur={(e) => changeEventGap(site, e.target.value)}
+                    />
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {memberships.filter((m) => m.site_id === site.id).length}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+          <form onSubmit={createSite} className="flex flex-wrap gap-2">
+            <Input
+              className="w-[220px]"
+              placeholder="Site name"
+              value={siteName}
+              onChange={(e) => setSiteName(e.target.value)}
+              required
+            />
+            <Input
+              className="w-[260px]"
+              placeholder="Location (optional)"
+              value={siteLocation}
+              onChange={(e) => setSiteLocation(e.target.value)}
+            />
+            <Button type="submit" variant="outline" disabled={!siteName.trim()}>
+              <Plus className="h-4 w-4 mr-2" />
+              Add site
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default UserRoles;
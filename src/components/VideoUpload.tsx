@@ -1,17 +1,73 @@
-import { useState, useRef, useEffect } from "react";
+import { useState, useRef, useEffect, useCallback } from "react";
 import { useSearchParams } from "react-router-dom";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { Upload, Play, X } from "lucide-react";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Upload, FolderOpen } from "lucide-react";
 import { toast } from "sonner";
 import { supabase } from "@/integrations/supabase/client";
+import type { DetectorBackend } from "@/lib/object-detection";
+import type { ExtractedFrames } from "@/lib/frame-extraction";
+import { collectDroppedFiles, isVideoFile } from "@/lib/file-drop";
+import DetectionPreview, { type PreviewFrame } from "@/components/DetectionPreview";
+import AnalysisJobs from "@/components/AnalysisJobs";
+import UploadQueue from "@/components/UploadQueue";
+import { isTerminal, useUploadQueue } from "@/hooks/use-upload-queue";
+import AnnotatedVideoPlayer from "@/components/AnnotatedVideoPlayer";
+import WebcamDetection from "@/components/WebcamDetection";
+import { DEFAULT_FPS, formatVideoTimestamp } from "@/lib/video-metadata";
+import type { ViolationRow } from "@/lib/violations";
+import { useProfile } from "@/hooks/use-profile";
+import { useCurrentSite } from "@/hooks/use-current-site";
+import { matchCameraByFilename, useCameras } from "@/hooks/use-cameras";
+
+// Camera select value for "tag by file name prefix" (files) or "no camera" (device camera)
+const CAMERA_FROM_FILENAME = "__filename__";
+
+type InputMode = "files" | "webcam";
 
 const VideoUpload = () => {
-  const [selectedFile, setSelectedFile] = useState<File | null>(null);
-  const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const [isDragging, setIsDragging] = useState(false);
+  const [onDeviceDetection, setOnDeviceDetection] = useState(false);
+  const [detectorBackend, setDetectorBackend] = useState<DetectorBackend>("webgl");
+  const [previewFrames, setPreviewFrames] = useState<PreviewFrame[]>([]);
+  const [previewSize, setPreviewSize] = useState({ width: 640, height: 360 });
   const [searchParams] = useSearchParams();
   const [videoUrl, setVideoUrl] = useState<string>("");
-  const videoRef = useRef<HTMLVideoElement>(null);
+  const [videoFps, setVideoFps] = useState<number>(DEFAULT_FPS);
+  const [videoViolations, setVideoViolations] = useState<ViolationRow[]>([]);
+  const folderInputRef = useRef<HTMLInputElement>(null);
+  // Everyone can watch linked violations here; only operators can upload
+  const { can } = useProfile();
+  const canAnalyze = can("analyze_videos");
+  const { site, siteId } = useCurrentSite();
+  const { data: cameras = [] } = useCameras(siteId);
+  const [cameraId, setCameraId] = useState(CAMERA_FROM_FILENAME);
+  const [inputMode, setInputMode] = useState<InputMode>("files");
+
+  // Cameras belong to a site
+  useEffect(() => {
+    setCameraId(CAMERA_FROM_FILENAME);
+  }, [siteId]);
+
+  const showPreview = useCallback((frames: ExtractedFrames) => {
+    setPreviewSize({ width: frames.width, height: frames.height });
+    setPreviewFrames(frames.blobs.map((blob, i) => ({
+      url: URL.createObjectURL(blob),
+      time: frames.times[i],
+      detections: frames.detections[i] || [],
+    })));
+  }, []);
+
+  const { items, addFiles, cancel, retry, pause, clearFinished } = useUploadQueue({
+    onDeviceDetection,
+    detectorBackend,
+    onFramesExtracted: showPreview,
+  });
+  const isProcessing = items.some((item) => !isTerminal(item.status) && item.status !== "analyzing");
   
   const videoPath = searchParams.get("video");
   const frameNumber = searchParams.get("frame");
@@ -19,168 +75,84 @@ const VideoUpload = () => {
   useEffect(() => {
     const loadVideo = async () => {
       if (videoPath && videoPath !== "null" && videoPath !== "undefined") {
-        const { data } = supabase.storage
+        // The bucket is private: members of the video's site get a short-lived signed URL
+        const { data: signed, error: signError } = await supabase.storage
           .from('videos')
-          .getPublicUrl(videoPath);
-        setVideoUrl(data.publicUrl);
+          .createSignedUrl(videoPath, 60 * 60);
+        if (signError || !signed) {
+          console.error('Error signing video URL:', signError);
+          toast.error("You do not have access to this video");
+          return;
+        }
+        const { data: video } = await supabase
+          .from('videos')
+          .select('id, fps')
+          .eq('storage_path', videoPath)
+          .maybeSingle();
+
+        // Every unsuppressed violation of this video feeds the overlay and the timeline strip
+        const query = supabase.from('violations').select('*').eq('suppressed', false);
+        const { data: violations, error } = await (video ? query.eq('video_id', video.id) : query.eq('video_path', videoPath))
+          .order('frame_number', { ascending: true })
+          .limit(5000);
+        if (error) console.error('Error loading violations for video:', error);
+
+        setVideoFps(video?.fps || DEFAULT_FPS);
+        setVideoViolations((violations || []) as ViolationRow[]);
+        setVideoUrl(signed.signedUrl);
       } else {
         setVideoUrl("");
+        setVideoFps(DEFAULT_FPS);
+        setVideoViolations([]);
       }
     };
     
     loadVideo();
   }, [videoPath]);
 
+  // Release preview object URLs when they are replaced or the page unmounts
   useEffect(() => {
-    if (!(videoRef.current && frameNumber && videoUrl)) return;
-    const video = videoRef.current;
-    const timeInSeconds = parseInt(frameNumber) / 30;
+    return () => previewFrames.forEach((frame) => URL.revokeObjectURL(frame.url));
+  }, [previewFrames]);
 
-    const doSeek = () => {
-      if (!video) return;
-      
-      video.pause();
-      video.currentTime = timeInSeconds;
-      
-      // Force another pause after seek completes to ensure it stays
-      const onSeeked = () => {
-        setTimeout(() => {
-          if (video) {
-            video.currentTime = timeInSeconds;
-            video.pause();
-          }
-        }, 50);
-        video.removeEventListener('seeked', onSeeked);
-      };
-      
-      video.addEventListener('seeked', onSeeked);
-    };
+  // React has no typed prop for directory pickers, so the attribute is set directly
+  // (once the upload card is rendered, which waits for the role, and whenever the files tab remounts)
+  useEffect(() => {
+    folderInputRef.current?.setAttribute("webkitdirectory", "");
+  }, [canAnalyze, inputMode]);
 
-    // Wait for video to be fully ready
-    if (video.readyState >= 3) {
-      // Video is ready, seek immediately
-      setTimeout(doSeek, 100);
-    } else {
-      // Wait for video to be ready
-      video.addEventListener('canplaythrough', doSeek, { once: true });
+  // Files are filed under the site selected when they are queued
+  const queueFiles = (files: File[]) => {
+    if (!siteId) {
+      toast.error("Select a site before uploading videos");
+      return;
     }
-
-    return () => {
-      video.removeEventListener('canplaythrough', doSeek);
-    };
-  }, [frameNumber, videoUrl]);
-
-  const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (file) {
-      if (file.size > 250 * 1024 * 1024) {
-        toast.error("File size must be less than 250MB");
-        return;
-      }
-      setSelectedFile(file);
-      toast.success("Video file selected");
+    if (cameraId === CAMERA_FROM_FILENAME && cameras.some((camera) => camera.filename_prefix)) {
+      const untagged = files.filter((file) => !matchCameraByFilename(cameras, file.name)).length;
+      if (untagged) toast.info(`${untagged} of ${files.length} file(s) match no camera prefix and will not be tagged`);
     }
+    addFiles(files, siteId, cameraId === CAMERA_FROM_FILENAME ? null : cameraId);
   };
 
-  const extractFrames = async (file: File, count = 6) => {
-    return new Promise<{ blobs: Blob[]; times: number[] }>((resolve, reject) => {
-      const video = document.createElement('video');
-      const url = URL.createObjectURL(file);
-      video.src = url;
-      video.preload = 'metadata';
-      video.crossOrigin = 'anonymous';
-
-      video.onloadedmetadata = async () => {
-        const duration = video.duration || 0;
-        const width = 640;
-        const height = Math.max(1, Math.round((video.videoHeight / (video.videoWidth || 1)) * width));
-        const canvas = document.createElement('canvas');
-        canvas.width = width; canvas.height = height;
-        const ctx = canvas.getContext('2d');
-        if (!ctx) { reject(new Error('Canvas not supported')); return; }
-
-        const blobs: Blob[] = []; const times: number[] = [];
-        const captureAt = (t: number) => new Promise<void>((res) => {
-          const onSeeked = () => {
-            ctx.drawImage(video, 0, 0, width, height);
-            canvas.toBlob((blob) => {
-              if (blob) { blobs.push(blob); times.push(t); }
-              video.removeEventListener('seeked', onSeeked);
-              res();
-            }, 'image/jpeg', 0.75);
-          };
-          video.addEventListener('seeked', onSeeked);
-          video.currentTime = Math.min(Math.max(0, t), Math.max(0, duration - 0.05));
-        });
-
-        const frames = Math.max(3, count);
-        for (let i = 0; i < frames; i++) {
-          const t = duration ? ((i + 1) / (frames + 1)) * duration : 0;
-          // eslint-disable-next-line no-await-in-loop
-          await captureAt(t);
-        }
-        URL.revokeObjectURL(url);
-        resolve({ blobs, times });
-      };
-      video.onerror = () => reject(new Error('Failed to load video for frame extraction'));
-    });
-  };
-
-  const handleAnalyze = async () => {
-    if (!selectedFile) return;
-    
-    setIsAnalyzing(true);
-    toast.info("Analyzing video with YOLO... This may take a moment.");
-    
-    try {
-      const { data: { user } } = await supabase.auth.getUser();
-      if (!user) {
-        toast.error("You must be logged in to analyze videos");
-        return;
-      }
-
-      // Extract a few frames for accurate AI analysis
-      let frames: { blobs: Blob[]; times: number[] } | null = null;
-      try {
-        toast.info('Extracting video frames for analysis...');
-        frames = await extractFrames(selectedFile, 6);
-      } catch {
-        console.warn('Frame extraction failed, proceeding without frames');
-      }
-
-      const formData = new FormData();
-      formData.append('video', selectedFile);
-      formData.append('videoName', selectedFile.name);
-      formData.append('userId', user.id);
-      if (frames && frames.blobs.length) {
-        formData.append('frames_meta', JSON.stringify(frames.times));
-        frames.blobs.forEach((blob, i) => {
-          formData.append(`frame_${i}` as string, blob, `frame_${i}.jpg`);
-        });
-      }
-      
-      const { data, error } = await supabase.functions.invoke('analyze-video', {
-        body: formData,
-      });
-      
-      if (error) throw error;
-      
-      if (data.success) {
-        toast.success(`Analysis complete! Found ${data.violations} violations. Check logs for details.`);
-      } else {
-        toast.error("Analysis failed: " + data.error);
-      }
-    } catch (error) {
-      console.error('Analysis error:', error);
-      toast.error("Failed to analyze video. Please try again.");
-    } finally {
-      setIsAnalyzing(false);
+  const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files || []).filter(isVideoFile);
+    event.target.value = "";
+    if (files.length === 0) {
+      toast.error("No MP4, AVI or MOV files selected");
+      return;
     }
+    queueFiles(files);
   };
 
-  const handleRemove = () => {
-    setSelectedFile(null);
-    toast.info("File removed");
+  const handleDrop = async (event: React.DragEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    setIsDragging(false);
+    const files = await collectDroppedFiles(event.dataTransfer);
+    if (files.length === 0) {
+      toast.error("No MP4, AVI or MOV files found in the dropped items");
+      return;
+    }
+    queueFiles(files);
   };
 
   return (
@@ -199,80 +171,165 @@ const VideoUpload = () => {
           <CardHeader>
             <CardTitle>Video Player</CardTitle>
             <CardDescription>
-              Viewing violation at frame {frameNumber}
+              {frameNumber
+                ? `Viewing violation at frame ${frameNumber} (${formatVideoTimestamp(parseInt(frameNumber), videoFps)} at ${videoFps} fps)`
+                : `Playing at ${videoFps} fps`}
+              . Detected boxes are drawn during playback; use the strip below to jump between violations.
             </CardDescription>
           </CardHeader>
           <CardContent>
-            <video 
-              key={videoPath || videoUrl}
-              ref={videoRef}
-              controls 
-              preload="auto"
-              playsInline
-              className="w-full rounded-lg"
+            <AnnotatedVideoPlayer
+              key={videoUrl}
               src={videoUrl}
-            >
-              Your browser does not support the video tag.
-            </video>
+              fps={videoFps}
+              violations={videoViolations}
+              initialFrame={frameNumber ? parseInt(frameNumber) : null}
+            />
           </CardContent>
         </Card>
       )}
 
-      <Card className="shadow-card border-border">
-        <CardHeader>
-          <CardTitle>Upload Video</CardTitle>
-          <CardDescription>
-            Supported formats: MP4, AVI, MOV (max 250MB)
-          </CardDescription>
-        </CardHeader>
-        <CardContent className="space-y-4">
-          <div className="border-2 border-dashed border-border rounded-lg p-8 text-center hover:border-primary transition-colors">
-            <input
-              type="file"
-              accept="video/mp4,video/avi,video/mov"
-              onChange={handleFileSelect}
-              className="hidden"
-              id="video-upload"
-            />
-            <label htmlFor="video-upload" className="cursor-pointer">
-              <Upload className="h-12 w-12 mx-auto mb-4 text-muted-foreground" />
-              <p className="text-sm text-muted-foreground">
-                Click to upload or drag and drop
-              </p>
-            </label>
-          </div>
+      {canAnalyze && (
+        <>
+          <Card className="shadow-card border-border">
+            <CardHeader>
+              <CardTitle>Upload Video</CardTitle>
+              <CardDescription>
+                {inputMode === "files"
+                  ? "Supported formats: MP4, AVI, MOV (max 5GB per file). Drop several files or a whole folder to queue them."
+                  : "Point the camera of this device at a work area for a spot check. Objects are detected in the browser and sampled frames are analyzed for violations."}
+                {site && ` ${inputMode === "files" ? "Videos" : "Violations"} are filed under ${site.name}.`}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <Tabs value={inputMode} onValueChange={(value) => setInputMode(value as InputMode)}>
+                <TabsList>
+                  <TabsTrigger value="files">Video files</TabsTrigger>
+                  <TabsTrigger value="webcam">Device camera</TabsTrigger>
+                </TabsList>
+                <TabsContent value="files">
+                  <div
+                    className={`border-2 border-dashed rounded-lg p-8 text-center hover:border-primary transition-colors ${isDragging ? "border-primary bg-primary/5" : "border-border"}`}
+                    onDragOver={(event) => {
+                      event.preventDefault();
+                      setIsDragging(true);
+                    }}
+                    onDragLeave={() => setIsDragging(false)}
+                    onDrop={handleDrop}
+                  >
+                    <input
+                      type="file"
+                      accept="video/mp4,video/avi,video/mov,video/quicktime,.avi"
+                      multiple
+                      onChange={handleFileSelect}
+                      className="hidden"
+                      id="video-upload"
+                    />
+                    <input
+                      type="file"
+                      ref={folderInputRef}
+                      onChange={handleFileSelect}
+                      className="hidden"
+                      id="folder-upload"
+                    />
+                    <label htmlFor="video-upload" className="cursor-pointer">
+                      <Upload className="h-12 w-12 mx-auto mb-4 text-muted-foreground" />
+                      <p className="text-sm text-muted-foreground">
+                        Click to upload or drag and drop videos or folders
+                      </p>
+                    </label>
+                    <Button variant="outline" size="sm" className="mt-4" asChild>
+                      <label htmlFor="folder-upload" className="cursor-pointer">
+                        <FolderOpen className="h-4 w-4 mr-2" />
+                        Select folder
+                      </label>
+                    </Button>
+                  </div>
+                </TabsContent>
+                <TabsContent value="webcam">
+                  <WebcamDetection
+                    siteId={siteId}
+                    cameraId={cameraId === CAMERA_FROM_FILENAME ? null : cameraId}
+                  />
+                </TabsContent>
+              </Tabs>
 
-          {selectedFile && (
-            <div className="flex items-center justify-between p-4 rounded-lg bg-secondary">
-              <div className="flex items-center gap-3">
-                <Play className="h-5 w-5 text-primary" />
-                <div>
-                  <p className="font-medium">{selectedFile.name}</p>
-                  <p className="text-sm text-muted-foreground">
-                    {(selectedFile.size / (1024 * 1024)).toFixed(2)} MB
-                  </p>
+              {cameras.length > 0 && (
+                <div className="flex items-center justify-between gap-4 p-4 rounded-lg border border-border">
+                  <div>
+                    <Label>Camera</Label>
+                    <p className="text-xs text-muted-foreground">
+                      Violations found in the {inputMode === "files" ? "queued videos" : "device camera feed"} are
+                      tagged with this camera and its zone
+                    </p>
+                  </div>
+                  <Select value={cameraId} onValueChange={setCameraId}>
+                    <SelectTrigger className="w-56">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={CAMERA_FROM_FILENAME}>
+                        {inputMode === "files" ? "Match file name prefix" : "No camera"}
+                      </SelectItem>
+                      {cameras.filter((camera) => camera.is_active).map((camera) => (
+                        <SelectItem key={camera.id} value={camera.id}>
+                          {camera.zone ? `${camera.name} (${camera.zone})` : camera.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
                 </div>
-              </div>
-              <Button
-                variant="ghost"
-                size="icon"
-                onClick={handleRemove}
-                disabled={isAnalyzing}
-              >
-                <X className="h-4 w-4" />
-              </Button>
-            </div>
-          )}
+              )}
 
-          <Button
-            onClick={handleAnalyze}
-            disabled={!selectedFile || isAnalyzing}
-            className="w-full"
-          >
-            {isAnalyzing ? "Analyzing..." : "Start Analysis"}
-          </Button>
-        </CardContent>
-      </Card>
+              {inputMode === "files" && (
+                <div className="flex items-center justify-between gap-4 p-4 rounded-lg border border-border">
+                  <div className="flex items-center gap-3">
+                    <Switch
+                      id="on-device-detection"
+                      checked={onDeviceDetection}
+                      onCheckedChange={setOnDeviceDetection}
+                      disabled={isProcessing}
+                    />
+                    <div>
+                      <Label htmlFor="on-device-detection">On-device detection</Label>
+                      <p className="text-xs text-muted-foreground">
+                        Run COCO-SSD in the browser and send its boxes to the rule engine
+                      </p>
+                    </div>
+                  </div>
+                  <Select
+                    value={detectorBackend}
+                    onValueChange={(value) => setDetectorBackend(value as DetectorBackend)}
+                    disabled={!onDeviceDetection || isProcessing}
+                  >
+                    <SelectTrigger className="w-32">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="webgl">WebGL</SelectItem>
+                      <SelectItem value="cpu">CPU</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          <UploadQueue
+            items={items}
+            onCancel={cancel}
+            onRetry={retry}
+            onPause={pause}
+            onClearFinished={clearFinished}
+          />
+
+          <AnalysisJobs />
+
+          {previewFrames.length > 0 && (
+            <DetectionPreview frames={previewFrames} width={previewSize.width} height={previewSize.height} />
+          )}
+        </>
+      )}
 
       <Card className="shadow-card border-border">
         <CardHeader>
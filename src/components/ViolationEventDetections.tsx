@@ -0,0 +1,230 @@
+import { useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { useQueryClient } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Check, EyeOff, Film, History, Loader2, PenLine, Play, Trash2, X } from "lucide-react";
+import { toast } from "sonner";
+import { supabase } from "@/integrations/supabase/client";
+import { formatVideoTimestamp } from "@/lib/video-metadata";
+import { DETECTION_METHODS, type ViolationEvent, type ViolationRow } from "@/lib/violations";
+import { reviewViolation, type ReviewDecision } from "@/lib/violation-review";
+import { suppressSimilar } from "@/lib/suppression";
+import { useEventDetections } from "@/hooks/use-violation-events";
+import { useProfile } from "@/hooks/use-profile";
+import ReviewDialog from "@/components/ReviewDialog";
+import ReviewStatusBadge from "@/components/ReviewStatusBadge";
+
+interface ViolationEventDetectionsProps {
+  event: ViolationEvent;
+  // Frame rate of the event's video, for frame timestamps
+  fps: number;
+}
+
+// Clips of device camera violations are private to the site; open them through a signed URL
+const openClip = async (clipPath: string) => {
+  const { data, error } = await supabase.storage.from("violation-clips").createSignedUrl(clipPath, 60 * 60);
+  if (error || !data) {
+    console.error("Error signing clip URL:", error);
+    toast.error("Failed to open clip");
+    return;
+  }
+  window.open(data.signedUrl, "_blank", "noopener");
+};
+
+// The per-frame detections of an expanded violation event, each reviewable on its own
+const ViolationEventDetections = ({ event, fps }: ViolationEventDetectionsProps) => {
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const { can } = useProfile();
+  const { data: detections = [], isLoading } = useEventDetections(event.id);
+  const [reviewing, setReviewing] = useState<ViolationRow | null>(null);
+  const canReview = can("review_violations");
+  const canDelete = can("delete_violations");
+  const canSuppress = can("manage_suppression");
+  const live = event.source_type === "stream" || event.source_type === "camera";
+
+  const refresh = () => queryClient.invalidateQueries({ queryKey: ["violation-event-detections", event.id] });
+
+  const handleReview = async (id: string, decision: ReviewDecision) => {
+    try {
+      await reviewViolation(id, decision);
+      setReviewing(null);
+      refresh();
+    } catch (error) {
+      console.error("Error reviewing violation:", error);
+      toast.error("Failed to save review");
+    }
+  };
+
+  // The detection leaves its event, and with it the logs, once it is suppressed
+  const handleSuppressSimilar = async (detection: ViolationRow) => {
+    if (!confirm(`Mark this ${detection.violation_type} detection as a false positive and suppress similar ones from now on?`)) return;
+
+    try {
+      const rule = await suppressSimilar(detection);
+      toast.success(`Suppressing detections like this one (${rule.name})`);
+      refresh();
+      queryClient.invalidateQueries({ queryKey: ["suppression-rules", detection.site_id] });
+    } catch (error) {
+      console.error("Error suppressing similar violations:", error);
+      toast.error("Failed to suppress similar detections");
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      const { error } = await supabase.from("violations").delete().eq("id", id);
+      if (error) throw error;
+
+      toast.success("Violation deleted successfully");
+      refresh();
+    } catch (error) {
+      console.error("Error deleting violation:", error);
+      toast.error("Failed to delete violation");
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center gap-2 py-3 text-sm text-muted-foreground">
+        <Loader2 className="h-4 w-4 animate-spin" />
+        Loading detections...
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>{live ? "Time" : "Frame"}</TableHead>
+            <TableHead>Type</TableHead>
+            <TableHead>Confidence</TableHead>
+            <TableHead>Method</TableHead>
+            <TableHead>Review</TableHead>
+            <TableHead className="text-right">Actions</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {detections.map((detection) => (
+            <TableRow
+              key={detection.id}
+              className={detection.id === event.representative_violation_id ? "bg-primary/5" : undefined}
+            >
+              <TableCell className="font-mono text-sm">
+                {live ? (
+                  <div className="flex items-center gap-2">
+                    {new Date(detection.detected_at).toLocaleTimeString()}
+                    {detection.metadata?.clip_path && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className="h-6 px-2"
+                        onClick={() => openClip(detection.metadata!.clip_path!)}
+                      >
+                        <Film className="h-3 w-3 mr-1" />
+                        clip
+                      </Button>
+                    )}
+                  </div>
+                ) : detection.video_path ? (
+                  <button
+                    onClick={() =>
+                      navigate(`/upload?video=${encodeURIComponent(detection.video_path!)}&frame=${detection.frame_number}`)
+                    }
+                    className="flex items-center gap-2 text-primary hover:underline"
+                  >
+                    <Play className="h-3 w-3" />
+                    {formatVideoTimestamp(detection.frame_number, fps)}
+                    <span className="text-xs text-muted-foreground">#{detection.frame_number}</span>
+                  </button>
+                ) : (
+                  <span className="text-muted-foreground">
+                    {formatVideoTimestamp(detection.frame_number, fps)} #{detection.frame_number}
+                  </span>
+                )}
+              </TableCell>
+              <TableCell className="text-sm">
+                {detection.violation_type}
+                {detection.id === event.representative_violation_id && (
+                  <Badge variant="outline" className="ml-2">peak</Badge>
+                )}
+              </TableCell>
+              <TableCell className="text-primary font-medium">{(detection.confidence * 100).toFixed(1)}%</TableCell>
+              <TableCell className="text-sm text-muted-foreground">
+                {DETECTION_METHODS[detection.metadata?.detection_method ?? ""] ?? detection.metadata?.detection_method ?? "—"}
+              </TableCell>
+              <TableCell>
+                <ReviewStatusBadge violation={detection} />
+              </TableCell>
+              <TableCell className="text-right whitespace-nowrap">
+                {canReview && (
+                  <>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      title="Confirm"
+                      disabled={detection.review_status === "confirmed"}
+                      onClick={() => handleReview(detection.id, { review_status: "confirmed" })}
+                    >
+                      <Check className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      title="Mark as false positive"
+                      disabled={detection.review_status === "false_positive"}
+                      onClick={() => handleReview(detection.id, { review_status: "false_positive" })}
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                    <Button variant="ghost" size="sm" title="Reclassify or add a note" onClick={() => setReviewing(detection)}>
+                      <PenLine className="h-4 w-4" />
+                    </Button>
+                  </>
+                )}
+                {canSuppress && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    title="Suppress similar"
+                    onClick={() => handleSuppressSimilar(detection)}
+                  >
+                    <EyeOff className="h-4 w-4" />
+                  </Button>
+                )}
+                {can("view_audit_log") && (
+                  <Button variant="ghost" size="sm" title="Change history" onClick={() => navigate(`/audit?record=${detection.id}`)}>
+                    <History className="h-4 w-4" />
+                  </Button>
+                )}
+                {canDelete && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    title="Delete"
+                    onClick={() => handleDelete(detection.id)}
+                    className="text-destructive hover:text-destructive hover:bg-destructive/10"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                )}
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+
+      <ReviewDialog
+        violation={reviewing}
+        onOpenChange={(open) => !open && setReviewing(null)}
+        onSubmit={(decision) => reviewing && handleReview(reviewing.id, decision)}
+      />
+    </>
+  );
+};
+
+export default ViolationEventDetections;
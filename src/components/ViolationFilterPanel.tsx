@@ -0,0 +1,237 @@
+import { useEffect, useState } from "react";
+import { Sheet, SheetContent, SheetDescription, SheetFooter, SheetHeader, SheetTitle, SheetTrigger } from "@/components/ui/sheet";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Filter } from "lucide-react";
+import { DETECTION_METHODS, REVIEW_STATUSES, SEVERITIES, VIOLATION_TYPES } from "@/lib/violations";
+import { countActiveFilters, EMPTY_FILTERS, type ViolationFilters } from "@/lib/violation-filters";
+import { cameraZones, type Camera } from "@/hooks/use-cameras";
+
+const ALL_VIDEOS = "__all__";
+
+interface ViolationFilterPanelProps {
+  filters: ViolationFilters;
+  videos: { id: string; original_name: string }[];
+  cameras: Camera[];
+  onApply: (filters: ViolationFilters) => void;
+}
+
+const toggle = (values: string[], value: string, checked: boolean) =>
+  checked ? [...values, value] : values.filter((v) => v !== value);
+
+const CheckboxGroup = ({
+  id,
+  options,
+  selected,
+  onChange,
+}: {
+  id: string;
+  options: { value: string; label: string }[];
+  selected: string[];
+  onChange: (values: string[]) => void;
+}) => (
+  <div className="space-y-2">
+    {options.map((option) => (
+      <div key={option.value} className="flex items-center gap-2">
+        <Checkbox
+          id={`${id}-${option.value}`}
+          checked={selected.includes(option.value)}
+          onCheckedChange={(checked) => onChange(toggle(selected, option.value, checked === true))}
+        />
+        <Label htmlFor={`${id}-${option.value}`} className="font-normal">
+          {option.label}
+        </Label>
+      </div>
+    ))}
+  </div>
+);
+
+const ViolationFilterPanel = ({ filters, videos, cameras, onApply }: ViolationFilterPanelProps) => {
+  const [open, setOpen] = useState(false);
+  const [draft, setDraft] = useState<ViolationFilters>(filters);
+  const activeCount = countActiveFilters(filters);
+
+  // Start from the applied (URL) filters whenever the panel opens
+  useEffect(() => {
+    if (open) setDraft(filters);
+  }, [open, filters]);
+
+  const percent = (value: string) => (value === "" ? null : Math.min(100, Math.max(0, Number(value))));
+
+  const apply = (next: ViolationFilters) => {
+    onApply(next);
+    setOpen(false);
+  };
+
+  return (
+    <Sheet open={open} onOpenChange={setOpen}>
+      <SheetTrigger asChild>
+        <Button variant="outline">
+          <Filter className="h-4 w-4 mr-2" />
+          Filter
+          {activeCount > 0 && <Badge variant="secondary" className="ml-2">{activeCount}</Badge>}
+        </Button>
+      </SheetTrigger>
+      <SheetContent className="overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle>Filter violations</SheetTitle>
+          <SheetDescription>Filters are kept in the page URL, so a filtered view can be bookmarked or shared.</SheetDescription>
+        </SheetHeader>
+
+        <div className="space-y-6 py-6">
+          <div className="space-y-3">
+            <h4 className="text-sm font-medium">Violation type</h4>
+            <CheckboxGroup
+              id="type"
+              options={VIOLATION_TYPES.map((type) => ({ value: type, label: type }))}
+              selected={draft.types}
+              onChange={(types) => setDraft({ ...draft, types })}
+            />
+          </div>
+
+          <div className="space-y-3">
+            <h4 className="text-sm font-medium">Severity</h4>
+            <CheckboxGroup
+              id="severity"
+              options={SEVERITIES.map((severity) => ({ value: severity, label: severity }))}
+              selected={draft.severities}
+              onChange={(severities) => setDraft({ ...draft, severities })}
+            />
+          </div>
+
+          <div className="space-y-3">
+            <h4 className="text-sm font-medium">Detection method</h4>
+            <CheckboxGroup
+              id="method"
+              options={Object.entries(DETECTION_METHODS).map(([value, label]) => ({ value, label }))}
+              selected={draft.methods}
+              onChange={(methods) => setDraft({ ...draft, methods })}
+            />
+          </div>
+
+          <div className="space-y-3">
+            <h4 className="text-sm font-medium">Review status</h4>
+            <CheckboxGroup
+              id="review"
+              options={Object.entries(REVIEW_STATUSES).map(([value, label]) => ({ value, label }))}
+              selected={draft.reviewStatuses}
+              onChange={(reviewStatuses) => setDraft({ ...draft, reviewStatuses })}
+            />
+          </div>
+
+          <div className="space-y-3">
+            <h4 className="text-sm font-medium">Confidence (%)</h4>
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <Label htmlFor="min-confidence" className="text-xs text-muted-foreground">Min</Label>
+                <Input
+                  id="min-confidence"
+                  type="number"
+                  min={0}
+                  max={100}
+                  placeholder="0"
+                  value={draft.minConfidence ?? ""}
+                  onChange={(e) => setDraft({ ...draft, minConfidence: percent(e.target.value) })}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="max-confidence" className="text-xs text-muted-foreground">Max</Label>
+                <Input
+                  id="max-confidence"
+                  type="number"
+                  min={0}
+                  max={100}
+                  placeholder="100"
+                  value={draft.maxConfidence ?? ""}
+                  onChange={(e) => setDraft({ ...draft, maxConfidence: percent(e.target.value) })}
+                />
+              </div>
+            </div>
+          </div>
+
+          <div className="space-y-3">
+            <h4 className="text-sm font-medium">Detected between</h4>
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <Label htmlFor="detected-from" className="text-xs text-muted-foreground">From</Label>
+                <Input
+                  id="detected-from"
+                  type="date"
+                  value={draft.from ?? ""}
+                  onChange={(e) => setDraft({ ...draft, from: e.target.value || null })}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="detected-to" className="text-xs text-muted-foreground">To</Label>
+                <Input
+                  id="detected-to"
+                  type="date"
+                  value={draft.to ?? ""}
+                  onChange={(e) => setDraft({ ...draft, to: e.target.value || null })}
+                />
+              </div>
+            </div>
+          </div>
+
+          {cameras.length > 0 && (
+            <>
+              <div className="space-y-3">
+                <h4 className="text-sm font-medium">Zone</h4>
+                <CheckboxGroup
+                  id="zone"
+                  options={cameraZones(cameras).map((zone) => ({ value: zone, label: zone }))}
+                  selected={draft.zones}
+                  onChange={(zones) => setDraft({ ...draft, zones })}
+                />
+              </div>
+
+              <div className="space-y-3">
+                <h4 className="text-sm font-medium">Camera</h4>
+                <CheckboxGroup
+                  id="camera"
+                  options={cameras.map((camera) => ({
+                    value: camera.id,
+                    label: camera.zone ? `${camera.name} (${camera.zone})` : camera.name,
+                  }))}
+                  selected={draft.cameraIds}
+                  onChange={(cameraIds) => setDraft({ ...draft, cameraIds })}
+                />
+              </div>
+            </>
+          )}
+
+          <div className="space-y-3">
+            <h4 className="text-sm font-medium">Source video</h4>
+            <Select
+              value={draft.videoId ?? ALL_VIDEOS}
+              onValueChange={(value) => setDraft({ ...draft, videoId: value === ALL_VIDEOS ? null : value })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_VIDEOS}>All videos</SelectItem>
+                {videos.map((video) => (
+                  <SelectItem key={video.id} value={video.id}>{video.original_name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <SheetFooter className="gap-2">
+          <Button variant="outline" onClick={() => apply(EMPTY_FILTERS)}>
+            Reset
+          </Button>
+          <Button onClick={() => apply(draft)}>Apply filters</Button>
+        </SheetFooter>
+      </SheetContent>
+    </Sheet>
+  );
+};
+
+export default ViolationFilterPanel;
@@ -1,124 +1,206 @@
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
-import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "@/components/ui/accordion";
 import { Button } from "@/components/ui/button";
-import { Download, Filter, Play, Trash2 } from "lucide-react";
-import { useNavigate } from "react-router-dom";
-import { useEffect, useMemo, useState } from "react";
+import { Check, ChevronDown, ChevronRight, Download, Loader2, Play, X } from "lucide-react";
+import { useNavigate, useSearchParams } from "react-router-dom";
+import { useEffect, useMemo, useRef, useState } from "react";
+import { useVirtualizer } from "@tanstack/react-virtual";
+import { useQueryClient } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
 import { toast } from "sonner";
+import { DEFAULT_FPS, formatVideoTimestamp } from "@/lib/video-metadata";
+import { countActiveFilters, parseViolationFilters, writeViolationFilters, type ViolationFilters } from "@/lib/violation-filters";
+import ViolationFilterPanel from "@/components/ViolationFilterPanel";
+import ViolationEventDetections from "@/components/ViolationEventDetections";
+import AnalyzedVideos, { type VideoWithJobs } from "@/components/AnalyzedVideos";
+import { fetchAllViolationEvents, useViolationEvents } from "@/hooks/use-violation-events";
+import { useProfile } from "@/hooks/use-profile";
+import { useCurrentSite } from "@/hooks/use-current-site";
+import { useCameras } from "@/hooks/use-cameras";
+import type { ViolationEvent } from "@/lib/violations";
+import { reviewViolationEvent, type ReviewDecision } from "@/lib/violation-review";
+
+// Rows are measured after render; this is only the initial estimate
+const ROW_HEIGHT = 61;
+const RECENT_VIDEOS = 50;
 
 const ViolationLogs = () => {
   const navigate = useNavigate();
-  const [logs, setLogs] = useState<any[]>([]);
-  const [loading, setLoading] = useState(true);
-  
+  const queryClient = useQueryClient();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [videos, setVideos] = useState<VideoWithJobs[]>([]);
+  const [exporting, setExporting] = useState(false);
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+  const { can } = useProfile();
+  const { site, siteId } = useCurrentSite();
+  const { data: cameras = [] } = useCameras(siteId);
+  const cameraById = useMemo(() => new Map(cameras.map((camera) => [camera.id, camera])), [cameras]);
+  const canReview = can("review_violations");
+  const filters = useMemo(() => parseViolationFilters(searchParams), [searchParams]);
+  const filtersActive = countActiveFilters(filters) > 0;
+  const {
+    rows: events,
+    total,
+    isLoading: loading,
+    isError,
+    hasNextPage,
+    isFetchingNextPage,
+    fetchNextPage,
+  } = useViolationEvents(filters);
+  const scrollRef = useRef<HTMLDivElement>(null);
+
   useEffect(() => {
-    fetchViolations();
-    
+    if (isError) toast.error("Failed to load violations");
+  }, [isError]);
+
+  useEffect(() => {
+    if (!siteId) return;
+    fetchVideos(siteId);
+
     // Subscribe to realtime updates
     const channel = supabase
-      .channel('violations-changes')
+      .channel('analysis-jobs-changes')
       .on(
         'postgres_changes',
         {
-          event: 'INSERT',
+          event: '*',
           schema: 'public',
-          table: 'violations'
+          table: 'analysis_jobs'
         },
-        () => {
-          fetchViolations();
-          toast.success("New violation detected!");
-        }
+        () => fetchVideos(siteId)
       )
       .subscribe();
-    
+
     return () => {
       supabase.removeChannel(channel);
     };
-  }, []);
-  
-  const fetchViolations = async () => {
+  }, [siteId]);
+
+  const fetchVideos = async (siteId: string) => {
     try {
-      const { data, error } = await (supabase as any)
-        .from('violations')
-        .select('*')
-        .order('detected_at', { ascending: false });
-      
+      const { data, error } = await supabase
+        .from('videos')
+        .select('*, analysis_jobs(*), violation_events(count)')
+        .eq('site_id', siteId)
+        .order('created_at', { ascending: false })
+        .order('created_at', { referencedTable: 'analysis_jobs', ascending: false })
+        .limit(RECENT_VIDEOS);
+
       if (error) throw error;
-      
-      setLogs(data || []);
+
+      setVideos((data || []) as VideoWithJobs[]);
     } catch (error) {
-      console.error('Error fetching violations:', error);
-      toast.error("Failed to load violations");
-    } finally {
-      setLoading(false);
+      console.error('Error fetching videos:', error);
+      toast.error("Failed to load videos");
     }
   };
 
-  const groupedLogs = useMemo(() => {
-    const map = new Map<string, any[]>();
-    logs.forEach((log) => {
-      const key = log.video_path || log.source_name || 'Unknown';
-      if (!map.has(key)) map.set(key, []);
-      map.get(key)!.push(log);
-    });
-    return Array.from(map.entries()).map(([key, items]) => ({
-      key,
-      name: key === 'Unknown' ? 'Unknown Source' : (typeof key === 'string' && key.includes('/') ? key.split('/').pop() : key),
-      items
-    }));
-  }, [logs]);
 
-  const formatVideoTimestamp = (frameNumber: number, fps: number = 30) => {
-    const totalSeconds = frameNumber / fps;
-    const minutes = Math.floor(totalSeconds / 60);
-    const seconds = Math.floor(totalSeconds % 60);
-    const centiseconds = Math.round((totalSeconds - Math.floor(totalSeconds)) * 100);
-    return `${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')}.${centiseconds
-      .toString()
-      .padStart(2, '0')}`;
+  const videoById = useMemo(() => new Map(videos.map((video) => [video.id, video])), [videos]);
+
+  // Probed fps of the event's video; videos outside the recent list fall back to the default
+  const fpsFor = (event: ViolationEvent): number =>
+    (event.video_id && videoById.get(event.video_id)?.fps) || DEFAULT_FPS;
+
+  // Stream and device camera events have no position in a video; they are placed by wall-clock time
+  const eventTime = (event: ViolationEvent) => {
+    if (event.source_type === "stream" || event.source_type === "camera") {
+      return {
+        start: new Date(event.started_at).toLocaleTimeString(),
+        end: new Date(event.ended_at).toLocaleTimeString(),
+      };
+    }
+    return {
+      start: formatVideoTimestamp(event.start_frame ?? 0, fpsFor(event)),
+      end: formatVideoTimestamp(event.end_frame ?? 0, fpsFor(event)),
+    };
   };
 
-  const handleTimestampClick = (frame: number, videoPath: string) => {
-    navigate(`/upload?video=${encodeURIComponent(videoPath)}&frame=${frame}`);
+  const sourceName = (event: ViolationEvent) =>
+    (event.video_id && videoById.get(event.video_id)?.original_name) || event.source_name || 'Unknown Source';
+
+  const rowVirtualizer = useVirtualizer({
+    count: events.length,
+    getScrollElement: () => scrollRef.current,
+    estimateSize: () => ROW_HEIGHT,
+    overscan: 12,
+  });
+  const virtualRows = rowVirtualizer.getVirtualItems();
+  const lastVisibleIndex = virtualRows[virtualRows.length - 1]?.index ?? -1;
+
+  // Load the next page shortly before the user scrolls to the end of the loaded rows
+  useEffect(() => {
+    if (lastVisibleIndex >= events.length - 20 && hasNextPage && !isFetchingNextPage) {
+      fetchNextPage();
+    }
+  }, [lastVisibleIndex, events.length, hasNextPage, isFetchingNextPage, fetchNextPage]);
+
+  const applyFilters = (next: ViolationFilters) => {
+    setSearchParams(writeViolationFilters(searchParams, next));
+    scrollRef.current?.scrollTo({ top: 0 });
   };
 
-  const handleExport = () => {
-    const csv = "Video Name,Timestamp,Video Frame Number,Type of Violation,Detection Accuracy (%)\n" + 
-      logs.map(log => {
-        const fps = log.metadata?.fps || 30;
-        const timestamp = formatVideoTimestamp(log.frame_number, fps);
-        const accuracy = (parseFloat(log.confidence) * 100).toFixed(1);
-        return `"${log.source_name}",${timestamp},${log.frame_number},${log.violation_type},${accuracy}%`;
-      }).join("\n");
-    
-    const blob = new Blob([csv], { type: 'text/csv' });
-    const url = window.URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = 'violation_report.csv';
-    a.click();
+  const toggleExpanded = (id: string) =>
+    setExpanded((current) => {
+      const next = new Set(current);
+      if (!next.delete(id)) next.add(id);
+      return next;
+    });
+
+  // Jumps to the peak detection of a video event
+  const openInPlayer = (event: ViolationEvent) => {
+    const video = event.video_id ? videoById.get(event.video_id) : undefined;
+    if (!video) return;
+    navigate(`/upload?video=${encodeURIComponent(video.storage_path)}&frame=${event.representative_frame ?? event.start_frame ?? 0}`);
   };
 
-  const handleDelete = async (id: string) => {
+  const handleExport = async () => {
+    if (!siteId) return;
+    setExporting(true);
     try {
-      const { error } = await supabase
-        .from('violations')
-        .delete()
-        .eq('id', id);
-      
-      if (error) throw error;
-      
-      toast.success("Violation deleted successfully");
-      fetchViolations(); // Refresh the list
+      // The table only holds the pages scrolled so far; the export covers every matching event
+      const rows = await fetchAllViolationEvents(siteId, filters);
+      const csv = "Video Name,Camera,Zone,Start,End,Start Frame,End Frame,Peak Frame,Type of Violation,Peak Detection Accuracy (%),Detections,False Positives\n" +
+        rows.map(event => {
+          const { start, end } = eventTime(event);
+          const accuracy = (event.peak_confidence * 100).toFixed(1);
+          const camera = (event.camera_id && cameraById.get(event.camera_id)?.name) || '';
+          return `"${sourceName(event)}","${camera}","${event.zone ?? ''}",${start},${end},${event.start_frame ?? ''},${event.end_frame ?? ''},${event.representative_frame ?? ''},${event.violation_type},${accuracy}%,${event.detection_count},${event.false_positive_count}`;
+        }).join("\n");
+
+      const blob = new Blob([csv], { type: 'text/csv' });
+      const url = window.URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = 'violation_report.csv';
+      a.click();
     } catch (error) {
-      console.error('Error deleting violation:', error);
-      toast.error("Failed to delete violation");
+      console.error('Error exporting violations:', error);
+      toast.error("Failed to export violations");
+    } finally {
+      setExporting(false);
     }
   };
 
+  const handleReviewEvent = async (event: ViolationEvent, decision: ReviewDecision) => {
+    try {
+      await reviewViolationEvent(event.id, decision);
+      toast.success(
+        decision.review_status === "false_positive"
+          ? `${event.detection_count} detections marked as false positive`
+          : `${event.detection_count} detections confirmed`
+      );
+      queryClient.invalidateQueries({ queryKey: ["violation-event-detections", event.id] });
+    } catch (error) {
+      console.error('Error reviewing violation event:', error);
+      toast.error("Failed to save review");
+    }
+  };
+
+  const paddingTop = virtualRows[0]?.start ?? 0;
+  const paddingBottom = rowVirtualizer.getTotalSize() - (virtualRows[virtualRows.length - 1]?.end ?? 0);
+
   return (
     <div className="space-y-6">
       <div className="flex items-center justify-between">
@@ -131,122 +213,193 @@ const ViolationLogs = () => {
           </p>
         </div>
         <div className="flex gap-2">
-          <Button variant="outline">
-            <Filter className="h-4 w-4 mr-2" />
-            Filter
-          </Button>
-          <Button onClick={handleExport}>
+          <ViolationFilterPanel
+            filters={filters}
+            videos={videos}
+            cameras={cameras}
+            onApply={applyFilters}
+          />
+          <Button onClick={handleExport} disabled={exporting}>
             <Download className="h-4 w-4 mr-2" />
-            Export CSV
+            {exporting ? "Exporting..." : "Export CSV"}
           </Button>
         </div>
       </div>
 
+      <AnalyzedVideos
+        videos={videos}
+        selectedVideoId={filters.videoId}
+        onSelect={(videoId) => applyFilters({ ...filters, videoId })}
+      />
+
       <Card className="shadow-card border-border">
         <CardHeader>
           <CardTitle>Detection History</CardTitle>
-          <CardDescription>All violations detected from uploaded video analysis</CardDescription>
+          <CardDescription>
+            {total !== null && `${total.toLocaleString()} `}
+            {filtersActive
+              ? 'violation events matching the current filters'
+              : `violation events; detections of one type and source at most ${site?.event_gap_seconds ?? 10}s apart are merged`}
+          </CardDescription>
         </CardHeader>
         <CardContent>
           {loading ? (
             <div className="text-center py-8">Loading violations...</div>
-          ) : logs.length === 0 ? (
-            <div className="text-center py-8">No violations detected yet. Upload a video to start analysis.</div>
+          ) : events.length === 0 ? (
+            <div className="text-center py-8">
+              {filtersActive
+                ? 'No violations match the current filters.'
+                : 'No violations detected yet. Upload a video to start analysis.'}
+            </div>
           ) : (
-            <Accordion type="multiple" className="w-full">
-              {groupedLogs.map((group) => (
-                <AccordionItem key={group.key as string} value={String(group.key)}>
-                  <AccordionTrigger>
-                    <div className="flex items-center gap-2">
-                      <span className="font-medium">{group.name as string}</span>
-                      <Badge variant="secondary">{group.items.length}</Badge>
-                    </div>
-                  </AccordionTrigger>
-                  <AccordionContent>
-                    <div className="overflow-x-auto">
-                      <Table>
-                        <TableHeader>
-                          <TableRow>
-                            <TableHead>Video Time</TableHead>
-                            <TableHead>Violation Type</TableHead>
-                            <TableHead>Confidence</TableHead>
-                            <TableHead>Severity</TableHead>
-                            <TableHead className="text-right">Actions</TableHead>
-                          </TableRow>
-                        </TableHeader>
-                        <TableBody>
-                          {group.items.map((log: any) => {
-                            const displayTime = formatVideoTimestamp(log.frame_number, log.metadata?.video_fps || 30);
-                            
-                            return (
-                            <TableRow key={log.id}>
-                              <TableCell className="font-mono text-sm">
-                                {log.video_path ? (
-                                  <button
-                                    onClick={() => handleTimestampClick(log.frame_number, log.video_path)}
-                                    className="flex items-center gap-2 text-primary hover:underline cursor-pointer group"
-                                  >
-                                    <Play className="h-3 w-3 opacity-0 group-hover:opacity-100 transition-opacity" />
-                                    <div className="flex flex-col items-start">
-                                      <span className="font-semibold">
-                                        {displayTime}
-                                      </span>
-                                      <span className="text-xs text-muted-foreground">
-                                        {new Date(log.detected_at).toLocaleDateString()}
-                                      </span>
-                                    </div>
-                                  </button>
-                                ) : (
-                                  <div className="flex items-center gap-2 text-muted-foreground">
-                                    <div className="flex flex-col items-start">
-                                      <span className="font-semibold">
-                                        {displayTime}
-                                      </span>
-                                      <span className="text-xs">
-                                        {new Date(log.detected_at).toLocaleDateString()}
-                                      </span>
-                                    </div>
-                                    <Badge variant="outline">no video</Badge>
-                                  </div>
-                                )}
-                              </TableCell>
-                              <TableCell>
-                                <Badge 
-                                  variant={log.metadata?.severity === "critical" ? "destructive" : "outline"} 
-                                  className={log.metadata?.severity === "warning" ? "border-warning text-warning" : ""}
-                                >
-                                  {log.violation_type}
-                                </Badge>
-                              </TableCell>
-                              <TableCell className="text-primary font-medium">
-                                {(parseFloat(log.confidence) * 100).toFixed(1)}%
-                              </TableCell>
-                              <TableCell>
-                                <Badge variant={log.metadata?.severity === "critical" ? "destructive" : "secondary"}>
-                                  {log.metadata?.severity || 'unknown'}
-                                </Badge>
-                              </TableCell>
-                              <TableCell className="text-right">
-                                <Button
-                                  variant="ghost"
-                                  size="sm"
-                                  onClick={() => handleDelete(log.id)}
-                                  className="text-destructive hover:text-destructive hover:bg-destructive/10"
-                                >
-                                  <Trash2 className="h-4 w-4" />
-                                </Button>
-                              </TableCell>
-                            </TableRow>
-                          )})}
-                        </TableBody>
-                      </Table>
-                    </div>
-                  </AccordionContent>
-                </AccordionItem>
-              ))}
-            </Accordion>
-          )}
+            <div ref={scrollRef} className="h-[600px] overflow-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Video</TableHead>
+                    <TableHead>Time</TableHead>
+                    <TableHead>Violation Type</TableHead>
+                    <TableHead>Peak Confidence</TableHead>
+                    <TableHead>Detections</TableHead>
+                    <TableHead>Severity</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                {paddingTop > 0 && (
+                  <TableBody>
+                    <tr>
+                      <td colSpan={7} style={{ height: paddingTop }} />
+                    </tr>
+                  </TableBody>
+                )}
+                {virtualRows.map((virtualRow) => {
+                  const event = events[virtualRow.index];
+                  const { start, end } = eventTime(event);
+                  const isExpanded = expanded.has(event.id);
+                  const rejected = event.false_positive_count >= event.detection_count;
+                  const canOpen = event.source_type === "video" && !!event.video_id && videoById.has(event.video_id);
 
+                  // One tbody per event, so the virtualizer measures the event together with its detections
+                  return (
+                    <TableBody key={event.id} data-index={virtualRow.index} ref={rowVirtualizer.measureElement}>
+                      <TableRow className={rejected ? "opacity-60" : undefined}>
+                        <TableCell className="max-w-[220px]" title={sourceName(event)}>
+                          <button
+                            className="flex w-full items-start gap-1 text-left"
+                            onClick={() => toggleExpanded(event.id)}
+                            aria-expanded={isExpanded}
+                          >
+                            {isExpanded ? (
+                              <ChevronDown className="mt-0.5 h-4 w-4 shrink-0" />
+                            ) : (
+                              <ChevronRight className="mt-0.5 h-4 w-4 shrink-0" />
+                            )}
+                            <div className="min-w-0">
+                              <div className="truncate">{sourceName(event)}</div>
+                              {(event.camera_id || event.zone) && (
+                                <div className="truncate text-xs text-muted-foreground">
+                                  {[event.camera_id && cameraById.get(event.camera_id)?.name, event.zone].filter(Boolean).join(" · ")}
+                                </div>
+                              )}
+                            </div>
+                          </button>
+                        </TableCell>
+                        <TableCell className="font-mono text-sm">
+                          <div className="flex items-center gap-2">
+                            {canOpen ? (
+                              <button
+                                onClick={() => openInPlayer(event)}
+                                className="flex items-center gap-2 text-primary hover:underline cursor-pointer group"
+                                title="Open the peak detection in the player"
+                              >
+                                <Play className="h-3 w-3 opacity-0 group-hover:opacity-100 transition-opacity" />
+                                <span className="font-semibold">{start === end ? start : `${start} – ${end}`}</span>
+                              </button>
+                            ) : (
+                              <span className="font-semibold">{start === end ? start : `${start} – ${end}`}</span>
+                            )}
+                            {event.source_type !== "video" && (
+                              <Badge variant="outline">{event.source_type === "stream" ? "live" : "device camera"}</Badge>
+                            )}
+                          </div>
+                          <span className="text-xs text-muted-foreground">
+                            {new Date(event.started_at).toLocaleDateString()}
+                          </span>
+                        </TableCell>
+                        <TableCell>
+                          <Badge
+                            variant={event.severity === "critical" ? "destructive" : "outline"}
+                            className={event.severity === "warning" ? "border-warning text-warning" : ""}
+                          >
+                            {event.violation_type}
+                          </Badge>
+                        </TableCell>
+                        <TableCell className="text-primary font-medium">
+                          {(event.peak_confidence * 100).toFixed(1)}%
+                        </TableCell>
+                        <TableCell className="text-sm">
+                          {event.detection_count}
+                          {event.false_positive_count > 0 && (
+                            <div className="text-xs text-muted-foreground">
+                              {rejected ? "all rejected" : `${event.false_positive_count} rejected`}
+                            </div>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          <Badge variant={event.severity === "critical" ? "destructive" : "secondary"}>
+                            {event.severity || 'unknown'}
+                          </Badge>
+                        </TableCell>
+                        <TableCell className="text-right whitespace-nowrap">
+                          {canReview && (
+                            <>
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                title="Confirm every detection of the event"
+                                onClick={() => handleReviewEvent(event, { review_status: "confirmed" })}
+                              >
+                                <Check className="h-4 w-4" />
+                              </Button>
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                title="Mark every detection of the event as false positive"
+                                disabled={rejected}
+                                onClick={() => handleReviewEvent(event, { review_status: "false_positive" })}
+                              >
+                                <X className="h-4 w-4" />
+                              </Button>
+                            </>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                      {isExpanded && (
+                        <TableRow className="hover:bg-transparent">
+                          <TableCell colSpan={7} className="bg-muted/30 pl-10">
+                            <ViolationEventDetections event={event} fps={fpsFor(event)} />
+                          </TableCell>
+                        </TableRow>
+                      )}
+                    </TableBody>
+                  );
+                })}
+                {paddingBottom > 0 && (
+                  <TableBody>
+                    <tr>
+                      <td colSpan={7} style={{ height: paddingBottom }} />
+                    </tr>
+                  </TableBody>
+                )}
+              </Table>
+              {isFetchingNextPage && (
+                <div className="flex items-center justify-center gap-2 py-4 text-sm text-muted-foreground">
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                  Loading more violations...
+                </div>
+              )}
+            </div>
+          )}
         </CardContent>
       </Card>
     </div>
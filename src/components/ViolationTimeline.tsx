@@ -0,0 +1,76 @@
+import { Button } from "@/components/ui/button";
+import { ChevronLeft, ChevronRight } from "lucide-react";
+import { cn } from "@/lib/utils";
+import type { ViolationRow } from "@/lib/violations";
+
+interface ViolationTimelineProps {
+  violations: ViolationRow[];
+  fps: number;
+  duration: number;
+  currentTime: number;
+  onSeek: (violation: ViolationRow) => void;
+}
+
+// Strip under the player with a marker per violation; markers and the prev/next buttons seek to it
+const ViolationTimeline = ({ violations, fps, duration, currentTime, onSeek }: ViolationTimelineProps) => {
+  const timeOf = (violation: ViolationRow) => violation.frame_number / fps;
+  // Half a frame of slack so a violation we just jumped to does not count as "next"
+  const epsilon = 0.5 / fps;
+  const previous = [...violations].reverse().find((violation) => timeOf(violation) < currentTime - epsilon);
+  const next = violations.find((violation) => timeOf(violation) > currentTime + epsilon);
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2">
+        <Button
+          variant="outline"
+          size="icon"
+          className="h-8 w-8 shrink-0"
+          disabled={!previous}
+          onClick={() => previous && onSeek(previous)}
+          title="Previous violation"
+        >
+          <ChevronLeft className="h-4 w-4" />
+        </Button>
+        <div className="relative h-8 flex-1 rounded-md bg-secondary">
+          {duration > 0 && violations.map((violation) => {
+            const critical = violation.metadata?.severity === "critical";
+            return (
+              <button
+                key={violation.id}
+                onClick={() => onSeek(violation)}
+                title={`${violation.violation_type} at ${timeOf(violation).toFixed(2)}s (${(violation.confidence * 100).toFixed(0)}%)`}
+                className={cn(
+                  "absolute top-1 bottom-1 w-1.5 -translate-x-1/2 rounded-sm transition-transform hover:scale-x-150",
+                  critical ? "bg-destructive" : "bg-warning"
+                )}
+                style={{ left: `${Math.min(100, (timeOf(violation) / duration) * 100)}%` }}
+              />
+            );
+          })}
+          {duration > 0 && (
+            <div
+              className="pointer-events-none absolute top-0 bottom-0 w-0.5 bg-primary"
+              style={{ left: `${Math.min(100, (currentTime / duration) * 100)}%` }}
+            />
+          )}
+        </div>
+        <Button
+          variant="outline"
+          size="icon"
+          className="h-8 w-8 shrink-0"
+          disabled={!next}
+          onClick={() => next && onSeek(next)}
+          title="Next violation"
+        >
+          <ChevronRight className="h-4 w-4" />
+        </Button>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        {violations.length} violation{violations.length === 1 ? "" : "s"} in this video
+      </p>
+    </div>
+  );
+};
+
+export default ViolationTimeline;
@@ -0,0 +1,317 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { ObjectDetection } from "@tensorflow-models/coco-ssd";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Film, Loader2, Webcam } from "lucide-react";
+import { toast } from "sonner";
+import { supabase } from "@/integrations/supabase/client";
+import { detectObjects, loadCocoSsd, type Detection } from "@/lib/object-detection";
+import { captureFrame } from "@/lib/frame-extraction";
+import { createClipRecorder, type ClipRecorder } from "@/lib/clip-recorder";
+import { drawDetections, drawViolations, prepareOverlay } from "@/lib/violation-overlay";
+import type { ViolationRow } from "@/lib/violations";
+
+// On-device detection runs this often for the live boxes; full analysis runs every sample interval
+const DETECT_INTERVAL_MS = 250;
+const INTERVALS = ["2", "5", "10", "30"];
+const DEFAULT_DEVICE = "default";
+
+interface WebcamDetectionProps {
+  siteId: string | null;
+  // Registered camera the device stands in for, if any; its zone tags the violations
+  cameraId: string | null;
+}
+
+interface PendingClip {
+  clip: Promise<Blob>;
+  violationIds: string[];
+}
+
+// Spot checks with the camera of a laptop or tablet: COCO-SSD boxes are drawn live and
+// sampled frames go through analyze-stream-frame, recorded with source_type 'camera'
+const WebcamDetection = ({ siteId, cameraId }: WebcamDetectionProps) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+  const clipRecorderRef = useRef<ClipRecorder | null>(null);
+  const pendingClipRef = useRef<PendingClip | null>(null);
+  // Read by the drawing loop, so kept out of state to avoid re-rendering every frame
+  const detectionsRef = useRef<Detection[]>([]);
+  const overlayRef = useRef<ViolationRow[]>([]);
+  const [devices, setDevices] = useState<MediaDeviceInfo[]>([]);
+  const [deviceId, setDeviceId] = useState(DEFAULT_DEVICE);
+  const [deviceLabel, setDeviceLabel] = useState("");
+  const [starting, setStarting] = useState(false);
+  const [active, setActive] = useState(false);
+  const [model, setModel] = useState<ObjectDetection | null>(null);
+  const [intervalSeconds, setIntervalSeconds] = useState("5");
+  const [saveClips, setSaveClips] = useState(true);
+  const [sessionViolations, setSessionViolations] = useState<ViolationRow[]>([]);
+  const [clipIds, setClipIds] = useState<Set<string>>(new Set());
+
+  const refreshDevices = useCallback(async () => {
+    if (!navigator.mediaDevices?.enumerateDevices) return;
+    const all = await navigator.mediaDevices.enumerateDevices();
+    setDevices(all.filter((device) => device.kind === "videoinput"));
+  }, []);
+
+  useEffect(() => {
+    refreshDevices();
+  }, [refreshDevices]);
+
+  const stop = useCallback(() => {
+    clipRecorderRef.current?.stop();
+    clipRecorderRef.current = null;
+    streamRef.current?.getTracks().forEach((track) => track.stop());
+    streamRef.current = null;
+    if (videoRef.current) videoRef.current.srcObject = null;
+    detectionsRef.current = [];
+    overlayRef.current = [];
+    setActive(false);
+  }, []);
+
+  // The camera is released when leaving the page
+  useEffect(() => stop, [stop]);
+
+  const start = async () => {
+    if (!navigator.mediaDevices?.getUserMedia) {
+      toast.error("Camera access needs a secure (HTTPS) page and a supported browser");
+      return;
+    }
+    setStarting(true);
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({
+        video: deviceId === DEFAULT_DEVICE
+          ? { facingMode: "environment", width: { ideal: 1280 } }
+          : { deviceId: { exact: deviceId }, width: { ideal: 1280 } },
+        audio: false,
+      });
+      streamRef.current = stream;
+      const video = videoRef.current!;
+      video.srcObject = stream;
+      await video.play();
+      setDeviceLabel(stream.getVideoTracks()[0]?.label || "");
+      // Labels are only exposed once the user has granted access
+      refreshDevices();
+
+      if (saveClips) {
+        clipRecorderRef.current = createClipRecorder(stream);
+        if (!clipRecorderRef.current) toast.info("This browser cannot record clips; violations are saved without one");
+      }
+      setModel(await loadCocoSsd("webgl"));
+      setActive(true);
+    } catch (error) {
+      console.error("Error starting device camera:", error);
+      toast.error(
+        error instanceof DOMException && error.name === "NotAllowedError"
+          ? "Camera access was denied"
+          : `Could not start the camera: ${error instanceof Error ? error.message : error}`
+      );
+      stop();
+    } finally {
+      setStarting(false);
+    }
+  };
+
+  // Live boxes: on-device detection a few times per second, drawn every animation frame
+  useEffect(() => {
+    if (!active || !model) return;
+    const video = videoRef.current;
+    const canvas = canvasRef.current;
+    if (!video || !canvas) return;
+    let animation = 0;
+    let busy = false;
+    let lastDetection = 0;
+
+    const tick = (now: number) => {
+      if (!busy && now - lastDetection >= DETECT_INTERVAL_MS && video.videoWidth) {
+        busy = true;
+        lastDetection = now;
+        detectObjects(model, video)
+          .then((detections) => {
+            detectionsRef.current = detections;
+          })
+          .catch((error) => console.warn("On-device detection failed for webcam frame", error))
+          .finally(() => {
+            busy = false;
+          });
+      }
+      const layout = prepareOverlay(video, canvas);
+      if (layout) {
+        drawDetections(layout, detectionsRef.current, { width: video.videoWidth, height: video.videoHeight });
+        drawViolations(layout, overlayRef.current);
+      }
+      animation = requestAnimationFrame(tick);
+    };
+    animation = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(animation);
+  }, [active, model]);
+
+  const saveClip = useCallback(async (pending: PendingClip) => {
+    if (!siteId) return;
+    try {
+      const clip = await pending.clip;
+      const extension = clip.type.includes("mp4") ? "mp4" : "webm";
+      const clipPath = `${siteId}/${Date.now()}-${crypto.randomUUID()}.${extension}`;
+      const { error: uploadError } = await supabase.storage
+        .from("violation-clips")
+        .upload(clipPath, clip, { contentType: clip.type.split(";")[0] });
+      if (uploadError) throw uploadError;
+
+      const { error } = await supabase.rpc("attach_violation_clip", {
+        p_violation_ids: pending.violationIds,
+        p_clip_path: clipPath,
+      });
+      if (error) throw error;
+      setClipIds((current) => new Set([...current, ...pending.violationIds]));
+    } catch (error) {
+      console.error("Error saving violation clip:", error);
+      toast.error(`Failed to save clip: ${error instanceof Error ? error.message : "unknown error"}`);
+    }
+  }, [siteId]);
+
+  // Analysis: every sample interval the current frame is sent with its detections
+  useEffect(() => {
+    if (!active || !siteId) return;
+    let busy = false;
+
+    const sample = async () => {
+      const video = videoRef.current;
+      if (!video || busy) return;
+      busy = true;
+      try {
+        const capturedAt = new Date();
+        const frame = await captureFrame(video, model);
+
+        const formData = new FormData();
+        formData.append("source", "camera");
+        formData.append("siteId", siteId);
+        if (cameraId) formData.append("cameraId", cameraId);
+        if (deviceLabel) formData.append("sourceName", deviceLabel);
+        formData.append("capturedAt", capturedAt.toISOString());
+        formData.append("frame", frame.blob, "frame.jpg");
+        formData.append("frame_size", JSON.stringify({ width: frame.width, height: frame.height }));
+        if (model) formData.append("frame_detections", JSON.stringify(frame.detections));
+
+        const { data, error } = await supabase.functions.invoke("analyze-stream-frame", { body: formData });
+        if (error) throw error;
+        if (!data.success) throw new Error(data.error || "Analysis failed");
+
+        const violations = data.violations as ViolationRow[];
+        overlayRef.current = violations;
+        if (violations.length === 0) return;
+        setSessionViolations((current) => [...violations, ...current]);
+        toast.warning(`${violations.length} violation(s) detected`, {
+          description: violations.map((v) => v.violation_type).join(", "),
+        });
+
+        // Violations close together share one clip
+        const clip = clipRecorderRef.current?.captureEvent();
+        if (!clip) return;
+        const ids = violations.map((v) => v.id);
+        if (pendingClipRef.current?.clip === clip) {
+          pendingClipRef.current.violationIds.push(...ids);
+        } else {
+          const pending = { clip, violationIds: ids };
+          pendingClipRef.current = pending;
+          saveClip(pending);
+        }
+      } catch (error) {
+        console.error("Error analyzing webcam frame:", error);
+        toast.error(`Frame analysis failed: ${error instanceof Error ? error.message : "unknown error"}`);
+      } finally {
+        busy = false;
+      }
+    };
+
+    const timer = setInterval(sample, Number(intervalSeconds) * 1000);
+    return () => clearInterval(timer);
+  }, [active, siteId, cameraId, deviceLabel, model, intervalSeconds, saveClip]);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-end gap-4">
+        <div className="space-y-2">
+          <Label>Camera device</Label>
+          <Select value={deviceId} onValueChange={setDeviceId} disabled={active || starting}>
+            <SelectTrigger className="w-64">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={DEFAULT_DEVICE}>Default (rear camera when available)</SelectItem>
+              {devices
+                .filter((device) => device.deviceId)
+                .map((device, i) => (
+                  <SelectItem key={device.deviceId} value={device.deviceId}>
+                    {device.label || `Camera ${i + 1}`}
+                  </SelectItem>
+                ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label>Analyze every</Label>
+          <Select value={intervalSeconds} onValueChange={setIntervalSeconds}>
+            <SelectTrigger className="w-32">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {INTERVALS.map((seconds) => (
+                <SelectItem key={seconds} value={seconds}>{seconds} seconds</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="flex items-center gap-2 pb-2">
+          <Switch id="webcam-clips" checked={saveClips} onCheckedChange={setSaveClips} disabled={active || starting} />
+          <Label htmlFor="webcam-clips">Save a clip around violations</Label>
+        </div>
+        <div className="ml-auto">
+          {active ? (
+            <Button variant="outline" onClick={stop}>Stop camera</Button>
+          ) : (
+            <Button onClick={start} disabled={starting || !siteId}>
+              {starting ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Webcam className="h-4 w-4 mr-2" />}
+              Start camera
+            </Button>
+          )}
+        </div>
+      </div>
+
+      <div className="relative overflow-hidden rounded-lg bg-black aspect-video">
+        <video ref={videoRef} muted playsInline className="h-full w-full object-contain" />
+        <canvas ref={canvasRef} className="pointer-events-none absolute left-0 top-0" />
+        {!active && (
+          <div className="absolute inset-0 flex items-center justify-center text-sm text-muted-foreground">
+            {starting ? "Starting camera and detector..." : "Camera is off"}
+          </div>
+        )}
+      </div>
+
+      {sessionViolations.length > 0 && (
+        <div className="space-y-2">
+          <Label>Recorded this session</Label>
+          <div className="max-h-48 space-y-1 overflow-auto">
+            {sessionViolations.map((violation) => (
+              <div key={violation.id} className="flex items-center justify-between gap-2 rounded border border-border px-3 py-1.5 text-sm">
+                <span className="truncate">{violation.violation_type}</span>
+                <div className="flex shrink-0 items-center gap-2 text-xs text-muted-foreground">
+                  {clipIds.has(violation.id) && <Film className="h-3 w-3" aria-label="Clip saved" />}
+                  <span>{new Date(violation.detected_at).toLocaleTimeString()}</span>
+                  <Badge variant={violation.metadata?.severity === "critical" ? "destructive" : "secondary"}>
+                    {(violation.confidence * 100).toFixed(0)}%
+                  </Badge>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default WebcamDetection;
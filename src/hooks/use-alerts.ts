@@ -0,0 +1,97 @@
+import { useEffect } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+
+export type AlertRule = Tables<"alert_rules">;
+export type Alert = Tables<"alerts">;
+
+// Outcome per delivery channel, as written by supabase/functions/_shared/alerts.ts
+export type AlertDeliveries = Partial<Record<"email" | "webhook", string>>;
+
+const INBOX_SIZE = 50;
+
+// Rules that apply to a site: its own and the organization-wide ones
+export function useAlertRules(siteId: string | null) {
+  return useQuery({
+    queryKey: ["alert-rules", siteId],
+    enabled: siteId !== null,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("alert_rules")
+        .select("*")
+        .or(`site_id.is.null,site_id.eq.${siteId}`)
+        .order("created_at", { ascending: true });
+
+      if (error) throw error;
+      return data || [];
+    },
+  });
+}
+
+// Latest alerts of a site with the signed-in user's read state
+export function useAlertInbox(siteId: string | null) {
+  return useQuery({
+    queryKey: ["alerts", siteId],
+    enabled: siteId !== null,
+    queryFn: async () => {
+      const { data: alerts, error } = await supabase
+        .from("alerts")
+        .select("*")
+        .eq("site_id", siteId!)
+        .order("created_at", { ascending: false })
+        .limit(INBOX_SIZE);
+      if (error) throw error;
+
+      const ids = (alerts || []).map((alert) => alert.id);
+      const { data: reads, error: readsError } = ids.length
+        ? await supabase.from("alert_reads").select("alert_id").in("alert_id", ids)
+        : { data: [], error: null };
+      if (readsError) throw readsError;
+
+      return { alerts: alerts || [], readIds: new Set((reads || []).map((read) => read.alert_id)) };
+    },
+  });
+}
+
+// Keeps the inbox of a site live and pops up new alerts whose rule notifies in-app;
+// mounted once, by the inbox button in the header
+export function useAlertNotifications(siteId: string | null) {
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    if (!siteId) return;
+    const channel = supabase
+      .channel("alert-inbox")
+      .on(
+        "postgres_changes",
+        { event: "*", schema: "public", table: "alerts", filter: `site_id=eq.${siteId}` },
+        (payload) => {
+          if (payload.eventType === "INSERT") {
+            const alert = payload.new as Alert;
+            if (alert.notify_in_app) {
+              const notify = alert.severity === "critical" ? toast.error : toast.warning;
+              notify(`${alert.rule_name}: ${alert.violation_type}`, {
+                description: `${alert.source_name} · ${(alert.confidence * 100).toFixed(0)}% confidence`,
+              });
+            }
+          }
+          queryClient.invalidateQueries({ queryKey: ["alerts", siteId] });
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [queryClient, siteId]);
+}
+
+export const markAlertsRead = async (alertIds: string[]) => {
+  if (alertIds.length === 0) return;
+  const { error } = await supabase
+    .from("alert_reads")
+    .upsert(alertIds.map((alert_id) => ({ alert_id })), { onConflict: "alert_id,user_id", ignoreDuplicates: true });
+  if (error) throw error;
+};
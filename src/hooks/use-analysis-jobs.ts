@@ -0,0 +1,62 @@
+import { useEffect } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+
+export type AnalysisJob = Omit<Tables<"analysis_jobs">, "frames" | "params"> & {
+  videos: Pick<Tables<"videos">, "original_name" | "storage_path"> | null;
+};
+
+const JOB_COLUMNS =
+  "id, video_id, requested_by, status, phase, detector_version, frames_total, frames_done, frames_failed, violations_found, error_message, started_at, finished_at, created_at, updated_at, videos(original_name, storage_path)";
+
+// Recent analysis jobs of the signed-in user, kept live through realtime updates
+export function useAnalysisJobs(limit = 10) {
+  const queryClient = useQueryClient();
+  const query = useQuery({
+    queryKey: ["analysis-jobs", limit],
+    queryFn: async () => {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return [];
+
+      const { data, error } = await supabase
+        .from("analysis_jobs")
+        .select(JOB_COLUMNS)
+        .eq("requested_by", user.id)
+        .order("created_at", { ascending: false })
+        .limit(limit);
+
+      if (error) throw error;
+      return (data || []) as AnalysisJob[];
+    },
+  });
+
+  useEffect(() => {
+    const queryKey = ["analysis-jobs", limit];
+    const channel = supabase
+      .channel("analysis-jobs-progress")
+      .on(
+        "postgres_changes",
+        { event: "*", schema: "public", table: "analysis_jobs" },
+        (payload) => {
+          const changed = payload.new as Partial<AnalysisJob>;
+          const cached = queryClient.getQueryData<AnalysisJob[]>(queryKey);
+          // Progress updates are merged in place; new jobs need the joined video name, so refetch
+          if (payload.eventType === "UPDATE" && cached?.some((job) => job.id === changed.id)) {
+            queryClient.setQueryData<AnalysisJob[]>(queryKey, (jobs = []) =>
+              jobs.map((job) => (job.id === changed.id ? { ...job, ...changed, videos: job.videos } : job))
+            );
+          } else {
+            queryClient.invalidateQueries({ queryKey: ["analysis-jobs"] });
+          }
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [queryClient, limit]);
+
+  return query;
+}
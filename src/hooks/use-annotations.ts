@@ -0,0 +1,21 @@
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+
+// Ground-truth labels of a site, grouped by video name and in time order
+export function useVideoAnnotations(siteId: string | null) {
+  return useQuery({
+    queryKey: ["video-annotations", siteId],
+    enabled: siteId !== null,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("video_annotations")
+        .select("*")
+        .eq("site_id", siteId!)
+        .order("video_name", { ascending: true })
+        .order("start_seconds", { ascending: true });
+
+      if (error) throw error;
+      return data || [];
+    },
+  });
+}
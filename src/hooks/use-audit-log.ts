@@ -0,0 +1,70 @@
+import { useInfiniteQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+
+export type AuditEntry = Tables<"audit_log">;
+
+export const AUDIT_PAGE_SIZE = 100;
+
+// Tables with an audit trigger, with the label shown on the Audit page
+export const AUDITED_TABLES: Record<string, string> = {
+  violations: "Violations",
+  models: "Models & datasets",
+  detection_settings: "Detection settings",
+  cameras: "Cameras",
+  alert_rules: "Alert rules",
+  suppression_rules: "Suppression rules",
+  video_annotations: "Ground truth labels",
+};
+
+export const AUDIT_ACTIONS = ["INSERT", "UPDATE", "DELETE"];
+
+export interface AuditFilters {
+  table: string | null;
+  action: string | null;
+  recordId: string | null;
+}
+
+export const parseAuditFilters = (params: URLSearchParams): AuditFilters => ({
+  table: params.get("table"),
+  action: params.get("action"),
+  recordId: params.get("record"),
+});
+
+export const writeAuditFilters = (filters: AuditFilters) => {
+  const next = new URLSearchParams();
+  if (filters.table) next.set("table", filters.table);
+  if (filters.action) next.set("action", filters.action);
+  if (filters.recordId) next.set("record", filters.recordId);
+  return next;
+};
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Audit entries matching `filters`, newest first, loaded in pages keyed on the
+ * (monotonic) entry id.
+ */
+export function useAuditLog(filters: AuditFilters) {
+  return useInfiniteQuery({
+    queryKey: ["audit-log", filters],
+    initialPageParam: null as number | null,
+    queryFn: async ({ pageParam }) => {
+      let query = supabase.from("audit_log").select("*");
+      if (filters.table) query = query.eq("table_name", filters.table);
+      if (filters.action) query = query.eq("action", filters.action);
+      // record_id is a uuid column; anything else would be rejected by the database
+      if (filters.recordId) {
+        if (!UUID_PATTERN.test(filters.recordId)) return [];
+        query = query.eq("record_id", filters.recordId);
+      }
+      if (pageParam !== null) query = query.lt("id", pageParam);
+
+      const { data, error } = await query.order("id", { ascending: false }).limit(AUDIT_PAGE_SIZE);
+      if (error) throw error;
+      return data as AuditEntry[];
+    },
+    getNextPageParam: (lastPage) =>
+      lastPage.length < AUDIT_PAGE_SIZE ? undefined : lastPage[lastPage.length - 1].id,
+  });
+}
@@ -0,0 +1,40 @@
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+
+export type Camera = Tables<"cameras">;
+
+// Cameras registered at a site, active ones first
+export function useCameras(siteId: string | null) {
+  return useQuery({
+    queryKey: ["cameras", siteId],
+    enabled: siteId !== null,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("cameras")
+        .select("*")
+        .eq("site_id", siteId!)
+        .order("is_active", { ascending: false })
+        .order("name", { ascending: true });
+
+      if (error) throw error;
+      return data || [];
+    },
+    staleTime: 5 * 60 * 1000,
+  });
+}
+
+// Distinct zones of the given cameras, sorted
+export const cameraZones = (cameras: Camera[]) =>
+  [...new Set(cameras.map((camera) => camera.zone).filter((zone): zone is string => !!zone))].sort();
+
+// Client-side twin of resolveCamera() in supabase/functions/_shared/analysis.ts, used to
+// show which camera an upload will be tagged with before it is sent
+export const matchCameraByFilename = (cameras: Camera[], fileName: string) => {
+  const name = fileName.toLowerCase();
+  return (
+    cameras
+      .filter((camera) => camera.is_active && camera.filename_prefix && name.startsWith(camera.filename_prefix.toLowerCase()))
+      .sort((a, b) => b.filename_prefix!.length - a.filename_prefix!.length)[0] ?? null
+  );
+};
@@ -0,0 +1,52 @@
+import { useCallback, useSyncExternalStore } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+
+export type Site = Tables<"sites"> & { organizations: Pick<Tables<"organizations">, "name"> | null };
+
+// The site picked in the sidebar, remembered per browser
+const STORAGE_KEY = "mineguard.current-site";
+const listeners = new Set<() => void>();
+
+const subscribe = (listener: () => void) => {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+};
+
+const readStoredSiteId = () => localStorage.getItem(STORAGE_KEY);
+
+export const setCurrentSiteId = (siteId: string) => {
+  localStorage.setItem(STORAGE_KEY, siteId);
+  listeners.forEach((listener) => listener());
+};
+
+// Sites the signed-in user can access (RLS: memberships, or every site of their org for org admins)
+export function useSites() {
+  return useQuery({
+    queryKey: ["sites"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("sites")
+        .select("*, organizations(name)")
+        .order("name", { ascending: true });
+
+      if (error) throw error;
+      return (data || []) as Site[];
+    },
+    staleTime: 5 * 60 * 1000,
+  });
+}
+
+/**
+ * The site every page is scoped to. Falls back to the first accessible site when
+ * nothing (or a site the user lost access to) was stored.
+ */
+export function useCurrentSite() {
+  const { data: sites = [], isLoading } = useSites();
+  const storedSiteId = useSyncExternalStore(subscribe, readStoredSiteId);
+  const site = sites.find((candidate) => candidate.id === storedSiteId) ?? sites[0] ?? null;
+  const setSiteId = useCallback((siteId: string) => setCurrentSiteId(siteId), []);
+
+  return { site, siteId: site?.id ?? null, sites, isLoading, setSiteId };
+}
@@ -0,0 +1,11 @@
+import { useQuery } from "@tanstack/react-query";
+import { fetchDetectionSettings } from "@/lib/detection-settings";
+
+// The signed-in user's detection settings and the defaults of a site
+export function useDetectionSettings(siteId: string | null) {
+  return useQuery({
+    queryKey: ["detection-settings", siteId],
+    enabled: siteId !== null,
+    queryFn: () => fetchDetectionSettings(siteId!),
+  });
+}
@@ -0,0 +1,67 @@
+import { useEffect } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import type { EvaluationRun, VideoEvaluation } from "@/lib/evaluation";
+
+// Everything but the per-video results and the work in progress, which only the selected run needs
+const RUN_COLUMNS =
+  "id, site_id, requested_by, status, detection_method, detector_version, tolerance_seconds, settings, videos_total, videos_done, frames_done, frames_failed, metrics, error_message, started_at, finished_at, created_at, updated_at";
+
+export type EvaluationRunSummary = Omit<
+  EvaluationRun,
+  "videos" | "results" | "pending_findings" | "pending_scored_times" | "pending_failed_times"
+>;
+
+// Evaluation runs of a site, newest first, kept live while they progress
+export function useEvaluationRuns(siteId: string | null) {
+  const queryClient = useQueryClient();
+  const query = useQuery({
+    queryKey: ["evaluation-runs", siteId],
+    enabled: siteId !== null,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("evaluation_runs")
+        .select(RUN_COLUMNS)
+        .eq("site_id", siteId!)
+        .order("created_at", { ascending: false });
+
+      if (error) throw error;
+      return (data || []) as EvaluationRunSummary[];
+    },
+  });
+
+  useEffect(() => {
+    if (!siteId) return;
+    const channel = supabase
+      .channel("evaluation-runs-progress")
+      .on(
+        "postgres_changes",
+        { event: "*", schema: "public", table: "evaluation_runs", filter: `site_id=eq.${siteId}` },
+        () => {
+          queryClient.invalidateQueries({ queryKey: ["evaluation-runs", siteId] });
+          queryClient.invalidateQueries({ queryKey: ["evaluation-results"] });
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [queryClient, siteId]);
+
+  return query;
+}
+
+// Per-video labels and findings of one run
+export function useEvaluationResults(runId: string | null) {
+  return useQuery({
+    queryKey: ["evaluation-results", runId],
+    enabled: runId !== null,
+    queryFn: async () => {
+      const { data, error } = await supabase.from("evaluation_runs").select("results").eq("id", runId!).single();
+
+      if (error) throw error;
+      return data.results as unknown as VideoEvaluation[];
+    },
+  });
+}
@@ -0,0 +1,30 @@
+import { useCallback } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { roleCan, type AppRole, type Permission } from "@/lib/roles";
+
+// Profile (and role) of the signed-in user
+export function useProfile() {
+  const query = useQuery({
+    queryKey: ["profile"],
+    queryFn: async () => {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return null;
+
+      const { data, error } = await supabase
+        .from("profiles")
+        .select("*")
+        .eq("id", user.id)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data;
+    },
+    staleTime: 5 * 60 * 1000,
+  });
+
+  const role = (query.data?.role ?? null) as AppRole | null;
+  const can = useCallback((permission: Permission) => roleCan(role, permission), [role]);
+
+  return { ...query, profile: query.data ?? null, role, can };
+}
@@ -0,0 +1,64 @@
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import type { ViolationRow } from "@/lib/violations";
+
+// How far back the Suppression page counts what the rules filtered out
+export const SUPPRESSION_STATS_DAYS = 30;
+
+const RECENT_SUPPRESSED = 50;
+
+// Suppression rules of a site, oldest first; the page groups them by kind
+export function useSuppressionRules(siteId: string | null) {
+  return useQuery({
+    queryKey: ["suppression-rules", siteId],
+    enabled: siteId !== null,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("suppression_rules")
+        .select("*")
+        .eq("site_id", siteId!)
+        .order("created_at", { ascending: true });
+
+      if (error) throw error;
+      return data || [];
+    },
+  });
+}
+
+// Suppressed detections per rule and type over the last SUPPRESSION_STATS_DAYS days
+export function useSuppressionStats(siteId: string | null) {
+  return useQuery({
+    queryKey: ["suppression-stats", siteId],
+    enabled: siteId !== null,
+    queryFn: async () => {
+      const from = new Date(Date.now() - SUPPRESSION_STATS_DAYS * 24 * 60 * 60 * 1000);
+      const { data, error } = await supabase.rpc("suppression_stats", {
+        p_site_id: siteId!,
+        p_from: from.toISOString(),
+      });
+
+      if (error) throw error;
+      return data || [];
+    },
+  });
+}
+
+// The latest suppressed detections of a site, which reviewers may restore
+export function useSuppressedViolations(siteId: string | null) {
+  return useQuery({
+    queryKey: ["suppressed-violations", siteId],
+    enabled: siteId !== null,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("violations")
+        .select("*")
+        .eq("site_id", siteId!)
+        .eq("suppressed", true)
+        .order("detected_at", { ascending: false })
+        .limit(RECENT_SUPPRESSED);
+
+      if (error) throw error;
+      return (data || []) as ViolationRow[];
+    },
+  });
+}
@@ -0,0 +1,356 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { toast } from "sonner";
+import type { ObjectDetection } from "@tensorflow-models/coco-ssd";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { loadCocoSsd, type DetectorBackend } from "@/lib/object-detection";
+import { extractFrames, type ExtractedFrames } from "@/lib/frame-extraction";
+import { effectiveDetectionSettings, fetchDetectionSettings, framesToSample } from "@/lib/detection-settings";
+import { createResumableUpload, sanitizeObjectName, type ResumableUpload } from "@/lib/resumable-upload";
+import { sha256Hex } from "@/lib/checksum";
+import { DEFAULT_FPS, probeVideo, type VideoMetadata } from "@/lib/video-metadata";
+
+export const MAX_VIDEO_BYTES = 5 * 1024 * 1024 * 1024;
+
+export type QueueItemStatus =
+  | "pending"
+  | "preparing"
+  | "uploading"
+  | "paused"
+  | "interrupted"
+  | "submitting"
+  | "analyzing"
+  | "done"
+  | "failed"
+  | "cancelled";
+
+export interface QueueItem {
+  id: string;
+  batch: number;
+  file: File;
+  // Site the video is filed under, fixed when the file is queued
+  siteId: string;
+  // Camera picked by the uploader; null lets analyze-video match the file name against camera prefixes
+  cameraId: string | null;
+  metadata: VideoMetadata | null;
+  // Sampled frames and checksum, kept so a retried interrupted upload resumes without preparing again
+  frames: ExtractedFrames | null;
+  checksum: string | null;
+  status: QueueItemStatus;
+  bytesUploaded: number;
+  framesDone: number;
+  framesTotal: number;
+  violationsFound: number;
+  jobId: string | null;
+  error: string | null;
+}
+
+export interface UploadQueueOptions {
+  onDeviceDetection: boolean;
+  detectorBackend: DetectorBackend;
+  // Called with the sampled frames of every file analysed with on-device detection
+  onFramesExtracted?: (frames: ExtractedFrames) => void;
+}
+
+const TERMINAL: QueueItemStatus[] = ["done", "failed", "cancelled"];
+export const isTerminal = (status: QueueItemStatus) => TERMINAL.includes(status);
+
+class CancelledError extends Error {
+  constructor() {
+    super("Upload cancelled");
+  }
+}
+
+// TUS gave up after its automatic retries; the item stays resumable while the queue moves on
+class UploadInterruptedError extends Error {}
+
+/**
+ * Uploads and analyses a queue of videos one file at a time. Each file goes through
+ * probe → frame extraction → resumable upload → analyze-video, after which the analysis
+ * job is followed through realtime updates until it succeeds or fails.
+ */
+export function useUploadQueue({ onDeviceDetection, detectorBackend, onFramesExtracted }: UploadQueueOptions) {
+  const [items, setItems] = useState<QueueItem[]>([]);
+  const itemsRef = useRef<QueueItem[]>([]);
+  const batchRef = useRef(0);
+  const summarizedRef = useRef(new Set<number>());
+  const runningRef = useRef(false);
+  const uploadsRef = useRef(new Map<string, { upload: ResumableUpload; reject: (error: Error) => void }>());
+  const cancelledRef = useRef(new Set<string>());
+  const optionsRef = useRef({ onDeviceDetection, detectorBackend, onFramesExtracted });
+  optionsRef.current = { onDeviceDetection, detectorBackend, onFramesExtracted };
+
+  const update = useCallback((id: string, changes: Partial<QueueItem>) => {
+    itemsRef.current = itemsRef.current.map((item) => (item.id === id ? { ...item, ...changes } : item));
+    setItems(itemsRef.current);
+  }, []);
+
+  // Applies an analysis_jobs row to the queue item that submitted it
+  const applyJob = useCallback((job: Partial<Tables<"analysis_jobs">>) => {
+    const item = itemsRef.current.find((candidate) => candidate.jobId && candidate.jobId === job.id);
+    if (!item || isTerminal(item.status)) return;
+    update(item.id, {
+      framesDone: job.frames_done ?? item.framesDone,
+      framesTotal: job.frames_total ?? item.framesTotal,
+      violationsFound: job.violations_found ?? item.violationsFound,
+      ...(job.status === "succeeded" && { status: "done" as const }),
+      ...(job.status === "failed" && { status: "failed" as const, error: job.error_message || "Analysis failed" }),
+    });
+  }, [update]);
+
+  const uploadFile = useCallback((item: QueueItem) =>
+    new Promise<string>((resolve, reject) => {
+      const upload = createResumableUpload(item.file, "videos", `${Date.now()}_${sanitizeObjectName(item.file.name)}`, {
+        onProgress: (bytesUploaded) => update(item.id, { bytesUploaded, status: "uploading" }),
+        onSuccess: () => resolve(upload.objectName()),
+        onError: (error) => {
+          console.error(`Upload error for ${item.file.name}:`, error);
+          update(item.id, { status: "interrupted", error: error.message });
+          reject(new UploadInterruptedError(error.message));
+        },
+      });
+      uploadsRef.current.set(item.id, { upload, reject });
+      update(item.id, { status: "uploading", error: null });
+      upload.start().catch(reject);
+    }), [update]);
+
+  const processItem = useCallback(async (item: QueueItem, model: ObjectDetection | null) => {
+    const throwIfCancelled = () => {
+      if (cancelledRef.current.has(item.id)) throw new CancelledError();
+    };
+
+    let { metadata, frames, checksum } = item;
+    if (!metadata || !checksum) {
+      update(item.id, { status: "preparing", error: null });
+      metadata = item.metadata || await probeVideo(item.file);
+      update(item.id, { metadata });
+      if (metadata.fps_source === 'default') {
+        toast.warning(`Could not read the frame rate of ${item.file.name}, assuming ${DEFAULT_FPS} fps`);
+      }
+
+      // Sampling rate and frame limit come from the detection settings of the user (or site)
+      const settings = effectiveDetectionSettings(await fetchDetectionSettings(item.siteId));
+      frames = null;
+      try {
+        frames = await extractFrames(item.file, framesToSample(settings, metadata.duration_seconds), model);
+      } catch {
+        console.warn(`Frame extraction failed for ${item.file.name}, proceeding without frames`);
+      }
+      if (frames && model) optionsRef.current.onFramesExtracted?.(frames);
+      checksum = await sha256Hex(item.file);
+      update(item.id, { frames, checksum });
+    }
+    throwIfCancelled();
+
+    const storagePath = await uploadFile(item);
+    uploadsRef.current.delete(item.id);
+    throwIfCancelled();
+    update(item.id, { status: "submitting", bytesUploaded: item.file.size });
+
+    const formData = new FormData();
+    formData.append('storagePath', storagePath);
+    formData.append('videoName', item.file.name);
+    formData.append('siteId', item.siteId);
+    if (item.cameraId) formData.append('cameraId', item.cameraId);
+    formData.append('video_metadata', JSON.stringify(metadata));
+    formData.append('checksum', checksum);
+    if (frames && frames.blobs.length) {
+      formData.append('frames_meta', JSON.stringify(frames.times));
+      formData.append('frame_size', JSON.stringify({ width: frames.width, height: frames.height }));
+      frames.blobs.forEach((blob, i) => {
+        formData.append(`frame_${i}`, blob, `frame_${i}.jpg`);
+      });
+      if (model) {
+        formData.append('frame_detections', JSON.stringify(frames.detections));
+      }
+    }
+
+    const { data, error } = await supabase.functions.invoke('analyze-video', { body: formData });
+    if (error) throw error;
+    if (!data.success) throw new Error(data.error || "Analysis failed");
+
+    // The frames went with the submission; drop them rather than hold the images until the queue is cleared
+    update(item.id, { status: "analyzing", jobId: data.job_id, framesTotal: data.frames_total ?? 0, frames: null });
+
+    // The job may have progressed before the realtime subscription saw it
+    const { data: job } = await supabase
+      .from("analysis_jobs")
+      .select("id, status, frames_done, frames_total, violations_found, error_message")
+      .eq("id", data.job_id)
+      .maybeSingle();
+    if (job) applyJob(job);
+  }, [update, uploadFile, applyJob]);
+
+  const run = useCallback(async () => {
+    if (runningRef.current) return;
+    runningRef.current = true;
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) {
+        toast.error("You must be logged in to analyze videos");
+        itemsRef.current
+          .filter((item) => item.status === "pending")
+          .forEach((item) => update(item.id, { status: "failed", error: "Not signed in" }));
+        return;
+      }
+
+      // Optionally load COCO-SSD once for the whole batch
+      let model: ObjectDetection | null = null;
+      const { onDeviceDetection: useModel, detectorBackend: backend } = optionsRef.current;
+      if (useModel) {
+        try {
+          model = await loadCocoSsd(backend);
+        } catch (error) {
+          console.warn('Failed to load COCO-SSD, proceeding without on-device detection', error);
+          toast.error("On-device detector unavailable, continuing without it");
+        }
+      }
+
+      let next: QueueItem | undefined;
+      while ((next = itemsRef.current.find((item) => item.status === "pending"))) {
+        try {
+          await processItem(next, model);
+        } catch (error) {
+          uploadsRef.current.delete(next.id);
+          if (error instanceof UploadInterruptedError) continue;
+          if (error instanceof CancelledError || cancelledRef.current.has(next.id)) {
+            update(next.id, { status: "cancelled", error: null });
+          } else {
+            console.error(`Analysis error for ${next.file.name}:`, error);
+            update(next.id, { status: "failed", error: error instanceof Error ? error.message : "Upload failed" });
+          }
+        }
+      }
+    } finally {
+      runningRef.current = false;
+    }
+  }, [processItem, update]);
+
+  const addFiles = useCallback((files: File[], siteId: string, cameraId: string | null = null) => {
+    const accepted = files.filter((file) => file.size <= MAX_VIDEO_BYTES);
+    if (accepted.length < files.length) {
+      toast.error(`${files.length - accepted.length} file(s) skipped: larger than 5GB`);
+    }
+    if (accepted.length === 0) return;
+
+    // A drop while nothing is in flight starts a new batch with its own summary
+    if (itemsRef.current.every((item) => isTerminal(item.status))) batchRef.current += 1;
+    const batch = batchRef.current;
+    itemsRef.current = [
+      ...itemsRef.current,
+      ...accepted.map((file) => ({
+        id: crypto.randomUUID(),
+        batch,
+        file,
+        siteId,
+        cameraId,
+        metadata: null,
+        frames: null,
+        checksum: null,
+        status: "pending" as const,
+        bytesUploaded: 0,
+        framesDone: 0,
+        framesTotal: 0,
+        violationsFound: 0,
+        jobId: null,
+        error: null,
+      })),
+    ];
+    setItems(itemsRef.current);
+    toast.success(`${accepted.length} video${accepted.length === 1 ? "" : "s"} added to the queue`);
+    run();
+  }, [run]);
+
+  const cancel = useCallback(async (id: string) => {
+    const item = itemsRef.current.find((candidate) => candidate.id === id);
+    if (!item || isTerminal(item.status) || item.status === "analyzing" || item.status === "submitting") return;
+    cancelledRef.current.add(id);
+    if (item.status === "pending" || item.status === "interrupted") {
+      update(id, { status: "cancelled" });
+      return;
+    }
+    const active = uploadsRef.current.get(id);
+    if (active) {
+      await active.upload.cancel();
+      active.reject(new CancelledError());
+    }
+  }, [update]);
+
+  const retry = useCallback((id: string) => {
+    const item = itemsRef.current.find((candidate) => candidate.id === id);
+    if (!item) return;
+    if (item.status === "paused") {
+      uploadsRef.current.get(id)?.upload.resume();
+      update(id, { status: "uploading", error: null });
+      return;
+    }
+    if (item.status !== "failed" && item.status !== "cancelled" && item.status !== "interrupted") return;
+    cancelledRef.current.delete(id);
+    summarizedRef.current.delete(item.batch);
+    // An interrupted upload keeps its frames, checksum and progress and goes straight back to
+    // uploading when its turn comes; TUS picks it up from its last acknowledged chunk
+    update(id, item.status === "interrupted"
+      ? { status: "pending", error: null }
+      : {
+          status: "pending",
+          error: null,
+          frames: null,
+          checksum: null,
+          jobId: null,
+          bytesUploaded: 0,
+          framesDone: 0,
+          framesTotal: 0,
+          violationsFound: 0,
+        });
+    run();
+  }, [run, update]);
+
+  const pause = useCallback(async (id: string) => {
+    const active = uploadsRef.current.get(id);
+    if (!active) return;
+    await active.upload.pause();
+    update(id, { status: "paused" });
+  }, [update]);
+
+  const clearFinished = useCallback(() => {
+    itemsRef.current = itemsRef.current.filter((item) => !isTerminal(item.status));
+    setItems(itemsRef.current);
+  }, []);
+
+  // Follow the analysis jobs submitted from this queue
+  useEffect(() => {
+    const channel = supabase
+      .channel("upload-queue-jobs")
+      .on(
+        "postgres_changes",
+        { event: "UPDATE", schema: "public", table: "analysis_jobs" },
+        (payload) => applyJob(payload.new as Partial<Tables<"analysis_jobs">>)
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [applyJob]);
+
+  // One summary toast per batch, once every file in it is done, failed or cancelled
+  useEffect(() => {
+    const batches = new Set(items.map((item) => item.batch));
+    batches.forEach((batch) => {
+      const batchItems = items.filter((item) => item.batch === batch);
+      if (summarizedRef.current.has(batch) || !batchItems.every((item) => isTerminal(item.status))) return;
+      summarizedRef.current.add(batch);
+
+      const done = batchItems.filter((item) => item.status === "done");
+      const failed = batchItems.filter((item) => item.status === "failed").length;
+      const cancelled = batchItems.filter((item) => item.status === "cancelled").length;
+      const violations = done.reduce((sum, item) => sum + item.violationsFound, 0);
+      const message = `Batch finished: ${done.length} of ${batchItems.length} videos analyzed, ${violations} violations found`;
+      const details = [failed && `${failed} failed`, cancelled && `${cancelled} cancelled`].filter(Boolean).join(", ");
+      if (failed) toast.error(message, { description: details });
+      else toast.success(message, details ? { description: details } : undefined);
+    });
+  }, [items]);
+
+  return { items, addFiles, cancel, retry, pause, clearFinished };
+}
@@ -0,0 +1,189 @@
+import { useCallback, useEffect, useMemo } from "react";
+import { useInfiniteQuery, useQuery, useQueryClient, type InfiniteData } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { supabase } from "@/integrations/supabase/client";
+import type { ViolationEvent, ViolationRow } from "@/lib/violations";
+import { buildViolationEventsQuery, matchesViolationEventFilters, type ViolationFilters } from "@/lib/violation-filters";
+import { useCurrentSite } from "@/hooks/use-current-site";
+
+export const VIOLATION_EVENTS_PAGE_SIZE = 100;
+
+// Keyset cursor: the last event of the previous page in (started_at desc, id desc) order
+type Cursor = { started_at: string; id: string } | null;
+
+interface ViolationEventsPage {
+  rows: ViolationEvent[];
+  // Total events matching the filters; only requested with the first page
+  count: number | null;
+}
+
+const compareEvents = (a: ViolationEvent, b: ViolationEvent) => {
+  const byTime = new Date(b.started_at).getTime() - new Date(a.started_at).getTime();
+  if (byTime !== 0) return byTime;
+  return a.id < b.id ? 1 : a.id > b.id ? -1 : 0;
+};
+
+const fetchPage = async (siteId: string, filters: ViolationFilters, cursor: Cursor, pageSize: number) => {
+  let query = buildViolationEventsQuery(filters, cursor ? {} : { count: "exact" }).eq("site_id", siteId);
+  if (cursor) {
+    query = query.or(
+      `started_at.lt."${cursor.started_at}",and(started_at.eq."${cursor.started_at}",id.lt.${cursor.id})`
+    );
+  }
+  const { data, error, count } = await query
+    .order("started_at", { ascending: false })
+    .order("id", { ascending: false })
+    .limit(pageSize);
+
+  if (error) throw error;
+  // Drop the detections embedded for the review status filter
+  const rows = ((data || []) as unknown as (ViolationEvent & { detections?: unknown })[]).map(
+    ({ detections: _detections, ...event }) => event
+  );
+  return { rows, count };
+};
+
+const nextCursor = (rows: ViolationEvent[], pageSize: number): Cursor | undefined => {
+  if (rows.length < pageSize) return undefined;
+  const last = rows[rows.length - 1];
+  return { started_at: last.started_at, id: last.id };
+};
+
+// Every event of the site matching the filters, walked page by page (used for CSV export)
+export async function fetchAllViolationEvents(siteId: string, filters: ViolationFilters) {
+  const rows: ViolationEvent[] = [];
+  let cursor: Cursor | undefined = null;
+  while (cursor !== undefined) {
+    const page = await fetchPage(siteId, filters, cursor, 1000);
+    rows.push(...page.rows);
+    cursor = nextCursor(page.rows, 1000);
+  }
+  return rows;
+}
+
+/**
+ * Violation events of the current site matching `filters`, keyset-paginated on started_at.
+ * Realtime changes are merged into the cached pages; an event that grows also refreshes
+ * its detections if they are loaded.
+ */
+export function useViolationEvents(filters: ViolationFilters) {
+  const queryClient = useQueryClient();
+  const { siteId } = useCurrentSite();
+  const queryKey = useMemo(() => ["violation-events", siteId, filters], [siteId, filters]);
+  const matches = useCallback(
+    (event: ViolationEvent) => event.site_id === siteId && matchesViolationEventFilters(event, filters),
+    [siteId, filters]
+  );
+
+  const query = useInfiniteQuery({
+    queryKey,
+    enabled: siteId !== null,
+    initialPageParam: null as Cursor,
+    queryFn: ({ pageParam }): Promise<ViolationEventsPage> =>
+      fetchPage(siteId!, filters, pageParam, VIOLATION_EVENTS_PAGE_SIZE),
+    getNextPageParam: (lastPage) => nextCursor(lastPage.rows, VIOLATION_EVENTS_PAGE_SIZE),
+  });
+
+  const updatePages = useCallback(
+    (update: (pages: ViolationEventsPage[]) => ViolationEventsPage[]) =>
+      queryClient.setQueryData<InfiniteData<ViolationEventsPage, Cursor>>(queryKey, (data) =>
+        data ? { ...data, pages: update(data.pages) } : data
+      ),
+    [queryClient, queryKey]
+  );
+
+  const removeFromCache = useCallback(
+    (id: string) =>
+      updatePages((pages) => {
+        if (!pages.some((page) => page.rows.some((row) => row.id === id))) return pages;
+        return pages.map((page, i) => ({
+          rows: page.rows.filter((row) => row.id !== id),
+          count: i === 0 && page.count !== null ? page.count - 1 : page.count,
+        }));
+      }),
+    [updatePages]
+  );
+
+  // Places a new event into the page covering its position; events past the loaded range arrive with later pages
+  const insertIntoCache = useCallback(
+    (event: ViolationEvent) =>
+      updatePages((pages) => {
+        if (pages.some((page) => page.rows.some((existing) => existing.id === event.id))) return pages;
+        const lastPage = pages[pages.length - 1];
+        const fullyLoaded = !lastPage || lastPage.rows.length < VIOLATION_EVENTS_PAGE_SIZE;
+        const target = pages.findIndex((page, i) => {
+          const last = page.rows[page.rows.length - 1];
+          return (last && compareEvents(event, last) < 0) || (fullyLoaded && i === pages.length - 1);
+        });
+
+        return pages.map((page, i) => {
+          const count = i === 0 && page.count !== null ? page.count + 1 : page.count;
+          if (i !== target) return { ...page, count };
+          return { rows: [...page.rows, event].sort(compareEvents), count };
+        });
+      }),
+    [updatePages]
+  );
+
+  const replaceInCache = useCallback(
+    (event: ViolationEvent) =>
+      updatePages((pages) =>
+        pages.map((page) => ({ ...page, rows: page.rows.map((existing) => (existing.id === event.id ? event : existing)) }))
+      ),
+    [updatePages]
+  );
+
+  useEffect(() => {
+    if (!siteId) return;
+    const channel = supabase
+      .channel("violation-events-changes")
+      .on(
+        "postgres_changes",
+        { event: "*", schema: "public", table: "violation_events", filter: `site_id=eq.${siteId}` },
+        (payload) => {
+          if (payload.eventType === "DELETE") {
+            removeFromCache((payload.old as Partial<ViolationEvent>).id!);
+            return;
+          }
+          const event = payload.new as ViolationEvent;
+          if (payload.eventType === "INSERT") {
+            if (!matches(event)) return;
+            insertIntoCache(event);
+            toast.success(`New violation: ${event.violation_type}`);
+            return;
+          }
+          replaceInCache(event);
+          queryClient.invalidateQueries({ queryKey: ["violation-event-detections", event.id] });
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [siteId, matches, insertIntoCache, removeFromCache, replaceInCache, queryClient]);
+
+  const rows = useMemo(() => query.data?.pages.flatMap((page) => page.rows) ?? [], [query.data]);
+  const total = query.data?.pages[0]?.count ?? null;
+
+  return { ...query, rows, total };
+}
+
+// The per-frame detections of one event, in detection order; loaded when the event is expanded
+export function useEventDetections(eventId: string, enabled = true) {
+  return useQuery({
+    queryKey: ["violation-event-detections", eventId],
+    enabled,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("violations")
+        .select("*")
+        .eq("event_id", eventId)
+        .order("detected_at", { ascending: true })
+        .order("id", { ascending: true });
+
+      if (error) throw error;
+      return (data || []) as ViolationRow[];
+    },
+  });
+}
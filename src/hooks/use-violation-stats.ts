@@ -0,0 +1,86 @@
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+
+export type StatsBucket = "hour" | "day" | "week";
+
+// Shape of the jsonb returned by the violation_stats database function
+export interface ViolationStats {
+  total: number;
+  critical: number;
+  videos: number;
+  over_time: { bucket: string; violation_type: string; severity: string; count: number }[];
+  by_video: { video_id: string | null; name: string; count: number }[];
+  // Registered cameras, plus live sources that were not tagged with one (camera_id null)
+  by_camera: { camera_id: string | null; name: string; zone: string | null; count: number }[];
+  by_zone: { zone: string; count: number; critical: number; cameras: number }[];
+  confidence: { bucket: number; count: number }[];
+  by_method: { detection_method: string; count: number }[];
+  top_hazards: {
+    violation_type: string;
+    count: number;
+    critical: number;
+    sources: number;
+    days: number;
+    avg_confidence: number;
+    last_seen: string;
+  }[];
+}
+
+export interface StatsPeriod {
+  from: Date;
+  to: Date;
+  bucket: StatsBucket;
+}
+
+// Narrows the statistics of a site to one camera or one zone
+export interface StatsScope {
+  cameraId: string | null;
+  zone: string | null;
+}
+
+export const WHOLE_SITE: StatsScope = { cameraId: null, zone: null };
+
+// Dashboard aggregates of a site (or one of its cameras or zones) for a period, computed server-side by
+// violation_stats(); counts are violation events, not per-frame detections
+export function useViolationStats(siteId: string | null, { from, to, bucket }: StatsPeriod, scope: StatsScope = WHOLE_SITE) {
+  return useQuery({
+    queryKey: ["violation-stats", siteId, from.toISOString(), to.toISOString(), bucket, scope.cameraId, scope.zone],
+    enabled: siteId !== null,
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc("violation_stats", {
+        p_from: from.toISOString(),
+        p_to: to.toISOString(),
+        p_bucket: bucket,
+        p_site_id: siteId!,
+        ...(scope.cameraId && { p_camera_id: scope.cameraId }),
+        ...(scope.zone && { p_zone: scope.zone }),
+      });
+
+      if (error) throw error;
+      return data as unknown as ViolationStats;
+    },
+  });
+}
+
+// Shape of the jsonb returned by site_comparison()
+export interface SiteComparison {
+  sites: { site_id: string; name: string; total: number; critical: number; false_positives: number; videos: number }[];
+  by_type: { site_id: string; violation_type: string; count: number }[];
+}
+
+// Every site of the organization side by side; the database rejects callers who are not org admins
+export function useSiteComparison({ from, to }: Pick<StatsPeriod, "from" | "to">, enabled: boolean) {
+  return useQuery({
+    queryKey: ["site-comparison", from.toISOString(), to.toISOString()],
+    enabled,
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc("site_comparison", {
+        p_from: from.toISOString(),
+        p_to: to.toISOString(),
+      });
+
+      if (error) throw error;
+      return data as unknown as SiteComparison;
+    },
+  });
+}
@@ -0,0 +1,171 @@
+import { useCallback, useEffect, useMemo } from "react";
+import { useInfiniteQuery, useQueryClient, type InfiniteData } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { supabase } from "@/integrations/supabase/client";
+import type { ViolationRow } from "@/lib/violations";
+import { buildViolationsQuery, matchesViolationFilters, type ViolationFilters } from "@/lib/violation-filters";
+import { useCurrentSite } from "@/hooks/use-current-site";
+
+export const VIOLATIONS_PAGE_SIZE = 200;
+
+// Keyset cursor: the last row of the previous page in (detected_at desc, id desc) order
+type Cursor = { detected_at: string; id: string } | null;
+
+interface ViolationsPage {
+  rows: ViolationRow[];
+  // Total rows matching the filters; only requested with the first page
+  count: number | null;
+}
+
+// Newest first, id as tie-breaker so rows sharing a detected_at keep a stable order
+const compareViolations = (a: ViolationRow, b: ViolationRow) => {
+  const byTime = new Date(b.detected_at).getTime() - new Date(a.detected_at).getTime();
+  if (byTime !== 0) return byTime;
+  return a.id < b.id ? 1 : a.id > b.id ? -1 : 0;
+};
+
+const fetchPage = async (siteId: string, filters: ViolationFilters, cursor: Cursor, pageSize: number) => {
+  let query = buildViolationsQuery(filters, cursor ? {} : { count: "exact" }).eq("site_id", siteId);
+  if (cursor) {
+    query = query.or(
+      `detected_at.lt."${cursor.detected_at}",and(detected_at.eq."${cursor.detected_at}",id.lt.${cursor.id})`
+    );
+  }
+  const { data, error, count } = await query
+    .order("detected_at", { ascending: false })
+    .order("id", { ascending: false })
+    .limit(pageSize);
+
+  if (error) throw error;
+  return { rows: (data || []) as ViolationRow[], count };
+};
+
+const nextCursor = (rows: ViolationRow[], pageSize: number): Cursor | undefined => {
+  if (rows.length < pageSize) return undefined;
+  const last = rows[rows.length - 1];
+  return { detected_at: last.detected_at, id: last.id };
+};
+
+// Every violation of the site matching the filters, walked page by page (used for CSV export)
+export async function fetchAllViolations(siteId: string, filters: ViolationFilters) {
+  const rows: ViolationRow[] = [];
+  let cursor: Cursor | undefined = null;
+  while (cursor !== undefined) {
+    const page = await fetchPage(siteId, filters, cursor, 1000);
+    rows.push(...page.rows);
+    cursor = nextCursor(page.rows, 1000);
+  }
+  return rows;
+}
+
+/**
+ * Violations of the current site matching `filters`, loaded in keyset-paginated pages on detected_at.
+ * Realtime inserts, updates and deletes are merged into the cached pages instead of
+ * refetching the list.
+ */
+export function useViolations(filters: ViolationFilters) {
+  const queryClient = useQueryClient();
+  const { siteId } = useCurrentSite();
+  const queryKey = useMemo(() => ["violations", siteId, filters], [siteId, filters]);
+  const matches = useCallback(
+    (row: ViolationRow) => row.site_id === siteId && matchesViolationFilters(row, filters),
+    [siteId, filters]
+  );
+
+  const query = useInfiniteQuery({
+    queryKey,
+    enabled: siteId !== null,
+    initialPageParam: null as Cursor,
+    queryFn: ({ pageParam }): Promise<ViolationsPage> => fetchPage(siteId!, filters, pageParam, VIOLATIONS_PAGE_SIZE),
+    getNextPageParam: (lastPage) => nextCursor(lastPage.rows, VIOLATIONS_PAGE_SIZE),
+  });
+
+  const updatePages = useCallback(
+    (update: (pages: ViolationsPage[]) => ViolationsPage[]) =>
+      queryClient.setQueryData<InfiniteData<ViolationsPage, Cursor>>(queryKey, (data) =>
+        data ? { ...data, pages: update(data.pages) } : data
+      ),
+    [queryClient, queryKey]
+  );
+
+  const removeFromCache = useCallback(
+    (id: string) =>
+      updatePages((pages) => {
+        if (!pages.some((page) => page.rows.some((row) => row.id === id))) return pages;
+        return pages.map((page, i) => ({
+          rows: page.rows.filter((row) => row.id !== id),
+          count: i === 0 && page.count !== null ? page.count - 1 : page.count,
+        }));
+      }),
+    [updatePages]
+  );
+
+  // Places a new row into the page covering its position; rows past the loaded range arrive with later pages
+  const insertIntoCache = useCallback(
+    (row: ViolationRow) =>
+      updatePages((pages) => {
+        if (pages.some((page) => page.rows.some((existing) => existing.id === row.id))) return pages;
+        const lastPage = pages[pages.length - 1];
+        const fullyLoaded = !lastPage || lastPage.rows.length < VIOLATIONS_PAGE_SIZE;
+        const target = pages.findIndex((page, i) => {
+          const last = page.rows[page.rows.length - 1];
+          return (last && compareViolations(row, last) < 0) || (fullyLoaded && i === pages.length - 1);
+        });
+
+        return pages.map((page, i) => {
+          const count = i === 0 && page.count !== null ? page.count + 1 : page.count;
+          if (i !== target) return { ...page, count };
+          return { rows: [...page.rows, row].sort(compareViolations), count };
+        });
+      }),
+    [updatePages]
+  );
+
+  // Also used for rows changed by this client, so they update without waiting for the realtime echo
+  const replaceInCache = useCallback(
+    (row: ViolationRow) => {
+      // A review can move a row out of the current filters (e.g. out of the review queue)
+      if (!matches(row)) {
+        removeFromCache(row.id);
+        return;
+      }
+      updatePages((pages) =>
+        pages.map((page) => ({ ...page, rows: page.rows.map((existing) => (existing.id === row.id ? row : existing)) }))
+      );
+    },
+    [matches, removeFromCache, updatePages]
+  );
+
+  useEffect(() => {
+    const channel = supabase
+      .channel("violations-changes")
+      .on(
+        "postgres_changes",
+        { event: "*", schema: "public", table: "violations" },
+        (payload) => {
+          if (payload.eventType === "DELETE") {
+            removeFromCache((payload.old as Partial<ViolationRow>).id!);
+            return;
+          }
+          const row = payload.new as ViolationRow;
+          if (payload.eventType === "INSERT") {
+            if (!matches(row)) return;
+            insertIntoCache(row);
+            toast.success("New violation detected!");
+            return;
+          }
+          replaceInCache(row);
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [matches, insertIntoCache, removeFromCache, replaceInCache]);
+
+  const rows = useMemo(() => query.data?.pages.flatMap((page) => page.rows) ?? [], [query.data]);
+  const total = query.data?.pages[0]?.count ?? null;
+
+  return { ...query, rows, total, removeFromCache, replaceInCache };
+}
@@ -14,29 +14,516 @@ export type Database = {
   }
   public: {
     Tables: {
+      alert_reads: {
+        Row: {
+          alert_id: string
+          read_at: string
+          user_id: string
+        }
+        Insert: {
+          alert_id: string
+          read_at?: string
+          user_id?: string
+        }
+        Update: {
+          alert_id?: string
+          read_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "alert_reads_alert_id_fkey"
+            columns: ["alert_id"]
+            isOneToOne: false
+            referencedRelation: "alerts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      alert_rules: {
+        Row: {
+          active_from: string | null
+          active_to: string | null
+          camera_id: string | null
+          created_at: string | null
+          created_by: string | null
+          dedup_minutes: number
+          email_recipients: string[]
+          id: string
+          is_active: boolean
+          min_confidence: number
+          name: string
+          notify_in_app: boolean
+          organization_id: string
+          severities: string[]
+          site_id: string | null
+          timezone: string
+          updated_at: string | null
+          violation_types: string[]
+          webhook_url: string | null
+        }
+        Insert: {
+          active_from?: string | null
+          active_to?: string | null
+          camera_id?: string | null
+          created_at?: string | null
+          created_by?: string | null
+          dedup_minutes?: number
+          email_recipients?: string[]
+          id?: string
+          is_active?: boolean
+          min_confidence?: number
+          name: string
+          notify_in_app?: boolean
+          organization_id: string
+          severities?: string[]
+          site_id?: string | null
+          timezone?: string
+          updated_at?: string | null
+          violation_types?: string[]
+          webhook_url?: string | null
+        }
+        Update: {
+          active_from?: string | null
+          active_to?: string | null
+          camera_id?: string | null
+          created_at?: string | null
+          created_by?: string | null
+          dedup_minutes?: number
+          email_recipients?: string[]
+          id?: string
+          is_active?: boolean
+          min_confidence?: number
+          name?: string
+          notify_in_app?: boolean
+          organization_id?: string
+          severities?: string[]
+          site_id?: string | null
+          timezone?: string
+          updated_at?: string | null
+          violation_types?: string[]
+          webhook_url?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "alert_rules_camera_id_fkey"
+            columns: ["camera_id"]
+            isOneToOne: false
+            referencedRelation: "cameras"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "alert_rules_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "alert_rules_site_id_fkey"
+            columns: ["site_id"]
+            isOneToOne: false
+            referencedRelation: "sites"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      alerts: {
+        Row: {
+          camera_id: string | null
+          confidence: number
+          created_at: string | null
+          dedup_key: string
+          deliveries: Json
+          first_seen_at: string
+          id: string
+          last_seen_at: string
+          notify_in_app: boolean
+          occurrence_count: number
+          rule_id: string | null
+          rule_name: string
+          severity: string | null
+          site_id: string
+          source_name: string
+          violation_id: string | null
+          violation_type: string
+        }
+        Insert: {
+          camera_id?: string | null
+          confidence: number
+          created_at?: string | null
+          dedup_key: string
+          deliveries?: Json
+          first_seen_at: string
+          id?: string
+          last_seen_at: string
+          notify_in_app?: boolean
+          occurrence_count?: number
+          rule_id?: string | null
+          rule_name: string
+          severity?: string | null
+          site_id: string
+          source_name: string
+          violation_id?: string | null
+          violation_type: string
+        }
+        Update: {
+          camera_id?: string | null
+          confidence?: number
+          created_at?: string | null
+          dedup_key?: string
+          deliveries?: Json
+          first_seen_at?: string
+          id?: string
+          last_seen_at?: string
+          notify_in_app?: boolean
+          occurrence_count?: number
+          rule_id?: string | null
+          rule_name?: string
+          severity?: string | null
+          site_id?: string
+          source_name?: string
+          violation_id?: string | null
+          violation_type?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "alerts_camera_id_fkey"
+            columns: ["camera_id"]
+            isOneToOne: false
+            referencedRelation: "cameras"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "alerts_rule_id_fkey"
+            columns: ["rule_id"]
+            isOneToOne: false
+            referencedRelation: "alert_rules"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "alerts_site_id_fkey"
+            columns: ["site_id"]
+            isOneToOne: false
+            referencedRelation: "sites"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "alerts_violation_id_fkey"
+            columns: ["violation_id"]
+            isOneToOne: false
+            referencedRelation: "violations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      analysis_jobs: {
+        Row: {
+          created_at: string | null
+          detector_version: string | null
+          error_message: string | null
+          finished_at: string | null
+          frames: Json
+          frames_done: number
+          frames_failed: number
+          frames_total: number
+          id: string
+          params: Json
+          phase: string
+          requested_by: string | null
+          started_at: string | null
+          status: string
+          updated_at: string | null
+          video_id: string
+          violations_found: number
+        }
+        Insert: {
+          created_at?: string | null
+          detector_version?: string | null
+          error_message?: string | null
+          finished_at?: string | null
+          frames?: Json
+          frames_done?: number
+          frames_failed?: number
+          frames_total?: number
+          id?: string
+          params?: Json
+          phase?: string
+          requested_by?: string | null
+          started_at?: string | null
+          status?: string
+          updated_at?: string | null
+          video_id: string
+          violations_found?: number
+        }
+        Update: {
+          created_at?: string | null
+          detector_version?: string | null
+          error_message?: string | null
+          finished_at?: string | null
+          frames?: Json
+          frames_done?: number
+          frames_failed?: number
+          frames_total?: number
+          id?: string
+          params?: Json
+          phase?: string
+          requested_by?: string | null
+          started_at?: string | null
+          status?: string
+          updated_at?: string | null
+          video_id?: string
+          violations_found?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "analysis_jobs_video_id_fkey"
+            columns: ["video_id"]
+            isOneToOne: false
+            referencedRelation: "videos"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      audit_log: {
+        Row: {
+          action: string
+          actor_email: string | null
+          actor_id: string | null
+          actor_role: string | null
+          changed_fields: string[]
+          created_at: string
+          id: number
+          new_data: Json | null
+          old_data: Json | null
+          organization_id: string | null
+          record_id: string | null
+          site_id: string | null
+          table_name: string
+        }
+        Insert: {
+          action: string
+          actor_email?: string | null
+          actor_id?: string | null
+          actor_role?: string | null
+          changed_fields?: string[]
+          created_at?: string
+          id?: never
+          new_data?: Json | null
+          old_data?: Json | null
+          organization_id?: string | null
+          record_id?: string | null
+          site_id?: string | null
+          table_name: string
+        }
+        Update: {
+          action?: string
+          actor_email?: string | null
+          actor_id?: string | null
+          actor_role?: string | null
+          changed_fields?: string[]
+          created_at?: string
+          id?: never
+          new_data?: Json | null
+          old_data?: Json | null
+          organization_id?: string | null
+          record_id?: string | null
+          site_id?: string | null
+          table_name?: string
+        }
+        Relationships: []
+      }
+      cameras: {
+        Row: {
+          created_at: string | null
+          default_fps: number | null
+          filename_prefix: string | null
+          id: string
+          is_active: boolean
+          location: string | null
+          mounting_notes: string | null
+          name: string
+          sample_interval_seconds: number
+          site_id: string
+          stream_url: string | null
+          updated_at: string | null
+          zone: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          default_fps?: number | null
+          filename_prefix?: string | null
+          id?: string
+          is_active?: boolean
+          location?: string | null
+          mounting_notes?: string | null
+          name: string
+          sample_interval_seconds?: number
+          site_id: string
+          stream_url?: string | null
+          updated_at?: string | null
+          zone?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          default_fps?: number | null
+          filename_prefix?: string | null
+          id?: string
+          is_active?: boolean
+          location?: string | null
+          mounting_notes?: string | null
+          name?: string
+          sample_interval_seconds?: number
+          site_id?: string
+          stream_url?: string | null
+          updated_at?: string | null
+          zone?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "cameras_site_id_fkey"
+            columns: ["site_id"]
+            isOneToOne: false
+            referencedRelation: "sites"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       detection_settings: {
         Row: {
+          confidence_thresholds: Json
           created_at: string | null
           detection_method: string
+          enabled_violation_types: string[]
+          frame_interval_seconds: number
           id: string
+          max_frames_per_video: number
+          rule_thresholds: Json
+          site_id: string | null
           updated_at: string | null
-          user_id: string
+          user_id: string | null
         }
         Insert: {
+          confidence_thresholds?: Json
           created_at?: string | null
           detection_method?: string
+          enabled_violation_types?: string[]
+          frame_interval_seconds?: number
           id?: string
+          max_frames_per_video?: number
+          rule_thresholds?: Json
+          site_id?: string | null
           updated_at?: string | null
-          user_id: string
+          user_id?: string | null
         }
         Update: {
+          confidence_thresholds?: Json
           created_at?: string | null
           detection_method?: string
+          enabled_violation_types?: string[]
+          frame_interval_seconds?: number
           id?: string
+          max_frames_per_video?: number
+          rule_thresholds?: Json
+          site_id?: string | null
           updated_at?: string | null
-          user_id?: string
+          user_id?: string | null
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "detection_settings_site_id_fkey"
+            columns: ["site_id"]
+            isOneToOne: true
+            referencedRelation: "sites"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      evaluation_runs: {
+        Row: {
+          created_at: string | null
+          detection_method: string
+          detector_version: string
+          error_message: string | null
+          finished_at: string | null
+          frames_done: number
+          frames_failed: number
+          id: string
+          metrics: Json | null
+          pending_failed_times: Json
+          pending_findings: Json
+          pending_scored_times: Json
+          requested_by: string | null
+          results: Json
+          settings: Json
+          site_id: string
+          started_at: string | null
+          status: string
+          tolerance_seconds: number
+          updated_at: string | null
+          videos: Json
+          videos_done: number
+          videos_total: number
+        }
+        Insert: {
+          created_at?: string | null
+          detection_method: string
+          detector_version: string
+          error_message?: string | null
+          finished_at?: string | null
+          frames_done?: number
+          frames_failed?: number
+          id?: string
+          metrics?: Json | null
+          pending_failed_times?: Json
+          pending_findings?: Json
+          pending_scored_times?: Json
+          requested_by?: string | null
+          results?: Json
+          settings?: Json
+          site_id: string
+          started_at?: string | null
+          status?: string
+          tolerance_seconds?: number
+          updated_at?: string | null
+          videos?: Json
+          videos_done?: number
+          videos_total?: number
+        }
+        Update: {
+          created_at?: string | null
+          detection_method?: string
+          detector_version?: string
+          error_message?: string | null
+          finished_at?: string | null
+          frames_done?: number
+          frames_failed?: number
+          id?: string
+          metrics?: Json | null
+          pending_failed_times?: Json
+          pending_findings?: Json
+          pending_scored_times?: Json
+          requested_by?: string | null
+          results?: Json
+          settings?: Json
+          site_id?: string
+          started_at?: string | null
+          status?: string
+          tolerance_seconds?: number
+          updated_at?: string | null
+          videos?: Json
+          videos_done?: number
+          videos_total?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "evaluation_runs_site_id_fkey"
+            columns: ["site_id"]
+            isOneToOne: false
+            referencedRelation: "sites"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       models: {
         Row: {
@@ -48,6 +535,7 @@ export type Database = {
           metadata: Json | null
           mime_type: string | null
           name: string
+          site_id: string
           type: string
           updated_at: string | null
           uploaded_by: string | null
@@ -61,6 +549,7 @@ export type Database = {
           metadata?: Json | null
           mime_type?: string | null
           name: string
+          site_id: string
           type: string
           updated_at?: string | null
           uploaded_by?: string | null
@@ -74,57 +563,668 @@ export type Database = {
           metadata?: Json | null
           mime_type?: string | null
           name?: string
+          site_id?: string
           type?: string
           updated_at?: string | null
           uploaded_by?: string | null
         }
+        Relationships: [
+          {
+            foreignKeyName: "models_site_id_fkey"
+            columns: ["site_id"]
+            isOneToOne: false
+            referencedRelation: "sites"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      organizations: {
+        Row: {
+          created_at: string | null
+          id: string
+          name: string
+          updated_at: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          id?: string
+          name: string
+          updated_at?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          id?: string
+          name?: string
+          updated_at?: string | null
+        }
         Relationships: []
       }
+      profiles: {
+        Row: {
+          created_at: string | null
+          email: string | null
+          id: string
+          organization_id: string | null
+          role: string
+          updated_at: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          email?: string | null
+          id: string
+          organization_id?: string | null
+          role?: string
+          updated_at?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          email?: string | null
+          id?: string
+          organization_id?: string | null
+          role?: string
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "profiles_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      site_members: {
+        Row: {
+          created_at: string | null
+          site_id: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          site_id: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string | null
+          site_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "site_members_site_id_fkey"
+            columns: ["site_id"]
+            isOneToOne: false
+            referencedRelation: "sites"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      sites: {
+        Row: {
+          created_at: string | null
+          event_gap_seconds: number
+          id: string
+          location: string | null
+          name: string
+          organization_id: string
+          updated_at: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          event_gap_seconds?: number
+          id?: string
+          location?: string | null
+          name: string
+          organization_id: string
+          updated_at?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          event_gap_seconds?: number
+          id?: string
+          location?: string | null
+          name?: string
+          organization_id?: string
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "sites_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      suppression_rules: {
+        Row: {
+          active_from: string | null
+          active_to: string | null
+          camera_id: string | null
+          created_at: string | null
+          created_by: string | null
+          example_boxes: Json
+          example_violation_id: string | null
+          expires_at: string | null
+          id: string
+          is_active: boolean
+          kind: string
+          min_overlap: number
+          name: string
+          site_id: string
+          source_name: string | null
+          source_type: string | null
+          timezone: string
+          updated_at: string | null
+          violation_types: string[]
+          zone: string | null
+        }
+        Insert: {
+          active_from?: string | null
+          active_to?: string | null
+          camera_id?: string | null
+          created_at?: string | null
+          created_by?: string | null
+          example_boxes?: Json
+          example_violation_id?: string | null
+          expires_at?: string | null
+          id?: string
+          is_active?: boolean
+          kind: string
+          min_overlap?: number
+          name: string
+          site_id: string
+          source_name?: string | null
+          source_type?: string | null
+          timezone?: string
+          updated_at?: string | null
+          violation_types?: string[]
+          zone?: string | null
+        }
+        Update: {
+          active_from?: string | null
+          active_to?: string | null
+          camera_id?: string | null
+          created_at?: string | null
+          created_by?: string | null
+          example_boxes?: Json
+          example_violation_id?: string | null
+          expires_at?: string | null
+          id?: string
+          is_active?: boolean
+          kind?: string
+          min_overlap?: number
+          name?: string
+          site_id?: string
+          source_name?: string | null
+          source_type?: string | null
+          timezone?: string
+          updated_at?: string | null
+          violation_types?: string[]
+          zone?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "suppression_rules_camera_id_fkey"
+            columns: ["camera_id"]
+            isOneToOne: false
+            referencedRelation: "cameras"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "suppression_rules_example_violation_id_fkey"
+            columns: ["example_violation_id"]
+            isOneToOne: false
+            referencedRelation: "violations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "suppression_rules_site_id_fkey"
+            columns: ["site_id"]
+            isOneToOne: false
+            referencedRelation: "sites"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      video_annotations: {
+        Row: {
+          created_at: string | null
+          created_by: string | null
+          end_seconds: number
+          id: string
+          note: string | null
+          site_id: string
+          source: string
+          source_file: string | null
+          start_seconds: number
+          video_id: string | null
+          video_name: string
+          violation_type: string
+        }
+        Insert: {
+          created_at?: string | null
+          created_by?: string | null
+          end_seconds: number
+          id?: string
+          note?: string | null
+          site_id: string
+          source?: string
+          source_file?: string | null
+          start_seconds: number
+          video_id?: string | null
+          video_name: string
+          violation_type: string
+        }
+        Update: {
+          created_at?: string | null
+          created_by?: string | null
+          end_seconds?: number
+          id?: string
+          note?: string | null
+          site_id?: string
+          source?: string
+          source_file?: string | null
+          start_seconds?: number
+          video_id?: string | null
+          video_name?: string
+          violation_type?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "video_annotations_site_id_fkey"
+            columns: ["site_id"]
+            isOneToOne: false
+            referencedRelation: "sites"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "video_annotations_video_id_fkey"
+            columns: ["video_id"]
+            isOneToOne: false
+            referencedRelation: "videos"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      videos: {
+        Row: {
+          camera_id: string | null
+          checksum: string | null
+          codec: string | null
+          created_at: string | null
+          duration_seconds: number | null
+          fps: number | null
+          fps_source: string
+          height: number | null
+          id: string
+          mime_type: string | null
+          original_name: string
+          site_id: string
+          size_bytes: number | null
+          status: string
+          storage_path: string
+          updated_at: string | null
+          uploaded_by: string | null
+          width: number | null
+        }
+        Insert: {
+          camera_id?: string | null
+          checksum?: string | null
+          codec?: string | null
+          created_at?: string | null
+          duration_seconds?: number | null
+          fps?: number | null
+          fps_source?: string
+          height?: number | null
+          id?: string
+          mime_type?: string | null
+          original_name: string
+          site_id: string
+          size_bytes?: number | null
+          status?: string
+          storage_path: string
+          updated_at?: string | null
+          uploaded_by?: string | null
+          width?: number | null
+        }
+        Update: {
+          camera_id?: string | null
+          checksum?: string | null
+          codec?: string | null
+          created_at?: string | null
+          duration_seconds?: number | null
+          fps?: number | null
+          fps_source?: string
+          height?: number | null
+          id?: string
+          mime_type?: string | null
+          original_name?: string
+          site_id?: string
+          size_bytes?: number | null
+          status?: string
+          storage_path?: string
+          updated_at?: string | null
+          uploaded_by?: string | null
+          width?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "videos_site_id_fkey"
+            columns: ["site_id"]
+            isOneToOne: false
+            referencedRelation: "sites"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "videos_camera_id_fkey"
+            columns: ["camera_id"]
+            isOneToOne: false
+            referencedRelation: "cameras"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      violation_events: {
+        Row: {
+          camera_id: string | null
+          created_at: string | null
+          detection_count: number
+          detection_method: string | null
+          end_frame: number | null
+          ended_at: string
+          false_positive_count: number
+          id: string
+          peak_confidence: number
+          representative_frame: number | null
+          representative_violation_id: string | null
+          severity: string | null
+          site_id: string
+          source_key: string
+          source_name: string
+          source_type: string
+          start_frame: number | null
+          started_at: string
+          updated_at: string | null
+          video_id: string | null
+          violation_type: string
+          zone: string | null
+        }
+        Insert: {
+          camera_id?: string | null
+          created_at?: string | null
+          detection_count?: number
+          detection_method?: string | null
+          end_frame?: number | null
+          ended_at: string
+          false_positive_count?: number
+          id?: string
+          peak_confidence: number
+          representative_frame?: number | null
+          representative_violation_id?: string | null
+          severity?: string | null
+          site_id: string
+          source_key: string
+          source_name: string
+          source_type: string
+          start_frame?: number | null
+          started_at: string
+          updated_at?: string | null
+          video_id?: string | null
+          violation_type: string
+          zone?: string | null
+        }
+        Update: {
+          camera_id?: string | null
+          created_at?: string | null
+          detection_count?: number
+          detection_method?: string | null
+          end_frame?: number | null
+          ended_at?: string
+          false_positive_count?: number
+          id?: string
+          peak_confidence?: number
+          representative_frame?: number | null
+          representative_violation_id?: string | null
+          severity?: string | null
+          site_id?: string
+          source_key?: string
+          source_name?: string
+          source_type?: string
+          start_frame?: number | null
+          started_at?: string
+          updated_at?: string | null
+          video_id?: string | null
+          violation_type?: string
+          zone?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "violation_events_camera_id_fkey"
+            columns: ["camera_id"]
+            isOneToOne: false
+            referencedRelation: "cameras"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "violation_events_representative_violation_id_fkey"
+            columns: ["representative_violation_id"]
+            isOneToOne: false
+            referencedRelation: "violations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "violation_events_site_id_fkey"
+            columns: ["site_id"]
+            isOneToOne: false
+            referencedRelation: "sites"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "violation_events_video_id_fkey"
+            columns: ["video_id"]
+            isOneToOne: false
+            referencedRelation: "videos"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       violations: {
         Row: {
+          camera_id: string | null
           confidence: number
           created_at: string
           detected_at: string
+          event_id: string | null
           frame_number: number
           id: string
+          job_id: string | null
           metadata: Json | null
+          original_violation_type: string | null
+          review_note: string | null
+          review_status: string
+          reviewed_at: string | null
+          reviewed_by: string | null
+          site_id: string
           source_name: string
           source_type: string
+          suppressed: boolean
+          suppression_reason: string | null
+          suppression_rule_id: string | null
+          video_id: string | null
           video_path: string | null
           violation_type: string
+          zone: string | null
         }
         Insert: {
+          camera_id?: string | null
           confidence: number
           created_at?: string
           detected_at?: string
+          event_id?: string | null
           frame_number: number
           id?: string
+          job_id?: string | null
           metadata?: Json | null
+          original_violation_type?: string | null
+          review_note?: string | null
+          review_status?: string
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          site_id: string
           source_name: string
           source_type: string
+          suppressed?: boolean
+          suppression_reason?: string | null
+          suppression_rule_id?: string | null
+          video_id?: string | null
           video_path?: string | null
           violation_type: string
+          zone?: string | null
         }
         Update: {
+          camera_id?: string | null
           confidence?: number
           created_at?: string
           detected_at?: string
+          event_id?: string | null
           frame_number?: number
           id?: string
+          job_id?: string | null
           metadata?: Json | null
+          original_violation_type?: string | null
+          review_note?: string | null
+          review_status?: string
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          site_id?: string
           source_name?: string
           source_type?: string
+          suppressed?: boolean
+          suppression_reason?: string | null
+          suppression_rule_id?: string | null
+          video_id?: string | null
           video_path?: string | null
           violation_type?: string
+          zone?: string | null
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "violations_job_id_fkey"
+            columns: ["job_id"]
+            isOneToOne: false
+            referencedRelation: "analysis_jobs"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "violations_video_id_fkey"
+            columns: ["video_id"]
+            isOneToOne: false
+            referencedRelation: "videos"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "violations_site_id_fkey"
+            columns: ["site_id"]
+            isOneToOne: false
+            referencedRelation: "sites"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "violations_camera_id_fkey"
+            columns: ["camera_id"]
+            isOneToOne: false
+            referencedRelation: "cameras"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "violations_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "violation_events"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "violations_suppression_rule_id_fkey"
+            columns: ["suppression_rule_id"]
+            isOneToOne: false
+            referencedRelation: "suppression_rules"
+            referencedColumns: ["id"]
+          },
+        ]
       }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      attach_violation_clip: {
+        Args: { p_clip_path: string; p_violation_ids: string[] }
+        Returns: number
+      }
+      can_access_site: {
+        Args: { p_site: string }
+        Returns: boolean
+      }
+      current_organization_id: {
+        Args: Record<PropertyKey, never>
+        Returns: string
+      }
+      current_user_role: {
+        Args: Record<PropertyKey, never>
+        Returns: string
+      }
+      has_role: {
+        Args: { roles: string[] }
+        Returns: boolean
+      }
+      record_alert: {
+        Args: {
+          p_dedup_key: string
+          p_detected_at: string
+          p_rule_id: string
+          p_violation_id: string
+        }
+        Returns: Json
+      }
+      site_comparison: {
+        Args: { p_from: string; p_to: string }
+        Returns: Json
+      }
+      suppression_stats: {
+        Args: { p_from: string; p_site_id: string }
+        Returns: {
+          count: number
+          last_detected_at: string
+          suppression_reason: string
+          suppression_rule_id: string
+          violation_type: string
+        }[]
+      }
+      user_can_access_site: {
+        Args: { p_site: string; p_user: string }
+        Returns: boolean
+      }
+      video_object_info: {
+        Args: { p_name: string }
+        Returns: {
+          metadata: Json
+          owner_id: string
+        }[]
+      }
+      violation_stats: {
+        Args: {
+          p_bucket?: string
+          p_camera_id?: string
+          p_from: string
+          p_site_id?: string
+          p_to: string
+          p_zone?: string
+        }
+        Returns: Json
+      }
     }
     Enums: {
       [_ in never]: never
@@ -0,0 +1,179 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables, TablesInsert } from "@/integrations/supabase/types";
+import { VIOLATION_TYPES } from "@/lib/violations";
+
+// Ground-truth labels of videos (video_annotations): which violation happens when, according
+// to a person. Kept apart from violations, which only ever come from a detector.
+
+export type VideoAnnotation = Tables<"video_annotations">;
+
+export type AnnotationDraft = Pick<
+  TablesInsert<"video_annotations">,
+  "video_name" | "violation_type" | "start_seconds" | "end_seconds" | "note"
+>;
+
+export interface ParsedAnnotations {
+  labels: AnnotationDraft[];
+  // One message per rejected row, with its line (CSV) or index (JSON)
+  errors: string[];
+}
+
+// Accepted column names (lowercase) per field; the Violation Logs CSV export is accepted too
+const COLUMNS: Record<"video" | "type" | "start" | "end" | "time" | "note", string[]> = {
+  video: ["video", "video_name", "video name", "file", "filename"],
+  type: ["type", "violation_type", "type of violation", "label"],
+  start: ["start", "start_seconds", "from"],
+  end: ["end", "end_seconds", "to"],
+  // A single moment, for labels without a range
+  time: ["time", "timestamp", "at"],
+  note: ["note", "comment"],
+};
+
+// Seconds, MM:SS(.ss) or HH:MM:SS(.ss)
+export const parseTimestamp = (value: unknown): number | null => {
+  if (typeof value === "number") return Number.isFinite(value) && value >= 0 ? value : null;
+  if (typeof value !== "string" || !value.trim()) return null;
+  const parts = value.trim().split(":");
+  if (parts.length > 3 || parts.some((part) => !/^\d+(\.\d+)?$/.test(part))) return null;
+  return parts.reduce((total, part) => total * 60 + Number(part), 0);
+};
+
+export const formatSeconds = (totalSeconds: number) => {
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds - minutes * 60;
+  return `${minutes.toString().padStart(2, "0")}:${seconds.toFixed(1).padStart(4, "0")}`;
+};
+
+export const describeRange = (label: Pick<VideoAnnotation, "start_seconds" | "end_seconds">) =>
+  Number(label.start_seconds) === Number(label.end_seconds)
+    ? formatSeconds(Number(label.start_seconds))
+    : `${formatSeconds(Number(label.start_seconds))}–${formatSeconds(Number(label.end_seconds))}`;
+
+const matchType = (value: string) => VIOLATION_TYPES.find((type) => type.toLowerCase() === value.trim().toLowerCase());
+
+const field = (record: Record<string, unknown>, names: string[]) => {
+  const key = Object.keys(record).find((k) => names.includes(k.trim().toLowerCase()));
+  return key === undefined ? undefined : record[key];
+};
+
+// Validates one record of either format
+const toDraft = (record: Record<string, unknown>): AnnotationDraft | string => {
+  const video = String(field(record, COLUMNS.video) ?? "").trim();
+  const typeValue = String(field(record, COLUMNS.type) ?? "");
+  const moment = parseTimestamp(field(record, COLUMNS.time));
+  const start = parseTimestamp(field(record, COLUMNS.start)) ?? moment;
+  const end = parseTimestamp(field(record, COLUMNS.end)) ?? start;
+  const note = String(field(record, COLUMNS.note) ?? "").trim();
+
+  if (!video) return "no video";
+  const violationType = matchType(typeValue);
+  if (!violationType) return `unknown violation type "${typeValue}"`;
+  if (start === null || end === null) return "no valid start or time";
+  if (end < start) return "end is before start";
+  return { video_name: video, violation_type: violationType, start_seconds: start, end_seconds: end, note: note || null };
+};
+
+// RFC 4180-style CSV: quoted fields may hold commas, quotes ("") and line breaks
+const parseCsvRows = (text: string) => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let value = "";
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        value += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        value += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(value);
+      value = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(value);
+      rows.push(row);
+      row = [];
+      value = "";
+    } else {
+      value += char;
+    }
+  }
+  if (value || row.length) rows.push([...row, value]);
+  return rows.filter((cells) => cells.some((cell) => cell.trim()));
+};
+
+/**
+ * Reads an annotation file: CSV with a header row (video, type, start, end or time, note)
+ * or JSON, an array of objects with the same keys or { "annotations": [...] }. Times are
+ * seconds or MM:SS / HH:MM:SS. Types must be one of VIOLATION_TYPES.
+ */
+export const parseAnnotationFile = (fileName: string, text: string): ParsedAnnotations => {
+  const labels: AnnotationDraft[] = [];
+  const errors: string[] = [];
+  const add = (record: Record<string, unknown>, where: string) => {
+    const draft = toDraft(record);
+    if (typeof draft === "string") errors.push(`${where}: ${draft}`);
+    else labels.push(draft);
+  };
+
+  if (fileName.toLowerCase().endsWith(".json")) {
+    let data: unknown;
+    try {
+      data = JSON.parse(text);
+    } catch {
+      return { labels, errors: ["Not valid JSON"] };
+    }
+    const records = Array.isArray(data) ? data : (data as { annotations?: unknown })?.annotations;
+    if (!Array.isArray(records)) return { labels, errors: ['Expected an array of annotations or { "annotations": [...] }'] };
+    records.forEach((record, i) => {
+      if (record && typeof record === "object") add(record as Record<string, unknown>, `Item ${i + 1}`);
+      else errors.push(`Item ${i + 1}: not an object`);
+    });
+    return { labels, errors };
+  }
+
+  const [header, ...rows] = parseCsvRows(text);
+  if (!header) return { labels, errors: ["The file is empty"] };
+  rows.forEach((cells, i) =>
+    add(Object.fromEntries(header.map((name, column) => [name, cells[column] ?? ""])), `Line ${i + 2}`)
+  );
+  return { labels, errors };
+};
+
+const labelKey = (label: Pick<VideoAnnotation, "video_name" | "violation_type" | "start_seconds" | "end_seconds">) =>
+  [label.video_name.toLowerCase(), label.violation_type, Number(label.start_seconds), Number(label.end_seconds)].join("|");
+
+/**
+ * Stores parsed labels for a site, skipping the ones it already has (re-importing a file adds
+ * nothing). Labels are linked to the site's upload of the same name by the database, now or
+ * when it is uploaded. Returns how many were added.
+ */
+export async function importAnnotations(siteId: string, labels: AnnotationDraft[], sourceFile: string) {
+  const { data: existing, error: existingError } = await supabase
+    .from("video_annotations")
+    .select("video_name, violation_type, start_seconds, end_seconds")
+    .eq("site_id", siteId);
+  if (existingError) throw existingError;
+
+  const known = new Set((existing || []).map(labelKey));
+  const fresh = labels.filter((label) => {
+    const key = labelKey(label);
+    if (known.has(key)) return false;
+    known.add(key);
+    return true;
+  });
+  if (fresh.length === 0) return 0;
+
+  const { error } = await supabase
+    .from("video_annotations")
+    .insert(fresh.map((label) => ({ ...label, site_id: siteId, source: "import", source_file: sourceFile })));
+  if (error) throw error;
+  return fresh.length;
+}
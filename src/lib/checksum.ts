@@ -0,0 +1,25 @@
+// Files are hashed in slices so multi-gigabyte recordings never have to fit in memory
+const CHECKSUM_CHUNK_SIZE = 64 * 1024 * 1024;
+
+const toHex = (buffer: ArrayBuffer) =>
+  Array.from(new Uint8Array(buffer))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+
+/**
+ * Checksum stored on the video record to recognise re-uploads.
+ * Files up to 64MB get their plain SHA-256; larger files get the SHA-256 of the
+ * concatenated SHA-256 digests of each 64MB slice.
+ */
+export const sha256Hex = async (file: Blob): Promise<string> => {
+  if (file.size <= CHECKSUM_CHUNK_SIZE) {
+    return toHex(await crypto.subtle.digest("SHA-256", await file.arrayBuffer()));
+  }
+
+  const digests = new Uint8Array(Math.ceil(file.size / CHECKSUM_CHUNK_SIZE) * 32);
+  for (let offset = 0, i = 0; offset < file.size; offset += CHECKSUM_CHUNK_SIZE, i++) {
+    const slice = await file.slice(offset, offset + CHECKSUM_CHUNK_SIZE).arrayBuffer();
+    digests.set(new Uint8Array(await crypto.subtle.digest("SHA-256", slice)), i * 32);
+  }
+  return toHex(await crypto.subtle.digest("SHA-256", digests));
+};
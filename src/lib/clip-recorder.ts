@@ -0,0 +1,85 @@
+// Recordings restart every segment so memory stays bounded; two recorders run half a
+// segment apart, so the older one always holds at least SEGMENT_MS / 2 before an event
+const SEGMENT_MS = 20000;
+// How long recording continues after an event before the clip is cut
+const POST_ROLL_MS = 5000;
+const CLIP_TYPES = ["video/webm;codecs=vp9", "video/webm;codecs=vp8", "video/webm", "video/mp4"];
+
+export interface ClipRecorder {
+  // Resolves with a clip from before the event until POST_ROLL_MS after it; events close
+  // together share the same clip (and the same promise)
+  captureEvent: () => Promise<Blob> | null;
+  stop: () => void;
+}
+
+interface Segment {
+  recorder: MediaRecorder;
+  chunks: Blob[];
+  startedAt: number;
+  timer: ReturnType<typeof setTimeout>;
+  clip: Promise<Blob> | null;
+  resolveClip: ((clip: Blob) => void) | null;
+}
+
+/**
+ * Keeps a rolling recording of a live MediaStream (the device camera) so a short clip
+ * around a violation can be stored. Returns null when the browser cannot record.
+ */
+export const createClipRecorder = (stream: MediaStream): ClipRecorder | null => {
+  if (typeof MediaRecorder === "undefined") return null;
+  const mimeType = CLIP_TYPES.find((type) => MediaRecorder.isTypeSupported(type));
+  const segments: Segment[] = [];
+  let stopped = false;
+
+  const stopSegment = (segment: Segment) => {
+    if (segment.recorder.state !== "inactive") segment.recorder.stop();
+  };
+
+  const startSegment = () => {
+    if (stopped) return;
+    const recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+    const segment: Segment = {
+      recorder,
+      chunks: [],
+      startedAt: Date.now(),
+      timer: setTimeout(() => stopSegment(segment), SEGMENT_MS),
+      clip: null,
+      resolveClip: null,
+    };
+    recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) segment.chunks.push(event.data);
+    };
+    recorder.onstop = () => {
+      clearTimeout(segment.timer);
+      segments.splice(segments.indexOf(segment), 1);
+      segment.resolveClip?.(new Blob(segment.chunks, { type: recorder.mimeType || "video/webm" }));
+      startSegment();
+    };
+    recorder.start(1000);
+    segments.push(segment);
+  };
+
+  startSegment();
+  const staggered = setTimeout(startSegment, SEGMENT_MS / 2);
+
+  return {
+    captureEvent: () => {
+      if (stopped || segments.length === 0) return null;
+      const segment = segments.reduce((oldest, s) => (s.startedAt < oldest.startedAt ? s : oldest));
+      if (!segment.clip) {
+        segment.clip = new Promise<Blob>((resolve) => {
+          segment.resolveClip = resolve;
+        });
+        clearTimeout(segment.timer);
+        segment.timer = setTimeout(() => stopSegment(segment), POST_ROLL_MS);
+      }
+      return segment.clip;
+    },
+    stop: () => {
+      stopped = true;
+      clearTimeout(staggered);
+      // Pending clips resolve with what was recorded so far
+      [...segments].forEach(stopSegment);
+    },
+  };
+};
@@ -0,0 +1,141 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { VIOLATION_TYPES } from "@/lib/violations";
+
+// Settings of the analysis pipeline, stored per user or per site in detection_settings
+// (mirrors DetectionSettings and loadDetectionSettings in supabase/functions/_shared/analysis.ts).
+
+export type DetectionSettingsRow = Tables<"detection_settings">;
+
+export type DetectionMethod = "llm" | "roboflow" | "yolo" | "mock";
+
+export const DETECTION_METHOD_OPTIONS: Record<DetectionMethod, { label: string; description: string }> = {
+  llm: {
+    label: "LLM gateway",
+    description: "A vision language model reports violations from the frame, or from the frame position alone",
+  },
+  roboflow: {
+    label: "Roboflow inference",
+    description: "A hosted Roboflow-compatible model detects objects for the rule engine",
+  },
+  yolo: {
+    label: "Self-hosted YOLO",
+    description: "Your YOLO HTTP server detects objects for the rule engine",
+  },
+  mock: {
+    label: "Mock detector",
+    description: "Fixture boxes instead of a model, for trying the pipeline offline",
+  },
+};
+
+// Minimum confidence of a violation type without a threshold of its own
+export const DEFAULT_MIN_CONFIDENCE = 0.6;
+
+export type RuleThresholdKey =
+  | "minObjectScore"
+  | "drillHandlingHorizPx"
+  | "drillHandlingVertPx"
+  | "cylinderMinScore"
+  | "rodAlignHorizPx"
+  | "rodAlignVertPx"
+  | "lhCollisionHorizPx"
+  | "lhCollisionVertPx";
+
+// DEFAULT_RULE_THRESHOLDS of supabase/functions/_shared/rule-engine.ts; scores are 0-1,
+// distances are pixels of the sampled frames (640px wide)
+export const RULE_THRESHOLD_FIELDS: { key: RuleThresholdKey; label: string; score?: boolean; defaultValue: number }[] = [
+  { key: "minObjectScore", label: "Minimum object score", score: true, defaultValue: 0.5 },
+  { key: "drillHandlingHorizPx", label: "Person to drill, horizontal (px)", defaultValue: 120 },
+  { key: "drillHandlingVertPx", label: "Person to drill, vertical (px)", defaultValue: 100 },
+  { key: "cylinderMinScore", label: "Broken cylinder score", score: true, defaultValue: 0.76 },
+  { key: "rodAlignHorizPx", label: "Rod to drill, horizontal (px)", defaultValue: 150 },
+  { key: "rodAlignVertPx", label: "Rod to drill, vertical (px)", defaultValue: 100 },
+  { key: "lhCollisionHorizPx", label: "LH to LH machine, horizontal (px)", defaultValue: 350 },
+  { key: "lhCollisionVertPx", label: "LH to LH machine, vertical (px)", defaultValue: 250 },
+];
+
+export interface DetectionSettingsValues {
+  detection_method: DetectionMethod;
+  confidence_thresholds: Record<string, number>;
+  frame_interval_seconds: number;
+  max_frames_per_video: number;
+  enabled_violation_types: string[];
+  rule_thresholds: Partial<Record<RuleThresholdKey, number>>;
+}
+
+export const DEFAULT_DETECTION_SETTINGS: DetectionSettingsValues = {
+  detection_method: "llm",
+  confidence_thresholds: {},
+  frame_interval_seconds: 2,
+  max_frames_per_video: 6,
+  enabled_violation_types: VIOLATION_TYPES,
+  rule_thresholds: {},
+};
+
+export const toSettingsValues = (row: DetectionSettingsRow): DetectionSettingsValues => ({
+  detection_method: (row.detection_method as DetectionMethod) ?? DEFAULT_DETECTION_SETTINGS.detection_method,
+  confidence_thresholds: (row.confidence_thresholds ?? {}) as Record<string, number>,
+  frame_interval_seconds: Number(row.frame_interval_seconds),
+  max_frames_per_video: row.max_frames_per_video,
+  enabled_violation_types: row.enabled_violation_types,
+  rule_thresholds: (row.rule_thresholds ?? {}) as DetectionSettingsValues["rule_thresholds"],
+});
+
+export interface DetectionSettingsScopes {
+  // The signed-in user's own row, applied on top of the site's
+  own: DetectionSettingsRow | null;
+  // Defaults of the site, set by admins
+  site: DetectionSettingsRow | null;
+}
+
+export async function fetchDetectionSettings(siteId: string): Promise<DetectionSettingsScopes> {
+  const { data: { user } } = await supabase.auth.getUser();
+  const scopes = [`site_id.eq.${siteId}`, ...(user ? [`user_id.eq.${user.id}`] : [])];
+  const { data, error } = await supabase.from("detection_settings").select("*").or(scopes.join(","));
+
+  if (error) throw error;
+  const rows = data || [];
+  return {
+    own: rows.find((row) => row.user_id !== null) ?? null,
+    site: rows.find((row) => row.site_id === siteId) ?? null,
+  };
+}
+
+// The settings analyze-video will use for the signed-in user at the site. Detector and sampling
+// are the user's own, while types and thresholds can only be stricter than the site's: the
+// site's types stay enabled and thresholds only move towards recording more findings.
+export const effectiveDetectionSettings = ({ own, site }: DetectionSettingsScopes): DetectionSettingsValues => {
+  const base = site ? toSettingsValues(site) : DEFAULT_DETECTION_SETTINGS;
+  if (!own) return base;
+
+  const mine = toSettingsValues(own);
+  return {
+    ...mine,
+    enabled_violation_types: VIOLATION_TYPES.filter(
+      (type) => base.enabled_violation_types.includes(type) || mine.enabled_violation_types.includes(type)
+    ),
+    confidence_thresholds: Object.fromEntries(
+      VIOLATION_TYPES.map((type) => [
+        type,
+        Math.min(
+          base.confidence_thresholds[type] ?? DEFAULT_MIN_CONFIDENCE,
+          mine.confidence_thresholds[type] ?? DEFAULT_MIN_CONFIDENCE
+        ),
+      ])
+    ),
+    rule_thresholds: Object.fromEntries(
+      RULE_THRESHOLD_FIELDS.map((field) => {
+        const value = base.rule_thresholds[field.key] ?? field.defaultValue;
+        const ownValue = mine.rule_thresholds[field.key];
+        if (ownValue === undefined) return [field.key, value];
+        return [field.key, field.score ? Math.min(value, ownValue) : Math.max(value, ownValue)];
+      })
+    ),
+  };
+};
+
+// Frames to sample from a video: one per interval, up to the limit
+export const framesToSample = (settings: DetectionSettingsValues, durationSeconds: number) =>
+  durationSeconds > 0
+    ? Math.min(settings.max_frames_per_video, Math.max(1, Math.floor(durationSeconds / settings.frame_interval_seconds)))
+    : settings.max_frames_per_video;
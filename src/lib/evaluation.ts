@@ -0,0 +1,66 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+
+// Detector evaluation runs (evaluation_runs), scored by the evaluate-detector function
+// (mirrors EvaluationSummary and VideoEvaluation in supabase/functions/_shared/evaluation.ts).
+
+export type EvaluationRun = Tables<"evaluation_runs">;
+
+// Row and column of the confusion matrix for "no label" and "nothing detected"
+export const NO_VIOLATION = "none";
+
+export const DEFAULT_TOLERANCE_SECONDS = 2;
+
+// Runs without progress for this long are expired by evaluate-detector when the next run starts
+export const STALE_RUN_MS = 15 * 60 * 1000;
+
+export interface TypeMetrics {
+  tp: number;
+  fp: number;
+  fn: number;
+  // Labels without a scored frame near them, left out of fn and recall
+  uncovered: number;
+  precision: number | null;
+  recall: number | null;
+  f1: number | null;
+}
+
+export interface EvaluationSummary {
+  per_type: Record<string, TypeMetrics>;
+  overall: TypeMetrics;
+  // confusion[labeled type][detected type]
+  confusion: Record<string, Record<string, number>>;
+  videos_evaluated: number;
+  videos_skipped: number;
+  frames_failed: number;
+  labels: number;
+  findings: number;
+}
+
+export interface VideoEvaluation {
+  video_id: string;
+  video_name: string;
+  job_id: string | null;
+  frames: number;
+  frames_failed?: number;
+  scored_times: number[];
+  failed_times: number[];
+  labels: { violation_type: string; start_seconds: number; end_seconds: number }[];
+  findings: { time: number; violation_type: string; confidence: number }[];
+  skipped?: string;
+}
+
+export const runMetrics = (run: Pick<EvaluationRun, "metrics">) => run.metrics as unknown as EvaluationSummary | null;
+
+export const formatScore = (value: number | null | undefined) =>
+  value === null || value === undefined ? "—" : `${(value * 100).toFixed(1)}%`;
+
+// Starts a run over every labeled video of the site with the signed-in user's detection settings
+export async function startEvaluation(siteId: string, toleranceSeconds: number) {
+  const { data, error } = await supabase.functions.invoke("evaluate-detector", {
+    body: { site_id: siteId, tolerance_seconds: toleranceSeconds },
+  });
+  if (error) throw error;
+  if (!data.success) throw new Error(data.error || "Failed to start the evaluation");
+  return data as { run_id: string; videos_total: number };
+}
@@ -0,0 +1,39 @@
+// Collects video files from drag-and-drop or file inputs, descending into dropped folders.
+
+const VIDEO_EXTENSIONS = [".mp4", ".avi", ".mov"];
+
+export const isVideoFile = (file: File) =>
+  file.type.startsWith("video/") || VIDEO_EXTENSIONS.some((ext) => file.name.toLowerCase().endsWith(ext));
+
+const readFile = (entry: FileSystemFileEntry) => new Promise<File>((resolve, reject) => entry.file(resolve, reject));
+
+// readEntries returns directory contents in batches (100 in Chromium) until it yields an empty list
+const readDirectory = async (entry: FileSystemDirectoryEntry): Promise<FileSystemEntry[]> => {
+  const reader = entry.createReader();
+  const entries: FileSystemEntry[] = [];
+  for (;;) {
+    const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+    if (batch.length === 0) return entries;
+    entries.push(...batch);
+  }
+};
+
+const collectEntry = async (entry: FileSystemEntry): Promise<File[]> => {
+  if (entry.isFile) return [await readFile(entry as FileSystemFileEntry)];
+  if (!entry.isDirectory) return [];
+  const children = await readDirectory(entry as FileSystemDirectoryEntry);
+  const nested = await Promise.all(children.map(collectEntry));
+  return nested.flat();
+};
+
+export const collectDroppedFiles = async (dataTransfer: DataTransfer): Promise<File[]> => {
+  // Entries must be taken synchronously; the DataTransfer is emptied once the drop handler yields
+  const entries = Array.from(dataTransfer.items)
+    .map((item) => item.webkitGetAsEntry())
+    .filter((entry): entry is FileSystemEntry => entry !== null);
+
+  const files = entries.length
+    ? (await Promise.all(entries.map(collectEntry))).flat()
+    : Array.from(dataTransfer.files);
+  return files.filter(isVideoFile);
+};
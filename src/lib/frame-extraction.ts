@@ -0,0 +1,111 @@
+import type { ObjectDetection } from "@tensorflow-models/coco-ssd";
+import { detectObjects, type Detection } from "@/lib/object-detection";
+
+// A seek that never completes (corrupt or truncated file) fails the extraction instead of hanging it
+const SEEK_TIMEOUT_MS = 15000;
+
+export interface ExtractedFrames {
+  blobs: Blob[];
+  times: number[];
+  detections: Detection[][];
+  width: number;
+  height: number;
+}
+
+// Samples `count` evenly spaced 640px-wide JPEG frames, running the on-device detector on each when given
+export const extractFrames = async (file: File, count = 6, model: ObjectDetection | null = null) => {
+  return new Promise<ExtractedFrames>((resolve, reject) => {
+    const video = document.createElement('video');
+    const url = URL.createObjectURL(file);
+    video.src = url;
+    video.preload = 'metadata';
+    video.crossOrigin = 'anonymous';
+
+    video.onloadedmetadata = async () => {
+      const duration = video.duration || 0;
+      const width = 640;
+      const height = Math.max(1, Math.round((video.videoHeight / (video.videoWidth || 1)) * width));
+      const canvas = document.createElement('canvas');
+      canvas.width = width; canvas.height = height;
+      const ctx = canvas.getContext('2d');
+      if (!ctx) { reject(new Error('Canvas not supported')); return; }
+
+      const blobs: Blob[] = []; const times: number[] = []; const detections: Detection[][] = [];
+      const captureAt = (t: number) => new Promise<void>((res, rej) => {
+        const timeout = setTimeout(() => {
+          video.removeEventListener('seeked', onSeeked);
+          rej(new Error(`Timed out seeking to ${t.toFixed(1)}s`));
+        }, SEEK_TIMEOUT_MS);
+        const onSeeked = async () => {
+          clearTimeout(timeout);
+          video.removeEventListener('seeked', onSeeked);
+          ctx.drawImage(video, 0, 0, width, height);
+          let frameDetections: Detection[] = [];
+          if (model) {
+            try {
+              frameDetections = await detectObjects(model, canvas);
+            } catch (error) {
+              console.warn('On-device detection failed for frame at', t, error);
+            }
+          }
+          canvas.toBlob((blob) => {
+            if (blob) { blobs.push(blob); times.push(t); detections.push(frameDetections); }
+            res();
+          }, 'image/jpeg', 0.75);
+        };
+        video.addEventListener('seeked', onSeeked);
+        video.currentTime = Math.min(Math.max(0, t), Math.max(0, duration - 0.05));
+      });
+
+      const frames = Math.max(1, count);
+      try {
+        for (let i = 0; i < frames; i++) {
+          const t = duration ? ((i + 1) / (frames + 1)) * duration : 0;
+          await captureAt(t);
+        }
+        resolve({ blobs, times, detections, width, height });
+      } catch (error) {
+        reject(error);
+      } finally {
+        URL.revokeObjectURL(url);
+      }
+    };
+    video.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('Failed to load video for frame extraction'));
+    };
+  });
+};
+
+export interface CapturedFrame {
+  blob: Blob;
+  detections: Detection[];
+  width: number;
+  height: number;
+}
+
+// Grabs the frame a playing <video> (live stream or webcam) currently shows as a 640px-wide JPEG.
+// Stream sources must be served with CORS, otherwise the canvas is tainted and toBlob fails.
+export const captureFrame = async (video: HTMLVideoElement, model: ObjectDetection | null = null) => {
+  if (!video.videoWidth || !video.videoHeight) throw new Error('Video has no picture yet');
+  const width = 640;
+  const height = Math.max(1, Math.round((video.videoHeight / video.videoWidth) * width));
+  const canvas = document.createElement('canvas');
+  canvas.width = width; canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas not supported');
+  ctx.drawImage(video, 0, 0, width, height);
+
+  let detections: Detection[] = [];
+  if (model) {
+    try {
+      detections = await detectObjects(model, canvas);
+    } catch (error) {
+      console.warn('On-device detection failed for live frame', error);
+    }
+  }
+
+  const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, 'image/jpeg', 0.75));
+  if (!blob) throw new Error('Failed to encode frame');
+  return { blob, detections, width, height } as CapturedFrame;
+};
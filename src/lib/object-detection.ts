@@ -0,0 +1,61 @@
+import type { ObjectDetection } from "@tensorflow-models/coco-ssd";
+
+export type DetectorBackend = "webgl" | "cpu";
+
+// Same shape as the rule engine input in supabase/functions/_shared/rule-engine.ts
+export interface Detection {
+  class: string;
+  box: [number, number, number, number]; // [x1, y1, x2, y2] in frame pixels
+  score: number;
+}
+
+// COCO has no mining classes; only people map onto the rule engine vocabulary. Generic
+// trucks are left as "truck" so road vehicles never count as LH machines in collision rules.
+const COCO_CLASS_MAP: Record<string, string> = {
+  person: "person",
+};
+
+let modelPromise: Promise<ObjectDetection> | null = null;
+let modelBackend: DetectorBackend | null = null;
+
+// Loads COCO-SSD once per backend; tfjs is imported lazily to keep it out of the main bundle
+export const loadCocoSsd = async (backend: DetectorBackend): Promise<ObjectDetection> => {
+  if (modelPromise && modelBackend === backend) return modelPromise;
+
+  modelBackend = backend;
+  modelPromise = (async () => {
+    const tf = await import("@tensorflow/tfjs");
+    const cocoSsd = await import("@tensorflow-models/coco-ssd");
+    const ok = await tf.setBackend(backend);
+    if (!ok) {
+      console.warn(`tfjs backend "${backend}" unavailable, falling back to cpu`);
+      await tf.setBackend("cpu");
+    }
+    await tf.ready();
+    return cocoSsd.load({ base: "lite_mobilenet_v2" });
+  })();
+
+  try {
+    return await modelPromise;
+  } catch (error) {
+    modelPromise = null;
+    modelBackend = null;
+    throw error;
+  }
+};
+
+export const detectObjects = async (
+  model: ObjectDetection,
+  source: HTMLCanvasElement | HTMLVideoElement | HTMLImageElement,
+  minScore = 0.4
+): Promise<Detection[]> => {
+  const predictions = await model.detect(source, 20, minScore);
+  return predictions.map((prediction) => {
+    const [x, y, width, height] = prediction.bbox;
+    return {
+      class: COCO_CLASS_MAP[prediction.class] || prediction.class,
+      box: [x, y, x + width, y + height],
+      score: Number(prediction.score.toFixed(3)),
+    };
+  });
+};
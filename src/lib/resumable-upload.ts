@@ -0,0 +1,79 @@
+import * as tus from "tus-js-client";
+import { supabase } from "@/integrations/supabase/client";
+
+// Supabase Storage's TUS endpoint only accepts 6MB chunks
+const CHUNK_SIZE = 6 * 1024 * 1024;
+// Delays between automatic retries after a failed chunk (network drops, 5xx)
+const RETRY_DELAYS = [0, 3000, 5000, 10000, 20000, 30000];
+
+export interface ResumableUploadCallbacks {
+  onProgress?: (bytesUploaded: number, bytesTotal: number) => void;
+  onSuccess?: () => void;
+  onError?: (error: Error) => void;
+}
+
+export interface ResumableUpload {
+  // Storage path of the object; differs from the requested name when an earlier upload is resumed
+  objectName: () => string;
+  start: () => Promise<void>;
+  pause: () => Promise<void>;
+  resume: () => void;
+  cancel: () => Promise<void>;
+}
+
+export const sanitizeObjectName = (name: string) => name.replace(/[^a-zA-Z0-9._-]/g, "_").substring(0, 200);
+
+/**
+ * Uploads a file straight to Supabase Storage using the TUS protocol.
+ * Progress survives page reloads: a previous upload of the same file is resumed
+ * from its last acknowledged chunk instead of starting over.
+ */
+export const createResumableUpload = (
+  file: File,
+  bucket: string,
+  objectName: string,
+  callbacks: ResumableUploadCallbacks = {}
+): ResumableUpload => {
+  let currentObjectName = objectName;
+  const upload = new tus.Upload(file, {
+    endpoint: `${import.meta.env.VITE_SUPABASE_URL}/storage/v1/upload/resumable`,
+    retryDelays: RETRY_DELAYS,
+    chunkSize: CHUNK_SIZE,
+    uploadDataDuringCreation: true,
+    removeFingerprintOnSuccess: true,
+    headers: {
+      apikey: import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY,
+      "x-upsert": "false",
+    },
+    metadata: {
+      bucketName: bucket,
+      objectName,
+      contentType: file.type,
+      cacheControl: "3600",
+    },
+    // Long uploads outlive the access token, so attach a fresh one to every request
+    onBeforeRequest: async (req) => {
+      const { data: { session } } = await supabase.auth.getSession();
+      if (session) req.setHeader("Authorization", `Bearer ${session.access_token}`);
+    },
+    onProgress: (bytesUploaded, bytesTotal) => callbacks.onProgress?.(bytesUploaded, bytesTotal),
+    onSuccess: () => callbacks.onSuccess?.(),
+    onError: (error) => callbacks.onError?.(error),
+  });
+
+  return {
+    objectName: () => currentObjectName,
+    start: async () => {
+      const previousUploads = await upload.findPreviousUploads();
+      const previous = previousUploads.find((p) => p.metadata?.bucketName === bucket);
+      if (previous) {
+        currentObjectName = previous.metadata.objectName || objectName;
+        upload.resumeFromPreviousUpload(previous);
+      }
+      upload.start();
+    },
+    pause: () => upload.abort(),
+    resume: () => upload.start(),
+    cancel: () => upload.abort(true),
+  };
+};
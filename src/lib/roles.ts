@@ -0,0 +1,33 @@
+// Roles of the profiles table and what each one may do. The database (RLS and the
+// analyze-video function) enforces these; the UI only uses them to hide actions.
+
+export type AppRole = "viewer" | "operator" | "safety_reviewer" | "admin";
+
+export const ROLES: Record<AppRole, string> = {
+  viewer: "Viewer",
+  operator: "Operator",
+  safety_reviewer: "Safety reviewer",
+  admin: "Admin",
+};
+
+// Admins are allowed everything and are not listed
+const PERMISSIONS = {
+  analyze_videos: ["operator"],
+  review_violations: ["safety_reviewer"],
+  view_audit_log: ["safety_reviewer"],
+  manage_alerts: ["safety_reviewer"],
+  manage_suppression: ["safety_reviewer"],
+  manage_annotations: ["safety_reviewer"],
+  run_evaluations: ["safety_reviewer"],
+  delete_violations: [],
+  compare_sites: [],
+  manage_cameras: [],
+  manage_models: [],
+  manage_site_detection_settings: [],
+  manage_users: [],
+} satisfies Record<string, AppRole[]>;
+
+export type Permission = keyof typeof PERMISSIONS;
+
+export const roleCan = (role: AppRole | null | undefined, permission: Permission) =>
+  role === "admin" || (!!role && (PERMISSIONS[permission] as AppRole[]).includes(role));
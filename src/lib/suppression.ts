@@ -0,0 +1,80 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import type { ViolationRow } from "@/lib/violations";
+
+// Suppression rules of a site (see the suppression_rules migration): detections they match
+// are stored with suppressed = true and stay out of events, logs, dashboards and alerts.
+
+export type SuppressionRule = Tables<"suppression_rules">;
+
+export type SuppressionKind = "type" | "window" | "example";
+
+// Normalized [x1, y1, x2, y2] boxes, fractions of the frame
+export type ExampleBox = [number, number, number, number];
+
+// Intersection over union a new detection needs with the marked one to be suppressed
+export const DEFAULT_MIN_OVERLAP = 0.5;
+
+// Boxes of a detection as fractions of its frame, which is what example rules compare
+export const exampleBoxes = (violation: ViolationRow): ExampleBox[] => {
+  const size = violation.metadata?.frame_size;
+  if (!size?.width || !size?.height) return [];
+  return (violation.metadata?.boxes ?? []).map(({ box: [x1, y1, x2, y2] }) => [
+    x1 / size.width,
+    y1 / size.height,
+    x2 / size.width,
+    y2 / size.height,
+  ]);
+};
+
+/**
+ * Marks a detection as a recurring false positive: creates an example rule from its type,
+ * camera (or source when it has none) and boxes, and suppresses the detection itself.
+ * Later detections like it are suppressed by the database as they are recorded.
+ */
+export async function suppressSimilar(violation: ViolationRow) {
+  const boxes = exampleBoxes(violation);
+  const where = violation.camera_id ? violation.zone ?? violation.source_name : violation.source_name;
+  const { data: rule, error } = await supabase
+    .from("suppression_rules")
+    .insert({
+      site_id: violation.site_id,
+      kind: "example",
+      name: `${violation.violation_type} at ${where}`,
+      violation_types: [violation.violation_type],
+      camera_id: violation.camera_id,
+      source_type: violation.camera_id ? null : violation.source_type,
+      source_name: violation.camera_id ? null : violation.source_name,
+      example_violation_id: violation.id,
+      example_boxes: boxes,
+      min_overlap: DEFAULT_MIN_OVERLAP,
+    })
+    .select()
+    .single();
+  if (error) throw error;
+
+  const { error: updateError } = await supabase
+    .from("violations")
+    .update({
+      review_status: "false_positive",
+      suppressed: true,
+      suppression_rule_id: rule.id,
+      suppression_reason: `Marked false positive: ${rule.name}`,
+    })
+    .eq("id", violation.id);
+  if (updateError) throw updateError;
+
+  return rule;
+}
+
+// Suppresses a detection by hand, or restores a suppressed one into the logs and its event
+export async function setViolationSuppressed(id: string, suppressed: boolean) {
+  const { error } = await supabase.from("violations").update({ suppressed }).eq("id", id);
+  if (error) throw error;
+}
+
+// Postgres TIME comes back as HH:MM:SS
+export const describeTimeWindow = (rule: SuppressionRule) =>
+  rule.active_from && rule.active_to
+    ? `${rule.active_from.slice(0, 5)}–${rule.active_to.slice(0, 5)} ${rule.timezone}`
+    : "All day";
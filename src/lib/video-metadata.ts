@@ -0,0 +1,227 @@
+// Reads frame rate, duration, resolution and codec from the video container.
+// MP4/MOV are parsed from the moov box, AVI from its hdrl headers; the browser's
+// <video> element fills in whatever the container parser could not determine.
+
+export const DEFAULT_FPS = 30;
+
+export interface VideoMetadata {
+  fps: number;
+  duration_seconds: number;
+  width: number;
+  height: number;
+  codec: string | null;
+  // 'container' when the fps was read from the file, 'default' when we fell back to DEFAULT_FPS
+  fps_source: "container" | "default";
+}
+
+type ContainerInfo = Partial<Omit<VideoMetadata, "fps_source">>;
+
+const MAX_MOOV_BYTES = 64 * 1024 * 1024;
+
+const readBytes = async (file: Blob, start: number, length: number) =>
+  new DataView(await file.slice(start, start + length).arrayBuffer());
+
+const fourcc = (view: DataView, offset: number) =>
+  String.fromCharCode(
+    view.getUint8(offset),
+    view.getUint8(offset + 1),
+    view.getUint8(offset + 2),
+    view.getUint8(offset + 3)
+  );
+
+// Yields [type, contentStart, boxEnd] for the boxes in view[start, end)
+function* isoBoxes(view: DataView, start: number, end: number): Generator<[string, number, number]> {
+  let offset = start;
+  while (offset + 8 <= end) {
+    let size = view.getUint32(offset);
+    const type = fourcc(view, offset + 4);
+    let header = 8;
+    if (size === 1) {
+      size = Number(view.getBigUint64(offset + 8));
+      header = 16;
+    } else if (size === 0) {
+      size = end - offset;
+    }
+    if (size < header) return;
+    yield [type, offset + header, Math.min(offset + size, end)];
+    offset += size;
+  }
+}
+
+const findBox = (view: DataView, start: number, end: number, type: string) => {
+  for (const box of isoBoxes(view, start, end)) {
+    if (box[0] === type) return box;
+  }
+  return null;
+};
+
+const findPath = (view: DataView, start: number, end: number, path: string[]) => {
+  let range: [number, number] = [start, end];
+  for (const type of path) {
+    const box = findBox(view, range[0], range[1], type);
+    if (!box) return null;
+    range = [box[1], box[2]];
+  }
+  return range;
+};
+
+// Locates the moov box by walking top-level box headers, so only moov itself is read into memory
+const readMoov = async (file: File): Promise<DataView | null> => {
+  let offset = 0;
+  while (offset + 8 <= file.size) {
+    const header = await readBytes(file, offset, 16);
+    let size = header.getUint32(0);
+    const type = fourcc(header, 4);
+    if (size === 1) size = Number(header.getBigUint64(8));
+    else if (size === 0) size = file.size - offset;
+    if (size < 8) return null;
+    if (type === "moov") {
+      if (size > MAX_MOOV_BYTES) return null;
+      return readBytes(file, offset, size);
+    }
+    offset += size;
+  }
+  return null;
+};
+
+const parseIsoBmff = async (file: File): Promise<ContainerInfo | null> => {
+  const moov = await readMoov(file);
+  if (!moov) return null;
+
+  for (const [type, start, end] of isoBoxes(moov, 8, moov.byteLength)) {
+    if (type !== "trak") continue;
+    const mdia = findPath(moov, start, end, ["mdia"]);
+    if (!mdia) continue;
+    const hdlr = findBox(moov, mdia[0], mdia[1], "hdlr");
+    // hdlr: version/flags(4) pre_defined(4) handler_type(4)
+    if (!hdlr || fourcc(moov, hdlr[1] + 8) !== "vide") continue;
+
+    const info: ContainerInfo = {};
+
+    const mdhd = findBox(moov, mdia[0], mdia[1], "mdhd");
+    let timescale = 0;
+    if (mdhd) {
+      const version = moov.getUint8(mdhd[1]);
+      timescale = version === 1 ? moov.getUint32(mdhd[1] + 20) : moov.getUint32(mdhd[1] + 12);
+      const duration = version === 1 ? Number(moov.getBigUint64(mdhd[1] + 24)) : moov.getUint32(mdhd[1] + 16);
+      if (timescale > 0) info.duration_seconds = duration / timescale;
+    }
+
+    const tkhd = findBox(moov, start, end, "tkhd");
+    if (tkhd) {
+      // width/height are the last two 16.16 fixed-point fields of tkhd
+      info.width = Math.round(moov.getUint32(tkhd[2] - 8) / 65536);
+      info.height = Math.round(moov.getUint32(tkhd[2] - 4) / 65536);
+    }
+
+    const stbl = findPath(moov, mdia[0], mdia[1], ["minf", "stbl"]);
+    if (stbl) {
+      const stsd = findBox(moov, stbl[0], stbl[1], "stsd");
+      // stsd: version/flags(4) entry_count(4) then sample entries (size(4) format(4))
+      if (stsd && stsd[2] - stsd[1] >= 16) info.codec = fourcc(moov, stsd[1] + 12);
+
+      const stts = findBox(moov, stbl[0], stbl[1], "stts");
+      if (stts && timescale > 0) {
+        const entries = moov.getUint32(stts[1] + 4);
+        let samples = 0;
+        let ticks = 0;
+        for (let i = 0; i < entries; i++) {
+          const entry = stts[1] + 8 + i * 8;
+          if (entry + 8 > stts[2]) break;
+          const count = moov.getUint32(entry);
+          samples += count;
+          ticks += count * moov.getUint32(entry + 4);
+        }
+        if (samples > 0 && ticks > 0) info.fps = (samples * timescale) / ticks;
+      }
+    }
+
+    return info;
+  }
+  return null;
+};
+
+const parseAvi = async (file: File): Promise<ContainerInfo | null> => {
+  // The hdrl list sits at the start of the file and is small
+  const view = await readBytes(file, 0, Math.min(file.size, 256 * 1024));
+  if (view.byteLength < 12 || fourcc(view, 0) !== "RIFF" || fourcc(view, 8) !== "AVI ") return null;
+
+  const info: ContainerInfo = {};
+  let totalFrames = 0;
+  let microSecPerFrame = 0;
+  let offset = 12;
+  while (offset + 8 <= view.byteLength) {
+    const id = fourcc(view, offset);
+    const size = view.getUint32(offset + 4, true);
+    if (id === "LIST") {
+      // Descend into hdrl/strl lists; stream data starts at the movi list
+      if (offset + 12 > view.byteLength || fourcc(view, offset + 8) === "movi") break;
+      offset += 12;
+      continue;
+    }
+    if (id === "avih" && offset + 48 <= view.byteLength) {
+      microSecPerFrame = view.getUint32(offset + 8, true);
+      totalFrames = view.getUint32(offset + 24, true);
+      info.width = view.getUint32(offset + 40, true);
+      info.height = view.getUint32(offset + 44, true);
+    }
+    if (id === "strh" && offset + 36 <= view.byteLength && fourcc(view, offset + 8) === "vids") {
+      info.codec = fourcc(view, offset + 12).trim() || null;
+      const scale = view.getUint32(offset + 28, true);
+      const rate = view.getUint32(offset + 32, true);
+      if (scale > 0 && rate > 0) info.fps = rate / scale;
+    }
+    offset += 8 + size + (size % 2);
+  }
+
+  if (!info.fps && microSecPerFrame > 0) info.fps = 1_000_000 / microSecPerFrame;
+  if (info.fps && totalFrames > 0) info.duration_seconds = totalFrames / info.fps;
+  return info;
+};
+
+const readElementMetadata = (file: File) =>
+  new Promise<{ duration: number; width: number; height: number }>((resolve) => {
+    const video = document.createElement("video");
+    const url = URL.createObjectURL(file);
+    const done = (result: { duration: number; width: number; height: number }) => {
+      URL.revokeObjectURL(url);
+      resolve(result);
+    };
+    video.preload = "metadata";
+    video.onloadedmetadata = () =>
+      done({ duration: video.duration || 0, width: video.videoWidth, height: video.videoHeight });
+    video.onerror = () => done({ duration: 0, width: 0, height: 0 });
+    video.src = url;
+  });
+
+export const probeVideo = async (file: File): Promise<VideoMetadata> => {
+  let container: ContainerInfo | null = null;
+  try {
+    container = (await parseAvi(file)) || (await parseIsoBmff(file));
+  } catch (error) {
+    console.warn("Failed to parse video container:", error);
+  }
+  const element = await readElementMetadata(file);
+  const fps = container?.fps && Number.isFinite(container.fps) ? Number(container.fps.toFixed(3)) : null;
+
+  return {
+    fps: fps || DEFAULT_FPS,
+    duration_seconds: Number((container?.duration_seconds || element.duration || 0).toFixed(3)),
+    width: container?.width || element.width,
+    height: container?.height || element.height,
+    codec: container?.codec || null,
+    fps_source: fps ? "container" : "default",
+  };
+};
+
+export const frameToSeconds = (frameNumber: number, fps: number = DEFAULT_FPS) => frameNumber / (fps || DEFAULT_FPS);
+
+export const formatVideoTimestamp = (frameNumber: number, fps: number = DEFAULT_FPS) => {
+  const totalSeconds = frameToSeconds(frameNumber, fps);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = Math.floor(totalSeconds % 60);
+  const centiseconds = Math.round((totalSeconds - Math.floor(totalSeconds)) * 100);
+  return `${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')}.${centiseconds
+    .toString()
+    .padStart(2, '0')}`;
+};
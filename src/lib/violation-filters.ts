@@ -0,0 +1,183 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { ViolationEvent, ViolationRow } from "@/lib/violations";
+
+// Filters of the Violation Logs page; every field maps to a URL search param so views can be shared
+export interface ViolationFilters {
+  types: string[];
+  severities: string[];
+  methods: string[];
+  reviewStatuses: string[];
+  // Confidence bounds in percent (0-100)
+  minConfidence: number | null;
+  maxConfidence: number | null;
+  // Local calendar days, YYYY-MM-DD
+  from: string | null;
+  to: string | null;
+  videoId: string | null;
+  cameraIds: string[];
+  zones: string[];
+}
+
+export const EMPTY_FILTERS: ViolationFilters = {
+  types: [],
+  severities: [],
+  methods: [],
+  reviewStatuses: [],
+  minConfidence: null,
+  maxConfidence: null,
+  from: null,
+  to: null,
+  videoId: null,
+  cameraIds: [],
+  zones: [],
+};
+
+const DAY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const parsePercent = (value: string | null) => {
+  if (value === null || value === "") return null;
+  const percent = Number(value);
+  return Number.isFinite(percent) ? Math.min(100, Math.max(0, percent)) : null;
+};
+
+const parseDay = (value: string | null) => (value && DAY_PATTERN.test(value) ? value : null);
+
+export const parseViolationFilters = (params: URLSearchParams): ViolationFilters => ({
+  types: params.getAll("type"),
+  severities: params.getAll("severity"),
+  methods: params.getAll("method"),
+  reviewStatuses: params.getAll("review"),
+  minConfidence: parsePercent(params.get("minConf")),
+  maxConfidence: parsePercent(params.get("maxConf")),
+  from: parseDay(params.get("from")),
+  to: parseDay(params.get("to")),
+  videoId: params.get("video_id"),
+  cameraIds: params.getAll("camera"),
+  zones: params.getAll("zone"),
+});
+
+// Writes the filters into `params`, leaving unrelated params untouched
+export const writeViolationFilters = (params: URLSearchParams, filters: ViolationFilters) => {
+  const next = new URLSearchParams(params);
+  ["type", "severity", "method", "review", "minConf", "maxConf", "from", "to", "video_id", "camera", "zone"].forEach((key) => next.delete(key));
+  filters.types.forEach((type) => next.append("type", type));
+  filters.severities.forEach((severity) => next.append("severity", severity));
+  filters.methods.forEach((method) => next.append("method", method));
+  filters.reviewStatuses.forEach((status) => next.append("review", status));
+  if (filters.minConfidence !== null) next.set("minConf", String(filters.minConfidence));
+  if (filters.maxConfidence !== null) next.set("maxConf", String(filters.maxConfidence));
+  if (filters.from) next.set("from", filters.from);
+  if (filters.to) next.set("to", filters.to);
+  if (filters.videoId) next.set("video_id", filters.videoId);
+  filters.cameraIds.forEach((cameraId) => next.append("camera", cameraId));
+  filters.zones.forEach((zone) => next.append("zone", zone));
+  return next;
+};
+
+export const countActiveFilters = (filters: ViolationFilters) =>
+  [
+    filters.types.length > 0,
+    filters.severities.length > 0,
+    filters.methods.length > 0,
+    filters.reviewStatuses.length > 0,
+    filters.minConfidence !== null || filters.maxConfidence !== null,
+    filters.from !== null || filters.to !== null,
+    filters.videoId !== null,
+    filters.cameraIds.length > 0,
+    filters.zones.length > 0,
+  ].filter(Boolean).length;
+
+const startOfDay = (day: string) => new Date(`${day}T00:00:00`);
+
+const endOfDay = (day: string) => {
+  // Inclusive end day: everything before the following midnight
+  const end = startOfDay(day);
+  end.setDate(end.getDate() + 1);
+  return end;
+};
+
+// Violations query with the filters applied in PostgREST; callers add ordering and paging.
+// Detections silenced by a suppression rule are left out, the Suppression page lists them.
+export const buildViolationsQuery = (filters: ViolationFilters, options: { count?: "exact" } = {}) => {
+  let query = supabase.from("violations").select("*", options).eq("suppressed", false);
+
+  if (filters.types.length) query = query.in("violation_type", filters.types);
+  if (filters.severities.length) query = query.in("metadata->>severity", filters.severities);
+  if (filters.methods.length) query = query.in("metadata->>detection_method", filters.methods);
+  if (filters.reviewStatuses.length) query = query.in("review_status", filters.reviewStatuses);
+  if (filters.minConfidence !== null) query = query.gte("confidence", filters.minConfidence / 100);
+  if (filters.maxConfidence !== null) query = query.lte("confidence", filters.maxConfidence / 100);
+  if (filters.from) query = query.gte("detected_at", startOfDay(filters.from).toISOString());
+  if (filters.to) query = query.lt("detected_at", endOfDay(filters.to).toISOString());
+  if (filters.videoId) query = query.eq("video_id", filters.videoId);
+  if (filters.cameraIds.length) query = query.in("camera_id", filters.cameraIds);
+  if (filters.zones.length) query = query.in("zone", filters.zones);
+
+  return query;
+};
+
+// Client-side twin of buildViolationsQuery, for rows that arrive through realtime
+export const matchesViolationFilters = (row: ViolationRow, filters: ViolationFilters) => {
+  const detectedAt = new Date(row.detected_at).getTime();
+  const confidence = Number(row.confidence) * 100;
+  return (
+    !row.suppressed &&
+    (!filters.types.length || filters.types.includes(row.violation_type)) &&
+    (!filters.severities.length || filters.severities.includes(row.metadata?.severity ?? "")) &&
+    (!filters.methods.length || filters.methods.includes(row.metadata?.detection_method ?? "")) &&
+    (!filters.reviewStatuses.length || filters.reviewStatuses.includes(row.review_status)) &&
+    (filters.minConfidence === null || confidence >= filters.minConfidence) &&
+    (filters.maxConfidence === null || confidence <= filters.maxConfidence) &&
+    (!filters.from || detectedAt >= startOfDay(filters.from).getTime()) &&
+    (!filters.to || detectedAt < endOfDay(filters.to).getTime()) &&
+    (!filters.videoId || row.video_id === filters.videoId) &&
+    (!filters.cameraIds.length || filters.cameraIds.includes(row.camera_id ?? "")) &&
+    (!filters.zones.length || filters.zones.includes(row.zone ?? ""))
+  );
+};
+
+// The same filters over violation events: type, severity, method, camera and zone are the
+// event's, confidence is its peak and the period is when it started. Review statuses
+// live on the detections, so an event matches when any of its detections does.
+export const buildViolationEventsQuery = (filters: ViolationFilters, options: { count?: "exact" } = {}) => {
+  let query = supabase
+    .from("violation_events")
+    .select(
+      filters.reviewStatuses.length ? "*, detections:violations!violations_event_id_fkey!inner(review_status)" : "*",
+      options
+    );
+
+  if (filters.types.length) query = query.in("violation_type", filters.types);
+  if (filters.severities.length) query = query.in("severity", filters.severities);
+  if (filters.methods.length) query = query.in("detection_method", filters.methods);
+  if (filters.reviewStatuses.length) query = query.in("detections.review_status", filters.reviewStatuses);
+  if (filters.minConfidence !== null) query = query.gte("peak_confidence", filters.minConfidence / 100);
+  if (filters.maxConfidence !== null) query = query.lte("peak_confidence", filters.maxConfidence / 100);
+  if (filters.from) query = query.gte("started_at", startOfDay(filters.from).toISOString());
+  if (filters.to) query = query.lt("started_at", endOfDay(filters.to).toISOString());
+  if (filters.videoId) query = query.eq("video_id", filters.videoId);
+  if (filters.cameraIds.length) query = query.in("camera_id", filters.cameraIds);
+  if (filters.zones.length) query = query.in("zone", filters.zones);
+
+  return query;
+};
+
+// Client-side twin of buildViolationEventsQuery; events cannot be matched on review status
+// without their detections, so with that filter set only the server decides
+export const matchesViolationEventFilters = (event: ViolationEvent, filters: ViolationFilters) => {
+  const startedAt = new Date(event.started_at).getTime();
+  const confidence = Number(event.peak_confidence) * 100;
+  return (
+    !filters.reviewStatuses.length &&
+    (!filters.types.length || filters.types.includes(event.violation_type)) &&
+    (!filters.severities.length || filters.severities.includes(event.severity ?? "")) &&
+    (!filters.methods.length || filters.methods.includes(event.detection_method ?? "")) &&
+    (filters.minConfidence === null || confidence >= filters.minConfidence) &&
+    (filters.maxConfidence === null || confidence <= filters.maxConfidence) &&
+    (!filters.from || startedAt >= startOfDay(filters.from).getTime()) &&
+    (!filters.to || startedAt < endOfDay(filters.to).getTime()) &&
+    (!filters.videoId || event.video_id === filters.videoId) &&
+    (!filters.cameraIds.length || filters.cameraIds.includes(event.camera_id ?? "")) &&
+    (!filters.zones.length || filters.zones.includes(event.zone ?? ""))
+  );
+};
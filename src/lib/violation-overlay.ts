@@ -0,0 +1,121 @@
+import type { Detection } from "@/lib/object-detection";
+import type { ViolationRow } from "@/lib/violations";
+
+// Canvas cannot resolve CSS variables; these match --destructive and --warning
+const SEVERITY_COLORS: Record<string, string> = {
+  critical: "hsl(0, 84%, 60%)",
+  warning: "hsl(38, 92%, 50%)",
+};
+const DEFAULT_COLOR = "hsl(217, 91%, 60%)";
+
+// Where the picture sits inside a <video> element with object-fit: contain
+export interface OverlayLayout {
+  ctx: CanvasRenderingContext2D;
+  offsetX: number;
+  offsetY: number;
+  contentWidth: number;
+  contentHeight: number;
+}
+
+export const severityColor = (severity: string | null | undefined) => SEVERITY_COLORS[severity ?? ""] ?? DEFAULT_COLOR;
+
+const drawLabel = (ctx: CanvasRenderingContext2D, text: string, x: number, y: number, color: string) => {
+  ctx.font = "600 12px ui-sans-serif, system-ui, sans-serif";
+  const width = ctx.measureText(text).width + 8;
+  const top = Math.max(0, y - 18);
+  ctx.fillStyle = color;
+  ctx.fillRect(x, top, width, 18);
+  ctx.fillStyle = "#fff";
+  ctx.fillText(text, x + 4, top + 13);
+};
+
+// Sizes the overlay canvas to the video element and clears it; null until the video has dimensions
+export const prepareOverlay = (video: HTMLVideoElement, canvas: HTMLCanvasElement): OverlayLayout | null => {
+  const ctx = canvas.getContext("2d");
+  if (!ctx) return null;
+
+  const width = video.clientWidth;
+  const height = video.clientHeight;
+  const dpr = window.devicePixelRatio || 1;
+  if (canvas.width !== Math.round(width * dpr) || canvas.height !== Math.round(height * dpr)) {
+    canvas.width = Math.round(width * dpr);
+    canvas.height = Math.round(height * dpr);
+    canvas.style.width = `${width}px`;
+    canvas.style.height = `${height}px`;
+  }
+  ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+  ctx.clearRect(0, 0, width, height);
+  if (!video.videoWidth || !video.videoHeight) return null;
+
+  const scale = Math.min(width / video.videoWidth, height / video.videoHeight);
+  const contentWidth = video.videoWidth * scale;
+  const contentHeight = video.videoHeight * scale;
+  return {
+    ctx,
+    offsetX: (width - contentWidth) / 2,
+    offsetY: (height - contentHeight) / 2,
+    contentWidth,
+    contentHeight,
+  };
+};
+
+// Boxes of each violation (scaled from its frame_size), or a banner for violations without boxes
+export const drawViolations = (
+  { ctx, offsetX, offsetY, contentWidth, contentHeight }: OverlayLayout,
+  violations: Pick<ViolationRow, "violation_type" | "confidence" | "metadata">[]
+) => {
+  let bannerY = offsetY + 22;
+  violations.forEach((violation) => {
+    const color = severityColor(violation.metadata?.severity);
+    const label = `${violation.violation_type} ${(violation.confidence * 100).toFixed(0)}%`;
+    const frameSize = violation.metadata?.frame_size;
+    const boxes = violation.metadata?.boxes ?? [];
+
+    if (!frameSize || boxes.length === 0) {
+      // Violations without boxes (AI without image) get a banner only
+      drawLabel(ctx, label, offsetX + 4, bannerY, color);
+      bannerY += 22;
+      return;
+    }
+
+    const sx = contentWidth / frameSize.width;
+    const sy = contentHeight / frameSize.height;
+    let unionLeft = Infinity;
+    let unionTop = Infinity;
+    ctx.lineWidth = 2;
+    boxes.forEach((detection) => {
+      const [x1, y1, x2, y2] = detection.box;
+      const left = offsetX + x1 * sx;
+      const top = offsetY + y1 * sy;
+      ctx.strokeStyle = color;
+      ctx.strokeRect(left, top, (x2 - x1) * sx, (y2 - y1) * sy);
+      drawLabel(ctx, `${detection.class} ${(detection.score * 100).toFixed(0)}%`, left, top + 18, color);
+      unionLeft = Math.min(unionLeft, left);
+      unionTop = Math.min(unionTop, top);
+    });
+    drawLabel(ctx, label, unionLeft, unionTop, color);
+  });
+};
+
+// Raw on-device detections (not violations), thin and dashed so violation boxes stand out
+export const drawDetections = (
+  { ctx, offsetX, offsetY, contentWidth, contentHeight }: OverlayLayout,
+  detections: Detection[],
+  frameSize: { width: number; height: number }
+) => {
+  const sx = contentWidth / frameSize.width;
+  const sy = contentHeight / frameSize.height;
+  ctx.save();
+  ctx.lineWidth = 1;
+  ctx.setLineDash([4, 3]);
+  ctx.strokeStyle = DEFAULT_COLOR;
+  detections.forEach((detection) => {
+    const [x1, y1, x2, y2] = detection.box;
+    ctx.strokeRect(offsetX + x1 * sx, offsetY + y1 * sy, (x2 - x1) * sx, (y2 - y1) * sy);
+  });
+  ctx.restore();
+  detections.forEach((detection) => {
+    const [x1, y1] = detection.box;
+    drawLabel(ctx, `${detection.class} ${(detection.score * 100).toFixed(0)}%`, offsetX + x1 * sx, offsetY + y1 * sy + 18, DEFAULT_COLOR);
+  });
+};
@@ -0,0 +1,31 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { ReviewStatus, ViolationRow } from "@/lib/violations";
+
+export interface ReviewDecision {
+  review_status: Exclude<ReviewStatus, "unreviewed">;
+  // Only for "reclassified"; the previous type is kept in original_violation_type by the database
+  violation_type?: string;
+  review_note?: string | null;
+}
+
+/**
+ * Records a review decision on a violation. Reviewer and review time are stamped by the
+ * record_violation_review trigger, so they cannot be forged from the client.
+ */
+export async function reviewViolation(id: string, decision: ReviewDecision) {
+  const { data, error } = await supabase
+    .from("violations")
+    .update(decision)
+    .eq("id", id)
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data as ViolationRow;
+}
+
+// Applies one decision to every detection of a violation event, each stamped by the same trigger
+export async function reviewViolationEvent(eventId: string, decision: ReviewDecision) {
+  const { error } = await supabase.from("violations").update(decision).eq("event_id", eventId);
+  if (error) throw error;
+}
@@ -0,0 +1,59 @@
+import type { Tables } from "@/integrations/supabase/types";
+import type { Detection } from "@/lib/object-detection";
+
+// Vocabulary of the violations table as written by the analysis pipeline
+// (mirrors VIOLATION_TYPES and the detection methods in supabase/functions/_shared/analysis.ts).
+
+export const VIOLATION_TYPES = [
+  "Human handling a drill",
+  "Broken cylinder",
+  "Human using beam/rod on drill",
+  "LH machines collision risk",
+  "Equipment Failure",
+  "Collision Risk",
+];
+
+export const SEVERITIES = ["critical", "warning"];
+
+export type ReviewStatus = "unreviewed" | "confirmed" | "false_positive" | "reclassified";
+
+export const REVIEW_STATUSES: Record<ReviewStatus, string> = {
+  unreviewed: "Unreviewed",
+  confirmed: "Confirmed",
+  false_positive: "False positive",
+  reclassified: "Reclassified",
+};
+
+export const DETECTION_METHODS: Record<string, string> = {
+  rule_engine: "Rule engine",
+  ai_frame: "AI (frame image)",
+  ai: "AI (no image)",
+  roboflow: "Roboflow",
+  yolo: "YOLO server",
+  mock: "Mock detector",
+};
+
+// Keys the pipeline writes into violations.metadata; which ones are present depends on the detection method
+export interface ViolationMetadata {
+  severity?: string;
+  detection_method?: string;
+  // Backend and model of the detector that ran on the frame
+  detector?: string;
+  video_fps?: number;
+  rule?: string;
+  // Objects involved in the violation, in the pixel space of frame_size (the sampled frame)
+  boxes?: Detection[];
+  frame_size?: { width: number; height: number };
+  measurements?: Record<string, number>;
+  training_datasets?: number;
+  // Live streams and device cameras: wall-clock capture time and the stored evidence frame (analysis-frames bucket)
+  captured_at?: string;
+  frame_path?: string | null;
+  // Device camera: clip recorded around the event (violation-clips bucket)
+  clip_path?: string;
+}
+
+export type ViolationRow = Omit<Tables<"violations">, "metadata"> & { metadata: ViolationMetadata | null };
+
+// Consecutive detections of one type and source, clustered by the database (see violation_events)
+export type ViolationEvent = Tables<"violation_events">;
@@ -0,0 +1,7 @@
+import AlertRules from "@/components/AlertRules";
+
+const Alerts = () => {
+  return <AlertRules />;
+};
+
+export default Alerts;
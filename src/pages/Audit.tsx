@@ -0,0 +1,7 @@
+import AuditLog from "@/components/AuditLog";
+
+const Audit = () => {
+  return <AuditLog />;
+};
+
+export default Audit;
@@ -0,0 +1,7 @@
+import CameraRegistry from "@/components/CameraRegistry";
+
+const Cameras = () => {
+  return <CameraRegistry />;
+};
+
+export default Cameras;
@@ -0,0 +1,7 @@
+import SafetyDashboard from "@/components/SafetyDashboard";
+
+const Dashboard = () => {
+  return <SafetyDashboard />;
+};
+
+export default Dashboard;
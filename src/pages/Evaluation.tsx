@@ -0,0 +1,7 @@
+import DetectorEvaluation from "@/components/DetectorEvaluation";
+
+const Evaluation = () => {
+  return <DetectorEvaluation />;
+};
+
+export default Evaluation;
@@ -0,0 +1,7 @@
+import GroundTruthLabels from "@/components/GroundTruthLabels";
+
+const GroundTruth = () => {
+  return <GroundTruthLabels />;
+};
+
+export default GroundTruth;
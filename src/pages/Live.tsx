@@ -0,0 +1,7 @@
+import LiveMonitoring from "@/components/LiveMonitoring";
+
+const Live = () => {
+  return <LiveMonitoring />;
+};
+
+export default Live;
@@ -0,0 +1,7 @@
+import DetectionSettings from "@/components/DetectionSettings";
+
+const Settings = () => {
+  return <DetectionSettings />;
+};
+
+export default Settings;
@@ -0,0 +1,7 @@
+import SuppressionRules from "@/components/SuppressionRules";
+
+const Suppression = () => {
+  return <SuppressionRules />;
+};
+
+export default Suppression;
@@ -0,0 +1,7 @@
+import UserRoles from "@/components/UserRoles";
+
+const Users = () => {
+  return <UserRoles />;
+};
+
+export default Users;
@@ -0,0 +1,255 @@
+// Alert rules: every function that records violations hands them to dispatchAlerts(),
+// which matches them against the active rules of their site, raises (or merges into)
+// an alert per event and delivers new alerts by email and webhook. The in-app inbox
+// reads the alerts table directly. Delivery problems are logged, never thrown, so
+// alerting cannot fail an analysis.
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.38.4";
+import { SMTPClient } from "https://deno.land/x/denomailer@1.6.0/mod.ts";
+
+export interface AlertRule {
+  id: string;
+  name: string;
+  site_id: string | null;
+  camera_id: string | null;
+  violation_types: string[];
+  severities: string[];
+  min_confidence: number;
+  active_from: string | null;
+  active_to: string | null;
+  timezone: string;
+  email_recipients: string[];
+  webhook_url: string | null;
+}
+
+// The columns of an inserted violation that rules look at
+export interface AlertViolation {
+  id: string;
+  site_id: string;
+  camera_id: string | null;
+  video_id: string | null;
+  violation_type: string;
+  confidence: number;
+  source_type: string;
+  source_name: string;
+  detected_at: string;
+  metadata: { severity?: string } | null;
+  // Set by the site's suppression rules when the row is inserted
+  suppressed?: boolean;
+}
+
+interface Delivery {
+  alertId: string;
+  rule: AlertRule;
+  violation: AlertViolation;
+  siteName: string;
+}
+
+const WEBHOOK_TIMEOUT_MS = 10000;
+
+// "HH:MM:SS" of an instant in the rule's time zone
+function localTime(date: Date, timeZone: string): string {
+  try {
+    return new Intl.DateTimeFormat('en-GB', {
+      timeZone,
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+      hourCycle: 'h23',
+    }).format(date);
+  } catch {
+    return date.toISOString().slice(11, 19);
+  }
+}
+
+// Time-of-day windows may wrap past midnight (22:00 - 06:00)
+function inTimeWindow(rule: AlertRule, date: Date): boolean {
+  if (!rule.active_from || !rule.active_to) return true;
+  const time = localTime(date, rule.timezone);
+  return rule.active_from <= rule.active_to
+    ? time >= rule.active_from && time < rule.active_to
+    : time >= rule.active_from || time < rule.active_to;
+}
+
+export function ruleMatches(rule: AlertRule, violation: AlertViolation): boolean {
+  if (rule.site_id && rule.site_id !== violation.site_id) return false;
+  if (rule.camera_id && rule.camera_id !== violation.camera_id) return false;
+  if (rule.violation_types.length > 0 && !rule.violation_types.includes(violation.violation_type)) return false;
+  if (rule.severities.length > 0 && !rule.severities.includes(violation.metadata?.severity ?? '')) return false;
+  if (violation.confidence < Number(rule.min_confidence)) return false;
+  return inTimeWindow(rule, new Date(violation.detected_at));
+}
+
+// Frames of one event share the type and the camera (or video, or stream/device source)
+export function dedupKey(violation: AlertViolation): string {
+  const source = violation.camera_id ?? violation.video_id ?? `${violation.source_type}:${violation.source_name}`;
+  return `${violation.violation_type}|${source}`;
+}
+
+function alertText({ rule, violation, siteName }: Delivery) {
+  const severity = violation.metadata?.severity ?? 'unknown';
+  const subject = `[MineGuard] ${violation.violation_type} at ${siteName} (${violation.source_name})`;
+  const appUrl = Deno.env.get('APP_URL');
+  const lines = [
+    `Alert rule "${rule.name}" matched a ${severity} violation.`,
+    '',
+    `Violation: ${violation.violation_type}`,
+    `Confidence: ${(violation.confidence * 100).toFixed(1)}%`,
+    `Site: ${siteName}`,
+    `Source: ${violation.source_name}`,
+    `Detected at: ${new Date(violation.detected_at).toISOString()}`,
+  ];
+  if (appUrl) lines.push('', `Open the violation log: ${appUrl.replace(/\/$/, '')}/logs`);
+  lines.push('', 'Further detections of the same event are merged into this alert and not sent again.');
+  return { subject, text: lines.join('\n') };
+}
+
+async function sendEmail(delivery: Delivery): Promise<string> {
+  const hostname = Deno.env.get('SMTP_HOST');
+  if (!hostname) return 'skipped: SMTP_HOST not configured';
+
+  const tls = Deno.env.get('SMTP_TLS') === 'true';
+  const username = Deno.env.get('SMTP_USER');
+  const client = new SMTPClient({
+    connection: {
+      hostname,
+      port: Number(Deno.env.get('SMTP_PORT') ?? (tls ? 465 : 587)),
+      tls,
+      auth: username ? { username, password: Deno.env.get('SMTP_PASS') ?? '' } : undefined,
+    },
+    // Plain connections are only expected for local catchers (scripts/smtp-catcher.mjs)
+    debug: { allowUnsecure: !tls },
+  });
+
+  const { subject, text } = alertText(delivery);
+  try {
+    await client.send({
+      from: Deno.env.get('SMTP_FROM') ?? 'MineGuard <alerts@mineguard.local>',
+      to: delivery.rule.email_recipients,
+      subject,
+      content: text,
+    });
+    return 'sent';
+  } finally {
+    await client.close();
+  }
+}
+
+async function hmacHex(secret: string, body: string): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const signature = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(body));
+  return Array.from(new Uint8Array(signature)).map((b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+// Generic JSON webhook; signed with ALERT_WEBHOOK_SECRET when it is set
+async function sendWebhook(delivery: Delivery): Promise<string> {
+  const { alertId, rule, violation, siteName } = delivery;
+  const body = JSON.stringify({
+    type: 'violation.alert',
+    alert_id: alertId,
+    rule: { id: rule.id, name: rule.name },
+    site: { id: violation.site_id, name: siteName },
+    violation: {
+      id: violation.id,
+      violation_type: violation.violation_type,
+      severity: violation.metadata?.severity ?? null,
+      confidence: violation.confidence,
+      source_type: violation.source_type,
+      source_name: violation.source_name,
+      camera_id: violation.camera_id,
+      detected_at: violation.detected_at,
+    },
+    text: alertText(delivery).text,
+  });
+
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  const secret = Deno.env.get('ALERT_WEBHOOK_SECRET');
+  if (secret) headers['X-MineGuard-Signature'] = `sha256=${await hmacHex(secret, body)}`;
+
+  const response = await fetch(rule.webhook_url!, {
+    method: 'POST',
+    headers,
+    body,
+    signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+  });
+  await response.body?.cancel();
+  return response.ok ? 'sent' : `failed: HTTP ${response.status}`;
+}
+
+async function deliver(supabase: SupabaseClient, delivery: Delivery) {
+  const deliveries: Record<string, string> = {};
+  const attempt = async (channel: string, send: () => Promise<string>) => {
+    try {
+      deliveries[channel] = await send();
+    } catch (error) {
+      console.error(`Alert ${delivery.alertId}: ${channel} delivery failed:`, error);
+      deliveries[channel] = `failed: ${error instanceof Error ? error.message : 'unknown error'}`;
+    }
+  };
+
+  await Promise.all([
+    delivery.rule.email_recipients.length > 0 ? attempt('email', () => sendEmail(delivery)) : null,
+    delivery.rule.webhook_url ? attempt('webhook', () => sendWebhook(delivery)) : null,
+  ]);
+
+  if (Object.keys(deliveries).length > 0) {
+    const { error } = await supabase.from('alerts').update({ deliveries }).eq('id', delivery.alertId);
+    if (error) console.error(`Error recording deliveries of alert ${delivery.alertId}:`, error);
+  }
+}
+
+// Matches freshly inserted violations (all of one site or not) against the alert rules
+export async function dispatchAlerts(supabase: SupabaseClient, allViolations: AlertViolation[]): Promise<void> {
+  // Suppressed detections are recorded for measurement only and never alert
+  const violations = allViolations.filter((v) => !v.suppressed);
+  if (violations.length === 0) return;
+
+  try {
+    const siteIds = [...new Set(violations.map((v) => v.site_id))];
+    const { data: sites, error: sitesError } = await supabase
+      .from('sites')
+      .select('id, name, organization_id')
+      .in('id', siteIds);
+    if (sitesError) throw sitesError;
+
+    for (const site of sites ?? []) {
+      const { data: rules, error: rulesError } = await supabase
+        .from('alert_rules')
+        .select('*')
+        .eq('organization_id', site.organization_id)
+        .eq('is_active', true)
+        .or(`site_id.is.null,site_id.eq.${site.id}`);
+      if (rulesError) throw rulesError;
+      if (!rules?.length) continue;
+
+      const deliveries: Delivery[] = [];
+      for (const violation of violations.filter((v) => v.site_id === site.id)) {
+        for (const rule of (rules as AlertRule[]).filter((r) => ruleMatches(r, violation))) {
+          const { data: alert, error } = await supabase.rpc('record_alert', {
+            p_rule_id: rule.id,
+            p_dedup_key: dedupKey(violation),
+            p_violation_id: violation.id,
+            p_detected_at: violation.detected_at,
+          });
+          if (error) {
+            console.error(`Error recording alert of rule ${rule.id}:`, error);
+            continue;
+          }
+          if (alert?.is_new) {
+            console.log(`Alert "${rule.name}" raised for ${violation.violation_type} (${violation.source_name})`);
+            deliveries.push({ alertId: alert.id, rule, violation, siteName: site.name });
+          }
+        }
+      }
+
+      await Promise.all(deliveries.map((delivery) => deliver(supabase, delivery)));
+    }
+  } catch (error) {
+    console.error('Error dispatching alerts:', error);
+  }
+}
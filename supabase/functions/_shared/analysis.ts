@@ -0,0 +1,479 @@
+// Building blocks of the video analysis pipeline shared by analyze-video (which
+// enqueues jobs) and process-analysis-job (which works through their frames).
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.38.4";
+import {
+  DEFAULT_RULE_THRESHOLDS,
+  describeRules,
+  evaluateRules,
+  type Detection,
+  type RuleThresholds
+} from "./rule-engine.ts";
+import {
+  DEFAULT_DETECTION_METHOD,
+  DETECTION_METHODS,
+  VIOLATION_TYPES,
+  type DetectionMethod,
+  type Detector,
+  type FrameSize
+} from "./detectors.ts";
+
+export { VIOLATION_TYPES, type FrameSize } from "./detectors.ts";
+
+const RULE_ENGINE_VERSION = 'bip-rules@1';
+
+// Recorded on every analysis job so results can be compared across detector changes:
+// the rule engine plus the backend and model that fed it
+export function detectorVersion(detector: Detector | null): string {
+  return detector ? `${RULE_ENGINE_VERSION}+${detector.version}` : RULE_ENGINE_VERSION;
+}
+
+// One sampled frame of a job; `path` is null when the client sent no image for it
+export interface FrameTask {
+  time: number;
+  path: string | null;
+  detections: Detection[];
+}
+
+// Everything the worker needs to know about the video, fixed when the job is enqueued
+export interface JobParams {
+  video_name: string;
+  video_path: string;
+  user_id: string | null;
+  fps: number;
+  duration_seconds: number;
+  rule_thresholds: RuleThresholds;
+  // Pixel size of the sampled frames; detection boxes are expressed in this coordinate space
+  frame_size: FrameSize | null;
+  // Detector backend resolved from detection_settings when the job was enqueued
+  detection_method: DetectionMethod;
+  // Also from detection_settings; absent on jobs enqueued before these settings existed
+  confidence_thresholds?: Record<string, number>;
+  enabled_violation_types?: string[];
+}
+
+// Parse filename for violation information. This is ground truth named by whoever cut the
+// clip, so it becomes a label (video_annotations), never a detection or a prompt hint.
+// Supports multiple formats:
+// 1. "violation_type at HH_MM_SS.mp4"
+// 2. "violation_type at MM.SS min.mp4"
+// 3. "timestamp_violation_type_at_HH_MM_SS.mp4"
+export function parseFilenameHint(videoName: string): { hint: string; timestamp: number } | null {
+  // Try format: "Collision_between_two_LH_machines_at_01.11_min"
+  const formatWithMin = videoName.match(/^(?:\d+_)?(.+?)_at_(\d{1,2})\.(\d{2})[\s_]?min/i);
+  if (formatWithMin) {
+    const hint = formatWithMin[1].trim().replace(/_/g, ' ');
+    const minutes = parseInt(formatWithMin[2]);
+    const seconds = parseInt(formatWithMin[3]);
+    console.log(`Parsed filename - Violation: "${hint}", Time: ${minutes}:${seconds.toString().padStart(2, '0')} (${minutes * 60 + seconds}s)`);
+    return { hint, timestamp: minutes * 60 + seconds };
+  }
+
+  // Try format: "violation_type at HH_MM_SS"
+  const formatWithUnderscores = videoName.match(/^(?:\d+_)?(.+?)_at_(\d{2})_(\d{2})_(\d{2})/i);
+  if (formatWithUnderscores) {
+    const hint = formatWithUnderscores[1].trim().replace(/_/g, ' ');
+    const hours = parseInt(formatWithUnderscores[2]);
+    const minutes = parseInt(formatWithUnderscores[3]);
+    const seconds = parseInt(formatWithUnderscores[4]);
+    const timestamp = hours * 3600 + minutes * 60 + seconds;
+    console.log(`Parsed filename - Violation: "${hint}", Time: ${hours}:${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')} (${timestamp}s)`);
+    return { hint, timestamp };
+  }
+
+  return null;
+}
+
+// Maps a free-text label (a filename hint, an annotation) onto one of VIOLATION_TYPES;
+// mirrored by the backfill in the video_annotations migration
+export function matchViolationType(label: string): string | null {
+  const exact = VIOLATION_TYPES.find((type) => type.toLowerCase() === label.trim().toLowerCase());
+  if (exact) return exact;
+
+  const text = label.toLowerCase();
+  if (/\blh\b|load.?haul/.test(text) && /collision|close/.test(text)) return 'LH machines collision risk';
+  if (/drill/.test(text) && /rod|beam|stick/.test(text)) return 'Human using beam/rod on drill';
+  if (/drill/.test(text)) return 'Human handling a drill';
+  if (/cylinder/.test(text)) return 'Broken cylinder';
+  if (/collision/.test(text)) return 'Collision Risk';
+  if (/oil|hydraulic|leak|failure|cable/.test(text)) return 'Equipment Failure';
+  return null;
+}
+
+// Ground-truth label carried by a video's file name, if any
+export function parseFilenameLabel(videoName: string): { violation_type: string; seconds: number } | null {
+  const parsed = parseFilenameHint(videoName);
+  if (!parsed) return null;
+  const violationType = matchViolationType(parsed.hint);
+  if (!violationType) {
+    console.log(`Filename hint "${parsed.hint}" matches no violation type, not labeled`);
+    return null;
+  }
+  return { violation_type: violationType, seconds: parsed.timestamp };
+}
+
+export interface Camera {
+  id: string;
+  name: string;
+  zone: string | null;
+  default_fps: number | null;
+  filename_prefix: string | null;
+}
+
+// Camera of an upload: the one the uploader picked, otherwise the site camera whose
+// filename prefix matches the file name (longest prefix wins, case-insensitive)
+export async function resolveCamera(
+  supabase: SupabaseClient,
+  siteId: string,
+  cameraId: string | null,
+  videoName: string
+): Promise<Camera | null> {
+  const { data, error } = await supabase
+    .from('cameras')
+    .select('id, name, zone, default_fps, filename_prefix')
+    .eq('site_id', siteId)
+    .eq('is_active', true);
+  if (error) throw new Error(`Failed to load cameras: ${error.message}`);
+  const cameras: Camera[] = data || [];
+
+  if (cameraId) {
+    const camera = cameras.find((c) => c.id === cameraId);
+    if (!camera) throw new Error('Camera not found at this site');
+    return camera;
+  }
+
+  const name = videoName.toLowerCase();
+  const matched = cameras
+    .filter((c) => c.filename_prefix && name.startsWith(c.filename_prefix.toLowerCase()))
+    .sort((a, b) => b.filename_prefix!.length - a.filename_prefix!.length)[0];
+  if (matched) console.log(`Mapped ${videoName} to camera ${matched.name} by filename prefix`);
+  return matched ?? null;
+}
+
+// Minimum confidence of a finding whose type has no threshold of its own
+export const DEFAULT_MIN_CONFIDENCE = 0.6;
+
+// One detection_settings row, validated; the columns are described in its migrations
+export interface DetectionSettings {
+  detection_method: DetectionMethod;
+  confidence_thresholds: Record<string, number>;
+  frame_interval_seconds: number;
+  max_frames_per_video: number;
+  enabled_violation_types: string[];
+  rule_thresholds: RuleThresholds;
+}
+
+export const DEFAULT_DETECTION_SETTINGS: DetectionSettings = {
+  detection_method: DEFAULT_DETECTION_METHOD,
+  confidence_thresholds: {},
+  frame_interval_seconds: 2,
+  max_frames_per_video: 6,
+  enabled_violation_types: VIOLATION_TYPES,
+  rule_thresholds: DEFAULT_RULE_THRESHOLDS
+};
+
+// Keeps the numeric entries of a JSON object that pass `valid`
+function numberMap(value: unknown, valid: (n: number) => boolean): Record<string, number> {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return {};
+  return Object.fromEntries(
+    Object.entries(value as Record<string, unknown>).filter(
+      (entry): entry is [string, number] => typeof entry[1] === 'number' && valid(entry[1])
+    )
+  );
+}
+
+function toDetectionSettings(row: Record<string, unknown>): DetectionSettings {
+  const method = row.detection_method as DetectionMethod;
+  return {
+    detection_method: DETECTION_METHODS.includes(method) ? method : DEFAULT_DETECTION_METHOD,
+    confidence_thresholds: numberMap(row.confidence_thresholds, (n) => n >= 0 && n <= 1),
+    frame_interval_seconds: Number(row.frame_interval_seconds) || DEFAULT_DETECTION_SETTINGS.frame_interval_seconds,
+    max_frames_per_video: Number(row.max_frames_per_video) || DEFAULT_DETECTION_SETTINGS.max_frames_per_video,
+    enabled_violation_types: Array.isArray(row.enabled_violation_types)
+      ? row.enabled_violation_types as string[]
+      : VIOLATION_TYPES,
+    rule_thresholds: {
+      ...DEFAULT_RULE_THRESHOLDS,
+      ...numberMap(row.rule_thresholds, (n) => Number.isFinite(n) && n >= 0)
+    }
+  };
+}
+
+// Rule thresholds that are minimum scores; the others are maximum distances
+const SCORE_RULE_THRESHOLDS: string[] = ['minObjectScore', 'cylinderMinScore'];
+
+// The caller's own settings on top of the site's. Detector and sampling are the caller's, but
+// what decides whether a finding is recorded can only get stricter than at the site: the site's
+// types stay enabled, and a threshold only moves the way that reports more (a lower confidence
+// or score, a wider distance).
+function withOwnSettings(site: DetectionSettings, ownRow: Record<string, unknown>): DetectionSettings {
+  const own = toDetectionSettings(ownRow);
+  const ownRules = numberMap(ownRow.rule_thresholds, (n) => Number.isFinite(n) && n >= 0);
+  const confidenceTypes = new Set([...Object.keys(site.confidence_thresholds), ...Object.keys(own.confidence_thresholds)]);
+  return {
+    ...own,
+    enabled_violation_types: [...new Set([...site.enabled_violation_types, ...own.enabled_violation_types])],
+    confidence_thresholds: Object.fromEntries([...confidenceTypes].map((type) => [
+      type,
+      Math.min(
+        site.confidence_thresholds[type] ?? DEFAULT_MIN_CONFIDENCE,
+        own.confidence_thresholds[type] ?? DEFAULT_MIN_CONFIDENCE
+      )
+    ])),
+    rule_thresholds: {
+      ...site.rule_thresholds,
+      ...Object.fromEntries(Object.entries(ownRules)
+        .filter(([key]) => key in site.rule_thresholds)
+        .map(([key, mine]) => {
+          const value = site.rule_thresholds[key as keyof RuleThresholds];
+          return [key, SCORE_RULE_THRESHOLDS.includes(key) ? Math.min(value, mine) : Math.max(value, mine)];
+        }))
+    }
+  };
+}
+
+// Detection settings of an analysis: the site's detection_settings row, otherwise the defaults,
+// with the caller's own row on top (see withOwnSettings)
+export async function loadDetectionSettings(
+  supabase: SupabaseClient,
+  userId: string | null,
+  siteId: string
+): Promise<DetectionSettings> {
+  const scopes = [`site_id.eq.${siteId}`, ...(userId ? [`user_id.eq.${userId}`] : [])];
+  const { data, error } = await supabase
+    .from('detection_settings')
+    .select('*')
+    .or(scopes.join(','));
+  if (error) throw new Error(`Failed to load detection settings: ${error.message}`);
+
+  const rows: Record<string, unknown>[] = data || [];
+  const siteRow = rows.find((r) => r.site_id === siteId);
+  const ownRow = rows.find((r) => r.user_id !== null);
+  const site = siteRow ? toDetectionSettings(siteRow) : DEFAULT_DETECTION_SETTINGS;
+  return ownRow ? withOwnSettings(site, ownRow) : site;
+}
+
+// Fetch the active training datasets of the video's site to inform AI detection
+export async function loadTrainingContext(supabase: SupabaseClient, siteId: string) {
+  const { data: trainingDatasets } = await supabase
+    .from('models')
+    .select('*')
+    .eq('site_id', siteId)
+    .eq('type', 'dataset')
+    .eq('is_active', true)
+    .order('created_at', { ascending: false });
+
+  const datasets: { name: string }[] = trainingDatasets || [];
+  if (datasets.length === 0) return { datasets, context: '' };
+
+  // Map dataset names to specific detection capabilities
+  const detectionCategories = new Set<string>();
+  for (const dataset of datasets) {
+    const name = dataset.name.toLowerCase();
+
+    if (name.includes('drill') && name.includes('handle')) {
+      detectionCategories.add('Human handling a drill');
+    }
+    if (name.includes('cylinder') || name.includes('bucket')) {
+      detectionCategories.add('Broken cylinder');
+    }
+    if (name.includes('drill') && name.includes('rod')) {
+      detectionCategories.add('Human using beam/rod on drill');
+    }
+    if (name.includes('lh') && name.includes('machine')) {
+      detectionCategories.add('LH machines collision risk');
+    }
+    if (name.includes('oil') || name.includes('spray')) {
+      detectionCategories.add('Equipment Failure');
+    }
+  }
+
+  const context = `TRAINED DETECTION MODELS:
+You have been trained on ${datasets.length} custom YOLO datasets specifically for mining safety:
+${Array.from(detectionCategories).map(cat => `- ${cat}`).join('\n')}
+
+These datasets contain thousands of labeled examples from real mining operations. Focus detection on these specific violation types that match your training data.`;
+
+  return { datasets, context };
+}
+
+// Which findings are kept: enabled types at or above their minimum confidence
+export interface FindingFilter {
+  enabledTypes: string[];
+  confidenceThresholds: Record<string, number>;
+}
+
+function minConfidence(filter: FindingFilter, violationType: string) {
+  return filter.confidenceThresholds[violationType] ?? DEFAULT_MIN_CONFIDENCE;
+}
+
+function acceptsFinding(filter: FindingFilter, violationType: string, confidence: number) {
+  return filter.enabledTypes.includes(violationType) && confidence >= minConfidence(filter, violationType);
+}
+
+function describeFindingFilter(filter: FindingFilter) {
+  return `Only report these violation types, each above its minimum confidence:
+${filter.enabledTypes.map((type) => `- ${type}: ${minConfidence(filter, type).toFixed(2)}`).join('\n')}`;
+}
+
+export function buildFramePrompt(contextPrompt: string, timeSec: number, thresholds: RuleThresholds, filter: FindingFilter) {
+  return `You are an AI safety inspector trained on custom YOLO models for mining safety violations.
+
+${contextPrompt}
+
+DETECTION TASK - Frame at t=${timeSec.toFixed(2)}s:
+
+Based on the BIP (Mining Safety) detection system, identify these SPECIFIC violations:
+
+🔴 CRITICAL VIOLATIONS:
+1. **Human handling a drill** - Person physically holding, carrying, or manipulating a drilling tool
+2. **Broken cylinder** - Damaged hydraulic cylinder, oil leakage, or cylinder failure visible
+3. **Human using beam/rod on drill** - Person using a wooden beam, metal rod, or stick to operate/push a drill
+4. **LH machines collision risk** - Two Load-Haul-Dump (LH) machines dangerously close to each other (collision imminent)
+
+⚠️ EQUIPMENT FAILURES:
+5. **Equipment Failure** - Oil spray, hydraulic leak, cable break, mechanical malfunction
+6. **Collision Risk** - Any machinery on collision course with person or other equipment
+
+DETECTION RULES (from trained YOLO models):
+${describeRules(thresholds)}
+
+${describeFindingFilter(filter)}
+Focus on the exact violation types you were trained on.
+When reporting a violation, include a bounding box for every person, machine or tool involved.`;
+}
+
+// Prompt used when the client could not extract frames and only the frame position is known
+export function buildBlindFramePrompt(
+  contextPrompt: string,
+  frameNumber: number,
+  datasets: { name: string }[],
+  thresholds: RuleThresholds,
+  filter: FindingFilter
+) {
+  const trainedOn = (test: (name: string) => boolean) => datasets.some((d) => test(d.name.toLowerCase()));
+
+  return `You are an AI safety inspector trained on the BIP (Mining Safety) detection system with custom YOLO models.
+
+${contextPrompt}
+
+MINING SAFETY DETECTION - Frame ${frameNumber}:
+
+You have been trained on these SPECIFIC violation patterns from real mining operations:
+
+🔴 CRITICAL VIOLATIONS (from trained YOLO models):
+
+1. **Human handling a drill**
+   - Detection: Person physically holding, carrying, or manipulating drilling equipment
+   - Training: ${trainedOn((n) => n.includes('drill') && n.includes('handle')) ? '✓ Trained on drill handling dataset' : 'Pattern-based detection'}
+   - Confidence threshold: ${minConfidence(filter, 'Human handling a drill').toFixed(2)}+
+
+2. **Broken cylinder**
+   - Detection: Damaged hydraulic cylinder, visible oil leakage, cylinder failure
+   - Training: ${trainedOn((n) => n.includes('cylinder')) ? '✓ Trained on cylinder dataset' : 'Pattern-based detection'}
+   - Confidence threshold: ${minConfidence(filter, 'Broken cylinder').toFixed(2)}+
+
+3. **Human using beam/rod on drill**
+   - Detection: Person using wooden beam, metal rod, or stick to operate/manipulate drill
+   - Training: ${trainedOn((n) => n.includes('rod') || n.includes('beam')) ? '✓ Trained on drill + rod dataset' : 'Pattern-based detection'}
+   - Confidence threshold: ${minConfidence(filter, 'Human using beam/rod on drill').toFixed(2)}+
+
+4. **LH machines collision risk**
+   - Detection: Two Load-Haul-Dump machines dangerously close (< 3.5m apart)
+   - Training: ${trainedOn((n) => n.includes('lh')) ? '✓ Trained on LH machines dataset' : 'Pattern-based detection'}
+   - Confidence threshold: ${minConfidence(filter, 'LH machines collision risk').toFixed(2)}+
+
+⚠️ ADDITIONAL HAZARDS:
+5. **Equipment Failure** - Oil spray, hydraulic failure, cable break, mechanical malfunction
+6. **Collision Risk** - Any equipment/person on collision course
+
+DETECTION LOGIC (based on MultiModelViolationDetector):
+${describeRules(thresholds)}
+
+${describeFindingFilter(filter)}
+Focus on exact violation types from the BIP system.`;
+}
+
+// A violation found in one frame, ready to be inserted with its source columns
+export interface FrameFinding {
+  violation_type: string;
+  confidence: string;
+  metadata: Record<string, unknown>;
+}
+
+export interface FrameContext {
+  // Null when the configured backend is unavailable; the rule engine then only sees the client's detections
+  detector: Detector | null;
+  trainingContext: string;
+  // Training context plus what is known about the source (e.g. a live camera), for prompts that see the image
+  contextPrompt: string;
+  datasets: { name: string }[];
+  thresholds: RuleThresholds;
+  filter: FindingFilter;
+  frameSize: FrameSize | null;
+  fps: number;
+}
+
+// Rule engine and detector findings of one sampled frame; used for video jobs and live streams alike.
+// Objects found by the detector join the client's detections before the rules run. Without an
+// image only detectors that do not need one run (the LLM is asked about the frame position).
+export async function analyzeFrame(
+  frame: { time: number; frameNumber: number; image: ArrayBuffer | null; detections: Detection[] },
+  ctx: FrameContext
+): Promise<FrameFinding[]> {
+  const findings: FrameFinding[] = [];
+  const detector = ctx.detector && (frame.image || !ctx.detector.requiresImage) ? ctx.detector : null;
+
+  const result = detector
+    ? await detector.detect({
+        time: frame.time,
+        image: frame.image,
+        frameSize: ctx.frameSize,
+        prompt: frame.image
+          ? buildFramePrompt(ctx.contextPrompt, frame.time, ctx.thresholds, ctx.filter)
+          : buildBlindFramePrompt(ctx.trainingContext, frame.frameNumber, ctx.datasets, ctx.thresholds, ctx.filter)
+      })
+    : null;
+  const frameSize = ctx.frameSize ?? result?.frameSize ?? null;
+
+  // Deterministic rule engine on object detections
+  const ruleHits = new Set<string>();
+  for (const hit of evaluateRules([...frame.detections, ...(result?.objects ?? [])], ctx.thresholds)) {
+    if (!acceptsFinding(ctx.filter, hit.violation_type, hit.confidence)) continue;
+    ruleHits.add(hit.violation_type);
+    findings.push({
+      violation_type: hit.violation_type,
+      confidence: hit.confidence.toFixed(3),
+      metadata: {
+        severity: hit.severity,
+        detection_method: 'rule_engine',
+        ...(detector && { detector: detector.version }),
+        rule: hit.rule,
+        boxes: hit.boxes,
+        frame_size: frameSize,
+        measurements: hit.measurements,
+        thresholds: ctx.thresholds,
+        video_fps: ctx.fps,
+        training_datasets: ctx.datasets.length
+      }
+    });
+  }
+
+  // Violations the detector reported itself; skip those the rule engine already reported (with boxes)
+  for (const violation of result?.violations ?? []) {
+    if (!acceptsFinding(ctx.filter, violation.violation_type, violation.confidence) || ruleHits.has(violation.violation_type)) continue;
+    findings.push({
+      violation_type: violation.violation_type,
+      confidence: violation.confidence.toFixed(3),
+      metadata: {
+        severity: violation.severity,
+        detection_method: detector!.method === 'llm' ? (frame.image ? 'ai_frame' : 'ai') : detector!.method,
+        detector: detector!.version,
+        ...(violation.boxes.length > 0 && { boxes: violation.boxes, frame_size: frameSize ?? { width: 1, height: 1 } }),
+        video_fps: ctx.fps,
+        training_datasets: ctx.datasets.length
+      }
+    });
+  }
+
+  return findings;
+}
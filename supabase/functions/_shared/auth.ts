@@ -0,0 +1,57 @@
+// Caller identity and role checks for functions that run with the service role key
+// (RLS does not apply to them, so they have to enforce roles themselves).
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.38.4";
+
+export type AppRole = 'viewer' | 'operator' | 'safety_reviewer' | 'admin';
+
+// Error carrying the HTTP status the function should answer with
+export class HttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+export interface Caller {
+  userId: string;
+  role: AppRole;
+}
+
+// Resolves the user of the request's JWT and checks their role; admins pass every check
+export async function requireRole(supabase: SupabaseClient, req: Request, roles: AppRole[]): Promise<Caller> {
+  const token = req.headers.get('Authorization')?.replace(/^Bearer\s+/i, '');
+  if (!token) {
+    throw new HttpError(401, 'Missing authorization header');
+  }
+
+  const { data: { user }, error } = await supabase.auth.getUser(token);
+  if (error || !user) {
+    throw new HttpError(401, 'Invalid or expired session');
+  }
+
+  const { data: profile } = await supabase
+    .from('profiles')
+    .select('role')
+    .eq('id', user.id)
+    .maybeSingle();
+  const role = (profile?.role ?? 'viewer') as AppRole;
+
+  if (role !== 'admin' && !roles.includes(role)) {
+    throw new HttpError(403, `The ${role} role is not allowed to do this`);
+  }
+  return { userId: user.id, role };
+}
+
+// Members of the site, and admins of its organization, may write to it
+export async function requireSiteAccess(supabase: SupabaseClient, caller: Caller, siteId: string | null) {
+  if (!siteId || !/^[0-9a-f-]{36}$/i.test(siteId)) {
+    throw new HttpError(400, 'A valid site is required');
+  }
+
+  const { data: allowed, error } = await supabase.rpc('user_can_access_site', { p_user: caller.userId, p_site: siteId });
+  if (error) {
+    throw new Error(`Failed to check site access: ${error.message}`);
+  }
+  if (!allowed) {
+    throw new HttpError(403, 'You do not have access to this site');
+  }
+}
@@ -0,0 +1,414 @@
+// Detector backends of the analysis pipeline. A detector looks at one sampled frame and
+// returns object boxes (fed to the rule engine together with the client's detections)
+// and/or violations it recognizes itself. The backend is chosen per user or site in
+// detection_settings.detection_method; credentials and endpoints come from the
+// environment, so a backend without them is simply unavailable.
+import type { Box, Detection } from "./rule-engine.ts";
+
+export type DetectionMethod = 'llm' | 'roboflow' | 'yolo' | 'mock';
+
+export const DETECTION_METHODS: DetectionMethod[] = ['llm', 'roboflow', 'yolo', 'mock'];
+
+export const DEFAULT_DETECTION_METHOD: DetectionMethod = 'llm';
+
+export interface FrameSize {
+  width: number;
+  height: number;
+}
+
+export interface DetectorFrame {
+  // Position of the frame in the video (seconds); 0 for live frames
+  time: number;
+  // JPEG of the sampled frame, null when the client only sent the frame position
+  image: ArrayBuffer | null;
+  frameSize: FrameSize | null;
+  // Instructions for detectors that take a prompt (the LLM gateway); built by the caller
+  prompt: string;
+}
+
+// A violation the detector recognized on its own, with the boxes of the objects involved
+export interface DetectedViolation {
+  violation_type: string;
+  confidence: number;
+  severity: 'critical' | 'warning';
+  boxes: Detection[];
+}
+
+export interface DetectorResult {
+  // Objects in the pixel space of `frameSize` (the backend's own image size when the caller did not know it)
+  objects: Detection[];
+  violations: DetectedViolation[];
+  frameSize: FrameSize | null;
+}
+
+export interface Detector {
+  method: DetectionMethod;
+  // Recorded on analysis jobs so results can be compared across backends and models
+  version: string;
+  // Object detectors need pixels; the LLM can also be asked about a frame position only
+  requiresImage: boolean;
+  // Pause between frames of a job, to stay within the backend's rate limit
+  throttleMs: number;
+  detect(frame: DetectorFrame): Promise<DetectorResult>;
+}
+
+const REQUEST_TIMEOUT_MS = 30000;
+
+// ---------------------------------------------------------------------------
+// LLM gateway: OpenAI-compatible chat completions with a report_violation tool
+// ---------------------------------------------------------------------------
+
+export interface AIDetection {
+  has_violation: boolean;
+  violation_type: string;
+  confidence: number;
+  severity: 'critical' | 'warning';
+  // Normalized [0, 1] corners of the objects involved, only when the model saw the frame
+  boxes?: { label: string; x1: number; y1: number; x2: number; y2: number }[];
+}
+
+export const VIOLATION_TYPES = [
+  "Human handling a drill",
+  "Broken cylinder",
+  "Human using beam/rod on drill",
+  "LH machines collision risk",
+  "Equipment Failure",
+  "Collision Risk"
+];
+
+const REPORT_VIOLATION_TOOL = {
+  type: "function",
+  function: {
+    name: "report_violation",
+    description: "Report a detected safety violation",
+    parameters: {
+      type: "object",
+      properties: {
+        has_violation: { type: "boolean" },
+        violation_type: {
+          type: "string",
+          enum: VIOLATION_TYPES
+        },
+        confidence: { type: "number" },
+        severity: { type: "string", enum: ["critical", "warning"] },
+        boxes: {
+          type: "array",
+          description: "Bounding boxes of the objects involved in the violation, as fractions (0-1) of the image width and height",
+          items: {
+            type: "object",
+            properties: {
+              label: { type: "string" },
+              x1: { type: "number" },
+              y1: { type: "number" },
+              x2: { type: "number" },
+              y2: { type: "number" }
+            },
+            required: ["label", "x1", "y1", "x2", "y2"]
+          }
+        }
+      },
+      required: ["has_violation", "violation_type", "confidence", "severity"]
+    }
+  }
+};
+
+// Calls the AI gateway with structured output; returns null when the model reports nothing usable
+// and throws when the gateway itself fails, so callers count the frame as failed
+export async function detectWithAI(
+  apiKey: string,
+  prompt: string,
+  imageBase64: string | null,
+  options: { url: string; model: string }
+): Promise<AIDetection | null> {
+  const content = imageBase64
+    ? [
+        { type: 'text', text: prompt },
+        { type: 'image_url', image_url: { url: `data:image/jpeg;base64,${imageBase64}` } }
+      ]
+    : prompt;
+
+  const aiResponse = await fetch(options.url, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${apiKey}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      model: options.model,
+      messages: [{ role: 'user', content }],
+      tools: [REPORT_VIOLATION_TOOL],
+      tool_choice: { type: "function", function: { name: "report_violation" } }
+    }),
+    signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+  });
+
+  if (!aiResponse.ok) {
+    throw new Error(`AI gateway failed: HTTP ${aiResponse.status} ${await aiResponse.text()}`);
+  }
+
+  const aiResult = await aiResponse.json();
+  const toolCall = aiResult.choices[0]?.message?.tool_calls?.[0];
+  if (!toolCall) return null;
+
+  try {
+    return JSON.parse(toolCall.function.arguments) as AIDetection;
+  } catch (e) {
+    console.error('Error parsing AI tool call:', e);
+    return null;
+  }
+}
+
+// Converts the model's normalized boxes into detections in the frame's pixel space
+export function aiBoxesToDetections(detection: AIDetection, frameSize: FrameSize | null): Detection[] {
+  const width = frameSize?.width ?? 1;
+  const height = frameSize?.height ?? 1;
+  const clamp = (value: number) => Math.min(1, Math.max(0, Number(value) || 0));
+  return (detection.boxes || []).map((box) => ({
+    class: box.label,
+    box: [clamp(box.x1) * width, clamp(box.y1) * height, clamp(box.x2) * width, clamp(box.y2) * height] as Box,
+    score: detection.confidence
+  }));
+}
+
+function createLlmDetector(): Detector | null {
+  const apiKey = Deno.env.get('LOVABLE_API_KEY');
+  if (!apiKey) return null;
+  const url = Deno.env.get('LLM_GATEWAY_URL') ?? 'https://ai.gateway.lovable.dev/v1/chat/completions';
+  const model = Deno.env.get('LLM_DETECTOR_MODEL') ?? 'google/gemini-2.5-flash';
+
+  return {
+    method: 'llm',
+    version: model,
+    requiresImage: false,
+    throttleMs: 400,
+    async detect(frame) {
+      const detection = await detectWithAI(apiKey, frame.prompt, frame.image ? toBase64(frame.image) : null, { url, model });
+      if (!detection?.has_violation) return { objects: [], violations: [], frameSize: frame.frameSize };
+
+      return {
+        objects: [],
+        violations: [{
+          violation_type: detection.violation_type,
+          confidence: detection.confidence,
+          severity: detection.severity,
+          boxes: frame.image ? aiBoxesToDetections(detection, frame.frameSize) : []
+        }],
+        frameSize: frame.frameSize
+      };
+    }
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Roboflow-compatible hosted inference (detect.roboflow.com or a local inference server)
+// ---------------------------------------------------------------------------
+
+interface RoboflowPrediction {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  class: string;
+  confidence: number;
+}
+
+function createRoboflowDetector(): Detector | null {
+  const apiKey = Deno.env.get('ROBOFLOW_API_KEY');
+  const model = Deno.env.get('ROBOFLOW_MODEL');
+  if (!apiKey || !model) return null;
+  const baseUrl = (Deno.env.get('ROBOFLOW_API_URL') ?? 'https://detect.roboflow.com').replace(/\/$/, '');
+
+  return {
+    method: 'roboflow',
+    version: `roboflow/${model}`,
+    requiresImage: true,
+    throttleMs: 100,
+    async detect(frame) {
+      const url = `${baseUrl}/${model}?api_key=${encodeURIComponent(apiKey)}&confidence=10&format=json`;
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+        body: toBase64(frame.image!),
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+      });
+      if (!response.ok) {
+        throw new Error(`Roboflow inference failed: HTTP ${response.status} ${await response.text()}`);
+      }
+
+      const result: { predictions?: RoboflowPrediction[]; image?: FrameSize } = await response.json();
+      // Predictions are box centers and sizes in the pixels of the image as sent
+      const imageSize = result.image?.width && result.image?.height ? result.image : null;
+      const scaleX = frame.frameSize && imageSize ? frame.frameSize.width / imageSize.width : 1;
+      const scaleY = frame.frameSize && imageSize ? frame.frameSize.height / imageSize.height : 1;
+
+      return {
+        objects: (result.predictions ?? []).map((p) => ({
+          class: p.class,
+          box: [
+            (p.x - p.width / 2) * scaleX,
+            (p.y - p.height / 2) * scaleY,
+            (p.x + p.width / 2) * scaleX,
+            (p.y + p.height / 2) * scaleY
+          ] as Box,
+          score: p.confidence
+        })),
+        violations: [],
+        frameSize: frame.frameSize ?? imageSize
+      };
+    }
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Self-hosted YOLO HTTP server
+// ---------------------------------------------------------------------------
+
+// POST multipart/form-data with the JPEG as `image`. The server answers
+// { model?: string, image?: { width, height }, detections: [{ class, confidence, box: [x1, y1, x2, y2] }] }
+// with boxes in image pixels; Ultralytics-style { name, confidence, box: { x1, y1, x2, y2 } } items are accepted too.
+interface YoloDetection {
+  class?: string;
+  name?: string;
+  confidence: number;
+  box: [number, number, number, number] | { x1: number; y1: number; x2: number; y2: number };
+}
+
+function createYoloDetector(): Detector | null {
+  const url = Deno.env.get('YOLO_DETECTOR_URL');
+  if (!url) return null;
+  const apiKey = Deno.env.get('YOLO_DETECTOR_API_KEY');
+
+  return {
+    method: 'yolo',
+    version: `yolo/${Deno.env.get('YOLO_DETECTOR_MODEL') ?? 'self-hosted'}`,
+    requiresImage: true,
+    throttleMs: 0,
+    async detect(frame) {
+      const body = new FormData();
+      body.append('image', new Blob([frame.image!], { type: 'image/jpeg' }), 'frame.jpg');
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {},
+        body,
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+      });
+      if (!response.ok) {
+        throw new Error(`YOLO server failed: HTTP ${response.status} ${await response.text()}`);
+      }
+
+      const result: { image?: FrameSize; detections?: YoloDetection[] } = await response.json();
+      const imageSize = result.image?.width && result.image?.height ? result.image : null;
+      const scaleX = frame.frameSize && imageSize ? frame.frameSize.width / imageSize.width : 1;
+      const scaleY = frame.frameSize && imageSize ? frame.frameSize.height / imageSize.height : 1;
+
+      return {
+        objects: (result.detections ?? []).map((d) => {
+          const [x1, y1, x2, y2] = Array.isArray(d.box) ? d.box : [d.box.x1, d.box.y1, d.box.x2, d.box.y2];
+          return {
+            class: d.class ?? d.name ?? 'object',
+            box: [x1 * scaleX, y1 * scaleY, x2 * scaleX, y2 * scaleY] as Box,
+            score: d.confidence
+          };
+        }),
+        violations: [],
+        frameSize: frame.frameSize ?? imageSize
+      };
+    }
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Mock detector with fixture boxes, so the pipeline runs offline
+// ---------------------------------------------------------------------------
+
+interface MockScene {
+  // Normalized [0, 1] corners, scaled to the frame size
+  objects: { class: string; box: Box; score: number }[];
+  violations: Omit<DetectedViolation, 'boxes'>[];
+}
+
+// Cycled through by frame time (one scene per 2 s of video); with the default rule
+// thresholds at 1280x720 the scenes fire the drill handling and LH collision rules,
+// a cylinder, nothing, and a violation reported by the detector itself
+const MOCK_SCENES: MockScene[] = [
+  {
+    objects: [
+      { class: 'person', box: [0.40, 0.30, 0.50, 0.80], score: 0.91 },
+      { class: 'drill', box: [0.44, 0.40, 0.56, 0.70], score: 0.88 }
+    ],
+    violations: []
+  },
+  {
+    objects: [
+      { class: 'lh_machine', box: [0.10, 0.40, 0.40, 0.80], score: 0.86 },
+      { class: 'lh_machine', box: [0.30, 0.42, 0.62, 0.82], score: 0.83 }
+    ],
+    violations: []
+  },
+  {
+    objects: [{ class: 'cylinder', box: [0.60, 0.50, 0.75, 0.70], score: 0.82 }],
+    violations: []
+  },
+  {
+    objects: [{ class: 'person', box: [0.05, 0.30, 0.15, 0.85], score: 0.77 }],
+    violations: []
+  },
+  {
+    objects: [],
+    violations: [{ violation_type: 'Equipment Failure', confidence: 0.74, severity: 'warning' }]
+  }
+];
+
+const MOCK_FRAME_SIZE: FrameSize = { width: 1280, height: 720 };
+
+function createMockDetector(): Detector {
+  // MOCK_DETECTOR_SCENES may replace the built-in fixtures with a JSON array of scenes
+  let scenes = MOCK_SCENES;
+  const override = Deno.env.get('MOCK_DETECTOR_SCENES');
+  if (override) {
+    try { scenes = JSON.parse(override); } catch { console.warn('Invalid MOCK_DETECTOR_SCENES JSON'); }
+  }
+
+  return {
+    method: 'mock',
+    version: 'mock@1',
+    requiresImage: false,
+    throttleMs: 0,
+    detect(frame) {
+      const scene = scenes[Math.floor(frame.time / 2) % scenes.length];
+      const size = frame.frameSize ?? MOCK_FRAME_SIZE;
+      const objects = scene.objects.map((o) => ({
+        class: o.class,
+        box: [o.box[0] * size.width, o.box[1] * size.height, o.box[2] * size.width, o.box[3] * size.height] as Box,
+        score: o.score
+      }));
+      return Promise.resolve({
+        objects,
+        violations: scene.violations.map((v) => ({ ...v, boxes: objects })),
+        frameSize: size
+      });
+    }
+  };
+}
+
+// The configured backend for a detection method, or null when it lacks credentials or
+// an endpoint (analyses then run the rule engine on the client's detections only)
+export function createDetector(method: string | null | undefined): Detector | null {
+  switch (method ?? DEFAULT_DETECTION_METHOD) {
+    case 'llm':
+      return createLlmDetector();
+    case 'roboflow':
+      return createRoboflowDetector();
+    case 'yolo':
+      return createYoloDetector();
+    case 'mock':
+      return createMockDetector();
+    default:
+      console.warn(`Unknown detection method "${method}"`);
+      return null;
+  }
+}
+
+export function toBase64(buffer: ArrayBuffer): string {
+  return btoa(String.fromCharCode(...new Uint8Array(buffer)));
+}
@@ -0,0 +1,172 @@
+// Scoring of detector findings against ground-truth labels (video_annotations), used by
+// evaluate-detector. A label is found when a finding of its type falls within its time
+// range widened by the tolerance; findings explained by no label of their type are false
+// positives, counted once per burst of nearby frames. A label with no scored frame in that
+// range (the detector failed there, or no frame was sampled near it) is uncovered: it is
+// reported on its own and counts neither as found nor as missed.
+import { VIOLATION_TYPES } from "./detectors.ts";
+
+// Row and column of the confusion matrix for "no label" and "nothing detected"
+export const NO_VIOLATION = 'none';
+
+export interface Label {
+  violation_type: string;
+  start_seconds: number;
+  end_seconds: number;
+}
+
+export interface EvaluatedFinding {
+  // Seconds from the start of the video
+  time: number;
+  violation_type: string;
+  confidence: number;
+}
+
+// One video of an evaluation run, as stored in evaluation_runs.results
+export interface VideoEvaluation {
+  video_id: string;
+  video_name: string;
+  job_id: string | null;
+  frames: number;
+  // Frames the detector failed on; they are left out rather than counted as finding nothing
+  frames_failed?: number;
+  // Seconds of the frames that were scored and of those the detector failed on
+  scored_times: number[];
+  failed_times: number[];
+  labels: Label[];
+  findings: EvaluatedFinding[];
+  // Why the video could not be evaluated (e.g. it was never analyzed)
+  skipped?: string;
+}
+
+export interface TypeMetrics {
+  tp: number;
+  fp: number;
+  fn: number;
+  // Labels without a scored frame near them, left out of fn and recall
+  uncovered: number;
+  // Null when undefined (nothing detected, nothing labeled)
+  precision: number | null;
+  recall: number | null;
+  f1: number | null;
+}
+
+// evaluation_runs.metrics
+export interface EvaluationSummary {
+  per_type: Record<string, TypeMetrics>;
+  // Micro-averaged over all types
+  overall: TypeMetrics;
+  // confusion[labeled type][detected type]; NO_VIOLATION on either side for misses and false alarms
+  confusion: Record<string, Record<string, number>>;
+  videos_evaluated: number;
+  videos_skipped: number;
+  frames_failed: number;
+  labels: number;
+  findings: number;
+}
+
+interface Counts {
+  tp: number;
+  fp: number;
+  fn: number;
+  uncovered: number;
+}
+
+const ratio = (numerator: number, denominator: number) => (denominator > 0 ? numerator / denominator : null);
+
+// F1 as 2TP / (2TP + FP + FN): the harmonic mean of precision and recall, and 0 rather
+// than undefined when one of them is
+const toMetrics = ({ tp, fp, fn, uncovered }: Counts): TypeMetrics => ({
+  tp,
+  fp,
+  fn,
+  uncovered,
+  precision: ratio(tp, tp + fp),
+  recall: ratio(tp, tp + fn),
+  f1: ratio(2 * tp, 2 * tp + fp + fn)
+});
+
+const inWindow = (time: number, label: Label, tolerance: number) =>
+  time >= label.start_seconds - tolerance && time <= label.end_seconds + tolerance;
+
+// The detected type that dominates a label's window: most findings, then highest confidence
+const dominantType = (findings: EvaluatedFinding[]) => {
+  const byType = new Map<string, { count: number; confidence: number }>();
+  for (const finding of findings) {
+    const entry = byType.get(finding.violation_type) ?? { count: 0, confidence: 0 };
+    byType.set(finding.violation_type, {
+      count: entry.count + 1,
+      confidence: Math.max(entry.confidence, finding.confidence)
+    });
+  }
+  return [...byType.entries()]
+    .sort(([, a], [, b]) => b.count - a.count || b.confidence - a.confidence)[0]?.[0] ?? NO_VIOLATION;
+};
+
+export function summarizeEvaluation(videos: VideoEvaluation[], tolerance: number): EvaluationSummary {
+  const types = [...VIOLATION_TYPES, NO_VIOLATION];
+  const counts = new Map<string, Counts>(VIOLATION_TYPES.map((type) => [type, { tp: 0, fp: 0, fn: 0, uncovered: 0 }]));
+  const countsOf = (type: string) => {
+    if (!counts.has(type)) counts.set(type, { tp: 0, fp: 0, fn: 0, uncovered: 0 });
+    return counts.get(type)!;
+  };
+  const confusion: Record<string, Record<string, number>> = Object.fromEntries(
+    types.map((row) => [row, Object.fromEntries(types.map((column) => [column, 0]))])
+  );
+  const confuse = (labeled: string, detected: string) => {
+    confusion[labeled] ??= {};
+    confusion[labeled][detected] = (confusion[labeled][detected] ?? 0) + 1;
+  };
+
+  const evaluated = videos.filter((video) => !video.skipped);
+  for (const video of evaluated) {
+    const findings = [...video.findings].sort((a, b) => a.time - b.time);
+
+    for (const label of video.labels) {
+      if (!video.scored_times.some((time) => inWindow(time, label, tolerance))) {
+        countsOf(label.violation_type).uncovered++;
+        continue;
+      }
+      const nearby = findings.filter((finding) => inWindow(finding.time, label, tolerance));
+      if (nearby.some((finding) => finding.violation_type === label.violation_type)) {
+        countsOf(label.violation_type).tp++;
+        confuse(label.violation_type, label.violation_type);
+      } else {
+        countsOf(label.violation_type).fn++;
+        confuse(label.violation_type, dominantType(nearby));
+      }
+    }
+
+    // Findings no label of their type explains, merged into bursts per type
+    const unexplained = findings.filter((finding) =>
+      !video.labels.some((label) => label.violation_type === finding.violation_type && inWindow(finding.time, label, tolerance))
+    );
+    const lastOfBurst = new Map<string, EvaluatedFinding>();
+    for (const finding of unexplained) {
+      const previous = lastOfBurst.get(finding.violation_type);
+      lastOfBurst.set(finding.violation_type, finding);
+      if (previous && finding.time - previous.time <= tolerance) continue;
+
+      countsOf(finding.violation_type).fp++;
+      // A false positive inside another type's label was already counted as that label's confusion
+      if (!video.labels.some((label) => inWindow(finding.time, label, tolerance))) {
+        confuse(NO_VIOLATION, finding.violation_type);
+      }
+    }
+  }
+
+  const total = [...counts.values()].reduce(
+    (sum, c) => ({ tp: sum.tp + c.tp, fp: sum.fp + c.fp, fn: sum.fn + c.fn, uncovered: sum.uncovered + c.uncovered }),
+    { tp: 0, fp: 0, fn: 0, uncovered: 0 }
+  );
+  return {
+    per_type: Object.fromEntries([...counts.entries()].map(([type, c]) => [type, toMetrics(c)])),
+    overall: toMetrics(total),
+    confusion,
+    videos_evaluated: evaluated.length,
+    videos_skipped: videos.length - evaluated.length,
+    frames_failed: evaluated.reduce((sum, video) => sum + (video.frames_failed ?? 0), 0),
+    labels: evaluated.reduce((sum, video) => sum + video.labels.length, 0),
+    findings: evaluated.reduce((sum, video) => sum + video.findings.length, 0)
+  };
+}
@@ -0,0 +1,32 @@
+// Hands a job to the process-analysis-job worker. The worker answers as soon as it has
+// claimed the work, so awaiting this only waits for the hand-off, not the analysis.
+export async function triggerJobWorker(supabaseUrl: string, serviceKey: string, jobId: string) {
+  const response = await fetch(`${supabaseUrl}/functions/v1/process-analysis-job`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${serviceKey}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ job_id: jobId }),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Failed to start analysis worker: ${response.status} ${await response.text()}`);
+  }
+}
+
+// Same hand-off for the evaluate-detector worker, which scores one chunk of a run per request
+export async function triggerEvaluationWorker(supabaseUrl: string, serviceKey: string, runId: string) {
+  const response = await fetch(`${supabaseUrl}/functions/v1/evaluate-detector`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${serviceKey}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ run_id: runId }),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Failed to start evaluation worker: ${response.status} ${await response.text()}`);
+  }
+}
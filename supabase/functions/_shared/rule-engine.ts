@@ -0,0 +1,201 @@
+// Deterministic BIP rule engine.
+// Takes the object detections of a single frame and decides which of the
+// four BIP (Mining Safety) rules fired, keeping the boxes that triggered
+// each rule so the result can be audited later.
+
+export type Box = [number, number, number, number]; // [x1, y1, x2, y2] in frame pixels
+
+export interface Detection {
+  class: string;
+  box: Box;
+  score: number;
+}
+
+export type RuleId = 'drill_handling' | 'broken_cylinder' | 'beam_rod_on_drill' | 'lh_collision';
+
+export interface RuleThresholds {
+  // Minimum detector score for an object to take part in any rule
+  minObjectScore: number;
+  // Human + Drill
+  drillHandlingHorizPx: number;
+  drillHandlingVertPx: number;
+  // Cylinder
+  cylinderMinScore: number;
+  // Human + Beam/Rod + Drill
+  rodAlignHorizPx: number;
+  rodAlignVertPx: number;
+  // LH machine + LH machine
+  lhCollisionHorizPx: number;
+  lhCollisionVertPx: number;
+}
+
+export const DEFAULT_RULE_THRESHOLDS: RuleThresholds = {
+  minObjectScore: 0.5,
+  drillHandlingHorizPx: 120,
+  drillHandlingVertPx: 100,
+  cylinderMinScore: 0.76,
+  rodAlignHorizPx: 150,
+  rodAlignVertPx: 100,
+  lhCollisionHorizPx: 350,
+  lhCollisionVertPx: 250,
+};
+
+export interface RuleViolation {
+  rule: RuleId;
+  violation_type: string;
+  severity: 'critical' | 'warning';
+  confidence: number;
+  boxes: Detection[];
+  measurements: Record<string, number>;
+}
+
+// Detector class names differ between datasets, so each rule role accepts a few aliases
+const CLASS_ALIASES: Record<string, string[]> = {
+  person: ['person', 'human', 'worker'],
+  drill: ['drill', 'drilling_machine', 'drill_rig', 'jackleg'],
+  cylinder: ['cylinder', 'broken_cylinder', 'hydraulic_cylinder', 'bucket'],
+  rod: ['rod', 'beam', 'bar', 'stick', 'pole'],
+  lh_machine: ['lh', 'lh_machine', 'lhd', 'loader', 'scooptram'],
+};
+
+const normalizeClass = (name: string) => name.trim().toLowerCase().replace(/[\s-]+/g, '_');
+
+export function classRole(name: string): string | null {
+  const normalized = normalizeClass(name);
+  for (const [role, aliases] of Object.entries(CLASS_ALIASES)) {
+    if (aliases.includes(normalized)) return role;
+  }
+  return null;
+}
+
+// Horizontal/vertical distance between the centers of two boxes
+function centerDistance(box1: number[], box2: number[]) {
+  const [x1, y1, x2, y2] = box1;
+  const [x3, y3, x4, y4] = box2;
+  const c1x = (x1 + x2) / 2;
+  const c1y = (y1 + y2) / 2;
+  const c2x = (x3 + x4) / 2;
+  const c2y = (y3 + y4) / 2;
+  return { horizontal: Math.abs(c1x - c2x), vertical: Math.abs(c1y - c2y) };
+}
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+// Returns the closest pair of detections (a from `as`, b from `bs`) within the thresholds
+function closestPair(
+  as: Detection[],
+  bs: Detection[],
+  horizThresh: number,
+  vertThresh: number
+): { a: Detection; b: Detection; horizontal: number; vertical: number } | null {
+  let best: { a: Detection; b: Detection; horizontal: number; vertical: number } | null = null;
+  for (const a of as) {
+    for (const b of bs) {
+      if (a === b) continue;
+      const { horizontal, vertical } = centerDistance(a.box, b.box);
+      if (horizontal >= horizThresh || vertical >= vertThresh) continue;
+      if (!best || horizontal + vertical < best.horizontal + best.vertical) {
+        best = { a, b, horizontal, vertical };
+      }
+    }
+  }
+  return best;
+}
+
+/**
+ * Evaluates the BIP rules against the detections of one frame.
+ * At most one violation is emitted per rule and frame (the closest match).
+ */
+export function evaluateRules(
+  detections: Detection[],
+  overrides: Partial<RuleThresholds> = {}
+): RuleViolation[] {
+  const thresholds = { ...DEFAULT_RULE_THRESHOLDS, ...overrides };
+  const byRole = new Map<string, Detection[]>();
+  for (const detection of detections) {
+    if (!Array.isArray(detection.box) || detection.box.length !== 4) continue;
+    if (detection.score < thresholds.minObjectScore) continue;
+    const role = classRole(detection.class);
+    if (!role) continue;
+    if (!byRole.has(role)) byRole.set(role, []);
+    byRole.get(role)!.push(detection);
+  }
+  const of = (role: string) => byRole.get(role) || [];
+  const results: RuleViolation[] = [];
+
+  // Human + Drill proximity → "Human handling a drill"
+  const handling = closestPair(of('person'), of('drill'), thresholds.drillHandlingHorizPx, thresholds.drillHandlingVertPx);
+  if (handling) {
+    results.push({
+      rule: 'drill_handling',
+      violation_type: 'Human handling a drill',
+      severity: 'critical',
+      confidence: Math.min(handling.a.score, handling.b.score),
+      boxes: [handling.a, handling.b],
+      measurements: { horizontal_px: round(handling.horizontal), vertical_px: round(handling.vertical) },
+    });
+  }
+
+  // Cylinder detected with high confidence → "Broken cylinder"
+  const cylinder = of('cylinder')
+    .filter((d) => d.score > thresholds.cylinderMinScore)
+    .sort((a, b) => b.score - a.score)[0];
+  if (cylinder) {
+    results.push({
+      rule: 'broken_cylinder',
+      violation_type: 'Broken cylinder',
+      severity: 'critical',
+      confidence: cylinder.score,
+      boxes: [cylinder],
+      measurements: { score: cylinder.score },
+    });
+  }
+
+  // Human + Beam/Rod + Drill aligned → "Human using beam/rod on drill"
+  const rodOnDrill = closestPair(of('rod'), of('drill'), thresholds.rodAlignHorizPx, thresholds.rodAlignVertPx);
+  if (rodOnDrill) {
+    const holder = closestPair(of('person'), [rodOnDrill.a], thresholds.rodAlignHorizPx, thresholds.rodAlignVertPx);
+    if (holder) {
+      results.push({
+        rule: 'beam_rod_on_drill',
+        violation_type: 'Human using beam/rod on drill',
+        severity: 'critical',
+        confidence: Math.min(holder.a.score, rodOnDrill.a.score, rodOnDrill.b.score),
+        boxes: [holder.a, rodOnDrill.a, rodOnDrill.b],
+        measurements: {
+          rod_drill_horizontal_px: round(rodOnDrill.horizontal),
+          rod_drill_vertical_px: round(rodOnDrill.vertical),
+          person_rod_horizontal_px: round(holder.horizontal),
+          person_rod_vertical_px: round(holder.vertical),
+        },
+      });
+    }
+  }
+
+  // Two LH machines too close → "LH machines collision risk"
+  const machines = of('lh_machine');
+  const collision = closestPair(machines, machines, thresholds.lhCollisionHorizPx, thresholds.lhCollisionVertPx);
+  if (collision) {
+    results.push({
+      rule: 'lh_collision',
+      violation_type: 'LH machines collision risk',
+      severity: 'critical',
+      confidence: Math.min(collision.a.score, collision.b.score),
+      boxes: [collision.a, collision.b],
+      measurements: { horizontal_px: round(collision.horizontal), vertical_px: round(collision.vertical) },
+    });
+  }
+
+  return results;
+}
+
+// Human-readable rule summary, used to keep the LLM prompt in sync with the engine
+export function describeRules(overrides: Partial<RuleThresholds> = {}): string {
+  const t = { ...DEFAULT_RULE_THRESHOLDS, ...overrides };
+  return [
+    `- Human + Drill proximity < ${t.drillHandlingHorizPx}px & vertical alignment < ${t.drillHandlingVertPx}px → "Human handling a drill"`,
+    `- Cylinder confidence > ${t.cylinderMinScore} → "Broken cylinder"`,
+    `- Human + Beam/Rod + Drill all aligned (< ${t.rodAlignHorizPx}px horizontal, < ${t.rodAlignVertPx}px vertical) → "Human using beam/rod on drill"`,
+    `- Two LH machines < ${t.lhCollisionHorizPx}px horizontal, < ${t.lhCollisionVertPx}px vertical → "LH machines collision risk"`,
+  ].join('\n');
+}
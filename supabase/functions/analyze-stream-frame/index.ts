@@ -0,0 +1,181 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.38.4";
+import type { Detection } from "../_shared/rule-engine.ts";
+import { analyzeFrame, loadDetectionSettings, loadTrainingContext, type FrameSize } from "../_shared/analysis.ts";
+import { createDetector } from "../_shared/detectors.ts";
+import { HttpError, requireRole, requireSiteAccess } from "../_shared/auth.ts";
+import { dispatchAlerts, type AlertViolation } from "../_shared/alerts.ts";
+
+declare const EdgeRuntime: { waitUntil(promise: Promise<unknown>): void };
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Analyzes one frame sampled from a live source: the stream of a registered camera
+// (Live Monitoring, source 'stream') or the device camera of the browser (webcam mode
+// of Video Analysis, source 'camera'). Frames are small and arrive every few seconds,
+// so they are analyzed within the request (no job) with the same rule engine and
+// detector steps as uploaded videos.
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+  const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+  const supabase = createClient(supabaseUrl, supabaseKey);
+
+  try {
+    const caller = await requireRole(supabase, req, ['operator']);
+
+    const formData = await req.formData();
+    const source = formData.get('source') === 'camera' ? 'camera' : 'stream';
+    const cameraId = formData.get('cameraId') as string | null;
+    const frame = formData.get('frame');
+    if (cameraId && !/^[0-9a-f-]{36}$/i.test(cameraId)) {
+      throw new HttpError(400, 'Invalid camera');
+    }
+    if (!cameraId && source === 'stream') {
+      throw new HttpError(400, 'A valid camera is required');
+    }
+    if (!(frame instanceof File) || frame.size === 0 || frame.size > 10 * 1024 * 1024) {
+      throw new HttpError(400, 'A JPEG frame of at most 10MB is required');
+    }
+
+    // A device camera may be tagged with a registered camera (for its zone), otherwise
+    // it only belongs to the site it is used at
+    let camera: { id: string; site_id: string; name: string; default_fps: number | null; is_active: boolean } | null = null;
+    if (cameraId) {
+      const { data, error: cameraError } = await supabase
+        .from('cameras')
+        .select('id, site_id, name, default_fps, is_active')
+        .eq('id', cameraId)
+        .maybeSingle();
+      if (cameraError || !data) {
+        throw new HttpError(404, 'Camera not found');
+      }
+      if (!data.is_active) {
+        throw new HttpError(409, `${data.name} is not active`);
+      }
+      camera = data;
+    }
+    const siteId = camera?.site_id ?? (formData.get('siteId') as string | null);
+    if (!siteId) {
+      throw new HttpError(400, 'A site is required');
+    }
+    await requireSiteAccess(supabase, caller, siteId);
+    const deviceLabel = source === 'camera' ? (formData.get('sourceName') as string | null)?.trim().slice(0, 120) : null;
+    const sourceName = deviceLabel || camera?.name || 'Device camera';
+
+    // Wall-clock capture time of the frame (the stream's program date-time when it has one);
+    // clocks that are off by more than a day are not trusted
+    const capturedAtStr = formData.get('capturedAt') as string | null;
+    const capturedAtMs = capturedAtStr ? Date.parse(capturedAtStr) : NaN;
+    const capturedAt = Number.isFinite(capturedAtMs) && Math.abs(capturedAtMs - Date.now()) < 24 * 3600 * 1000
+      ? new Date(capturedAtMs)
+      : new Date();
+
+    const frameDetectionsStr = formData.get('frame_detections') as string | null;
+    let detections: Detection[] = [];
+    if (frameDetectionsStr) {
+      try { detections = JSON.parse(frameDetectionsStr); } catch { console.warn('Invalid frame_detections JSON'); }
+    }
+    const frameSizeStr = formData.get('frame_size') as string | null;
+    let frameSize: FrameSize | null = null;
+    if (frameSizeStr) {
+      try { frameSize = JSON.parse(frameSizeStr); } catch { console.warn('Invalid frame_size JSON'); }
+    }
+    const settings = await loadDetectionSettings(supabase, caller.userId, siteId);
+
+    const fps = camera?.default_fps ? Number(camera.default_fps) : 30;
+    const image = await frame.arrayBuffer();
+    const { datasets, context: trainingContext } = await loadTrainingContext(supabase, siteId);
+    const detector = createDetector(settings.detection_method);
+
+    const findings = await analyzeFrame(
+      { time: 0, frameNumber: 0, image, detections: Array.isArray(detections) ? detections : [] },
+      {
+        detector,
+        trainingContext,
+        contextPrompt: `${trainingContext}\n\nContext: Live frame from ${source === 'stream' ? 'camera' : 'device camera'} "${sourceName}" captured at ${capturedAt.toISOString()}.`,
+        datasets,
+        thresholds: settings.rule_thresholds,
+        filter: { enabledTypes: settings.enabled_violation_types, confidenceThresholds: settings.confidence_thresholds },
+        frameSize: frameSize && frameSize.width > 0 && frameSize.height > 0 ? frameSize : null,
+        fps
+      }
+    );
+
+    // Only frames with findings are kept, as evidence for the violations
+    let framePath: string | null = null;
+    if (findings.length > 0) {
+      framePath = camera
+        ? `streams/${camera.id}/${capturedAt.getTime()}.jpg`
+        : `devices/${siteId}/${capturedAt.getTime()}.jpg`;
+      const { error: uploadError } = await supabase.storage
+        .from('analysis-frames')
+        .upload(framePath, image, { contentType: 'image/jpeg', upsert: true });
+      if (uploadError) {
+        console.error(`Error storing frame ${framePath}:`, uploadError);
+        framePath = null;
+      }
+    }
+
+    const { data: violations, error: insertError } = findings.length === 0
+      ? { data: [], error: null }
+      : await supabase
+          .from('violations')
+          .insert(findings.map((finding) => ({
+            ...finding,
+            metadata: { ...finding.metadata, captured_at: capturedAt.toISOString(), frame_path: framePath },
+            source_type: source,
+            source_name: sourceName,
+            camera_id: camera?.id ?? null,
+            site_id: siteId,
+            frame_number: 0,
+            detected_at: capturedAt.toISOString()
+          })))
+          .select('*');
+    if (insertError) {
+      throw new Error(`Failed to save violations: ${insertError.message}`);
+    }
+
+    if (violations.length > 0) {
+      // Alerts are delivered after the response so the next frame is not held up
+      EdgeRuntime.waitUntil(dispatchAlerts(supabase, violations as AlertViolation[]));
+      console.log(`${sourceName}: ${violations.length} violation(s) at ${capturedAt.toISOString()}`);
+    }
+
+    // Suppressed detections stay stored but are not shown on the live overlay
+    const shown = (violations as AlertViolation[]).filter((violation) => !violation.suppressed);
+    return new Response(
+      JSON.stringify({
+        success: true,
+        captured_at: capturedAt.toISOString(),
+        violations: shown,
+        suppressed_count: violations.length - shown.length
+      }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 200
+      }
+    );
+
+  } catch (error) {
+    console.error('Error in analyze-stream-frame function:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+
+    return new Response(
+      JSON.stringify({
+        error: errorMessage,
+        success: false
+      }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: error instanceof HttpError ? error.status : 500
+      }
+    );
+  }
+});
@@ -1,177 +1,172 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.38.4";
-
-// Helper function to check if two bounding boxes are close and aligned
-function boxesCloseAndAligned(
-  box1: number[], 
-  box2: number[], 
-  horizThresh: number, 
-  vertAlignThresh: number
-): boolean {
-  const [x1, y1, x2, y2] = box1;
-  const [x3, y3, x4, y4] = box2;
-  const c1x = (x1 + x2) / 2;
-  const c1y = (y1 + y2) / 2;
-  const c2x = (x3 + x4) / 2;
-  const c2y = (y3 + y4) / 2;
-  const horizDist = Math.abs(c1x - c2x);
-  const vertDist = Math.abs(c1y - c2y);
-  return horizDist < horizThresh && vertDist < vertAlignThresh;
-}
+import type { Detection } from "../_shared/rule-engine.ts";
+import {
+  detectorVersion,
+  loadDetectionSettings,
+  parseFilenameLabel,
+  resolveCamera,
+  type FrameSize,
+  type FrameTask,
+  type JobParams
+} from "../_shared/analysis.ts";
+import { createDetector } from "../_shared/detectors.ts";
+import { triggerJobWorker } from "../_shared/jobs.ts";
+import { HttpError, requireRole, requireSiteAccess } from "../_shared/auth.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
+// Registers a video the client already uploaded to storage (resumable upload),
+// stores its sampled frames and enqueues an analysis job for process-analysis-job.
+// Returns as soon as the job is queued.
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
   }
 
+  const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+  const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+  const supabase = createClient(supabaseUrl, supabaseKey);
+  let videoId: string | null = null;
+  let jobId: string | null = null;
+
   try {
-    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
-    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
-    const roboflowApiKey = Deno.env.get('ROBOFLOW_API_KEY');
-    const lovableApiKey = Deno.env.get('LOVABLE_API_KEY');
+    // Only operators (and admins) may start analyses; the uploader is the caller, not a form field
+    const caller = await requireRole(supabase, req, ['operator']);
+    const { userId } = caller;
 
-    const supabase = createClient(supabaseUrl, supabaseKey);
-    
     const formData = await req.formData();
-    const videoFile = formData.get('video') as File;
+    const videoPath = formData.get('storagePath') as string;
     const videoName = formData.get('videoName') as string;
-    const userId = formData.get('userId') as string;
-    
-    // Server-side validation
-    if (!videoFile || !(videoFile instanceof File)) {
-      throw new Error('Invalid file upload');
+    const siteId = formData.get('siteId') as string | null;
+    await requireSiteAccess(supabase, caller, siteId);
+
+    // Detection settings of the caller (or the site), fixed for the whole job
+    const settings = await loadDetectionSettings(supabase, userId, siteId!);
+    const detector = createDetector(settings.detection_method);
+
+    // Server-side validation: the object must be a top-level file of the videos bucket
+    if (!videoPath || !/^[a-zA-Z0-9._-]{1,255}$/.test(videoPath)) {
+      throw new Error('Invalid storage path');
+    }
+    if (!videoName) {
+      throw new Error('Invalid filename');
+    }
+
+    // Each object is registered once, by its uploader and under the site it was uploaded for
+    const { data: registered } = await supabase
+      .from('videos')
+      .select('id, uploaded_by, site_id')
+      .eq('storage_path', videoPath)
+      .maybeSingle();
+    if (registered) {
+      if (registered.uploaded_by !== userId || registered.site_id !== siteId) {
+        throw new HttpError(403, 'This video belongs to another upload');
+      }
+      throw new HttpError(409, 'This video has already been submitted for analysis');
+    }
+
+    const { data: storedVideo, error: lookupError } = await supabase
+      .rpc('video_object_info', { p_name: videoPath })
+      .maybeSingle();
+    if (lookupError || !storedVideo) {
+      throw new Error('Uploaded video not found in storage');
     }
+    if (storedVideo.owner_id !== userId) {
+      throw new HttpError(403, 'Only the uploader can submit this video for analysis');
+    }
+
+    const videoSize: number = storedVideo.metadata?.size ?? 0;
+    const videoType: string = storedVideo.metadata?.mimetype ?? '';
 
-    // Validate file size (250MB limit)
-    if (videoFile.size > 250 * 1024 * 1024) {
-      throw new Error('File size exceeds 250MB limit');
+    // Validate file size (5GB limit, same as the bucket)
+    if (videoSize > 5 * 1024 * 1024 * 1024) {
+      throw new Error('File size exceeds 5GB limit');
     }
 
     // Validate MIME type
     const allowedTypes = ['video/mp4', 'video/avi', 'video/mov', 'video/quicktime', 'video/x-msvideo'];
-    if (!allowedTypes.includes(videoFile.type)) {
+    if (!allowedTypes.includes(videoType)) {
       throw new Error('Invalid file type. Only MP4, AVI, and MOV are allowed');
     }
 
-    // Sanitize filename
-    const sanitizedName = videoName.replace(/[^a-zA-Z0-9._-]/g, '_').substring(0, 255);
-    if (!sanitizedName) {
-      throw new Error('Invalid filename');
+    console.log(`Processing video: ${videoName} (${(videoSize / (1024 * 1024)).toFixed(2)} MB) at ${videoPath}`);
+
+    const camera = await resolveCamera(supabase, siteId!, (formData.get('cameraId') as string | null) || null, videoName);
+
+    // Container metadata probed by the client (fps, duration, resolution, codec)
+    const videoMetadataStr = formData.get('video_metadata') as string | null;
+    let videoMetadata: {
+      fps?: number;
+      fps_source?: string;
+      duration_seconds?: number;
+      width?: number;
+      height?: number;
+      codec?: string | null;
+    } = {};
+    if (videoMetadataStr) {
+      try { videoMetadata = JSON.parse(videoMetadataStr); } catch { console.warn('Invalid video_metadata JSON'); }
     }
+    const hasContainerFps = typeof videoMetadata.fps === 'number' && videoMetadata.fps > 0;
+    const cameraFps = camera?.default_fps ? Number(camera.default_fps) : null;
+    const checksum = formData.get('checksum') as string | null;
 
-    console.log(`Processing video: ${videoName} (${(videoFile.size / (1024 * 1024)).toFixed(2)} MB)`);
-    
-    // Parse filename for violation information
-    // Supports multiple formats:
-    // 1. "violation_type at HH_MM_SS.mp4" 
-    // 2. "violation_type at MM.SS min.mp4"
-    // 3. "timestamp_violation_type_at_HH_MM_SS.mp4"
-    let filenameViolationHint: string | null = null;
-    let filenameTimestamp: number | null = null; // in seconds
-    
-    // Try format: "Collision_between_two_LH_machines_at_01.11_min"
-    const formatWithMin = videoName.match(/^(?:\d+_)?(.+?)_at_(\d{1,2})\.(\d{2})[\s_]?min/i);
-    if (formatWithMin) {
-      filenameViolationHint = formatWithMin[1].trim().replace(/_/g, ' ');
-      const minutes = parseInt(formatWithMin[2]);
-      const seconds = parseInt(formatWithMin[3]);
-      filenameTimestamp = minutes * 60 + seconds;
-      console.log(`Parsed filename - Violation: "${filenameViolationHint}", Time: ${minutes}:${seconds.toString().padStart(2, '0')} (${filenameTimestamp}s)`);
-    } else {
-      // Try format: "violation_type at HH_MM_SS"
-      const formatWithUnderscores = videoName.match(/^(?:\d+_)?(.+?)_at_(\d{2})_(\d{2})_(\d{2})/i);
-      if (formatWithUnderscores) {
-        filenameViolationHint = formatWithUnderscores[1].trim().replace(/_/g, ' ');
-        const hours = parseInt(formatWithUnderscores[2]);
-        const minutes = parseInt(formatWithUnderscores[3]);
-        const seconds = parseInt(formatWithUnderscores[4]);
-        filenameTimestamp = hours * 3600 + minutes * 60 + seconds;
-        console.log(`Parsed filename - Violation: "${filenameViolationHint}", Time: ${hours}:${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')} (${filenameTimestamp}s)`);
-      }
-    }
-    
-    // Upload video to storage with sanitized filename (stream directly without loading into memory)
-    const timestamp = Date.now();
-    const videoPath = `${timestamp}_${sanitizedName}`;
-    
-    console.log('Uploading video to storage...');
-    const { error: uploadError } = await supabase.storage
+    const { data: videoRecord, error: videoRecordError } = await supabase
       .from('videos')
-      .upload(videoPath, videoFile, {
-        contentType: videoFile.type,
-        upsert: false
-      });
-    
-    if (uploadError) {
-      console.error('Error uploading video:', uploadError);
-      throw new Error(`Failed to upload video: ${uploadError.message}`);
+      .insert({
+        storage_path: videoPath,
+        original_name: videoName,
+        uploaded_by: userId,
+        site_id: siteId,
+        camera_id: camera?.id ?? null,
+        size_bytes: videoSize,
+        mime_type: videoType,
+        checksum: checksum && /^[a-f0-9]{64}$/.test(checksum) ? checksum : null,
+        status: 'uploaded',
+        fps: hasContainerFps ? videoMetadata.fps : cameraFps,
+        fps_source: hasContainerFps ? (videoMetadata.fps_source || 'container') : cameraFps ? 'camera' : 'default',
+        duration_seconds: videoMetadata.duration_seconds ?? null,
+        width: videoMetadata.width ?? null,
+        height: videoMetadata.height ?? null,
+        codec: videoMetadata.codec ?? null
+      })
+      .select('id')
+      .single();
+
+    if (videoRecordError) {
+      console.error('Error saving video record:', videoRecordError);
+      throw new Error(`Failed to save video record: ${videoRecordError.message}`);
     }
-    
-    console.log(`Video uploaded to storage: ${videoPath}`);
-    
-    // Fetch user's training datasets to inform AI detection
-    const { data: trainingDatasets } = await supabase
-      .from('models')
-      .select('*')
-      .eq('uploaded_by', userId)
-      .eq('type', 'dataset')
-      .order('created_at', { ascending: false });
-    
-    // Build detailed training context based on uploaded datasets
-    let trainingContext = '';
-    const detectionCategories = new Set<string>();
-    
-    if (trainingDatasets && trainingDatasets.length > 0) {
-      console.log(`Found ${trainingDatasets.length} training datasets`);
-      
-      // Map dataset names to specific detection capabilities
-      for (const dataset of trainingDatasets) {
-        const name = dataset.name.toLowerCase();
-        
-        if (name.includes('drill') && name.includes('handle')) {
-          detectionCategories.add('Human handling a drill');
-        }
-        if (name.includes('cylinder') || name.includes('bucket')) {
-          detectionCategories.add('Broken cylinder');
-        }
-        if (name.includes('drill') && name.includes('rod')) {
-          detectionCategories.add('Human using beam/rod on drill');
-        }
-        if (name.includes('lh') && name.includes('machine')) {
-          detectionCategories.add('LH machines collision risk');
-        }
-        if (name.includes('oil') || name.includes('spray')) {
-          detectionCategories.add('Equipment Failure');
-        }
+    videoId = videoRecord.id;
+
+    // A label in the file name is ground truth to evaluate the detector against, not a detection
+    const filenameLabel = parseFilenameLabel(videoName);
+    if (filenameLabel) {
+      const { error: labelError } = await supabase
+        .from('video_annotations')
+        .insert({
+          site_id: siteId,
+          video_name: videoName,
+          video_id: videoId,
+          violation_type: filenameLabel.violation_type,
+          start_seconds: filenameLabel.seconds,
+          end_seconds: filenameLabel.seconds,
+          source: 'filename',
+          created_by: userId
+        });
+      // 23505: the same label already exists from an earlier upload of this file
+      if (labelError && labelError.code !== '23505') {
+        console.error('Error saving filename label:', labelError);
       }
-      
-      trainingContext = `TRAINED DETECTION MODELS:
-You have been trained on ${trainingDatasets.length} custom YOLO datasets specifically for mining safety:
-${Array.from(detectionCategories).map(cat => `- ${cat}`).join('\n')}
-
-These datasets contain thousands of labeled examples from real mining operations. Focus detection on these specific violation types that match your training data.`;
-      
-      console.log('Training context:', trainingContext);
     }
-    
-    // Assume standard video FPS for timestamp calculation
-    const VIDEO_FPS = 30; // frames per second
-    const videoStartTime = new Date();
-    
-    // Filtered violation types - ignore these specific types
-    const IGNORED_VIOLATIONS = [
-      'missing gloves',
-      'unsafe posture', 
-      'no helmet',
-      'no vest',
-      'phone usage'
-    ];
-    
+
+    // Frame rate used for every frame number <-> time conversion: the container's, else the camera's, else 30 fps
+    const VIDEO_FPS = hasContainerFps ? videoMetadata.fps! : cameraFps ?? 30;
+    const videoDuration = videoMetadata.duration_seconds || 0;
+
     // Parse optional sampled frames sent from client for visual analysis
     const framesMetaStr = formData.get('frames_meta') as string | null;
     let frameTimes: number[] = [];
@@ -184,350 +179,135 @@ These datasets contain thousands of labeled examples from real mining operations
         frameFiles.push(value as File);
       }
     }
-    
-    const violations = [];
-    const detectedFrames = new Set(); // Track frames to avoid duplicates
-    
-    // PHASE 1: If filename contains violation info, use that (it's accurate!)
-    if (filenameViolationHint && filenameTimestamp !== null) {
-      console.log('Using filename violation information - this is accurate data!');
-      
-      // Calculate frame number from timestamp
-      const frameNumber = Math.floor(filenameTimestamp * VIDEO_FPS);
-      const violationTimestamp = new Date(videoStartTime.getTime() + (filenameTimestamp * 1000));
-      
-      // Create violation from filename data (surrounding frames for context)
-      const framesToCreate = [frameNumber - 1, frameNumber, frameNumber + 1].filter(f => f >= 0);
-      
-      for (const frame of framesToCreate) {
-        const violation = {
-          violation_type: filenameViolationHint,
-          confidence: (0.92 + Math.random() * 0.07).toFixed(3), // 0.92-0.99 (high confidence)
-          source_type: 'video',
-          source_name: videoName,
-          video_path: videoPath,
-          frame_number: frame,
-          detected_at: new Date(videoStartTime.getTime() + ((frame / VIDEO_FPS) * 1000)).toISOString(),
-          metadata: {
-            severity: 'critical',
-            detection_method: 'filename_parsing',
-            video_fps: VIDEO_FPS,
-            training_datasets: trainingDatasets?.length || 0
-          }
-        };
-        
-        violations.push(violation);
-        detectedFrames.add(frame);
-        
-        await supabase
-          .from('violations')
-          .insert(violation);
-      }
-      
-      console.log(`Created ${framesToCreate.length} violation records from filename data`);
-    }
-    
-    // PHASE 2: AI-Powered Detection with Training Context
-    if (lovableApiKey && frameFiles.length > 0) {
-      console.log('Using AI-powered detection with BIP training context');
-      let contextPrompt = trainingContext || '';
-      if (filenameViolationHint) {
-        contextPrompt += `\n\nContext: Possible "${filenameViolationHint}" based on filename. Verify visually.`;
-      }
 
-      for (let i = 0; i < frameFiles.length; i++) {
-        const file = frameFiles[i];
-        const buf = await file.arrayBuffer();
-        const base64 = btoa(String.fromCharCode(...new Uint8Array(buf)));
-        const timeSec = typeof frameTimes[i] === 'number' ? frameTimes[i] : (i + 1) * 2;
-        const frameNumber = Math.max(0, Math.round(timeSec * VIDEO_FPS));
-
-        const aiResponse = await fetch('https://ai.gateway.lovable.dev/v1/chat/completions', {
-          method: 'POST',
-          headers: {
-            'Authorization': `Bearer ${lovableApiKey}`,
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({
-            model: 'google/gemini-2.5-flash',
-            messages: [{
-              role: 'user',
-              content: [
-                { type: 'text', text: `You are an AI safety inspector trained on custom YOLO models for mining safety violations.
-
-${contextPrompt}
-
-DETECTION TASK - Frame at t=${timeSec.toFixed(2)}s:
-
-Based on the BIP (Mining Safety) detection system, identify these SPECIFIC violations:
-
-🔴 CRITICAL VIOLATIONS:
-1. **Human handling a drill** - Person physically holding, carrying, or manipulating a drilling tool
-2. **Broken cylinder** - Damaged hydraulic cylinder, oil leakage, or cylinder failure visible
-3. **Human using beam/rod on drill** - Person using a wooden beam, metal rod, or stick to operate/push a drill
-4. **LH machines collision risk** - Two Load-Haul-Dump (LH) machines dangerously close to each other (collision imminent)
-
-⚠️ EQUIPMENT FAILURES:
-5. **Equipment Failure** - Oil spray, hydraulic leak, cable break, mechanical malfunction
-6. **Collision Risk** - Any machinery on collision course with person or other equipment
-
-DETECTION RULES (from trained YOLO models):
-- Human + Drill proximity < 120px & vertical alignment < 100px → "Human handling a drill"
-- Cylinder confidence > 0.76 → "Broken cylinder"  
-- Human + Beam/Rod + Drill all aligned → "Human using beam/rod on drill"
-- Two LH machines < 350px apart → "LH machines collision risk"
-
-Only report violations with confidence > 0.65. Focus on the exact violation types you were trained on.` },
-                { type: 'image_url', image_url: { url: `data:image/jpeg;base64,${base64}` } }
-              ]
-            }],
-            tools: [{
-              type: "function",
-              function: {
-                name: "report_violation",
-                description: "Report a detected safety violation",
-                parameters: {
-                  type: "object",
-                  properties: {
-                    has_violation: { type: "boolean" },
-                    violation_type: {
-                      type: "string",
-                      enum: [
-                        "Human handling a drill",
-                        "Broken cylinder",
-                        "Human using beam/rod on drill",
-                        "LH machines collision risk",
-                        "Equipment Failure",
-                        "Collision Risk"
-                      ]
-                    },
-                    confidence: { type: "number" },
-                    severity: { type: "string", enum: ["critical", "warning"] }
-                  },
-                  required: ["has_violation", "violation_type", "confidence", "severity"]
-                }
-              }
-            }],
-            tool_choice: { type: "function", function: { name: "report_violation" } }
-          }),
-        });
+    // Optional per-frame object detections (aligned with frames_meta) for the rule engine
+    const frameDetectionsStr = formData.get('frame_detections') as string | null;
+    let frameDetections: Detection[][] = [];
+    if (frameDetectionsStr) {
+      try { frameDetections = JSON.parse(frameDetectionsStr); } catch { console.warn('Invalid frame_detections JSON'); }
+    }
+    const frameSizeStr = formData.get('frame_size') as string | null;
+    let frameSize: FrameSize | null = null;
+    if (frameSizeStr) {
+      try { frameSize = JSON.parse(frameSizeStr); } catch { console.warn('Invalid frame_size JSON'); }
+    }
 
-        if (aiResponse.ok) {
-          const aiResult = await aiResponse.json();
-          const toolCall = aiResult.choices[0]?.message?.tool_calls?.[0];
-          if (toolCall) {
-            try {
-              const detection = JSON.parse(toolCall.function.arguments);
-              if (detection.has_violation && detection.confidence > 0.6) {
-                const frameTimeSeconds = frameNumber / VIDEO_FPS;
-                const violationTimestamp = new Date(videoStartTime.getTime() + (frameTimeSeconds * 1000));
-                const violation = {
-                  violation_type: detection.violation_type,
-                  confidence: detection.confidence.toFixed(3),
-                  source_type: 'video',
-                  source_name: videoName,
-                  video_path: videoPath,
-                  frame_number: frameNumber,
-                  detected_at: violationTimestamp.toISOString(),
-                  metadata: {
-                    severity: detection.severity,
-                    detection_method: 'ai_frame',
-                    video_fps: VIDEO_FPS,
-                    training_datasets: trainingDatasets?.length || 0
-                  }
-                };
-                violations.push(violation);
-                await supabase.from('violations').insert(violation);
-              }
-            } catch (e) {
-              console.error('Error parsing AI tool call for frame:', i, e);
-            }
-          }
+    // Store the sampled frames so the worker can process them after this request returns;
+    // beyond the frame limit of the settings, an evenly spread subset is kept
+    const frames: FrameTask[] = [];
+    const sentCount = Math.max(frameFiles.length, frameDetections.length);
+    const frameCount = Math.min(sentCount, settings.max_frames_per_video);
+    for (let k = 0; k < frameCount; k++) {
+      const i = Math.floor((k * sentCount) / frameCount);
+      const time = typeof frameTimes[i] === 'number' ? frameTimes[i] : (i + 1) * settings.frame_interval_seconds;
+      let path: string | null = null;
+      if (frameFiles[i]) {
+        path = `${videoId}/frame_${i}.jpg`;
+        const { error: frameError } = await supabase.storage
+          .from('analysis-frames')
+          .upload(path, frameFiles[i], { contentType: 'image/jpeg', upsert: true });
+        if (frameError) {
+          console.error(`Error uploading frame ${i}:`, frameError);
+          path = null;
         }
-
-        await new Promise(resolve => setTimeout(resolve, 400));
-      }
-    } else if (lovableApiKey) {
-      console.log('Using AI-powered safety violation detection');
-      
-      // Analyze 5-8 frames across the video for thorough detection
-      const aiFrameCount = Math.floor(Math.random() * 4) + 5;
-      
-      // Build context from training data and filename hint
-      let contextPrompt = trainingContext || '';
-      if (filenameViolationHint) {
-        contextPrompt += `\n\nContext: The video filename suggests there may be a "${filenameViolationHint}" violation. Analyze the video carefully to confirm if this or other safety violations are actually present.`;
       }
-      
-      for (let i = 0; i < aiFrameCount; i++) {
-        // Sample frames across the video duration (spread them out evenly)
-        const frameNumber = Math.floor((i / aiFrameCount) * 300) + 10;
-        
-        // Skip if already analyzed
-        if (detectedFrames.has(frameNumber)) continue;
-        detectedFrames.add(frameNumber);
-        
-        // Call Lovable AI with structured output
-        const aiResponse = await fetch('https://ai.gateway.lovable.dev/v1/chat/completions', {
-          method: 'POST',
-          headers: {
-            'Authorization': `Bearer ${lovableApiKey}`,
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({
-            model: 'google/gemini-2.5-flash',
-            messages: [{
-              role: 'user',
-              content: `You are an AI safety inspector trained on the BIP (Mining Safety) detection system with custom YOLO models.
-
-${contextPrompt}
-
-MINING SAFETY DETECTION - Frame ${frameNumber}:
-
-You have been trained on these SPECIFIC violation patterns from real mining operations:
-
-🔴 CRITICAL VIOLATIONS (from trained YOLO models):
-
-1. **Human handling a drill**
-   - Detection: Person physically holding, carrying, or manipulating drilling equipment
-   - Training: ${trainingDatasets?.some((d: any) => d.name.toLowerCase().includes('drill') && d.name.toLowerCase().includes('handle')) ? '✓ Trained on drill handling dataset' : 'Pattern-based detection'}
-   - Confidence threshold: 0.70+
-
-2. **Broken cylinder**
-   - Detection: Damaged hydraulic cylinder, visible oil leakage, cylinder failure
-   - Training: ${trainingDatasets?.some((d: any) => d.name.toLowerCase().includes('cylinder')) ? '✓ Trained on cylinder dataset' : 'Pattern-based detection'}
-   - Confidence threshold: 0.76+
-
-3. **Human using beam/rod on drill**
-   - Detection: Person using wooden beam, metal rod, or stick to operate/manipulate drill
-   - Training: ${trainingDatasets?.some((d: any) => d.name.toLowerCase().includes('rod') || d.name.toLowerCase().includes('beam')) ? '✓ Trained on drill + rod dataset' : 'Pattern-based detection'}
-   - Confidence threshold: 0.70+
-
-4. **LH machines collision risk**
-   - Detection: Two Load-Haul-Dump machines dangerously close (< 3.5m apart)
-   - Training: ${trainingDatasets?.some((d: any) => d.name.toLowerCase().includes('lh')) ? '✓ Trained on LH machines dataset' : 'Pattern-based detection'}
-   - Confidence threshold: 0.70+
-
-⚠️ ADDITIONAL HAZARDS:
-5. **Equipment Failure** - Oil spray, hydraulic failure, cable break, mechanical malfunction
-6. **Collision Risk** - Any equipment/person on collision course
-
-DETECTION LOGIC (based on MultiModelViolationDetector):
-- Human + Drill: proximity < 120px, vertical alignment < 100px
-- Cylinder: single object confidence > 0.76
-- Human + Beam + Drill: all three objects spatially aligned
-- LH Machines: two machines < 350px horizontal, < 250px vertical
-
-${filenameViolationHint ? `\nCONTEXT: Video filename suggests "${filenameViolationHint}" - verify if this matches visual evidence.` : ''}
-
-Only report violations matching your trained categories with confidence > 0.65. Focus on exact violation types from the BIP system.`
-            }],
-            tools: [{
-              type: "function",
-              function: {
-                name: "report_violation",
-                description: "Report a detected safety violation",
-                parameters: {
-                  type: "object",
-                  properties: {
-                    has_violation: { type: "boolean" },
-                    violation_type: {
-                      type: "string",
-                      enum: [
-                        "Human handling a drill",
-                        "Broken cylinder",
-                        "Human using beam/rod on drill",
-                        "LH machines collision risk",
-                        "Equipment Failure",
-                        "Collision Risk"
-                      ]
-                    },
-                    confidence: { type: "number" },
-                    severity: { type: "string", enum: ["critical", "warning"] }
-                  },
-                  required: ["has_violation", "violation_type", "confidence", "severity"]
-                }
-              }
-            }],
-            tool_choice: { type: "function", function: { name: "report_violation" } }
-          }),
-        });
+      frames.push({ time, path, detections: Array.isArray(frameDetections[i]) ? frameDetections[i] : [] });
+    }
 
-        if (aiResponse.ok) {
-          const aiResult = await aiResponse.json();
-          const toolCall = aiResult.choices[0]?.message?.tool_calls?.[0];
-          
-          if (toolCall) {
-            try {
-              const detection = JSON.parse(toolCall.function.arguments);
-              
-              // Accept violations with confidence > 0.6 for more sensitive detection
-              if (detection.has_violation && detection.confidence > 0.6) {
-                // Calculate timestamp
-                const frameTimeSeconds = frameNumber / VIDEO_FPS;
-                const violationTimestamp = new Date(videoStartTime.getTime() + (frameTimeSeconds * 1000));
-                
-                const violation = {
-                  violation_type: detection.violation_type,
-                  confidence: detection.confidence.toFixed(3),
-                  source_type: 'video',
-                  source_name: videoName,
-                  video_path: videoPath,
-                  frame_number: frameNumber,
-                  detected_at: violationTimestamp.toISOString(),
-                  metadata: {
-                    severity: detection.severity,
-                    detection_method: 'ai',
-                    video_fps: VIDEO_FPS,
-                    training_datasets: trainingDatasets?.length || 0
-                  }
-                };
-                
-                violations.push(violation);
-                
-                await supabase
-                  .from('violations')
-                  .insert(violation);
-              }
-            } catch (e) {
-              console.error('Error parsing AI tool call:', e);
-            }
-          }
-        }
-        
-        // Small delay to avoid rate limits
-        await new Promise(resolve => setTimeout(resolve, 400));
+    if (!detector) {
+      console.warn(`Detector backend "${settings.detection_method}" is not configured - only the rule engine on client detections will run.`);
+    } else if (frames.length === 0 && !detector.requiresImage) {
+      // Without client frames, sample positions across the video for the detector at the configured interval
+      const blindFrameCount = videoDuration > 0
+        ? Math.min(settings.max_frames_per_video, Math.max(1, Math.floor(videoDuration / settings.frame_interval_seconds)))
+        : settings.max_frames_per_video;
+      for (let i = 0; i < blindFrameCount; i++) {
+        const time = videoDuration > 0
+          ? ((i + 0.5) / blindFrameCount) * videoDuration
+          : (i + 0.5) * settings.frame_interval_seconds;
+        frames.push({ time, path: null, detections: [] });
       }
-    } else {
-      console.warn('LOVABLE_API_KEY not configured - AI detection unavailable. Please configure the API key for intelligent violation detection.');
     }
-    
-    console.log(`Analysis complete. Found ${violations.length} violations.`);
-    
+
+    const params: JobParams = {
+      video_name: videoName,
+      video_path: videoPath,
+      user_id: userId,
+      fps: VIDEO_FPS,
+      duration_seconds: videoDuration,
+      rule_thresholds: settings.rule_thresholds,
+      frame_size: frameSize && frameSize.width > 0 && frameSize.height > 0 ? frameSize : null,
+      detection_method: settings.detection_method,
+      confidence_thresholds: settings.confidence_thresholds,
+      enabled_violation_types: settings.enabled_violation_types
+    };
+
+    const { data: jobRecord, error: jobError } = await supabase
+      .from('analysis_jobs')
+      .insert({
+        video_id: videoId,
+        requested_by: userId,
+        status: 'queued',
+        phase: 'queued',
+        detector_version: detectorVersion(detector),
+        frames_total: frames.length,
+        frames,
+        params
+      })
+      .select('id')
+      .single();
+
+    if (jobError) {
+      console.error('Error creating analysis job:', jobError);
+      throw new Error(`Failed to create analysis job: ${jobError.message}`);
+    }
+    jobId = jobRecord.id;
+
+    await triggerJobWorker(supabaseUrl, supabaseKey, jobId);
+
+    console.log(`Queued analysis job ${jobId} with ${frames.length} frames`);
+
     return new Response(
       JSON.stringify({
         success: true,
-        violations: violations.length,
-        details: violations
+        video_id: videoId,
+        job_id: jobId,
+        frames_total: frames.length,
+        camera: camera ? { id: camera.id, name: camera.name } : null
       }),
-      { 
+      {
         headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-        status: 200 
+        status: 202
       }
     );
-    
+
   } catch (error) {
     console.error('Error in analyze-video function:', error);
     const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+
+    // Leave a visible trace of the failure on the job and video
+    if (jobId) {
+      await supabase
+        .from('analysis_jobs')
+        .update({ status: 'failed', phase: 'failed', error_message: errorMessage, finished_at: new Date().toISOString() })
+        .eq('id', jobId);
+    }
+    if (videoId) {
+      await supabase
+        .from('videos')
+        .update({ status: 'failed' })
+        .eq('id', videoId);
+    }
+
     return new Response(
-      JSON.stringify({ 
+      JSON.stringify({
         error: errorMessage,
-        success: false 
+        success: false
       }),
-      { 
+      {
         headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-        status: 500 
+        status: error instanceof HttpError ? error.status : 500
       }
     );
   }
-});
\ No newline at end of file
+});
@@ -0,0 +1,370 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.38.4";
+import {
+  analyzeFrame,
+  detectorVersion,
+  loadDetectionSettings,
+  loadTrainingContext,
+  type DetectionSettings,
+  type FrameTask,
+  type JobParams
+} from "../_shared/analysis.ts";
+import { createDetector } from "../_shared/detectors.ts";
+import { triggerEvaluationWorker } from "../_shared/jobs.ts";
+import { HttpError, requireRole, requireSiteAccess } from "../_shared/auth.ts";
+import { summarizeEvaluation, type EvaluatedFinding, type VideoEvaluation } from "../_shared/evaluation.ts";
+
+declare const EdgeRuntime: { waitUntil(promise: Promise<unknown>): void };
+
+// Frames scored per invocation, as in process-analysis-job
+const FRAMES_PER_CHUNK = 4;
+
+const DEFAULT_TOLERANCE_SECONDS = 2;
+
+// A queued or running run whose progress has not moved for this long is taken to have died
+// with its worker; a chunk takes a few minutes at most, even with slow detector requests
+const STALE_RUN_MS = 15 * 60 * 1000;
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// A video of a run and the analysis job whose sampled frames are replayed for it
+interface RunVideo {
+  video_id: string;
+  video_name: string;
+  job_id: string | null;
+}
+
+// Measures the active detector against the site's ground-truth labels. Safety reviewers
+// start a run (evaluation_runs); the run then replays the sampled frames of each labeled
+// video's latest analysis through the detector and rule engine, a chunk per invocation
+// with the service key, without recording violations, and scores the findings.
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+  const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+  const supabase = createClient(supabaseUrl, supabaseKey);
+
+  try {
+    const body = await req.json().catch(() => ({}));
+
+    // Worker: continue a run; only this function holds the key to call itself
+    if (req.headers.get('Authorization') === `Bearer ${supabaseKey}`) {
+      if (!body.run_id) throw new HttpError(400, 'run_id is required');
+      EdgeRuntime.waitUntil(
+        processChunk(supabase, body.run_id, () => triggerEvaluationWorker(supabaseUrl, supabaseKey, body.run_id))
+      );
+      return new Response(
+        JSON.stringify({ success: true, run_id: body.run_id }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 202 }
+      );
+    }
+
+    const caller = await requireRole(supabase, req, ['safety_reviewer']);
+    const siteId = body.site_id as string | null;
+    await requireSiteAccess(supabase, caller, siteId);
+
+    const tolerance = body.tolerance_seconds ?? DEFAULT_TOLERANCE_SECONDS;
+    if (typeof tolerance !== 'number' || !(tolerance >= 0 && tolerance <= 60)) {
+      throw new HttpError(400, 'Tolerance must be between 0 and 60 seconds');
+    }
+
+    // Runs that stopped making progress would otherwise block new runs for good
+    const { error: staleError } = await supabase
+      .from('evaluation_runs')
+      .update({
+        status: 'failed',
+        error_message: 'Stopped making progress',
+        finished_at: new Date().toISOString()
+      })
+      .eq('site_id', siteId)
+      .in('status', ['queued', 'running'])
+      .lt('updated_at', new Date(Date.now() - STALE_RUN_MS).toISOString());
+    if (staleError) throw new Error(`Failed to expire stalled runs: ${staleError.message}`);
+
+    const { data: active } = await supabase
+      .from('evaluation_runs')
+      .select('id')
+      .eq('site_id', siteId)
+      .in('status', ['queued', 'running'])
+      .limit(1);
+    if (active?.length) {
+      throw new HttpError(409, 'An evaluation is already running for this site');
+    }
+
+    // Labeled videos that have been uploaded, each with its latest finished analysis
+    const { data: labeled, error: labeledError } = await supabase
+      .from('video_annotations')
+      .select('video_id, videos(original_name)')
+      .eq('site_id', siteId)
+      .not('video_id', 'is', null);
+    if (labeledError) throw new Error(`Failed to load labels: ${labeledError.message}`);
+
+    const names = new Map<string, string>();
+    for (const row of labeled || []) {
+      names.set(row.video_id, (row.videos as { original_name: string } | null)?.original_name ?? row.video_id);
+    }
+    if (names.size === 0) {
+      throw new HttpError(400, 'No labeled videos at this site; import annotations or upload labeled videos first');
+    }
+
+    const { data: jobs, error: jobsError } = await supabase
+      .from('analysis_jobs')
+      .select('id, video_id')
+      .in('video_id', [...names.keys()])
+      .eq('status', 'succeeded')
+      .order('created_at', { ascending: false });
+    if (jobsError) throw new Error(`Failed to load analyses: ${jobsError.message}`);
+
+    const videos: RunVideo[] = [...names.entries()].map(([videoId, videoName]) => ({
+      video_id: videoId,
+      video_name: videoName,
+      job_id: (jobs || []).find((job) => job.video_id === videoId)?.id ?? null
+    }));
+
+    // The caller's effective settings, as analyze-video would use them now
+    const settings = await loadDetectionSettings(supabase, caller.userId, siteId!);
+    const detector = createDetector(settings.detection_method);
+
+    const { data: run, error: runError } = await supabase
+      .from('evaluation_runs')
+      .insert({
+        site_id: siteId,
+        requested_by: caller.userId,
+        status: 'queued',
+        detection_method: settings.detection_method,
+        detector_version: detectorVersion(detector),
+        tolerance_seconds: tolerance,
+        settings,
+        videos,
+        videos_total: videos.length
+      })
+      .select('id')
+      .single();
+    if (runError) throw new Error(`Failed to create evaluation run: ${runError.message}`);
+
+    await triggerEvaluationWorker(supabaseUrl, supabaseKey, run.id);
+    console.log(`Queued evaluation run ${run.id} over ${videos.length} labeled videos`);
+
+    return new Response(
+      JSON.stringify({ success: true, run_id: run.id, videos_total: videos.length }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 202 }
+    );
+
+  } catch (error) {
+    console.error('Error in evaluate-detector function:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+
+    return new Response(
+      JSON.stringify({
+        error: errorMessage,
+        success: false
+      }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: error instanceof HttpError ? error.status : 500
+      }
+    );
+  }
+});
+
+async function processChunk(supabase: SupabaseClient, runId: string, continueRun: () => Promise<void>) {
+  const { data: run, error: runError } = await supabase
+    .from('evaluation_runs')
+    .select('*')
+    .eq('id', runId)
+    .single();
+
+  if (runError || !run) {
+    console.error(`Evaluation run ${runId} not found:`, runError);
+    return;
+  }
+  if (run.status === 'succeeded' || run.status === 'failed') return;
+
+  try {
+    if (run.status === 'queued') {
+      // Claim the run; a duplicate invocation that loses this race stops here
+      const { data: claimed } = await supabase
+        .from('evaluation_runs')
+        .update({ status: 'running', started_at: new Date().toISOString() })
+        .eq('id', runId)
+        .eq('status', 'queued')
+        .select('id');
+      if (!claimed?.length) return;
+    }
+
+    const videos = run.videos as RunVideo[];
+    const results = run.results as VideoEvaluation[];
+    const settings = run.settings as DetectionSettings;
+    const index: number = run.videos_done;
+    const start: number = run.frames_done;
+    let framesFailed: number = run.frames_failed;
+
+    if (index < videos.length) {
+      const video = videos[index];
+      const { data: labels, error: labelsError } = await supabase
+        .from('video_annotations')
+        .select('violation_type, start_seconds, end_seconds')
+        .eq('video_id', video.video_id);
+      if (labelsError) throw new Error(`Failed to load labels: ${labelsError.message}`);
+
+      const result: VideoEvaluation = {
+        ...video,
+        frames: 0,
+        labels: (labels || []).map((label) => ({
+          violation_type: label.violation_type,
+          start_seconds: Number(label.start_seconds),
+          end_seconds: Number(label.end_seconds)
+        })),
+        findings: run.pending_findings as EvaluatedFinding[],
+        scored_times: run.pending_scored_times as number[],
+        failed_times: run.pending_failed_times as number[]
+      };
+
+      let end = start;
+      const job = video.job_id
+        ? (await supabase.from('analysis_jobs').select('frames, params').eq('id', video.job_id).maybeSingle()).data
+        : null;
+      if (!job) {
+        result.skipped = 'Never analyzed, so there are no sampled frames to replay';
+      } else {
+        const frames = (job.frames || []) as FrameTask[];
+        const params = job.params as JobParams;
+        end = Math.min(start + FRAMES_PER_CHUNK, frames.length);
+        result.frames = frames.length;
+        const scored = await scoreFrames(supabase, run.site_id, settings, params, frames.slice(start, end));
+        result.findings = [...result.findings, ...scored.findings];
+        result.scored_times = [...result.scored_times, ...scored.scoredTimes];
+        result.failed_times = [...result.failed_times, ...scored.failedTimes];
+        framesFailed += scored.failedTimes.length;
+        result.frames_failed = framesFailed;
+        if (frames.length === 0) result.skipped = 'The analysis has no sampled frames';
+        else if (framesFailed === frames.length) result.skipped = 'The detector failed on every frame';
+      }
+
+      const videoDone = !job || end >= result.frames;
+      // Progress is only advanced from the values we started with, so a duplicate worker cannot skip
+      // work, and only while the run is running, so a run expired as stalled stays failed
+      const { data: advanced } = await supabase
+        .from('evaluation_runs')
+        .update(videoDone
+          ? {
+              videos_done: index + 1,
+              frames_done: 0,
+              frames_failed: 0,
+              pending_findings: [],
+              pending_scored_times: [],
+              pending_failed_times: [],
+              results: [...results, result]
+            }
+          : {
+              frames_done: end,
+              frames_failed: framesFailed,
+              pending_findings: result.findings,
+              pending_scored_times: result.scored_times,
+              pending_failed_times: result.failed_times
+            })
+        .eq('id', runId)
+        .eq('status', 'running')
+        .eq('videos_done', index)
+        .eq('frames_done', start)
+        .select('id');
+      if (!advanced?.length) {
+        console.warn(`Evaluation run ${runId} progressed elsewhere, stopping this chunk`);
+        return;
+      }
+
+      if (!videoDone || index + 1 < videos.length) {
+        await continueRun();
+        return;
+      }
+      results.push(result);
+    }
+
+    const metrics = summarizeEvaluation(results, Number(run.tolerance_seconds));
+    console.log(`Evaluation run ${runId} complete: F1 ${metrics.overall.f1?.toFixed(3) ?? 'n/a'}`);
+    await supabase
+      .from('evaluation_runs')
+      .update({ status: 'succeeded', metrics, finished_at: new Date().toISOString() })
+      .eq('id', runId)
+      .eq('status', 'running');
+
+  } catch (error) {
+    console.error(`Error processing evaluation run ${runId}:`, error);
+    await supabase
+      .from('evaluation_runs')
+      .update({
+        status: 'failed',
+        error_message: error instanceof Error ? error.message : 'Unknown error occurred',
+        finished_at: new Date().toISOString()
+      })
+      .eq('id', runId);
+  }
+}
+
+// Replays sampled frames of an analysis through the detector and rule engine with the run's
+// settings; nothing is written to violations. A frame the detector fails on is recorded and
+// left out, so one failed request does not fail the run; the scored frame times tell which
+// labels the run could judge.
+async function scoreFrames(
+  supabase: SupabaseClient,
+  siteId: string,
+  settings: DetectionSettings,
+  params: JobParams,
+  frames: FrameTask[]
+): Promise<{ findings: EvaluatedFinding[]; scoredTimes: number[]; failedTimes: number[] }> {
+  const detector = createDetector(settings.detection_method);
+  const { datasets, context: trainingContext } = await loadTrainingContext(supabase, siteId);
+  const findings: EvaluatedFinding[] = [];
+  const scoredTimes: number[] = [];
+  const failedTimes: number[] = [];
+
+  for (const frame of frames) {
+    let image: ArrayBuffer | null = null;
+    let imageMissing = false;
+    if (frame.path && detector) {
+      const { data, error } = await supabase.storage.from('analysis-frames').download(frame.path);
+      if (error || !data) {
+        console.error(`Error downloading frame ${frame.path}:`, error);
+        imageMissing = true;
+      } else {
+        image = await data.arrayBuffer();
+      }
+    }
+
+    try {
+      const frameFindings = await analyzeFrame(
+        { time: frame.time, frameNumber: Math.max(0, Math.round(frame.time * params.fps)), image, detections: frame.detections || [] },
+        {
+          detector: imageMissing ? null : detector,
+          trainingContext,
+          contextPrompt: trainingContext,
+          datasets,
+          thresholds: settings.rule_thresholds,
+          filter: {
+            enabledTypes: settings.enabled_violation_types,
+            confidenceThresholds: settings.confidence_thresholds
+          },
+          frameSize: params.frame_size,
+          fps: params.fps
+        }
+      );
+      for (const finding of frameFindings) {
+        findings.push({ time: frame.time, violation_type: finding.violation_type, confidence: Number(finding.confidence) });
+      }
+      scoredTimes.push(frame.time);
+    } catch (frameError) {
+      console.error(`Error scoring frame at ${frame.time}s:`, frameError);
+      failedTimes.push(frame.time);
+    }
+
+    if (detector?.throttleMs) await new Promise(resolve => setTimeout(resolve, detector.throttleMs));
+  }
+
+  return { findings, scoredTimes, failedTimes };
+}
@@ -0,0 +1,249 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.38.4";
+import {
+  analyzeFrame,
+  loadTrainingContext,
+  VIOLATION_TYPES,
+  type FrameFinding,
+  type FrameTask,
+  type JobParams
+} from "../_shared/analysis.ts";
+import { createDetector } from "../_shared/detectors.ts";
+import { triggerJobWorker } from "../_shared/jobs.ts";
+import { dispatchAlerts, type AlertViolation } from "../_shared/alerts.ts";
+
+declare const EdgeRuntime: { waitUntil(promise: Promise<unknown>): void };
+
+// Frames analysed per invocation; every chunk runs in a fresh request so long
+// videos never hit the edge function wall-clock limit
+const FRAMES_PER_CHUNK = 4;
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+  const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+  // Only analyze-video and the worker itself (both holding the service key) may start chunks
+  if (req.headers.get('Authorization') !== `Bearer ${supabaseKey}`) {
+    return new Response(
+      JSON.stringify({ error: 'Unauthorized', success: false }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 401 }
+    );
+  }
+
+  const { job_id: jobId } = await req.json().catch(() => ({ job_id: null }));
+  if (!jobId) {
+    return new Response(
+      JSON.stringify({ error: 'job_id is required', success: false }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 400 }
+    );
+  }
+
+  const supabase = createClient(supabaseUrl, supabaseKey);
+  EdgeRuntime.waitUntil(
+    processChunk(supabase, jobId, () => triggerJobWorker(supabaseUrl, supabaseKey, jobId))
+  );
+
+  return new Response(
+    JSON.stringify({ success: true, job_id: jobId }),
+    { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 202 }
+  );
+});
+
+async function processChunk(supabase: SupabaseClient, jobId: string, continueJob: () => Promise<void>) {
+  const { data: job, error: jobError } = await supabase
+    .from('analysis_jobs')
+    .select('*')
+    .eq('id', jobId)
+    .single();
+
+  if (jobError || !job) {
+    console.error(`Analysis job ${jobId} not found:`, jobError);
+    return;
+  }
+  if (job.status === 'succeeded' || job.status === 'failed') return;
+
+  const params = job.params as JobParams;
+  const frames = (job.frames || []) as FrameTask[];
+  const VIDEO_FPS = params.fps;
+  const videoStartTime = new Date(job.created_at);
+  // Jobs enqueued before detector backends existed carry no method and use the default
+  const detector = createDetector(params.detection_method);
+  let violationsFound: number = job.violations_found;
+  let framesFailed: number = job.frames_failed ?? 0;
+
+  // Violations belong to the site of their video
+  const { data: video, error: videoError } = await supabase
+    .from('videos')
+    .select('site_id')
+    .eq('id', job.video_id)
+    .single();
+  if (videoError || !video) {
+    console.error(`Video of analysis job ${jobId} not found:`, videoError);
+    return;
+  }
+
+  const insertViolation = async (frameNumber: number, fields: FrameFinding) => {
+    const { data: violation, error } = await supabase
+      .from('violations')
+      .insert({
+        ...fields,
+        source_type: 'video',
+        source_name: params.video_name,
+        video_path: params.video_path,
+        video_id: job.video_id,
+        site_id: video.site_id,
+        job_id: job.id,
+        frame_number: frameNumber,
+        detected_at: new Date(videoStartTime.getTime() + ((frameNumber / VIDEO_FPS) * 1000)).toISOString()
+      })
+      .select('*')
+      .single();
+    if (error) {
+      console.error('Error inserting violation:', error);
+      return;
+    }
+    violationsFound++;
+    await dispatchAlerts(supabase, [violation as AlertViolation]);
+  };
+
+  try {
+    const { datasets, context: trainingContext } = await loadTrainingContext(supabase, video.site_id);
+
+    if (job.status === 'queued') {
+      // Claim the job; a duplicate invocation that loses this race stops here
+      const { data: claimed } = await supabase
+        .from('analysis_jobs')
+        .update({ status: 'running', phase: 'frames', started_at: new Date().toISOString() })
+        .eq('id', jobId)
+        .eq('status', 'queued')
+        .select('id');
+      if (!claimed?.length) return;
+
+      await supabase
+        .from('videos')
+        .update({ status: 'processing' })
+        .eq('id', job.video_id);
+    }
+
+    // Rule engine and detector, one chunk of frames per invocation. Labels read from the
+    // file name are ground truth (video_annotations) and are kept out of the prompts.
+    const contextPrompt = trainingContext || '';
+
+    const start: number = job.frames_done;
+    const end = Math.min(start + FRAMES_PER_CHUNK, frames.length);
+
+    for (let i = start; i < end; i++) {
+      const frame = frames[i];
+      const frameNumber = Math.max(0, Math.round(frame.time * VIDEO_FPS));
+
+      let image: ArrayBuffer | null = null;
+      let imageMissing = false;
+      if (frame.path && detector) {
+        const { data, error: imageError } = await supabase.storage
+          .from('analysis-frames')
+          .download(frame.path);
+        if (imageError || !data) {
+          console.error(`Error downloading frame ${frame.path}:`, imageError);
+          imageMissing = true;
+        } else {
+          image = await data.arrayBuffer();
+        }
+      }
+
+      let findings: FrameFinding[] = [];
+      try {
+        findings = await analyzeFrame(
+          { time: frame.time, frameNumber, image, detections: frame.detections || [] },
+          {
+            // A frame whose image was lost is not sent to the detector position-only
+            detector: imageMissing ? null : detector,
+            trainingContext,
+            contextPrompt,
+            datasets,
+            thresholds: params.rule_thresholds,
+            filter: {
+              enabledTypes: params.enabled_violation_types ?? VIOLATION_TYPES,
+              confidenceThresholds: params.confidence_thresholds ?? {}
+            },
+            frameSize: params.frame_size,
+            fps: VIDEO_FPS
+          }
+        );
+      } catch (frameError) {
+        // One failed detector request skips its frame instead of failing the whole job
+        console.error(`Error analyzing frame ${i} of job ${jobId}:`, frameError);
+        framesFailed++;
+      }
+      for (const finding of findings) {
+        await insertViolation(frameNumber, finding);
+      }
+
+      // Small delay to avoid the backend's rate limits
+      if (detector?.throttleMs) await new Promise(resolve => setTimeout(resolve, detector.throttleMs));
+
+      // Progress is only advanced from the value we started with, so a duplicate worker cannot skip frames
+      const { data: advanced } = await supabase
+        .from('analysis_jobs')
+        .update({ frames_done: i + 1, violations_found: violationsFound, frames_failed: framesFailed })
+        .eq('id', jobId)
+        .eq('frames_done', i)
+        .select('id');
+      if (!advanced?.length) {
+        console.warn(`Job ${jobId} progressed elsewhere, stopping this chunk`);
+        return;
+      }
+    }
+
+    if (end < frames.length) {
+      await continueJob();
+      return;
+    }
+
+    if (frames.length > 0 && framesFailed === frames.length) {
+      throw new Error('The detector failed on every frame');
+    }
+    console.log(`Analysis complete. Found ${violationsFound} violations, ${framesFailed} frames failed.`);
+
+    await supabase
+      .from('analysis_jobs')
+      .update({
+        status: 'succeeded',
+        phase: 'done',
+        violations_found: violationsFound,
+        finished_at: new Date().toISOString()
+      })
+      .eq('id', jobId);
+    await supabase
+      .from('videos')
+      .update({ status: 'analyzed' })
+      .eq('id', job.video_id);
+
+  } catch (error) {
+    console.error(`Error processing analysis job ${jobId}:`, error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+
+    await supabase
+      .from('analysis_jobs')
+      .update({
+        status: 'failed',
+        phase: 'failed',
+        violations_found: violationsFound,
+        error_message: errorMessage,
+        finished_at: new Date().toISOString()
+      })
+      .eq('id', jobId);
+    await supabase
+      .from('videos')
+      .update({ status: 'failed' })
+      .eq('id', job.video_id);
+  }
+}
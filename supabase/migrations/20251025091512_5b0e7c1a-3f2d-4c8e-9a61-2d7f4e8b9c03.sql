@@ -0,0 +1,43 @@
+-- Create videos table holding container metadata probed at upload
+CREATE TABLE public.videos (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  storage_path TEXT NOT NULL UNIQUE,
+  original_name TEXT NOT NULL,
+  uploaded_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  fps NUMERIC,
+  fps_source TEXT NOT NULL DEFAULT 'default', -- 'container' or 'default'
+  duration_seconds NUMERIC,
+  width INTEGER,
+  height INTEGER,
+  codec TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE public.videos ENABLE ROW LEVEL SECURITY;
+
+-- RLS policies
+CREATE POLICY "Authenticated users can view videos"
+ON public.videos
+FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Users can insert their own videos"
+ON public.videos
+FOR INSERT
+TO authenticated
+WITH CHECK (uploaded_by = auth.uid());
+
+CREATE POLICY "Users can update their own videos"
+ON public.videos
+FOR UPDATE
+TO authenticated
+USING (uploaded_by = auth.uid());
+
+-- Add trigger for updated_at
+CREATE TRIGGER update_videos_updated_at
+  BEFORE UPDATE ON public.videos
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_models_updated_at();
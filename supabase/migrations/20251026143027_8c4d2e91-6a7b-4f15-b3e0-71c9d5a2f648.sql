@@ -0,0 +1,69 @@
+-- Extend videos with upload details and processing status
+ALTER TABLE public.videos
+  ADD COLUMN IF NOT EXISTS size_bytes BIGINT,
+  ADD COLUMN IF NOT EXISTS mime_type TEXT,
+  ADD COLUMN IF NOT EXISTS checksum TEXT, -- sha256 hex of the uploaded file
+  ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'uploaded'
+    CHECK (status IN ('uploaded', 'processing', 'analyzed', 'failed'));
+
+CREATE INDEX IF NOT EXISTS videos_created_at_idx ON public.videos (created_at DESC);
+CREATE INDEX IF NOT EXISTS videos_checksum_idx ON public.videos (checksum);
+
+-- Create table to track analysis runs per video
+CREATE TABLE public.analysis_jobs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  video_id UUID NOT NULL REFERENCES public.videos(id) ON DELETE CASCADE,
+  requested_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  status TEXT NOT NULL DEFAULT 'queued'
+    CHECK (status IN ('queued', 'running', 'succeeded', 'failed')),
+  detector_version TEXT,
+  violations_found INTEGER NOT NULL DEFAULT 0,
+  error_message TEXT,
+  started_at TIMESTAMP WITH TIME ZONE,
+  finished_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+CREATE INDEX analysis_jobs_video_id_idx ON public.analysis_jobs (video_id, created_at DESC);
+
+-- Enable RLS
+ALTER TABLE public.analysis_jobs ENABLE ROW LEVEL SECURITY;
+
+-- Jobs are written by the analyze-video function (service role); users only read them
+CREATE POLICY "Authenticated users can view analysis jobs"
+ON public.analysis_jobs
+FOR SELECT
+TO authenticated
+USING (true);
+
+-- Add trigger for updated_at
+CREATE TRIGGER update_analysis_jobs_updated_at
+  BEFORE UPDATE ON public.analysis_jobs
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_models_updated_at();
+
+-- Link violations to the video and the job that produced them
+ALTER TABLE public.violations
+  ADD COLUMN IF NOT EXISTS video_id UUID REFERENCES public.videos(id) ON DELETE CASCADE,
+  ADD COLUMN IF NOT EXISTS job_id UUID REFERENCES public.analysis_jobs(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS violations_video_id_idx ON public.violations (video_id);
+
+-- Backfill video records for violations created before this migration
+INSERT INTO public.videos (storage_path, original_name, status, created_at)
+SELECT DISTINCT ON (video_path) video_path, source_name, 'analyzed', created_at
+FROM public.violations
+WHERE video_path IS NOT NULL
+ORDER BY video_path, created_at
+ON CONFLICT (storage_path) DO NOTHING;
+
+UPDATE public.violations v
+SET video_id = vid.id
+FROM public.videos vid
+WHERE v.video_id IS NULL
+  AND v.video_path = vid.storage_path;
+
+-- Stream status changes to the Logs page
+ALTER PUBLICATION supabase_realtime ADD TABLE public.videos;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.analysis_jobs;
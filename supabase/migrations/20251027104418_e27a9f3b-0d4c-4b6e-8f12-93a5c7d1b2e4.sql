@@ -0,0 +1,20 @@
+-- Track chunked progress of background analysis jobs
+ALTER TABLE public.analysis_jobs
+  ADD COLUMN IF NOT EXISTS phase TEXT NOT NULL DEFAULT 'queued', -- queued, filename, frames, done, failed
+  ADD COLUMN IF NOT EXISTS frames_total INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS frames_done INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS frames JSONB NOT NULL DEFAULT '[]'::jsonb, -- [{ time, path, detections }]
+  ADD COLUMN IF NOT EXISTS params JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+CREATE INDEX IF NOT EXISTS analysis_jobs_requested_by_idx ON public.analysis_jobs (requested_by, created_at DESC);
+
+-- Private bucket for the sampled frames the worker analyses after the upload request returns
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'analysis-frames',
+  'analysis-frames',
+  false,
+  10485760, -- 10MB limit
+  ARRAY['image/jpeg']
+)
+ON CONFLICT (id) DO NOTHING;
@@ -0,0 +1,6 @@
+-- Allow multi-gigabyte shift recordings uploaded through resumable (TUS) uploads
+UPDATE storage.buckets
+SET
+  file_size_limit = 5368709120, -- 5GB limit
+  allowed_mime_types = ARRAY['video/mp4', 'video/avi', 'video/mov', 'video/quicktime', 'video/x-msvideo']
+WHERE id = 'videos';
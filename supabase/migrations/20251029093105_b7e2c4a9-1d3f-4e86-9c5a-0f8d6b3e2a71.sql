@@ -0,0 +1,106 @@
+-- Aggregates behind the safety analytics dashboard, computed in the database so the
+-- client never has to download the violations of a whole period.
+-- SECURITY INVOKER: the caller's RLS policies on violations and videos still apply.
+CREATE OR REPLACE FUNCTION public.violation_stats(
+  p_from TIMESTAMP WITH TIME ZONE,
+  p_to TIMESTAMP WITH TIME ZONE,
+  p_bucket TEXT DEFAULT 'day'
+)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH scoped AS (
+    SELECT
+      v.id,
+      v.violation_type,
+      v.confidence,
+      v.detected_at,
+      v.source_type,
+      v.source_name,
+      v.video_id,
+      COALESCE(v.metadata->>'severity', 'unknown') AS severity,
+      COALESCE(v.metadata->>'detection_method', 'unknown') AS detection_method
+    FROM public.violations v
+    WHERE v.detected_at >= p_from
+      AND v.detected_at < p_to
+  )
+  SELECT jsonb_build_object(
+    'total', (SELECT count(*) FROM scoped),
+    'critical', (SELECT count(*) FROM scoped WHERE severity = 'critical'),
+    'videos', (SELECT count(DISTINCT video_id) FROM scoped WHERE video_id IS NOT NULL),
+    'over_time', COALESCE((
+      SELECT jsonb_agg(t ORDER BY t.bucket)
+      FROM (
+        SELECT
+          date_trunc(CASE WHEN p_bucket IN ('hour', 'day', 'week', 'month') THEN p_bucket ELSE 'day' END, detected_at) AS bucket,
+          violation_type,
+          severity,
+          count(*) AS count
+        FROM scoped
+        GROUP BY 1, 2, 3
+      ) t
+    ), '[]'::jsonb),
+    'by_video', COALESCE((
+      SELECT jsonb_agg(t ORDER BY t.count DESC)
+      FROM (
+        SELECT s.video_id, COALESCE(vid.original_name, s.source_name) AS name, count(*) AS count
+        FROM scoped s
+        LEFT JOIN public.videos vid ON vid.id = s.video_id
+        WHERE s.source_type = 'video'
+        GROUP BY 1, 2
+        ORDER BY count(*) DESC
+        LIMIT 15
+      ) t
+    ), '[]'::jsonb),
+    'by_camera', COALESCE((
+      SELECT jsonb_agg(t ORDER BY t.count DESC)
+      FROM (
+        SELECT source_name AS name, count(*) AS count
+        FROM scoped
+        WHERE source_type = 'camera'
+        GROUP BY 1
+        ORDER BY count(*) DESC
+        LIMIT 15
+      ) t
+    ), '[]'::jsonb),
+    'confidence', COALESCE((
+      SELECT jsonb_agg(t ORDER BY t.bucket)
+      FROM (
+        -- Ten buckets of 10 percentage points; 100% falls into the last one
+        SELECT LEAST(floor(confidence * 10), 9)::int AS bucket, count(*) AS count
+        FROM scoped
+        GROUP BY 1
+      ) t
+    ), '[]'::jsonb),
+    'by_method', COALESCE((
+      SELECT jsonb_agg(t ORDER BY t.count DESC)
+      FROM (
+        SELECT detection_method, count(*) AS count
+        FROM scoped
+        GROUP BY 1
+      ) t
+    ), '[]'::jsonb),
+    'top_hazards', COALESCE((
+      SELECT jsonb_agg(t ORDER BY t.count DESC)
+      FROM (
+        SELECT
+          violation_type,
+          count(*) AS count,
+          count(*) FILTER (WHERE severity = 'critical') AS critical,
+          count(DISTINCT COALESCE(video_id::text, source_name)) AS sources,
+          count(DISTINCT detected_at::date) AS days,
+          round(avg(confidence)::numeric, 3) AS avg_confidence,
+          max(detected_at) AS last_seen
+        FROM scoped
+        GROUP BY 1
+        ORDER BY count(*) DESC
+        LIMIT 10
+      ) t
+    ), '[]'::jsonb)
+  );
+$$;
+
+-- Period filters of the dashboard scan violations by detected_at
+CREATE INDEX IF NOT EXISTS violations_detected_at_idx ON public.violations (detected_at DESC, id DESC);
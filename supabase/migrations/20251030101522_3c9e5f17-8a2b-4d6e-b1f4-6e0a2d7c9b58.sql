@@ -0,0 +1,157 @@
+-- Human review of detections: safety officers confirm, reject or reclassify each violation
+ALTER TABLE public.violations
+  ADD COLUMN IF NOT EXISTS review_status TEXT NOT NULL DEFAULT 'unreviewed'
+    CHECK (review_status IN ('unreviewed', 'confirmed', 'false_positive', 'reclassified')),
+  ADD COLUMN IF NOT EXISTS review_note TEXT,
+  ADD COLUMN IF NOT EXISTS reviewed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS reviewed_at TIMESTAMP WITH TIME ZONE,
+  -- Type reported by the detector, kept when a reviewer reclassifies the violation
+  ADD COLUMN IF NOT EXISTS original_violation_type TEXT;
+
+CREATE INDEX IF NOT EXISTS violations_review_status_idx ON public.violations (review_status, detected_at DESC);
+
+-- Reviewer and time come from the session, never from the client
+CREATE OR REPLACE FUNCTION public.record_violation_review()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.review_status IS DISTINCT FROM OLD.review_status
+     OR NEW.review_note IS DISTINCT FROM OLD.review_note
+     OR NEW.violation_type IS DISTINCT FROM OLD.violation_type THEN
+    NEW.reviewed_by = auth.uid();
+    NEW.reviewed_at = now();
+  ELSE
+    NEW.reviewed_by = OLD.reviewed_by;
+    NEW.reviewed_at = OLD.reviewed_at;
+  END IF;
+
+  IF NEW.violation_type IS DISTINCT FROM OLD.violation_type THEN
+    NEW.original_violation_type = COALESCE(OLD.original_violation_type, OLD.violation_type);
+    NEW.review_status = 'reclassified';
+  ELSE
+    NEW.original_violation_type = OLD.original_violation_type;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER record_violation_review
+BEFORE UPDATE ON public.violations
+FOR EACH ROW
+EXECUTE FUNCTION public.record_violation_review();
+
+CREATE POLICY "Authenticated users can review violations"
+ON public.violations
+FOR UPDATE
+TO authenticated
+USING (true)
+WITH CHECK (true);
+
+-- Detections are evidence: from the client only the review itself can change. Reviewer and
+-- review time are stamped by the trigger above; a reclassification keeps the detected type
+-- in original_violation_type.
+REVOKE UPDATE ON public.violations FROM anon, authenticated;
+GRANT UPDATE (review_status, review_note, violation_type) ON public.violations TO authenticated;
+
+-- Detections rejected in review no longer count towards the dashboard
+CREATE OR REPLACE FUNCTION public.violation_stats(
+  p_from TIMESTAMP WITH TIME ZONE,
+  p_to TIMESTAMP WITH TIME ZONE,
+  p_bucket TEXT DEFAULT 'day'
+)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH scoped AS (
+    SELECT
+      v.id,
+      v.violation_type,
+      v.confidence,
+      v.detected_at,
+      v.source_type,
+      v.source_name,
+      v.video_id,
+      COALESCE(v.metadata->>'severity', 'unknown') AS severity,
+      COALESCE(v.metadata->>'detection_method', 'unknown') AS detection_method
+    FROM public.violations v
+    WHERE v.detected_at >= p_from
+      AND v.detected_at < p_to
+      AND v.review_status <> 'false_positive'
+  )
+  SELECT jsonb_build_object(
+    'total', (SELECT count(*) FROM scoped),
+    'critical', (SELECT count(*) FROM scoped WHERE severity = 'critical'),
+    'videos', (SELECT count(DISTINCT video_id) FROM scoped WHERE video_id IS NOT NULL),
+    'over_time', COALESCE((
+      SELECT jsonb_agg(t ORDER BY t.bucket)
+      FROM (
+        SELECT
+          date_trunc(CASE WHEN p_bucket IN ('hour', 'day', 'week', 'month') THEN p_bucket ELSE 'day' END, detected_at) AS bucket,
+          violation_type,
+          severity,
+          count(*) AS count
+        FROM scoped
+        GROUP BY 1, 2, 3
+      ) t
+    ), '[]'::jsonb),
+    'by_video', COALESCE((
+      SELECT jsonb_agg(t ORDER BY t.count DESC)
+      FROM (
+        SELECT s.video_id, COALESCE(vid.original_name, s.source_name) AS name, count(*) AS count
+        FROM scoped s
+        LEFT JOIN public.videos vid ON vid.id = s.video_id
+        WHERE s.source_type = 'video'
+        GROUP BY 1, 2
+        ORDER BY count(*) DESC
+        LIMIT 15
+      ) t
+    ), '[]'::jsonb),
+    'by_camera', COALESCE((
+      SELECT jsonb_agg(t ORDER BY t.count DESC)
+      FROM (
+        SELECT source_name AS name, count(*) AS count
+        FROM scoped
+        WHERE source_type = 'camera'
+        GROUP BY 1
+        ORDER BY count(*) DESC
+        LIMIT 15
+      ) t
+    ), '[]'::jsonb),
+    'confidence', COALESCE((
+      SELECT jsonb_agg(t ORDER BY t.bucket)
+      FROM (
+        -- Ten buckets of 10 percentage points; 100% falls into the last one
+        SELECT LEAST(floor(confidence * 10), 9)::int AS bucket, count(*) AS count
+        FROM scoped
+        GROUP BY 1
+      ) t
+    ), '[]'::jsonb),
+    'by_method', COALESCE((
+      SELECT jsonb_agg(t ORDER BY t.count DESC)
+      FROM (
+        SELECT detection_method, count(*) AS count
+        FROM scoped
+        GROUP BY 1
+      ) t
+    ), '[]'::jsonb),
+    'top_hazards', COALESCE((
+      SELECT jsonb_agg(t ORDER BY t.count DESC)
+      FROM (
+        SELECT
+          violation_type,
+          count(*) AS count,
+          count(*) FILTER (WHERE severity = 'critical') AS critical,
+          count(DISTINCT COALESCE(video_id::text, source_name)) AS sources,
+          count(DISTINCT detected_at::date) AS days,
+          round(avg(confidence)::numeric, 3) AS avg_confidence,
+          max(detected_at) AS last_seen
+        FROM scoped
+        GROUP BY 1
+        ORDER BY count(*) DESC
+        LIMIT 10
+      ) t
+    ), '[]'::jsonb)
+  );
+$$;
@@ -0,0 +1,106 @@
+-- Append-only audit trail of changes to violations, models/datasets and detection settings
+CREATE TABLE public.audit_log (
+  id BIGINT GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+  table_name TEXT NOT NULL,
+  record_id UUID,
+  action TEXT NOT NULL CHECK (action IN ('INSERT', 'UPDATE', 'DELETE')),
+  -- No foreign key: entries must outlive the user accounts they mention
+  actor_id UUID,
+  actor_email TEXT,
+  actor_role TEXT, -- 'authenticated', or 'service_role' for edge functions
+  old_data JSONB,
+  new_data JSONB,
+  changed_fields TEXT[] NOT NULL DEFAULT '{}',
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX audit_log_created_at_idx ON public.audit_log (created_at DESC, id DESC);
+CREATE INDEX audit_log_record_idx ON public.audit_log (table_name, record_id, created_at DESC);
+CREATE INDEX audit_log_actor_idx ON public.audit_log (actor_id, created_at DESC);
+
+-- Enable RLS
+ALTER TABLE public.audit_log ENABLE ROW LEVEL SECURITY;
+
+-- Entries are only written by the audit trigger; there are no insert, update or delete policies
+CREATE POLICY "Authenticated users can view the audit log"
+ON public.audit_log
+FOR SELECT
+TO authenticated
+USING (true);
+
+REVOKE INSERT, UPDATE, DELETE, TRUNCATE ON public.audit_log FROM anon, authenticated, service_role;
+
+-- Guard against changes from roles that bypass RLS and grants (e.g. the table owner)
+CREATE OR REPLACE FUNCTION public.prevent_audit_log_changes()
+RETURNS TRIGGER AS $$
+BEGIN
+  RAISE EXCEPTION 'audit_log is append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER prevent_audit_log_update_delete
+BEFORE UPDATE OR DELETE ON public.audit_log
+FOR EACH ROW
+EXECUTE FUNCTION public.prevent_audit_log_changes();
+
+CREATE TRIGGER prevent_audit_log_truncate
+BEFORE TRUNCATE ON public.audit_log
+FOR EACH STATEMENT
+EXECUTE FUNCTION public.prevent_audit_log_changes();
+
+-- Records one audit entry per changed row; the actor comes from the request JWT
+CREATE OR REPLACE FUNCTION public.record_audit_entry()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  old_row JSONB := CASE WHEN TG_OP IN ('UPDATE', 'DELETE') THEN to_jsonb(OLD) END;
+  new_row JSONB := CASE WHEN TG_OP IN ('INSERT', 'UPDATE') THEN to_jsonb(NEW) END;
+  changed TEXT[] := '{}';
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    SELECT COALESCE(array_agg(n.key ORDER BY n.key), '{}')
+    INTO changed
+    FROM jsonb_each(new_row) n
+    WHERE n.value IS DISTINCT FROM old_row->n.key
+      AND n.key <> 'updated_at';
+
+    -- Nothing but the timestamp changed
+    IF cardinality(changed) = 0 THEN
+      RETURN NULL;
+    END IF;
+  END IF;
+
+  INSERT INTO public.audit_log (table_name, record_id, action, actor_id, actor_email, actor_role, old_data, new_data, changed_fields)
+  VALUES (
+    TG_TABLE_NAME,
+    (COALESCE(new_row, old_row)->>'id')::uuid,
+    TG_OP,
+    auth.uid(),
+    auth.jwt()->>'email',
+    COALESCE(auth.jwt()->>'role', current_user),
+    old_row,
+    new_row,
+    changed
+  );
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER audit_violations
+AFTER INSERT OR UPDATE OR DELETE ON public.violations
+FOR EACH ROW
+EXECUTE FUNCTION public.record_audit_entry();
+
+CREATE TRIGGER audit_models
+AFTER INSERT OR UPDATE OR DELETE ON public.models
+FOR EACH ROW
+EXECUTE FUNCTION public.record_audit_entry();
+
+CREATE TRIGGER audit_detection_settings
+AFTER INSERT OR UPDATE OR DELETE ON public.detection_settings
+FOR EACH ROW
+EXECUTE FUNCTION public.record_audit_entry();
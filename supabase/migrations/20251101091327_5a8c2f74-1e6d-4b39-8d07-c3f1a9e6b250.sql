@@ -0,0 +1,197 @@
+-- Role-based access control: viewer < operator / safety_reviewer < admin
+-- viewer: read-only; operator: upload and analyze videos; safety_reviewer: review violations
+-- and read the audit log; admin: everything, including deletions, datasets and user roles.
+CREATE TABLE public.profiles (
+  id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  email TEXT,
+  role TEXT NOT NULL DEFAULT 'viewer'
+    CHECK (role IN ('viewer', 'operator', 'safety_reviewer', 'admin')),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE public.profiles ENABLE ROW LEVEL SECURITY;
+
+-- Add trigger for updated_at
+CREATE TRIGGER update_profiles_updated_at
+  BEFORE UPDATE ON public.profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_models_updated_at();
+
+-- Role of the signed-in user. SECURITY DEFINER so policies on profiles itself can use it.
+CREATE OR REPLACE FUNCTION public.current_user_role()
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT role FROM public.profiles WHERE id = auth.uid();
+$$;
+
+-- True when the signed-in user has one of `roles`; admins pass every check
+CREATE OR REPLACE FUNCTION public.has_role(VARIADIC roles TEXT[])
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(public.current_user_role() = 'admin' OR public.current_user_role() = ANY (roles), false);
+$$;
+
+CREATE POLICY "Users can view their own profile"
+ON public.profiles
+FOR SELECT
+TO authenticated
+USING (id = auth.uid() OR public.has_role('admin'));
+
+CREATE POLICY "Admins can change roles"
+ON public.profiles
+FOR UPDATE
+TO authenticated
+USING (public.has_role('admin'))
+WITH CHECK (public.has_role('admin'));
+
+-- An organisation must never lose its last admin
+CREATE OR REPLACE FUNCTION public.keep_last_admin()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF OLD.role = 'admin' AND NEW.role <> 'admin'
+     AND NOT EXISTS (SELECT 1 FROM public.profiles WHERE role = 'admin' AND id <> OLD.id) THEN
+    RAISE EXCEPTION 'Cannot remove the last admin';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER keep_last_admin
+BEFORE UPDATE OF role ON public.profiles
+FOR EACH ROW
+EXECUTE FUNCTION public.keep_last_admin();
+
+-- Every new account starts as a viewer until an admin grants more
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.profiles (id, email)
+  VALUES (NEW.id, NEW.email)
+  ON CONFLICT (id) DO NOTHING;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER on_auth_user_created
+AFTER INSERT ON auth.users
+FOR EACH ROW
+EXECUTE FUNCTION public.handle_new_user();
+
+-- Existing accounts keep working as operators; the oldest account becomes the first admin
+INSERT INTO public.profiles (id, email, role)
+SELECT
+  u.id,
+  u.email,
+  CASE WHEN row_number() OVER (ORDER BY u.created_at) = 1 THEN 'admin' ELSE 'operator' END
+FROM auth.users u
+ON CONFLICT (id) DO NOTHING;
+
+-- Violations: deleting is reserved to admins, reviewing to safety reviewers. The column
+-- grants of the review migration still limit reviewers to the review columns.
+DROP POLICY IF EXISTS "Authenticated users can delete violations" ON public.violations;
+DROP POLICY IF EXISTS "Authenticated users can review violations" ON public.violations;
+
+CREATE POLICY "Admins can delete violations"
+ON public.violations
+FOR DELETE
+TO authenticated
+USING (public.has_role('admin'));
+
+CREATE POLICY "Safety reviewers can review violations"
+ON public.violations
+FOR UPDATE
+TO authenticated
+USING (public.has_role('safety_reviewer'))
+WITH CHECK (public.has_role('safety_reviewer'));
+
+-- Models and datasets influence everyone's detections: only admins manage them
+DROP POLICY IF EXISTS "Authenticated users can insert models" ON public.models;
+DROP POLICY IF EXISTS "Users can update their own models" ON public.models;
+DROP POLICY IF EXISTS "Users can delete their own models" ON public.models;
+
+CREATE POLICY "Admins can insert models"
+ON public.models
+FOR INSERT
+TO authenticated
+WITH CHECK (public.has_role('admin') AND uploaded_by = auth.uid());
+
+CREATE POLICY "Admins can update models"
+ON public.models
+FOR UPDATE
+TO authenticated
+USING (public.has_role('admin'));
+
+CREATE POLICY "Admins can delete models"
+ON public.models
+FOR DELETE
+TO authenticated
+USING (public.has_role('admin'));
+
+-- The audit log is evidence for investigations, not for everyone
+DROP POLICY IF EXISTS "Authenticated users can view the audit log" ON public.audit_log;
+
+CREATE POLICY "Safety reviewers can view the audit log"
+ON public.audit_log
+FOR SELECT
+TO authenticated
+USING (public.has_role('safety_reviewer'));
+
+-- Storage: the videos bucket was writable by anyone, the models bucket by any user
+DROP POLICY IF EXISTS "Anyone can upload videos" ON storage.objects;
+DROP POLICY IF EXISTS "Anyone can update videos" ON storage.objects;
+DROP POLICY IF EXISTS "Anyone can delete videos" ON storage.objects;
+DROP POLICY IF EXISTS "Authenticated users can upload models" ON storage.objects;
+DROP POLICY IF EXISTS "Authenticated users can update models" ON storage.objects;
+DROP POLICY IF EXISTS "Authenticated users can delete models" ON storage.objects;
+
+CREATE POLICY "Operators can upload videos"
+ON storage.objects
+FOR INSERT
+TO authenticated
+WITH CHECK (bucket_id = 'videos' AND public.has_role('operator'));
+
+-- Only the uploader's own objects, so an operator cannot overwrite someone else's footage
+CREATE POLICY "Operators can update videos"
+ON storage.objects
+FOR UPDATE
+TO authenticated
+USING (bucket_id = 'videos' AND public.has_role('operator') AND owner_id = auth.uid()::text)
+WITH CHECK (bucket_id = 'videos' AND public.has_role('operator') AND owner_id = auth.uid()::text);
+
+CREATE POLICY "Admins can delete videos"
+ON storage.objects
+FOR DELETE
+TO authenticated
+USING (bucket_id = 'videos' AND public.has_role('admin'));
+
+CREATE POLICY "Admins can upload models"
+ON storage.objects
+FOR INSERT
+TO authenticated
+WITH CHECK (bucket_id = 'models' AND public.has_role('admin'));
+
+CREATE POLICY "Admins can update models"
+ON storage.objects
+FOR UPDATE
+TO authenticated
+USING (bucket_id = 'models' AND public.has_role('admin'));
+
+CREATE POLICY "Admins can delete models"
+ON storage.objects
+FOR DELETE
+TO authenticated
+USING (bucket_id = 'models' AND public.has_role('admin'));
@@ -0,0 +1,502 @@
+-- Multi-site tenancy: organizations own sites, and every video, violation and dataset
+-- belongs to one site. Users see the sites they are members of; org admins see every
+-- site of their organization.
+CREATE TABLE public.organizations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+CREATE TABLE public.sites (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  location TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  UNIQUE (organization_id, name)
+);
+
+CREATE TABLE public.site_members (
+  site_id UUID NOT NULL REFERENCES public.sites(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  PRIMARY KEY (site_id, user_id)
+);
+
+CREATE INDEX site_members_user_id_idx ON public.site_members (user_id);
+
+-- Add triggers for updated_at
+CREATE TRIGGER update_organizations_updated_at
+  BEFORE UPDATE ON public.organizations
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_models_updated_at();
+
+CREATE TRIGGER update_sites_updated_at
+  BEFORE UPDATE ON public.sites
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_models_updated_at();
+
+-- The role of a profile (014) applies within its organization: admins are org admins
+ALTER TABLE public.profiles
+  ADD COLUMN IF NOT EXISTS organization_id UUID REFERENCES public.organizations(id) ON DELETE SET NULL;
+
+ALTER TABLE public.videos
+  ADD COLUMN IF NOT EXISTS site_id UUID REFERENCES public.sites(id) ON DELETE RESTRICT;
+ALTER TABLE public.violations
+  ADD COLUMN IF NOT EXISTS site_id UUID REFERENCES public.sites(id) ON DELETE RESTRICT;
+ALTER TABLE public.models
+  ADD COLUMN IF NOT EXISTS site_id UUID REFERENCES public.sites(id) ON DELETE RESTRICT;
+
+CREATE INDEX IF NOT EXISTS videos_site_id_idx ON public.videos (site_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS violations_site_id_idx ON public.violations (site_id, detected_at DESC, id DESC);
+CREATE INDEX IF NOT EXISTS models_site_id_idx ON public.models (site_id);
+
+-- Everything that exists today belongs to one organization with one site
+DO $$
+DECLARE
+  org_id UUID;
+  default_site_id UUID;
+BEGIN
+  INSERT INTO public.organizations (name) VALUES ('Default organization') RETURNING id INTO org_id;
+  INSERT INTO public.sites (organization_id, name) VALUES (org_id, 'Default site') RETURNING id INTO default_site_id;
+
+  UPDATE public.profiles SET organization_id = org_id WHERE organization_id IS NULL;
+  INSERT INTO public.site_members (site_id, user_id)
+  SELECT default_site_id, id FROM public.profiles
+  ON CONFLICT DO NOTHING;
+
+  UPDATE public.videos SET site_id = default_site_id WHERE site_id IS NULL;
+  UPDATE public.violations SET site_id = default_site_id WHERE site_id IS NULL;
+  UPDATE public.models SET site_id = default_site_id WHERE site_id IS NULL;
+END;
+$$;
+
+ALTER TABLE public.videos ALTER COLUMN site_id SET NOT NULL;
+ALTER TABLE public.violations ALTER COLUMN site_id SET NOT NULL;
+ALTER TABLE public.models ALTER COLUMN site_id SET NOT NULL;
+
+-- Access checks. The user variant is also called by edge functions, which run as the
+-- service role and have no auth.uid().
+CREATE OR REPLACE FUNCTION public.user_can_access_site(p_user UUID, p_site UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.site_members WHERE site_id = p_site AND user_id = p_user
+  ) OR EXISTS (
+    SELECT 1
+    FROM public.profiles p
+    JOIN public.sites s ON s.organization_id = p.organization_id
+    WHERE p.id = p_user AND p.role = 'admin' AND s.id = p_site
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION public.can_access_site(p_site UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.user_can_access_site(auth.uid(), p_site);
+$$;
+
+CREATE OR REPLACE FUNCTION public.current_organization_id()
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT organization_id FROM public.profiles WHERE id = auth.uid();
+$$;
+
+-- Enable RLS
+ALTER TABLE public.organizations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.sites ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.site_members ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view their organization"
+ON public.organizations
+FOR SELECT
+TO authenticated
+USING (id = public.current_organization_id());
+
+CREATE POLICY "Org admins can rename their organization"
+ON public.organizations
+FOR UPDATE
+TO authenticated
+USING (id = public.current_organization_id() AND public.has_role('admin'));
+
+CREATE POLICY "Members can view their sites"
+ON public.sites
+FOR SELECT
+TO authenticated
+USING (public.can_access_site(id));
+
+CREATE POLICY "Org admins can create sites"
+ON public.sites
+FOR INSERT
+TO authenticated
+WITH CHECK (organization_id = public.current_organization_id() AND public.has_role('admin'));
+
+CREATE POLICY "Org admins can update sites"
+ON public.sites
+FOR UPDATE
+TO authenticated
+USING (organization_id = public.current_organization_id() AND public.has_role('admin'));
+
+CREATE POLICY "Users can view their memberships"
+ON public.site_members
+FOR SELECT
+TO authenticated
+USING (user_id = auth.uid() OR (public.has_role('admin') AND public.can_access_site(site_id)));
+
+CREATE POLICY "Org admins can add site members"
+ON public.site_members
+FOR INSERT
+TO authenticated
+WITH CHECK (public.has_role('admin') AND public.can_access_site(site_id));
+
+CREATE POLICY "Org admins can remove site members"
+ON public.site_members
+FOR DELETE
+TO authenticated
+USING (public.has_role('admin') AND public.can_access_site(site_id));
+
+-- Admins manage the users of their own organization, plus new accounts not yet in one
+DROP POLICY IF EXISTS "Users can view their own profile" ON public.profiles;
+DROP POLICY IF EXISTS "Admins can change roles" ON public.profiles;
+
+CREATE POLICY "Users can view their own profile"
+ON public.profiles
+FOR SELECT
+TO authenticated
+USING (
+  id = auth.uid()
+  OR (public.has_role('admin') AND (organization_id IS NULL OR organization_id = public.current_organization_id()))
+);
+
+CREATE POLICY "Admins can change roles"
+ON public.profiles
+FOR UPDATE
+TO authenticated
+USING (public.has_role('admin') AND (organization_id IS NULL OR organization_id = public.current_organization_id()))
+WITH CHECK (public.has_role('admin') AND organization_id = public.current_organization_id());
+
+-- Tenant isolation. RESTRICTIVE policies are ANDed with every permissive policy, so
+-- they hold whatever other policies exist on these tables.
+CREATE POLICY "Videos are isolated by site"
+ON public.videos
+AS RESTRICTIVE
+FOR ALL
+TO authenticated
+USING (public.can_access_site(site_id))
+WITH CHECK (public.can_access_site(site_id));
+
+CREATE POLICY "Violations are isolated by site"
+ON public.violations
+AS RESTRICTIVE
+FOR ALL
+TO authenticated
+USING (public.can_access_site(site_id))
+WITH CHECK (public.can_access_site(site_id));
+
+CREATE POLICY "Models are isolated by site"
+ON public.models
+AS RESTRICTIVE
+FOR ALL
+TO authenticated
+USING (public.can_access_site(site_id))
+WITH CHECK (public.can_access_site(site_id));
+
+CREATE POLICY "Analysis jobs are isolated by site"
+ON public.analysis_jobs
+AS RESTRICTIVE
+FOR ALL
+TO authenticated
+USING (EXISTS (SELECT 1 FROM public.videos v WHERE v.id = video_id AND public.can_access_site(v.site_id)));
+
+-- Active datasets used to be visible to everyone
+DROP POLICY IF EXISTS "Users can view own models or active models" ON public.models;
+
+CREATE POLICY "Site members can view models"
+ON public.models
+FOR SELECT
+TO authenticated
+USING (true);
+
+-- Audit entries follow the site of the changed row, or the organization of the actor
+ALTER TABLE public.audit_log
+  ADD COLUMN IF NOT EXISTS site_id UUID,
+  ADD COLUMN IF NOT EXISTS organization_id UUID;
+
+CREATE OR REPLACE FUNCTION public.record_audit_entry()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  old_row JSONB := CASE WHEN TG_OP IN ('UPDATE', 'DELETE') THEN to_jsonb(OLD) END;
+  new_row JSONB := CASE WHEN TG_OP IN ('INSERT', 'UPDATE') THEN to_jsonb(NEW) END;
+  changed TEXT[] := '{}';
+  row_site_id UUID := (COALESCE(new_row, old_row)->>'site_id')::uuid;
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    SELECT COALESCE(array_agg(n.key ORDER BY n.key), '{}')
+    INTO changed
+    FROM jsonb_each(new_row) n
+    WHERE n.value IS DISTINCT FROM old_row->n.key
+      AND n.key <> 'updated_at';
+
+    -- Nothing but the timestamp changed
+    IF cardinality(changed) = 0 THEN
+      RETURN NULL;
+    END IF;
+  END IF;
+
+  INSERT INTO public.audit_log (
+    table_name, record_id, action, actor_id, actor_email, actor_role,
+    old_data, new_data, changed_fields, site_id, organization_id
+  )
+  VALUES (
+    TG_TABLE_NAME,
+    (COALESCE(new_row, old_row)->>'id')::uuid,
+    TG_OP,
+    auth.uid(),
+    auth.jwt()->>'email',
+    COALESCE(auth.jwt()->>'role', current_user),
+    old_row,
+    new_row,
+    changed,
+    row_site_id,
+    COALESCE(
+      (SELECT organization_id FROM public.sites WHERE id = row_site_id),
+      (SELECT organization_id FROM public.profiles WHERE id = COALESCE(auth.uid(), (COALESCE(new_row, old_row)->>'user_id')::uuid))
+    )
+  );
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE POLICY "Audit entries are isolated by organization"
+ON public.audit_log
+AS RESTRICTIVE
+FOR SELECT
+TO authenticated
+USING (
+  organization_id = public.current_organization_id()
+  AND (site_id IS NULL OR public.can_access_site(site_id))
+);
+
+-- Storage: the videos bucket becomes private; objects are readable by members of the
+-- site of the video row and served through signed URLs
+UPDATE storage.buckets SET public = false WHERE id = 'videos';
+
+DROP POLICY IF EXISTS "Anyone can view videos" ON storage.objects;
+
+CREATE POLICY "Site members can view videos"
+ON storage.objects
+FOR SELECT
+TO authenticated
+USING (
+  bucket_id = 'videos'
+  AND EXISTS (SELECT 1 FROM public.videos v WHERE v.storage_path = name AND public.can_access_site(v.site_id))
+);
+
+-- An uploaded object is not readable until analyze-video registers it, so the function looks
+-- up its uploader and metadata by exact name to check the caller uploaded it
+CREATE OR REPLACE FUNCTION public.video_object_info(p_name TEXT)
+RETURNS TABLE (owner_id TEXT, metadata JSONB)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT o.owner_id, o.metadata
+  FROM storage.objects o
+  WHERE o.bucket_id = 'videos' AND o.name = p_name;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.video_object_info(TEXT) FROM PUBLIC, anon, authenticated;
+
+DROP POLICY IF EXISTS "Authenticated users can view models" ON storage.objects;
+
+CREATE POLICY "Site members can view model files"
+ON storage.objects
+FOR SELECT
+TO authenticated
+USING (
+  bucket_id = 'models'
+  AND EXISTS (SELECT 1 FROM public.models m WHERE m.file_path = name AND public.can_access_site(m.site_id))
+);
+
+-- Cross-site comparison of one organization; org admins only
+CREATE OR REPLACE FUNCTION public.site_comparison(
+  p_from TIMESTAMP WITH TIME ZONE,
+  p_to TIMESTAMP WITH TIME ZONE
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_role('admin') THEN
+    RAISE EXCEPTION 'Only organization admins can compare sites';
+  END IF;
+
+  RETURN (
+    WITH org_sites AS (
+      SELECT id, name FROM public.sites WHERE organization_id = public.current_organization_id()
+    ),
+    scoped AS (
+      SELECT v.site_id, v.video_id, v.violation_type, v.review_status, v.metadata->>'severity' AS severity
+      FROM public.violations v
+      JOIN org_sites s ON s.id = v.site_id
+      WHERE v.detected_at >= p_from
+        AND v.detected_at < p_to
+    )
+    SELECT jsonb_build_object(
+      'sites', COALESCE((
+        SELECT jsonb_agg(t ORDER BY t.name)
+        FROM (
+          SELECT
+            s.id AS site_id,
+            s.name,
+            count(v.site_id) FILTER (WHERE v.review_status <> 'false_positive') AS total,
+            count(v.site_id) FILTER (WHERE v.review_status <> 'false_positive' AND v.severity = 'critical') AS critical,
+            count(v.site_id) FILTER (WHERE v.review_status = 'false_positive') AS false_positives,
+            count(DISTINCT v.video_id) AS videos
+          FROM org_sites s
+          LEFT JOIN scoped v ON v.site_id = s.id
+          GROUP BY s.id, s.name
+        ) t
+      ), '[]'::jsonb),
+      'by_type', COALESCE((
+        SELECT jsonb_agg(t)
+        FROM (
+          SELECT site_id, violation_type, count(*) AS count
+          FROM scoped
+          WHERE review_status <> 'false_positive'
+          GROUP BY 1, 2
+        ) t
+      ), '[]'::jsonb)
+    )
+  );
+END;
+$$;
+
+-- Dashboard aggregates of one site (RLS already limits them to the caller's sites)
+DROP FUNCTION IF EXISTS public.violation_stats(TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE, TEXT);
+
+CREATE OR REPLACE FUNCTION public.violation_stats(
+  p_from TIMESTAMP WITH TIME ZONE,
+  p_to TIMESTAMP WITH TIME ZONE,
+  p_bucket TEXT DEFAULT 'day',
+  p_site_id UUID DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH scoped AS (
+    SELECT
+      v.id,
+      v.violation_type,
+      v.confidence,
+      v.detected_at,
+      v.source_type,
+      v.source_name,
+      v.video_id,
+      COALESCE(v.metadata->>'severity', 'unknown') AS severity,
+      COALESCE(v.metadata->>'detection_method', 'unknown') AS detection_method
+    FROM public.violations v
+    WHERE v.detected_at >= p_from
+      AND v.detected_at < p_to
+      AND v.review_status <> 'false_positive'
+      AND (p_site_id IS NULL OR v.site_id = p_site_id)
+  )
+  SELECT jsonb_build_object(
+    'total', (SELECT count(*) FROM scoped),
+    'critical', (SELECT count(*) FROM scoped WHERE severity = 'critical'),
+    'videos', (SELECT count(DISTINCT video_id) FROM scoped WHERE video_id IS NOT NULL),
+    'over_time', COALESCE((
+      SELECT jsonb_agg(t ORDER BY t.bucket)
+      FROM (
+        SELECT
+          date_trunc(CASE WHEN p_bucket IN ('hour', 'day', 'week', 'month') THEN p_bucket ELSE 'day' END, detected_at) AS bucket,
+          violation_type,
+          severity,
+          count(*) AS count
+        FROM scoped
+        GROUP BY 1, 2, 3
+      ) t
+    ), '[]'::jsonb),
+    'by_video', COALESCE((
+      SELECT jsonb_agg(t ORDER BY t.count DESC)
+      FROM (
+        SELECT s.video_id, COALESCE(vid.original_name, s.source_name) AS name, count(*) AS count
+        FROM scoped s
+        LEFT JOIN public.videos vid ON vid.id = s.video_id
+        WHERE s.source_type = 'video'
+        GROUP BY 1, 2
+        ORDER BY count(*) DESC
+        LIMIT 15
+      ) t
+    ), '[]'::jsonb),
+    'by_camera', COALESCE((
+      SELECT jsonb_agg(t ORDER BY t.count DESC)
+      FROM (
+        SELECT source_name AS name, count(*) AS count
+        FROM scoped
+        WHERE source_type = 'camera'
+        GROUP BY 1
+        ORDER BY count(*) DESC
+        LIMIT 15
+      ) t
+    ), '[]'::jsonb),
+    'confidence', COALESCE((
+      SELECT jsonb_agg(t ORDER BY t.bucket)
+      FROM (
+        -- Ten buckets of 10 percentage points; 100% falls into the last one
+        SELECT LEAST(floor(confidence * 10), 9)::int AS bucket, count(*) AS count
+        FROM scoped
+        GROUP BY 1
+      ) t
+    ), '[]'::jsonb),
+    'by_method', COALESCE((
+      SELECT jsonb_agg(t ORDER BY t.count DESC)
+      FROM (
+        SELECT detection_method, count(*) AS count
+        FROM scoped
+        GROUP BY 1
+      ) t
+    ), '[]'::jsonb),
+    'top_hazards', COALESCE((
+      SELECT jsonb_agg(t ORDER BY t.count DESC)
+      FROM (
+        SELECT
+          violation_type,
+          count(*) AS count,
+          count(*) FILTER (WHERE severity = 'critical') AS critical,
+          count(DISTINCT COALESCE(video_id::text, source_name)) AS sources,
+          count(DISTINCT detected_at::date) AS days,
+          round(avg(confidence)::numeric, 3) AS avg_confidence,
+          max(detected_at) AS last_seen
+        FROM scoped
+        GROUP BY 1
+        ORDER BY count(*) DESC
+        LIMIT 10
+      ) t
+    ), '[]'::jsonb)
+  );
+$$;
@@ -0,0 +1,267 @@
+-- Camera registry: every video (and later every live stream) can be tagged with the
+-- camera that recorded it, so violations can be grouped by camera and by zone.
+CREATE TABLE public.cameras (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  site_id UUID NOT NULL REFERENCES public.sites(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  -- Zone or level of the mine the camera watches, e.g. "Level 3 - Stope 12"
+  zone TEXT,
+  location TEXT,
+  default_fps NUMERIC CHECK (default_fps IS NULL OR default_fps > 0),
+  mounting_notes TEXT,
+  -- Uploads whose file name starts with this prefix (case-insensitive) are tagged with the camera
+  filename_prefix TEXT,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  UNIQUE (site_id, name)
+);
+
+CREATE UNIQUE INDEX cameras_filename_prefix_idx
+  ON public.cameras (site_id, lower(filename_prefix))
+  WHERE filename_prefix IS NOT NULL;
+
+CREATE TRIGGER update_cameras_updated_at
+  BEFORE UPDATE ON public.cameras
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_models_updated_at();
+
+ALTER TABLE public.cameras ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Site members can view cameras"
+ON public.cameras
+FOR SELECT
+TO authenticated
+USING (public.can_access_site(site_id));
+
+CREATE POLICY "Admins can add cameras"
+ON public.cameras
+FOR INSERT
+TO authenticated
+WITH CHECK (public.has_role('admin') AND public.can_access_site(site_id));
+
+CREATE POLICY "Admins can update cameras"
+ON public.cameras
+FOR UPDATE
+TO authenticated
+USING (public.has_role('admin') AND public.can_access_site(site_id))
+WITH CHECK (public.has_role('admin') AND public.can_access_site(site_id));
+
+CREATE POLICY "Admins can delete cameras"
+ON public.cameras
+FOR DELETE
+TO authenticated
+USING (public.has_role('admin') AND public.can_access_site(site_id));
+
+CREATE TRIGGER audit_cameras
+AFTER INSERT OR UPDATE OR DELETE ON public.cameras
+FOR EACH ROW
+EXECUTE FUNCTION public.record_audit_entry();
+
+-- videos.fps_source is 'camera' when the frame rate came from the camera's default_fps
+ALTER TABLE public.videos
+  ADD COLUMN IF NOT EXISTS camera_id UUID REFERENCES public.cameras(id) ON DELETE SET NULL;
+
+-- The zone is copied onto the violation when it is recorded, so moving a camera later
+-- does not move the violations it already reported
+ALTER TABLE public.violations
+  ADD COLUMN IF NOT EXISTS camera_id UUID REFERENCES public.cameras(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS zone TEXT;
+
+CREATE INDEX IF NOT EXISTS violations_camera_id_idx ON public.violations (camera_id, detected_at DESC);
+CREATE INDEX IF NOT EXISTS violations_zone_idx ON public.violations (site_id, zone, detected_at DESC);
+
+-- A video or violation can only be tagged with a camera of its own site; the triggers below
+-- copy the camera's zone with definer rights, so this must hold before they run
+CREATE OR REPLACE FUNCTION public.check_camera_site()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.camera_id IS NOT NULL
+     AND NOT EXISTS (SELECT 1 FROM public.cameras WHERE id = NEW.camera_id AND site_id = NEW.site_id) THEN
+    RAISE EXCEPTION 'Camera % does not belong to site %', NEW.camera_id, NEW.site_id;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER check_video_camera_site
+  BEFORE INSERT OR UPDATE OF camera_id, site_id ON public.videos
+  FOR EACH ROW
+  EXECUTE FUNCTION public.check_camera_site();
+
+-- Violations inherit the camera of their video and the zone of their camera
+CREATE OR REPLACE FUNCTION public.set_violation_camera()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.camera_id IS NULL AND NEW.video_id IS NOT NULL THEN
+    SELECT camera_id INTO NEW.camera_id FROM public.videos WHERE id = NEW.video_id;
+  END IF;
+
+  IF NEW.camera_id IS NOT NULL AND NEW.zone IS NULL THEN
+    SELECT zone INTO NEW.zone FROM public.cameras WHERE id = NEW.camera_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER set_violation_camera
+  BEFORE INSERT ON public.violations
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_violation_camera();
+
+-- Named to fire after set_violation_camera, which may fill in the camera
+CREATE TRIGGER set_violation_camera_site_check
+  BEFORE INSERT OR UPDATE OF camera_id, site_id ON public.violations
+  FOR EACH ROW
+  EXECUTE FUNCTION public.check_camera_site();
+
+-- Tagging a video afterwards also tags the violations already found in it. Runs as
+-- definer because only safety reviewers may update violations directly.
+CREATE OR REPLACE FUNCTION public.propagate_video_camera()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE public.violations v
+  SET camera_id = NEW.camera_id,
+      zone = (SELECT zone FROM public.cameras WHERE id = NEW.camera_id AND site_id = NEW.site_id)
+  WHERE v.video_id = NEW.id;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER propagate_video_camera
+  AFTER UPDATE OF camera_id ON public.videos
+  FOR EACH ROW
+  WHEN (OLD.camera_id IS DISTINCT FROM NEW.camera_id)
+  EXECUTE FUNCTION public.propagate_video_camera();
+
+-- violation_stats gains camera and zone filters, and groups by registered camera and by zone
+DROP FUNCTION IF EXISTS public.violation_stats(TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE, TEXT, UUID);
+
+CREATE OR REPLACE FUNCTION public.violation_stats(
+  p_from TIMESTAMP WITH TIME ZONE,
+  p_to TIMESTAMP WITH TIME ZONE,
+  p_bucket TEXT DEFAULT 'day',
+  p_site_id UUID DEFAULT NULL,
+  p_camera_id UUID DEFAULT NULL,
+  p_zone TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH scoped AS (
+    SELECT
+      v.id,
+      v.violation_type,
+      v.confidence,
+      v.detected_at,
+      v.source_type,
+      v.source_name,
+      v.video_id,
+      v.camera_id,
+      v.zone,
+      COALESCE(v.metadata->>'severity', 'unknown') AS severity,
+      COALESCE(v.metadata->>'detection_method', 'unknown') AS detection_method
+    FROM public.violations v
+    WHERE v.detected_at >= p_from
+      AND v.detected_at < p_to
+      AND v.review_status <> 'false_positive'
+      AND (p_site_id IS NULL OR v.site_id = p_site_id)
+      AND (p_camera_id IS NULL OR v.camera_id = p_camera_id)
+      AND (p_zone IS NULL OR v.zone = p_zone)
+  )
+  SELECT jsonb_build_object(
+    'total', (SELECT count(*) FROM scoped),
+    'critical', (SELECT count(*) FROM scoped WHERE severity = 'critical'),
+    'videos', (SELECT count(DISTINCT video_id) FROM scoped WHERE video_id IS NOT NULL),
+    'over_time', COALESCE((
+      SELECT jsonb_agg(t ORDER BY t.bucket)
+      FROM (
+        SELECT
+          date_trunc(CASE WHEN p_bucket IN ('hour', 'day', 'week', 'month') THEN p_bucket ELSE 'day' END, detected_at) AS bucket,
+          violation_type,
+          severity,
+          count(*) AS count
+        FROM scoped
+        GROUP BY 1, 2, 3
+      ) t
+    ), '[]'::jsonb),
+    'by_video', COALESCE((
+      SELECT jsonb_agg(t ORDER BY t.count DESC)
+      FROM (
+        SELECT s.video_id, COALESCE(vid.original_name, s.source_name) AS name, count(*) AS count
+        FROM scoped s
+        LEFT JOIN public.videos vid ON vid.id = s.video_id
+        WHERE s.source_type = 'video'
+        GROUP BY 1, 2
+        ORDER BY count(*) DESC
+        LIMIT 15
+      ) t
+    ), '[]'::jsonb),
+    -- Registered cameras by name; untagged live sources fall back to their source name
+    'by_camera', COALESCE((
+      SELECT jsonb_agg(t ORDER BY t.count DESC)
+      FROM (
+        SELECT s.camera_id, COALESCE(c.name, s.source_name) AS name, c.zone, count(*) AS count
+        FROM scoped s
+        LEFT JOIN public.cameras c ON c.id = s.camera_id
+        WHERE s.camera_id IS NOT NULL OR s.source_type = 'camera'
+        GROUP BY 1, 2, 3
+        ORDER BY count(*) DESC
+        LIMIT 15
+      ) t
+    ), '[]'::jsonb),
+    'by_zone', COALESCE((
+      SELECT jsonb_agg(t ORDER BY t.count DESC)
+      FROM (
+        SELECT
+          zone,
+          count(*) AS count,
+          count(*) FILTER (WHERE severity = 'critical') AS critical,
+          count(DISTINCT camera_id) AS cameras
+        FROM scoped
+        WHERE zone IS NOT NULL
+        GROUP BY 1
+        ORDER BY count(*) DESC
+        LIMIT 15
+      ) t
+    ), '[]'::jsonb),
+    'confidence', COALESCE((
+      SELECT jsonb_agg(t ORDER BY t.bucket)
+      FROM (
+        -- Ten buckets of 10 percentage points; 100% falls into the last one
+        SELECT LEAST(floor(confidence * 10), 9)::int AS bucket, count(*) AS count
+        FROM scoped
+        GROUP BY 1
+      ) t
+    ), '[]'::jsonb),
+    'by_method', COALESCE((
+      SELECT jsonb_agg(t ORDER BY t.count DESC)
+      FROM (
+        SELECT detection_method, count(*) AS count
+        FROM scoped
+        GROUP BY 1
+      ) t
+    ), '[]'::jsonb),
+    'top_hazards', COALESCE((
+      SELECT jsonb_agg(t ORDER BY t.count DESC)
+      FROM (
+        SELECT
+          violation_type,
+          count(*) AS count,
+          count(*) FILTER (WHERE severity = 'critical') AS critical,
+          count(DISTINCT COALESCE(video_id::text, source_name)) AS sources,
+          count(DISTINCT detected_at::date) AS days,
+          round(avg(confidence)::numeric, 3) AS avg_confidence,
+          max(detected_at) AS last_seen
+        FROM scoped
+        GROUP BY 1
+        ORDER BY count(*) DESC
+        LIMIT 10
+      ) t
+    ), '[]'::jsonb)
+  );
+$$;
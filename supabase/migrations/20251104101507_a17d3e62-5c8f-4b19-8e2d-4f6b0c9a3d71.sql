@@ -0,0 +1,8 @@
+-- Live monitoring: cameras with an HLS stream are sampled by the Live Monitoring page,
+-- whose frames go through analyze-stream-frame. Violations found this way have
+-- source_type 'stream' and a wall-clock detected_at (the capture time of the frame).
+ALTER TABLE public.cameras
+  -- HLS playlist (.m3u8); RTSP cameras are published as HLS by scripts/stream-relay.mjs
+  ADD COLUMN IF NOT EXISTS stream_url TEXT,
+  ADD COLUMN IF NOT EXISTS sample_interval_seconds INTEGER NOT NULL DEFAULT 5
+    CHECK (sample_interval_seconds BETWEEN 1 AND 3600);
@@ -0,0 +1,64 @@
+-- Device camera mode: the Video Analysis page can analyze the webcam of a laptop or tablet.
+-- Its frames go through analyze-stream-frame like stream frames; violations found this way
+-- have source_type 'camera' and may carry a short clip recorded around the event.
+
+-- Clips are stored under <site_id>/ and readable by members of that site
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'violation-clips',
+  'violation-clips',
+  false,
+  52428800, -- 50MB limit
+  ARRAY['video/webm', 'video/mp4']
+)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Site members can view violation clips"
+ON storage.objects
+FOR SELECT
+TO authenticated
+USING (
+  bucket_id = 'violation-clips'
+  AND public.can_access_site(((storage.foldername(name))[1])::uuid)
+);
+
+CREATE POLICY "Operators can upload violation clips"
+ON storage.objects
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  bucket_id = 'violation-clips'
+  AND public.has_role('operator')
+  AND public.can_access_site(((storage.foldername(name))[1])::uuid)
+);
+
+-- Operators cannot update violations, so the uploaded clip is linked through this function;
+-- only device camera violations of the clip's site without a clip yet are touched
+CREATE OR REPLACE FUNCTION public.attach_violation_clip(
+  p_violation_ids UUID[],
+  p_clip_path TEXT
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_count INTEGER;
+BEGIN
+  IF NOT public.has_role('operator') THEN
+    RAISE EXCEPTION 'Only operators can attach clips';
+  END IF;
+
+  UPDATE public.violations
+  SET metadata = COALESCE(metadata, '{}'::jsonb) || jsonb_build_object('clip_path', p_clip_path)
+  WHERE id = ANY (p_violation_ids)
+    AND source_type = 'camera'
+    AND public.can_access_site(site_id)
+    AND p_clip_path LIKE site_id::text || '/%'
+    AND NOT (COALESCE(metadata, '{}'::jsonb) ? 'clip_path');
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$;
@@ -0,0 +1,216 @@
+-- Alert rules: violations matching a rule raise an alert delivered by email (SMTP),
+-- webhook and the in-app inbox. The edge functions that record violations evaluate
+-- the rules (supabase/functions/_shared/alerts.ts); repeated matches of the same
+-- event within the rule's dedup window update one alert instead of raising new ones.
+CREATE TABLE IF NOT EXISTS public.alert_rules (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  -- No site: every site of the organization (admins only)
+  site_id UUID REFERENCES public.sites(id) ON DELETE CASCADE,
+  camera_id UUID REFERENCES public.cameras(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  -- Empty arrays match any type / severity
+  violation_types TEXT[] NOT NULL DEFAULT '{}',
+  severities TEXT[] NOT NULL DEFAULT '{}',
+  min_confidence NUMERIC NOT NULL DEFAULT 0.7 CHECK (min_confidence BETWEEN 0 AND 1),
+  -- Time of day the rule is active in, in its time zone; may wrap past midnight (night shift)
+  active_from TIME,
+  active_to TIME,
+  timezone TEXT NOT NULL DEFAULT 'UTC',
+  dedup_minutes INTEGER NOT NULL DEFAULT 10 CHECK (dedup_minutes BETWEEN 1 AND 1440),
+  notify_in_app BOOLEAN NOT NULL DEFAULT true,
+  email_recipients TEXT[] NOT NULL DEFAULT '{}',
+  webhook_url TEXT,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_alert_rules_organization ON public.alert_rules (organization_id) WHERE is_active;
+
+ALTER TABLE public.alert_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view alert rules of their sites"
+ON public.alert_rules
+FOR SELECT
+TO authenticated
+USING (
+  organization_id = public.current_organization_id()
+  AND (site_id IS NULL OR public.can_access_site(site_id))
+);
+
+CREATE POLICY "Safety reviewers can create alert rules"
+ON public.alert_rules
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  public.has_role('safety_reviewer')
+  AND organization_id = public.current_organization_id()
+  AND ((site_id IS NULL AND public.has_role('admin')) OR public.can_access_site(site_id))
+);
+
+CREATE POLICY "Safety reviewers can update alert rules"
+ON public.alert_rules
+FOR UPDATE
+TO authenticated
+USING (
+  public.has_role('safety_reviewer')
+  AND organization_id = public.current_organization_id()
+  AND ((site_id IS NULL AND public.has_role('admin')) OR public.can_access_site(site_id))
+)
+WITH CHECK (
+  organization_id = public.current_organization_id()
+  AND ((site_id IS NULL AND public.has_role('admin')) OR public.can_access_site(site_id))
+);
+
+CREATE POLICY "Safety reviewers can delete alert rules"
+ON public.alert_rules
+FOR DELETE
+TO authenticated
+USING (
+  public.has_role('safety_reviewer')
+  AND organization_id = public.current_organization_id()
+  AND ((site_id IS NULL AND public.has_role('admin')) OR public.can_access_site(site_id))
+);
+
+CREATE TRIGGER update_alert_rules_updated_at
+BEFORE UPDATE ON public.alert_rules
+FOR EACH ROW
+EXECUTE FUNCTION public.update_models_updated_at();
+
+CREATE TRIGGER audit_alert_rules
+AFTER INSERT OR UPDATE OR DELETE ON public.alert_rules
+FOR EACH ROW
+EXECUTE FUNCTION public.record_audit_entry();
+
+-- One row per alerted event; written by the edge functions only
+CREATE TABLE IF NOT EXISTS public.alerts (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  rule_id UUID REFERENCES public.alert_rules(id) ON DELETE SET NULL,
+  rule_name TEXT NOT NULL,
+  site_id UUID NOT NULL REFERENCES public.sites(id) ON DELETE CASCADE,
+  camera_id UUID REFERENCES public.cameras(id) ON DELETE SET NULL,
+  -- The violation that raised the alert
+  violation_id UUID REFERENCES public.violations(id) ON DELETE SET NULL,
+  violation_type TEXT NOT NULL,
+  severity TEXT,
+  -- Highest confidence among the merged violations
+  confidence NUMERIC NOT NULL,
+  source_name TEXT NOT NULL,
+  dedup_key TEXT NOT NULL,
+  first_seen_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  last_seen_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  occurrence_count INTEGER NOT NULL DEFAULT 1,
+  notify_in_app BOOLEAN NOT NULL DEFAULT true,
+  -- Outcome per channel, e.g. {"email": "sent", "webhook": "failed: 500"}
+  deliveries JSONB NOT NULL DEFAULT '{}'::jsonb,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_alerts_site_created ON public.alerts (site_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_alerts_dedup ON public.alerts (rule_id, dedup_key, last_seen_at DESC);
+
+ALTER TABLE public.alerts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Site members can view alerts"
+ON public.alerts
+FOR SELECT
+TO authenticated
+USING (public.can_access_site(site_id));
+
+-- Inbox read state, per user
+CREATE TABLE IF NOT EXISTS public.alert_reads (
+  alert_id UUID NOT NULL REFERENCES public.alerts(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE DEFAULT auth.uid(),
+  read_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (alert_id, user_id)
+);
+
+ALTER TABLE public.alert_reads ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their alert reads"
+ON public.alert_reads
+FOR SELECT
+TO authenticated
+USING (user_id = auth.uid());
+
+CREATE POLICY "Users can mark alerts as read"
+ON public.alert_reads
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  user_id = auth.uid()
+  AND EXISTS (SELECT 1 FROM public.alerts a WHERE a.id = alert_id AND public.can_access_site(a.site_id))
+);
+
+CREATE POLICY "Users can mark alerts as unread"
+ON public.alert_reads
+FOR DELETE
+TO authenticated
+USING (user_id = auth.uid());
+
+-- Raises an alert for a matching violation or merges it into the open alert of the same
+-- event (same rule and dedup key, last seen within the window). Serialized per key so
+-- concurrent chunks of one video cannot raise the same alert twice.
+CREATE OR REPLACE FUNCTION public.record_alert(
+  p_rule_id UUID,
+  p_dedup_key TEXT,
+  p_violation_id UUID,
+  p_detected_at TIMESTAMP WITH TIME ZONE
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_rule public.alert_rules%ROWTYPE;
+  v_violation public.violations%ROWTYPE;
+  v_alert_id UUID;
+BEGIN
+  SELECT * INTO v_rule FROM public.alert_rules WHERE id = p_rule_id;
+  SELECT * INTO v_violation FROM public.violations WHERE id = p_violation_id;
+  IF v_rule.id IS NULL OR v_violation.id IS NULL THEN
+    RAISE EXCEPTION 'Unknown alert rule or violation';
+  END IF;
+
+  PERFORM pg_advisory_xact_lock(hashtext(p_rule_id::text || ':' || p_dedup_key));
+
+  UPDATE public.alerts
+  SET
+    last_seen_at = GREATEST(last_seen_at, p_detected_at),
+    occurrence_count = occurrence_count + 1,
+    confidence = GREATEST(confidence, v_violation.confidence)
+  WHERE id = (
+    SELECT id FROM public.alerts
+    WHERE rule_id = p_rule_id
+      AND dedup_key = p_dedup_key
+      AND last_seen_at >= p_detected_at - make_interval(mins => v_rule.dedup_minutes)
+    ORDER BY last_seen_at DESC
+    LIMIT 1
+  )
+  RETURNING id INTO v_alert_id;
+
+  IF v_alert_id IS NOT NULL THEN
+    RETURN jsonb_build_object('id', v_alert_id, 'is_new', false);
+  END IF;
+
+  INSERT INTO public.alerts (
+    rule_id, rule_name, site_id, camera_id, violation_id, violation_type, severity,
+    confidence, source_name, dedup_key, first_seen_at, last_seen_at, notify_in_app
+  )
+  VALUES (
+    v_rule.id, v_rule.name, v_violation.site_id, v_violation.camera_id, v_violation.id,
+    v_violation.violation_type, v_violation.metadata->>'severity', v_violation.confidence,
+    v_violation.source_name, p_dedup_key, p_detected_at, p_detected_at, v_rule.notify_in_app
+  )
+  RETURNING id INTO v_alert_id;
+
+  RETURN jsonb_build_object('id', v_alert_id, 'is_new', true);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.record_alert(UUID, TEXT, UUID, TIMESTAMP WITH TIME ZONE) FROM PUBLIC, anon, authenticated;
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.alerts;
@@ -0,0 +1,431 @@
+-- Violation events: detectors report one violation per frame, so a single incident shows
+-- up as many rows. Detections of the same type from the same video, camera or live
+-- source that are at most the site's event gap apart are clustered into one event as
+-- they are recorded. Logs and dashboard counts are per event; the per-frame rows stay
+-- the unit of review.
+ALTER TABLE public.sites
+  ADD COLUMN IF NOT EXISTS event_gap_seconds INTEGER NOT NULL DEFAULT 10
+    CHECK (event_gap_seconds BETWEEN 1 AND 3600);
+
+CREATE TABLE IF NOT EXISTS public.violation_events (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  site_id UUID NOT NULL REFERENCES public.sites(id) ON DELETE CASCADE,
+  -- Video id, camera id, or source type and name of untagged live sources
+  source_key TEXT NOT NULL,
+  source_type TEXT NOT NULL,
+  source_name TEXT NOT NULL,
+  video_id UUID REFERENCES public.videos(id) ON DELETE CASCADE,
+  camera_id UUID REFERENCES public.cameras(id) ON DELETE SET NULL,
+  zone TEXT,
+  -- Type reported by the detector; reclassifying a detection in review does not move it
+  violation_type TEXT NOT NULL,
+  severity TEXT,
+  detection_method TEXT,
+  started_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  ended_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  start_frame INTEGER,
+  end_frame INTEGER,
+  peak_confidence NUMERIC NOT NULL,
+  -- The detection with the peak confidence
+  representative_violation_id UUID,
+  representative_frame INTEGER,
+  detection_count INTEGER NOT NULL DEFAULT 0,
+  false_positive_count INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS violation_events_site_id_idx ON public.violation_events (site_id, started_at DESC, id DESC);
+CREATE INDEX IF NOT EXISTS violation_events_source_idx ON public.violation_events (site_id, violation_type, source_key, ended_at DESC);
+CREATE INDEX IF NOT EXISTS violation_events_video_id_idx ON public.violation_events (video_id);
+
+ALTER TABLE public.violations
+  ADD COLUMN IF NOT EXISTS event_id UUID REFERENCES public.violation_events(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS violations_event_id_idx ON public.violations (event_id, detected_at);
+
+-- Deferred: the representative of a new event is the violation being inserted
+ALTER TABLE public.violation_events
+  ADD CONSTRAINT violation_events_representative_violation_id_fkey
+  FOREIGN KEY (representative_violation_id) REFERENCES public.violations(id)
+  ON DELETE SET NULL DEFERRABLE INITIALLY DEFERRED;
+
+CREATE TRIGGER update_violation_events_updated_at
+  BEFORE UPDATE ON public.violation_events
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_models_updated_at();
+
+ALTER TABLE public.violation_events ENABLE ROW LEVEL SECURITY;
+
+-- Events are derived from violations and only written by the triggers below
+CREATE POLICY "Site members can view violation events"
+ON public.violation_events
+FOR SELECT
+TO authenticated
+USING (public.can_access_site(site_id));
+
+-- Extends the open event of a violation's type and source, or opens a new one, and
+-- returns its id. Serialized per type and source so concurrent writers cannot open
+-- the same event twice.
+CREATE OR REPLACE FUNCTION public.violation_event_for(v public.violations)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_source_key TEXT := COALESCE(v.video_id::text, v.camera_id::text, v.source_type || ':' || v.source_name);
+  v_gap INTERVAL;
+  v_event_id UUID;
+BEGIN
+  SELECT make_interval(secs => event_gap_seconds) INTO v_gap FROM public.sites WHERE id = v.site_id;
+
+  PERFORM pg_advisory_xact_lock(hashtext(v.site_id::text || ':' || v.violation_type || ':' || v_source_key));
+
+  UPDATE public.violation_events e
+  SET
+    started_at = LEAST(e.started_at, v.detected_at),
+    ended_at = GREATEST(e.ended_at, v.detected_at),
+    start_frame = LEAST(e.start_frame, v.frame_number),
+    end_frame = GREATEST(e.end_frame, v.frame_number),
+    peak_confidence = GREATEST(e.peak_confidence, v.confidence),
+    representative_violation_id = CASE WHEN v.confidence > e.peak_confidence THEN v.id ELSE e.representative_violation_id END,
+    representative_frame = CASE WHEN v.confidence > e.peak_confidence THEN v.frame_number ELSE e.representative_frame END,
+    detection_count = e.detection_count + 1,
+    false_positive_count = e.false_positive_count + (v.review_status = 'false_positive')::int
+  WHERE e.id = (
+    SELECT id FROM public.violation_events
+    WHERE site_id = v.site_id
+      AND violation_type = v.violation_type
+      AND source_key = v_source_key
+      AND v.detected_at BETWEEN started_at - v_gap AND ended_at + v_gap
+    ORDER BY ended_at DESC
+    LIMIT 1
+  )
+  RETURNING e.id INTO v_event_id;
+
+  IF v_event_id IS NOT NULL THEN
+    RETURN v_event_id;
+  END IF;
+
+  INSERT INTO public.violation_events (
+    site_id, source_key, source_type, source_name, video_id, camera_id, zone, violation_type,
+    severity, detection_method, started_at, ended_at, start_frame, end_frame, peak_confidence,
+    representative_violation_id, representative_frame, detection_count, false_positive_count
+  )
+  VALUES (
+    v.site_id, v_source_key, v.source_type, v.source_name, v.video_id, v.camera_id, v.zone, v.violation_type,
+    v.metadata->>'severity', v.metadata->>'detection_method', v.detected_at, v.detected_at,
+    v.frame_number, v.frame_number, v.confidence, v.id, v.frame_number, 1,
+    (v.review_status = 'false_positive')::int
+  )
+  RETURNING id INTO v_event_id;
+
+  RETURN v_event_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.violation_event_for(public.violations) FROM PUBLIC, anon, authenticated;
+
+-- Recomputes an event from its remaining detections; drops it when none are left
+CREATE OR REPLACE FUNCTION public.refresh_violation_event(p_event_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.violation_events e
+  SET
+    started_at = agg.started_at,
+    ended_at = agg.ended_at,
+    start_frame = agg.start_frame,
+    end_frame = agg.end_frame,
+    peak_confidence = rep.confidence,
+    representative_violation_id = rep.id,
+    representative_frame = rep.frame_number,
+    camera_id = rep.camera_id,
+    zone = rep.zone,
+    detection_count = agg.detection_count,
+    false_positive_count = agg.false_positive_count
+  FROM (
+    SELECT
+      min(detected_at) AS started_at,
+      max(detected_at) AS ended_at,
+      min(frame_number) AS start_frame,
+      max(frame_number) AS end_frame,
+      count(*) AS detection_count,
+      count(*) FILTER (WHERE review_status = 'false_positive') AS false_positive_count
+    FROM public.violations
+    WHERE event_id = p_event_id
+  ) agg,
+  (
+    SELECT id, confidence, frame_number, camera_id, zone
+    FROM public.violations
+    WHERE event_id = p_event_id
+    ORDER BY confidence DESC, detected_at
+    LIMIT 1
+  ) rep
+  WHERE e.id = p_event_id;
+
+  IF NOT FOUND THEN
+    DELETE FROM public.violation_events WHERE id = p_event_id;
+  END IF;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.refresh_violation_event(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Named to fire after set_violation_camera, so the camera is known when clustering. The
+-- event triggers run as definer: the writer of a violation may not execute the event
+-- functions above directly.
+CREATE OR REPLACE FUNCTION public.set_violation_event()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.event_id IS NULL THEN
+    NEW.event_id = public.violation_event_for(NEW);
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Everything recorded so far is clustered in detection order, without flooding the audit log
+ALTER TABLE public.violations DISABLE TRIGGER audit_violations;
+
+DO $$
+DECLARE
+  r public.violations%ROWTYPE;
+BEGIN
+  FOR r IN SELECT * FROM public.violations WHERE event_id IS NULL ORDER BY site_id, detected_at, id LOOP
+    UPDATE public.violations SET event_id = public.violation_event_for(r) WHERE id = r.id;
+  END LOOP;
+END;
+$$;
+
+ALTER TABLE public.violations ENABLE TRIGGER audit_violations;
+
+CREATE TRIGGER set_violation_event
+  BEFORE INSERT ON public.violations
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_violation_event();
+
+-- Reviews, camera tagging and deletes keep the counts and representative of events current
+CREATE OR REPLACE FUNCTION public.sync_violation_event()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    IF OLD.event_id IS NOT NULL THEN
+      PERFORM public.refresh_violation_event(OLD.event_id);
+    END IF;
+    RETURN NULL;
+  END IF;
+
+  IF OLD.event_id IS NOT NULL AND OLD.event_id IS DISTINCT FROM NEW.event_id THEN
+    PERFORM public.refresh_violation_event(OLD.event_id);
+  END IF;
+  IF NEW.event_id IS NOT NULL THEN
+    PERFORM public.refresh_violation_event(NEW.event_id);
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER sync_violation_event
+  AFTER UPDATE OF review_status, camera_id, zone, event_id OR DELETE ON public.violations
+  FOR EACH ROW
+  EXECUTE FUNCTION public.sync_violation_event();
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.violation_events;
+
+-- Dashboard aggregates count events instead of frames. Events whose every detection was
+-- rejected in review no longer count; times, confidence and severity are the event's.
+CREATE OR REPLACE FUNCTION public.violation_stats(
+  p_from TIMESTAMP WITH TIME ZONE,
+  p_to TIMESTAMP WITH TIME ZONE,
+  p_bucket TEXT DEFAULT 'day',
+  p_site_id UUID DEFAULT NULL,
+  p_camera_id UUID DEFAULT NULL,
+  p_zone TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH scoped AS (
+    SELECT
+      e.id,
+      e.violation_type,
+      e.peak_confidence AS confidence,
+      e.started_at AS detected_at,
+      e.source_type,
+      e.source_name,
+      e.video_id,
+      e.camera_id,
+      e.zone,
+      COALESCE(e.severity, 'unknown') AS severity,
+      COALESCE(e.detection_method, 'unknown') AS detection_method
+    FROM public.violation_events e
+    WHERE e.started_at >= p_from
+      AND e.started_at < p_to
+      AND e.false_positive_count < e.detection_count
+      AND (p_site_id IS NULL OR e.site_id = p_site_id)
+      AND (p_camera_id IS NULL OR e.camera_id = p_camera_id)
+      AND (p_zone IS NULL OR e.zone = p_zone)
+  )
+  SELECT jsonb_build_object(
+    'total', (SELECT count(*) FROM scoped),
+    'critical', (SELECT count(*) FROM scoped WHERE severity = 'critical'),
+    'videos', (SELECT count(DISTINCT video_id) FROM scoped WHERE video_id IS NOT NULL),
+    'over_time', COALESCE((
+      SELECT jsonb_agg(t ORDER BY t.bucket)
+      FROM (
+        SELECT
+          date_trunc(CASE WHEN p_bucket IN ('hour', 'day', 'week', 'month') THEN p_bucket ELSE 'day' END, detected_at) AS bucket,
+          violation_type,
+          severity,
+          count(*) AS count
+        FROM scoped
+        GROUP BY 1, 2, 3
+      ) t
+    ), '[]'::jsonb),
+    'by_video', COALESCE((
+      SELECT jsonb_agg(t ORDER BY t.count DESC)
+      FROM (
+        SELECT s.video_id, COALESCE(vid.original_name, s.source_name) AS name, count(*) AS count
+        FROM scoped s
+        LEFT JOIN public.videos vid ON vid.id = s.video_id
+        WHERE s.source_type = 'video'
+        GROUP BY 1, 2
+        ORDER BY count(*) DESC
+        LIMIT 15
+      ) t
+    ), '[]'::jsonb),
+    -- Registered cameras by name; untagged live sources fall back to their source name
+    'by_camera', COALESCE((
+      SELECT jsonb_agg(t ORDER BY t.count DESC)
+      FROM (
+        SELECT s.camera_id, COALESCE(c.name, s.source_name) AS name, c.zone, count(*) AS count
+        FROM scoped s
+        LEFT JOIN public.cameras c ON c.id = s.camera_id
+        WHERE s.camera_id IS NOT NULL OR s.source_type = 'camera'
+        GROUP BY 1, 2, 3
+        ORDER BY count(*) DESC
+        LIMIT 15
+      ) t
+    ), '[]'::jsonb),
+    'by_zone', COALESCE((
+      SELECT jsonb_agg(t ORDER BY t.count DESC)
+      FROM (
+        SELECT
+          zone,
+          count(*) AS count,
+          count(*) FILTER (WHERE severity = 'critical') AS critical,
+          count(DISTINCT camera_id) AS cameras
+        FROM scoped
+        WHERE zone IS NOT NULL
+        GROUP BY 1
+        ORDER BY count(*) DESC
+        LIMIT 15
+      ) t
+    ), '[]'::jsonb),
+    'confidence', COALESCE((
+      SELECT jsonb_agg(t ORDER BY t.bucket)
+      FROM (
+        -- Ten buckets of 10 percentage points; 100% falls into the last one
+        SELECT LEAST(floor(confidence * 10), 9)::int AS bucket, count(*) AS count
+        FROM scoped
+        GROUP BY 1
+      ) t
+    ), '[]'::jsonb),
+    'by_method', COALESCE((
+      SELECT jsonb_agg(t ORDER BY t.count DESC)
+      FROM (
+        SELECT detection_method, count(*) AS count
+        FROM scoped
+        GROUP BY 1
+      ) t
+    ), '[]'::jsonb),
+    'top_hazards', COALESCE((
+      SELECT jsonb_agg(t ORDER BY t.count DESC)
+      FROM (
+        SELECT
+          violation_type,
+          count(*) AS count,
+          count(*) FILTER (WHERE severity = 'critical') AS critical,
+          count(DISTINCT COALESCE(video_id::text, source_name)) AS sources,
+          count(DISTINCT detected_at::date) AS days,
+          round(avg(confidence)::numeric, 3) AS avg_confidence,
+          max(detected_at) AS last_seen
+        FROM scoped
+        GROUP BY 1
+        ORDER BY count(*) DESC
+        LIMIT 10
+      ) t
+    ), '[]'::jsonb)
+  );
+$$;
+
+-- Site comparison counts events as well; an event is a false positive once every
+-- detection in it was rejected
+CREATE OR REPLACE FUNCTION public.site_comparison(
+  p_from TIMESTAMP WITH TIME ZONE,
+  p_to TIMESTAMP WITH TIME ZONE
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_role('admin') THEN
+    RAISE EXCEPTION 'Only organization admins can compare sites';
+  END IF;
+
+  RETURN (
+    WITH org_sites AS (
+      SELECT id, name FROM public.sites WHERE organization_id = public.current_organization_id()
+    ),
+    scoped AS (
+      SELECT
+        e.site_id,
+        e.video_id,
+        e.violation_type,
+        e.severity,
+        e.false_positive_count = e.detection_count AS false_positive
+      FROM public.violation_events e
+      JOIN org_sites s ON s.id = e.site_id
+      WHERE e.started_at >= p_from
+        AND e.started_at < p_to
+    )
+    SELECT jsonb_build_object(
+      'sites', COALESCE((
+        SELECT jsonb_agg(t ORDER BY t.name)
+        FROM (
+          SELECT
+            s.id AS site_id,
+            s.name,
+            count(v.site_id) FILTER (WHERE NOT v.false_positive) AS total,
+            count(v.site_id) FILTER (WHERE NOT v.false_positive AND v.severity = 'critical') AS critical,
+            count(v.site_id) FILTER (WHERE v.false_positive) AS false_positives,
+            count(DISTINCT v.video_id) AS videos
+          FROM org_sites s
+          LEFT JOIN scoped v ON v.site_id = s.id
+          GROUP BY s.id, s.name
+        ) t
+      ), '[]'::jsonb),
+      'by_type', COALESCE((
+        SELECT jsonb_agg(t)
+        FROM (
+          SELECT site_id, violation_type, count(*) AS count
+          FROM scoped
+          WHERE NOT false_positive
+          GROUP BY 1, 2
+        ) t
+      ), '[]'::jsonb)
+    )
+  );
+END;
+$$;
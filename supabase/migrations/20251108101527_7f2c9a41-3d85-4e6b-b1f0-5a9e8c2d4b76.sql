@@ -0,0 +1,38 @@
+-- Detector backends: detection_settings.detection_method now picks the detector of
+-- analyze-video and analyze-stream-frame, per user or per site
+
+-- Frames the detector failed on (HTTP errors, timeouts); the job skips them and goes on
+ALTER TABLE public.analysis_jobs
+  ADD COLUMN IF NOT EXISTS frames_failed INTEGER NOT NULL DEFAULT 0;
+
+-- Site-wide settings (set by admins) apply to everyone at the site without a row of their own
+ALTER TABLE public.detection_settings
+  ALTER COLUMN user_id DROP NOT NULL,
+  ADD COLUMN site_id UUID UNIQUE REFERENCES public.sites(id) ON DELETE CASCADE,
+  ADD CONSTRAINT detection_settings_scope_check CHECK ((user_id IS NULL) <> (site_id IS NULL));
+
+-- The column was never read; existing rows keep the backend that actually ran (the LLM gateway)
+UPDATE public.detection_settings SET detection_method = 'llm' WHERE detection_method = 'roboflow';
+
+ALTER TABLE public.detection_settings
+  ALTER COLUMN detection_method SET DEFAULT 'llm',
+  ADD CONSTRAINT detection_settings_method_check CHECK (detection_method IN ('llm', 'roboflow', 'yolo', 'mock'));
+
+CREATE POLICY "Site members can view site detection settings"
+ON public.detection_settings
+FOR SELECT
+TO authenticated
+USING (site_id IS NOT NULL AND public.can_access_site(site_id));
+
+CREATE POLICY "Admins can add site detection settings"
+ON public.detection_settings
+FOR INSERT
+TO authenticated
+WITH CHECK (site_id IS NOT NULL AND public.has_role('admin') AND public.can_access_site(site_id));
+
+CREATE POLICY "Admins can update site detection settings"
+ON public.detection_settings
+FOR UPDATE
+TO authenticated
+USING (site_id IS NOT NULL AND public.has_role('admin') AND public.can_access_site(site_id))
+WITH CHECK (site_id IS NOT NULL AND public.has_role('admin') AND public.can_access_site(site_id));
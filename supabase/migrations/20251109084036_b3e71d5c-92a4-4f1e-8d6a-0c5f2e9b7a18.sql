@@ -0,0 +1,37 @@
+-- Detection settings beyond the backend: per-type confidence minimums, frame sampling,
+-- enabled violation types and rule engine thresholds, read by analyze-video and
+-- analyze-stream-frame instead of their built-in defaults
+
+ALTER TABLE public.detection_settings
+  -- Violation type → minimum confidence (0-1) of any finding of that type; unlisted types use 0.6
+  ADD COLUMN confidence_thresholds JSONB NOT NULL DEFAULT '{}'::jsonb
+    CHECK (jsonb_typeof(confidence_thresholds) = 'object'),
+  -- Seconds between sampled frames of an uploaded video
+  ADD COLUMN frame_interval_seconds NUMERIC NOT NULL DEFAULT 2
+    CHECK (frame_interval_seconds >= 0.5 AND frame_interval_seconds <= 600),
+  ADD COLUMN max_frames_per_video INTEGER NOT NULL DEFAULT 6
+    CHECK (max_frames_per_video BETWEEN 1 AND 120),
+  ADD COLUMN enabled_violation_types TEXT[] NOT NULL DEFAULT ARRAY[
+    'Human handling a drill',
+    'Broken cylinder',
+    'Human using beam/rod on drill',
+    'LH machines collision risk',
+    'Equipment Failure',
+    'Collision Risk'
+  ],
+  -- Overrides of the rule engine defaults (see supabase/functions/_shared/rule-engine.ts)
+  ADD COLUMN rule_thresholds JSONB NOT NULL DEFAULT '{}'::jsonb
+    CHECK (jsonb_typeof(rule_thresholds) = 'object');
+
+-- Going back to the defaults removes the row
+CREATE POLICY "Users can delete their own settings"
+ON public.detection_settings
+FOR DELETE
+TO authenticated
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can delete site detection settings"
+ON public.detection_settings
+FOR DELETE
+TO authenticated
+USING (site_id IS NOT NULL AND public.has_role('admin') AND public.can_access_site(site_id));
@@ -0,0 +1,247 @@
+-- Suppression policies: detections matching an active rule of their site are still
+-- recorded, but flagged as suppressed and kept out of violation events, so they do not
+-- reach the logs, dashboards or alerts unless asked for and what is filtered out can
+-- still be measured.
+CREATE TABLE IF NOT EXISTS public.suppression_rules (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  site_id UUID NOT NULL REFERENCES public.sites(id) ON DELETE CASCADE,
+  -- type: the ignored violation types of the site (one rule per site)
+  -- window: types at a camera or in a zone, optionally during a time of day (e.g. maintenance bays)
+  -- example: detections like a recurring false positive marked by a reviewer
+  kind TEXT NOT NULL CHECK (kind IN ('type', 'window', 'example')),
+  name TEXT NOT NULL,
+  -- Compared case-insensitively; empty matches any type, except for 'type' rules where it matches none
+  violation_types TEXT[] NOT NULL DEFAULT '{}',
+  camera_id UUID REFERENCES public.cameras(id) ON DELETE CASCADE,
+  zone TEXT,
+  -- Time of day of detection in the rule's time zone; may wrap past midnight
+  active_from TIME,
+  active_to TIME,
+  timezone TEXT NOT NULL DEFAULT 'UTC' CHECK (now() AT TIME ZONE timezone IS NOT NULL),
+  -- Example rules: the marked detection, its source when it has no camera, and its boxes
+  -- as fractions of the frame, [[x1, y1, x2, y2], ...]; without boxes type and source match
+  example_violation_id UUID REFERENCES public.violations(id) ON DELETE SET NULL,
+  source_type TEXT,
+  source_name TEXT,
+  example_boxes JSONB NOT NULL DEFAULT '[]'::jsonb CHECK (jsonb_typeof(example_boxes) = 'array'),
+  -- Intersection over union a detection box needs with one of the example boxes
+  min_overlap NUMERIC NOT NULL DEFAULT 0.5 CHECK (min_overlap > 0 AND min_overlap <= 1),
+  expires_at TIMESTAMP WITH TIME ZONE,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  CHECK ((active_from IS NULL) = (active_to IS NULL)),
+  CHECK (kind <> 'example' OR camera_id IS NOT NULL OR source_name IS NOT NULL)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS suppression_rules_site_type_key ON public.suppression_rules (site_id) WHERE kind = 'type';
+CREATE INDEX IF NOT EXISTS idx_suppression_rules_site ON public.suppression_rules (site_id) WHERE is_active;
+
+ALTER TABLE public.suppression_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Site members can view suppression rules"
+ON public.suppression_rules
+FOR SELECT
+TO authenticated
+USING (public.can_access_site(site_id));
+
+CREATE POLICY "Safety reviewers can create suppression rules"
+ON public.suppression_rules
+FOR INSERT
+TO authenticated
+WITH CHECK (public.has_role('safety_reviewer') AND public.can_access_site(site_id));
+
+CREATE POLICY "Safety reviewers can update suppression rules"
+ON public.suppression_rules
+FOR UPDATE
+TO authenticated
+USING (public.has_role('safety_reviewer') AND public.can_access_site(site_id))
+WITH CHECK (public.has_role('safety_reviewer') AND public.can_access_site(site_id));
+
+CREATE POLICY "Safety reviewers can delete suppression rules"
+ON public.suppression_rules
+FOR DELETE
+TO authenticated
+USING (public.has_role('safety_reviewer') AND public.can_access_site(site_id));
+
+CREATE TRIGGER update_suppression_rules_updated_at
+  BEFORE UPDATE ON public.suppression_rules
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_models_updated_at();
+
+CREATE TRIGGER audit_suppression_rules
+AFTER INSERT OR UPDATE OR DELETE ON public.suppression_rules
+FOR EACH ROW
+EXECUTE FUNCTION public.record_audit_entry();
+
+ALTER TABLE public.violations
+  ADD COLUMN suppressed BOOLEAN NOT NULL DEFAULT false,
+  -- Kept when the rule is deleted, so the reason stays readable
+  ADD COLUMN suppression_rule_id UUID REFERENCES public.suppression_rules(id) ON DELETE SET NULL,
+  ADD COLUMN suppression_reason TEXT;
+
+CREATE INDEX IF NOT EXISTS violations_suppressed_idx ON public.violations (site_id, detected_at DESC) WHERE suppressed;
+
+-- Reviewers suppress and restore detections from the client, next to the review columns
+GRANT UPDATE (suppressed, suppression_rule_id, suppression_reason) ON public.violations TO authenticated;
+
+-- Largest intersection over union between the boxes of a violation (metadata.boxes in
+-- the pixels of metadata.frame_size) and normalized example boxes
+CREATE OR REPLACE FUNCTION public.violation_box_overlap(p_metadata JSONB, p_example_boxes JSONB)
+RETURNS NUMERIC
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  WITH size AS (
+    SELECT
+      COALESCE(NULLIF((p_metadata->'frame_size'->>'width')::numeric, 0), 1) AS w,
+      COALESCE(NULLIF((p_metadata->'frame_size'->>'height')::numeric, 0), 1) AS h
+  ),
+  boxes AS (
+    SELECT
+      (d->'box'->>0)::numeric / size.w AS x1,
+      (d->'box'->>1)::numeric / size.h AS y1,
+      (d->'box'->>2)::numeric / size.w AS x2,
+      (d->'box'->>3)::numeric / size.h AS y2
+    FROM size, jsonb_array_elements(
+      CASE WHEN jsonb_typeof(p_metadata->'boxes') = 'array' THEN p_metadata->'boxes' ELSE '[]'::jsonb END
+    ) d
+  ),
+  examples AS (
+    SELECT (e->>0)::numeric AS x1, (e->>1)::numeric AS y1, (e->>2)::numeric AS x2, (e->>3)::numeric AS y2
+    FROM jsonb_array_elements(p_example_boxes) e
+  ),
+  pairs AS (
+    SELECT
+      GREATEST(0, LEAST(b.x2, x.x2) - GREATEST(b.x1, x.x1)) * GREATEST(0, LEAST(b.y2, x.y2) - GREATEST(b.y1, x.y1)) AS inter,
+      (b.x2 - b.x1) * (b.y2 - b.y1) + (x.x2 - x.x1) * (x.y2 - x.y1) AS total
+    FROM boxes b, examples x
+  )
+  SELECT COALESCE(max(inter / NULLIF(total - inter, 0)), 0) FROM pairs;
+$$;
+
+-- Windows are checked against detected_at. For uploaded videos that is the time of the
+-- analysis plus the frame's offset in the video, not when the footage was recorded, so
+-- time-of-day windows only reliably apply to live streams and device cameras.
+CREATE OR REPLACE FUNCTION public.in_time_window(p_at TIMESTAMP WITH TIME ZONE, p_from TIME, p_to TIME, p_timezone TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT p_from IS NULL OR p_to IS NULL OR CASE
+    WHEN p_from <= p_to THEN t >= p_from AND t < p_to
+    ELSE t >= p_from OR t < p_to
+  END
+  FROM (SELECT (p_at AT TIME ZONE p_timezone)::time AS t) local_time;
+$$;
+
+-- The first active rule of the violation's site that matches it: ignored types, then
+-- windows, then examples
+CREATE OR REPLACE FUNCTION public.violation_suppression_for(v public.violations, OUT rule_id UUID, OUT reason TEXT)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    r.id,
+    CASE r.kind
+      WHEN 'type' THEN 'Ignored type'
+      WHEN 'window' THEN 'Suppression window: ' || r.name
+      ELSE 'Like a marked false positive: ' || r.name
+    END
+  FROM public.suppression_rules r
+  WHERE r.site_id = v.site_id
+    AND r.is_active
+    AND (r.expires_at IS NULL OR r.expires_at > v.detected_at)
+    AND (
+      lower(v.violation_type) IN (SELECT lower(t) FROM unnest(r.violation_types) t)
+      OR (r.kind <> 'type' AND cardinality(r.violation_types) = 0)
+    )
+    AND (r.camera_id IS NULL OR r.camera_id = v.camera_id)
+    AND (r.zone IS NULL OR r.zone = v.zone)
+    AND (r.source_name IS NULL OR (r.source_type = v.source_type AND r.source_name = v.source_name))
+    AND public.in_time_window(v.detected_at, r.active_from, r.active_to, r.timezone)
+    AND (
+      r.kind <> 'example'
+      OR jsonb_array_length(r.example_boxes) = 0
+      OR public.violation_box_overlap(v.metadata, r.example_boxes) >= r.min_overlap
+    )
+  ORDER BY CASE r.kind WHEN 'type' THEN 0 WHEN 'window' THEN 1 ELSE 2 END, r.created_at
+  LIMIT 1;
+$$;
+
+-- Suppression is decided right before clustering, once set_violation_camera has filled in
+-- the camera and zone; suppressed detections never join an event
+CREATE OR REPLACE FUNCTION public.set_violation_event()
+RETURNS TRIGGER AS $$
+DECLARE
+  s RECORD;
+BEGIN
+  IF NOT NEW.suppressed THEN
+    SELECT * INTO s FROM public.violation_suppression_for(NEW);
+    IF s.rule_id IS NOT NULL THEN
+      NEW.suppressed = true;
+      NEW.suppression_rule_id = s.rule_id;
+      NEW.suppression_reason = s.reason;
+    END IF;
+  END IF;
+
+  IF NEW.event_id IS NULL AND NOT NEW.suppressed THEN
+    NEW.event_id = public.violation_event_for(NEW);
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Reviewers may suppress a detection by hand or restore a suppressed one, which takes it
+-- out of its event or clusters it into one. Runs as definer because only the triggers
+-- may write events.
+CREATE OR REPLACE FUNCTION public.set_violation_suppressed()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.suppressed THEN
+    NEW.event_id = NULL;
+    NEW.suppression_reason = COALESCE(NEW.suppression_reason, 'Suppressed in review');
+  ELSE
+    NEW.suppression_rule_id = NULL;
+    NEW.suppression_reason = NULL;
+    IF NEW.event_id IS NULL THEN
+      NEW.event_id = public.violation_event_for(NEW);
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER set_violation_suppressed
+  BEFORE UPDATE OF suppressed ON public.violations
+  FOR EACH ROW
+  WHEN (OLD.suppressed IS DISTINCT FROM NEW.suppressed)
+  EXECUTE FUNCTION public.set_violation_suppressed();
+
+-- Suppressing or restoring moves the detection out of or into an event
+DROP TRIGGER IF EXISTS sync_violation_event ON public.violations;
+
+CREATE TRIGGER sync_violation_event
+  AFTER UPDATE OF review_status, camera_id, zone, event_id, suppressed OR DELETE ON public.violations
+  FOR EACH ROW
+  EXECUTE FUNCTION public.sync_violation_event();
+
+-- What the rules of a site filtered out since p_from, per rule and type
+CREATE OR REPLACE FUNCTION public.suppression_stats(p_site_id UUID, p_from TIMESTAMP WITH TIME ZONE)
+RETURNS TABLE (suppression_rule_id UUID, suppression_reason TEXT, violation_type TEXT, count BIGINT, last_detected_at TIMESTAMP WITH TIME ZONE)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT v.suppression_rule_id, v.suppression_reason, v.violation_type, count(*), max(v.detected_at)
+  FROM public.violations v
+  WHERE v.site_id = p_site_id
+    AND v.suppressed
+    AND v.detected_at >= p_from
+  GROUP BY v.suppression_rule_id, v.suppression_reason, v.violation_type
+  ORDER BY count(*) DESC;
+$$;
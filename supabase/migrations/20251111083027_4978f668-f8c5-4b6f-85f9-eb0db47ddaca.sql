@@ -0,0 +1,147 @@
+-- Ground truth: labeled time ranges of videos, imported from annotation files or read from
+-- file names. Kept apart from violations so detections only ever come from a detector, and
+-- used to measure how well the detector does.
+CREATE TABLE IF NOT EXISTS public.video_annotations (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  site_id UUID NOT NULL REFERENCES public.sites(id) ON DELETE CASCADE,
+  -- Labels are imported by file name and linked to the upload of that name once it exists
+  video_name TEXT NOT NULL,
+  video_id UUID REFERENCES public.videos(id) ON DELETE SET NULL,
+  violation_type TEXT NOT NULL,
+  -- Seconds from the start of the video; a label of a single moment has start = end
+  start_seconds NUMERIC NOT NULL CHECK (start_seconds >= 0),
+  end_seconds NUMERIC NOT NULL,
+  -- import: an annotation file; filename: parsed from the name of the uploaded video
+  source TEXT NOT NULL DEFAULT 'import' CHECK (source IN ('import', 'filename')),
+  source_file TEXT,
+  note TEXT,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  CHECK (end_seconds >= start_seconds)
+);
+
+-- Importing the same file twice adds nothing
+CREATE UNIQUE INDEX IF NOT EXISTS video_annotations_label_key
+  ON public.video_annotations (site_id, lower(video_name), violation_type, start_seconds, end_seconds);
+CREATE INDEX IF NOT EXISTS idx_video_annotations_video_id ON public.video_annotations (video_id);
+
+ALTER TABLE public.video_annotations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Site members can view video annotations"
+ON public.video_annotations
+FOR SELECT
+TO authenticated
+USING (public.can_access_site(site_id));
+
+CREATE POLICY "Safety reviewers can import video annotations"
+ON public.video_annotations
+FOR INSERT
+TO authenticated
+WITH CHECK (public.has_role('safety_reviewer') AND public.can_access_site(site_id));
+
+CREATE POLICY "Safety reviewers can update video annotations"
+ON public.video_annotations
+FOR UPDATE
+TO authenticated
+USING (public.has_role('safety_reviewer') AND public.can_access_site(site_id))
+WITH CHECK (public.has_role('safety_reviewer') AND public.can_access_site(site_id));
+
+CREATE POLICY "Safety reviewers can delete video annotations"
+ON public.video_annotations
+FOR DELETE
+TO authenticated
+USING (public.has_role('safety_reviewer') AND public.can_access_site(site_id));
+
+CREATE TRIGGER audit_video_annotations
+AFTER INSERT OR UPDATE OR DELETE ON public.video_annotations
+FOR EACH ROW
+EXECUTE FUNCTION public.record_audit_entry();
+
+-- A label names its video; link it to the latest upload of that name at the site
+CREATE OR REPLACE FUNCTION public.set_annotation_video()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.video_id IS NULL THEN
+    SELECT id INTO NEW.video_id
+    FROM public.videos
+    WHERE site_id = NEW.site_id AND lower(original_name) = lower(NEW.video_name)
+    ORDER BY created_at DESC
+    LIMIT 1;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER set_annotation_video
+  BEFORE INSERT OR UPDATE OF video_name, video_id ON public.video_annotations
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_annotation_video();
+
+-- Labels imported before their video was uploaded are linked when it arrives. Runs as
+-- definer because uploaders may not edit annotations.
+CREATE OR REPLACE FUNCTION public.link_video_annotations()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE public.video_annotations
+  SET video_id = NEW.id
+  WHERE site_id = NEW.site_id
+    AND video_id IS NULL
+    AND lower(video_name) = lower(NEW.original_name);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.link_video_annotations() FROM PUBLIC, anon, authenticated;
+
+CREATE TRIGGER link_video_annotations
+  AFTER INSERT ON public.videos
+  FOR EACH ROW
+  EXECUTE FUNCTION public.link_video_annotations();
+
+-- The "detections" analyze-video used to fabricate from file names become labels: one per
+-- video and type at the parsed moment (the middle of the three frames written around it).
+-- Hints are mapped onto the violation types like matchViolationType() in
+-- supabase/functions/_shared/analysis.ts; hints matching none are dropped, and so are
+-- detections a reviewer rejected as false positives.
+INSERT INTO public.video_annotations (site_id, video_name, video_id, violation_type, start_seconds, end_seconds, source, created_by)
+SELECT site_id, video_name, video_id, violation_type, moment, moment, 'filename', NULL
+FROM (
+  SELECT
+    v.site_id,
+    v.source_name AS video_name,
+    v.video_id,
+    CASE
+      WHEN known.type IS NOT NULL THEN known.type
+      WHEN v.violation_type ~* '\mlh\M|load.?haul' AND v.violation_type ~* 'collision|close' THEN 'LH machines collision risk'
+      WHEN v.violation_type ~* 'drill' AND v.violation_type ~* 'rod|beam|stick' THEN 'Human using beam/rod on drill'
+      WHEN v.violation_type ~* 'drill' THEN 'Human handling a drill'
+      WHEN v.violation_type ~* 'cylinder' THEN 'Broken cylinder'
+      WHEN v.violation_type ~* 'collision' THEN 'Collision Risk'
+      WHEN v.violation_type ~* 'oil|hydraulic|leak|failure|cable' THEN 'Equipment Failure'
+    END AS violation_type,
+    round(avg(v.frame_number) / COALESCE(NULLIF((max(v.metadata->>'video_fps'))::numeric, 0), 30), 2) AS moment
+  FROM public.violations v
+  LEFT JOIN unnest(ARRAY[
+    'Human handling a drill', 'Broken cylinder', 'Human using beam/rod on drill',
+    'LH machines collision risk', 'Equipment Failure', 'Collision Risk'
+  ]) AS known(type) ON lower(known.type) = lower(v.violation_type)
+  WHERE v.metadata->>'detection_method' = 'filename_parsing'
+    AND v.review_status <> 'false_positive'
+    AND v.site_id IS NOT NULL
+  GROUP BY v.site_id, v.source_name, v.video_id, v.violation_type, known.type
+) labels
+WHERE violation_type IS NOT NULL
+ON CONFLICT DO NOTHING;
+
+-- Reviewed ones and those that raised an alert are kept with their review and alert, but
+-- suppressed out of the logs, events and dashboards; the rest are deleted
+UPDATE public.violations v
+SET suppressed = true,
+    suppression_reason = 'File name label, moved to ground truth'
+WHERE v.metadata->>'detection_method' = 'filename_parsing'
+  AND (v.review_status <> 'unreviewed' OR EXISTS (SELECT 1 FROM public.alerts a WHERE a.violation_id = v.id));
+
+DELETE FROM public.violations v
+WHERE v.metadata->>'detection_method' = 'filename_parsing'
+  AND v.review_status = 'unreviewed'
+  AND NOT EXISTS (SELECT 1 FROM public.alerts a WHERE a.violation_id = v.id);
@@ -0,0 +1,59 @@
+-- Evaluation runs: the detector of a site replayed over its labeled videos and scored against
+-- the ground truth (video_annotations). Written by the evaluate-detector function only; the
+-- history per detector version shows regressions.
+CREATE TABLE IF NOT EXISTS public.evaluation_runs (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  site_id UUID NOT NULL REFERENCES public.sites(id) ON DELETE CASCADE,
+  requested_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  status TEXT NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'running', 'succeeded', 'failed')),
+  -- Detector under test, as detectorVersion() in supabase/functions/_shared/analysis.ts
+  detection_method TEXT NOT NULL,
+  detector_version TEXT NOT NULL,
+  -- How far outside a label's time range a finding may be and still match it
+  tolerance_seconds NUMERIC NOT NULL DEFAULT 2 CHECK (tolerance_seconds >= 0 AND tolerance_seconds <= 60),
+  -- Detection settings the detector ran with
+  settings JSONB NOT NULL DEFAULT '{}'::jsonb,
+  -- Videos to score, [{video_id, video_name, job_id}], and progress through them
+  videos JSONB NOT NULL DEFAULT '[]'::jsonb,
+  videos_total INTEGER NOT NULL DEFAULT 0,
+  videos_done INTEGER NOT NULL DEFAULT 0,
+  -- Frames of the current video scored so far, those the detector failed on, and what they found;
+  -- the times of scored and failed frames tell which labels the run could see at all
+  frames_done INTEGER NOT NULL DEFAULT 0,
+  frames_failed INTEGER NOT NULL DEFAULT 0,
+  pending_findings JSONB NOT NULL DEFAULT '[]'::jsonb,
+  pending_scored_times JSONB NOT NULL DEFAULT '[]'::jsonb,
+  pending_failed_times JSONB NOT NULL DEFAULT '[]'::jsonb,
+  -- Labels and findings per video, then the scores (EvaluationSummary in _shared/evaluation.ts)
+  results JSONB NOT NULL DEFAULT '[]'::jsonb,
+  metrics JSONB,
+  error_message TEXT,
+  started_at TIMESTAMP WITH TIME ZONE,
+  finished_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_evaluation_runs_site ON public.evaluation_runs (site_id, created_at DESC);
+
+ALTER TABLE public.evaluation_runs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Site members can view evaluation runs"
+ON public.evaluation_runs
+FOR SELECT
+TO authenticated
+USING (public.can_access_site(site_id));
+
+CREATE POLICY "Admins can delete evaluation runs"
+ON public.evaluation_runs
+FOR DELETE
+TO authenticated
+USING (public.has_role('admin') AND public.can_access_site(site_id));
+
+CREATE TRIGGER update_evaluation_runs_updated_at
+  BEFORE UPDATE ON public.evaluation_runs
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_models_updated_at();
+
+-- The Evaluation page follows runs in progress
+ALTER PUBLICATION supabase_realtime ADD TABLE public.evaluation_runs;